@@ -0,0 +1,21 @@
+import type { Workflow, WorkflowEvent } from '../../index.js';
+
+/**
+ * Record every event a workflow tree emits
+ *
+ * Attaches an observer to `workflow` (events of its descendants reach the
+ * root's observers too) and returns the array it fills.
+ *
+ * @param workflow - Workflow to observe
+ * @returns Events in emission order, updated as they arrive
+ */
+export function collectEvents(workflow: Workflow): WorkflowEvent[] {
+  const events: WorkflowEvent[] = [];
+  workflow.addObserver({
+    onLog: () => {},
+    onEvent: (event) => events.push(event),
+    onStateUpdated: () => {},
+    onTreeChanged: () => {},
+  });
+  return events;
+}
@@ -0,0 +1,53 @@
+import { vi } from 'vitest';
+import { HarnessRegistry } from '../../harnesses/harness-registry.js';
+import type { Harness, HarnessId } from '../../types/harnesses.js';
+
+/**
+ * Create a mock harness that answers every call with `execute`
+ *
+ * Supports every feature; the remaining methods are resolved no-op mocks.
+ *
+ * @param execute - Stand-in for Harness.execute (usually a vi.fn())
+ * @param id - Harness id (default: 'pi')
+ * @returns The mock harness
+ */
+export function createFakeHarness(
+  execute: (...args: never[]) => Promise<unknown>,
+  id: HarnessId = 'pi' as HarnessId
+): Harness {
+  return {
+    id,
+    capabilities: {
+      mcp: true,
+      skills: true,
+      lsp: false,
+      streaming: true,
+      sessions: false,
+      extendedThinking: false,
+    },
+    initialize: vi.fn().mockResolvedValue(undefined),
+    terminate: vi.fn().mockResolvedValue(undefined),
+    execute,
+    registerMCPs: vi.fn().mockResolvedValue([]),
+    loadSkills: vi.fn().mockResolvedValue(undefined),
+    normalizeModel: vi.fn((model: string) => ({ provider: 'anthropic', model, raw: model })),
+    supports: vi.fn(() => true),
+    requiresFeatures: vi.fn(() => true),
+  } as unknown as Harness;
+}
+
+/**
+ * Create a mock harness with createFakeHarness() and register it
+ *
+ * Reset the registry with `HarnessRegistry['_resetForTesting']()` after each test.
+ *
+ * @returns The registered mock harness
+ */
+export function registerFakeHarness(
+  execute: (...args: never[]) => Promise<unknown>,
+  id?: HarnessId
+): Harness {
+  const harness = createFakeHarness(execute, id);
+  HarnessRegistry.getInstance().register(harness);
+  return harness;
+}
@@ -1,10 +1,10 @@
 /**
- * Test helper functions for tree validation
+ * Test helper functions for tree validation and event collection
  *
- * These helpers validate the 1:1 mirror invariant between the Workflow instance tree
+ * The tree helpers validate the 1:1 mirror invariant between the Workflow instance tree
  * and the WorkflowNode tree as specified in PRD Section 12.2.
  *
- * @module helpers/tree-verification
+ * @module helpers
  */
 
 export {
@@ -16,3 +16,6 @@ export {
   verifyTreeMirror,
   getDepth,
 } from './tree-verification.js';
+
+export { collectEvents } from './event-collection.js';
+export { createFakeHarness, registerFakeHarness } from './fake-harness.js';
@@ -359,6 +359,12 @@ describe('Error Code Handling', () => {
             return 'Handle internal error';
           case AGENT_ERROR_CODES.CONFIG_ERROR:
             return 'Handle config error';
+          case AGENT_ERROR_CODES.CANCELLED:
+            return 'Handle cancellation';
+          case AGENT_ERROR_CODES.TIMEOUT:
+            return 'Handle timeout';
+          case AGENT_ERROR_CODES.BUDGET_EXCEEDED:
+            return 'Handle budget';
           default:
             return 'Unknown error code';
         }
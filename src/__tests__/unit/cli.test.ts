@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile, readFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { runCli } from '../../cli/main.js';
+import type { CliIO } from '../../cli/io.js';
+import { defaultCache } from '../../index.js';
+import { FileSessionStore } from '../../harnesses/session-store.js';
+
+const INDEX = join(process.cwd(), 'src/index.ts');
+const ZOD = join(process.cwd(), 'node_modules/zod/index.js');
+
+/** CliIO that records output */
+function captureIO(cwd: string, isTTY = false): CliIO & { out: string; err: string } {
+  const io = {
+    out: '',
+    err: '',
+    isTTY,
+    cwd,
+    stdout: (text: string) => {
+      io.out += text;
+    },
+    stderr: (text: string) => {
+      io.err += text;
+    },
+  };
+  return io;
+}
+
+describe('groundswell CLI', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'groundswell-cli-'));
+    await writeFile(
+      join(dir, 'pipeline.ts'),
+      `import { createWorkflow } from ${JSON.stringify(INDEX)};
+import { z } from ${JSON.stringify(ZOD)};
+export default createWorkflow({ name: 'Pipeline', input: z.object({ n: z.number() }) }, async (ctx, { n: value }) => {
+  const n = await ctx.step('double', async () => value * 2);
+  return ctx.step('format', async () => ({ result: n }));
+});
+`
+    );
+    await writeFile(
+      join(dir, 'failing.ts'),
+      `import { Workflow } from ${JSON.stringify(INDEX)};
+export const workflow = () => new Workflow({ name: 'Failing' }, async (ctx) =>
+  ctx.step('explode', async () => {
+    throw Object.assign(new Error('boom'), { code: 'E_BOOM' });
+  })
+);
+`
+    );
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('run', () => {
+    it('should run a module with --input and print the tree and result', async () => {
+      const io = captureIO(dir);
+
+      const code = await runCli(['run', 'pipeline.ts', '--input', '{"n":21}'], io);
+
+      expect(code).toBe(0);
+      expect(io.out).toContain('✓ Pipeline [completed]');
+      expect(io.out).toContain('├── ✓ double [completed]');
+      expect(io.out).toContain('"result": 42');
+    });
+
+    it('should print machine-readable output with --json', async () => {
+      const io = captureIO(dir);
+
+      await runCli(['run', 'pipeline.ts', '--input', '{"n":1}', '--json'], io);
+
+      const output = JSON.parse(io.out);
+      expect(output).toMatchObject({
+        workflow: 'Pipeline',
+        status: 'completed',
+        data: { result: 2 },
+        stats: { totalNodes: 3 },
+        cache: { hits: expect.any(Number) },
+      });
+    });
+
+    it('should exit with 1 and report the error when the run fails', async () => {
+      const io = captureIO(dir);
+
+      const code = await runCli(['run', 'failing.ts', '--json'], io);
+
+      expect(code).toBe(1);
+      expect(JSON.parse(io.out)).toMatchObject({ status: 'failed', error: { message: 'boom', code: 'E_BOOM' } });
+    });
+
+    it('should redraw the tree on a terminal', async () => {
+      const io = captureIO(dir, true);
+
+      await runCli(['run', 'pipeline.ts', '--input', '{"n":1}'], io);
+
+      expect(io.out).toContain('✓ format [completed]');
+    });
+
+    it('should reject invalid usage with exit code 2', async () => {
+      const io = captureIO(dir);
+
+      expect(await runCli(['run', 'pipeline.ts', '--input', '{oops'], io)).toBe(2);
+      expect(io.err).toContain('--input is not valid JSON');
+      expect(await runCli(['launch'], io)).toBe(2);
+      expect(await runCli([], io)).toBe(2);
+      expect(await runCli(['--help'], captureIO(dir))).toBe(0);
+    });
+  });
+
+  describe('inspect and replay', () => {
+    it('should inspect and replay events saved by run --save-events', async () => {
+      const run = captureIO(dir);
+      await runCli(['run', 'failing.ts', '--save-events', 'events.json'], run);
+      expect(JSON.parse(await readFile(join(dir, 'events.json'), 'utf-8')).events.length).toBeGreaterThan(0);
+
+      const inspect = captureIO(dir);
+      expect(await runCli(['inspect', 'events.json', '--json'], inspect)).toBe(1);
+      const summary = JSON.parse(inspect.out);
+      expect(summary.byType.error).toBeGreaterThan(0);
+      expect(summary.errors[0]).toMatchObject({ message: 'boom' });
+
+      const replay = captureIO(dir);
+      expect(await runCli(['replay', 'events.json'], replay)).toBe(0);
+      expect(replay.out).toContain('✗ Failing [failed]');
+      expect(replay.out).toContain('└── ✗ explode [failed]');
+    });
+
+    it('should report a missing history file', async () => {
+      const io = captureIO(dir);
+
+      expect(await runCli(['inspect', 'missing.json'], io)).toBe(1);
+      expect(io.err).toContain('Event history file not found');
+    });
+  });
+
+  describe('sessions', () => {
+    it('should list and remove sessions', async () => {
+      const store = new FileSessionStore(join(dir, 'sessions'));
+      await store.save('alpha', { history: [], lastResult: null });
+      await store.save('beta', { history: [], lastResult: null });
+
+      const list = captureIO(dir);
+      await runCli(['sessions', 'list', '--dir', 'sessions', '--json'], list);
+      expect(JSON.parse(list.out).map((session: { id: string }) => session.id).sort()).toEqual(['alpha', 'beta']);
+
+      const remove = captureIO(dir);
+      expect(await runCli(['sessions', 'rm', 'alpha', 'gamma', '--dir', 'sessions'], remove)).toBe(1);
+      expect(remove.err).toContain("No session 'gamma'");
+      expect(await store.list()).toEqual(['beta']);
+
+      await runCli(['sessions', 'rm', '--all', '--dir', 'sessions'], captureIO(dir));
+      expect(await store.list()).toEqual([]);
+    });
+  });
+
+  describe('cache', () => {
+    afterEach(async () => {
+      await defaultCache.clear();
+    });
+
+    it('should show and clear cache metrics', async () => {
+      await defaultCache.set('key', { value: 1 });
+
+      const stats = captureIO(dir);
+      await runCli(['cache', 'stats', '--json'], stats);
+      expect(JSON.parse(stats.out)).toMatchObject({ size: 1 });
+
+      const clear = captureIO(dir);
+      await runCli(['cache', 'clear'], clear);
+      expect(clear.out).toBe('Cleared 1 cache entry\n');
+      expect(defaultCache.metrics().size).toBe(0);
+    });
+  });
+});
@@ -93,6 +93,17 @@ describe('AgentExecutionContext', () => {
     });
   });
 
+  it('should keep the signal and deadline in child contexts', async () => {
+    const controller = new AbortController();
+    const parentCtx = { ...createMockContext('parent'), signal: controller.signal, deadline: 1_000 };
+
+    await runInContext(parentCtx, async () => {
+      const childCtx = createChildContext(createMockNode('child'));
+      expect(childCtx?.signal).toBe(controller.signal);
+      expect(childCtx?.deadline).toBe(1_000);
+    });
+  });
+
   it('should return undefined for child context when not in context', () => {
     const childNode = createMockNode('child');
     const childCtx = createChildContext(childNode);
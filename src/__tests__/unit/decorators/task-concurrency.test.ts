@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import { Workflow, Task, getTaskResults, type TaskOptions } from '../../../index.js';
+import { collectEvents } from '../../helpers/index.js';
+
+/** Child workflow that records how many siblings run alongside it */
+class ItemWorkflow extends Workflow {
+  static active = 0;
+  static peak = 0;
+
+  constructor(
+    name: string,
+    parent: Workflow,
+    private readonly behaviour: { fail?: boolean; delayMs?: number } = {}
+  ) {
+    super(name, parent);
+  }
+
+  async run(): Promise<string> {
+    this.setStatus('running');
+    ItemWorkflow.active++;
+    ItemWorkflow.peak = Math.max(ItemWorkflow.peak, ItemWorkflow.active);
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, this.behaviour.delayMs ?? 5);
+        this.signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(this.signal.reason);
+        });
+      });
+      if (this.behaviour.fail) {
+        throw new Error(`${this.node.name} failed`);
+      }
+      this.setStatus('completed');
+      return this.node.name;
+    } catch (error) {
+      this.setStatus('failed');
+      throw error;
+    } finally {
+      ItemWorkflow.active--;
+    }
+  }
+}
+
+function createParent(
+  options: TaskOptions,
+  items: Array<{ fail?: boolean; delayMs?: number }>
+) {
+  class ParentWorkflow extends Workflow {
+    @Task(options)
+    async fanOut(): Promise<ItemWorkflow[]> {
+      return items.map((behaviour, i) => new ItemWorkflow(`item-${i}`, this, behaviour));
+    }
+
+    async run(): Promise<ItemWorkflow[]> {
+      return this.fanOut();
+    }
+  }
+
+  ItemWorkflow.active = 0;
+  ItemWorkflow.peak = 0;
+  const parent = new ParentWorkflow('Parent');
+  return { parent, events: collectEvents(parent) };
+}
+
+describe('@Task concurrency', () => {
+  it('should reject a maxConcurrency below one instead of running nothing', async () => {
+    const { parent } = createParent({ concurrent: true, maxConcurrency: 0.5, concurrencyMode: 'settle-all' }, [{}, {}]);
+
+    await expect(parent.run()).rejects.toBeInstanceOf(RangeError);
+  });
+
+  it('should limit the number of children running at once', async () => {
+    const { parent } = createParent({ concurrent: true, maxConcurrency: 2 }, Array(6).fill({}));
+
+    await parent.run();
+
+    expect(ItemWorkflow.peak).toBe(2);
+    expect(parent.children.every((c) => c.status === 'completed')).toBe(true);
+  });
+
+  it('should keep queued children idle until they start', async () => {
+    const { parent } = createParent(
+      { concurrent: true, maxConcurrency: 1 },
+      [{ delayMs: 30 }, {}, {}]
+    );
+
+    const pending = parent.run();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(parent.node.children.map((c) => c.status)).toEqual(['running', 'idle', 'idle']);
+    await pending;
+  });
+
+  it('should wait for every child and throw the first error by default', async () => {
+    const { parent } = createParent({ concurrent: true }, [{ fail: true }, {}, {}]);
+
+    await expect(parent.run()).rejects.toThrow('item-0 failed');
+    expect(parent.children.map((c) => c.status)).toEqual(['failed', 'completed', 'completed']);
+  });
+
+  it('should cancel siblings on the first failure in fail-fast mode', async () => {
+    const { parent, events } = createParent(
+      { concurrent: true, maxConcurrency: 2, concurrencyMode: 'fail-fast' },
+      [{ fail: true, delayMs: 5 }, { delayMs: 1000 }, {}, {}]
+    );
+
+    await expect(parent.run()).rejects.toThrow('item-0 failed');
+
+    expect(parent.children.map((c) => c.status)).toEqual([
+      'failed',
+      'cancelled',
+      'cancelled',
+      'cancelled',
+    ]);
+    // Queued siblings never started
+    expect(ItemWorkflow.peak).toBe(2);
+    const cancelled = events.filter((e) => e.type === 'cancelled');
+    expect(cancelled.map((e) => e.type === 'cancelled' && e.reason)).toContain(
+      "sibling workflow 'item-0' failed"
+    );
+  });
+
+  it('should cancel skipped children with the reason the pool skipped them', async () => {
+    // Children owned by another workflow are not cancelled along with the parent
+    const owner = new Workflow({ name: 'Owner' }, async () => {});
+    const ownerEvents = collectEvents(owner);
+
+    class ParentWorkflow extends Workflow {
+      @Task({ concurrent: true, maxConcurrency: 1 })
+      async fanOut(): Promise<ItemWorkflow[]> {
+        return [0, 1, 2].map((i) => new ItemWorkflow(`item-${i}`, owner, { delayMs: 20 }));
+      }
+
+      async run(): Promise<ItemWorkflow[]> {
+        return this.fanOut();
+      }
+    }
+
+    const parent = new ParentWorkflow('Parent');
+    const pending = parent.run();
+    setTimeout(() => parent.cancel('shutting down'), 5);
+
+    await expect(pending).rejects.toMatchObject({ code: 'CANCELLED' });
+    const cancelled = ownerEvents.filter((e) => e.type === 'cancelled');
+    expect(cancelled.map((e) => e.type === 'cancelled' && [e.node.name, e.reason])).toEqual([
+      ['item-1', 'shutting down'],
+      ['item-2', 'shutting down'],
+    ]);
+  });
+
+  it('should report per-child results in settle-all mode', async () => {
+    const { parent, events } = createParent(
+      { concurrent: true, concurrencyMode: 'settle-all' },
+      [{}, { fail: true }, {}]
+    );
+
+    const children = await parent.run();
+
+    expect(children).toHaveLength(3);
+    const taskEnd = events.find((e) => e.type === 'taskEnd');
+    const results = taskEnd?.type === 'taskEnd' ? taskEnd.results : undefined;
+    expect(results?.map((r) => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect(results?.[0]).toMatchObject({ workflowId: children[0].id, value: 'item-0' });
+    expect((results?.[1] as { reason: Error }).reason.message).toBe('item-1 failed');
+  });
+
+  it('should return per-child results with the children in settle-all mode', async () => {
+    const { parent } = createParent({ concurrent: true, concurrencyMode: 'settle-all' }, [{ fail: true }, {}]);
+
+    const children = await parent.run();
+    const results = getTaskResults(children);
+
+    expect(results).toEqual([
+      { workflowId: children[0].id, status: 'rejected', reason: expect.objectContaining({ message: 'item-0 failed' }) },
+      { workflowId: children[1].id, status: 'fulfilled', value: 'item-1' },
+    ]);
+  });
+
+  it('should not report results for other modes', async () => {
+    const { parent } = createParent({ concurrent: true }, [{}, {}]);
+
+    expect(getTaskResults(await parent.run())).toBeUndefined();
+    expect(getTaskResults(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,263 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createWorkflow, WorkflowEventReplayer, WorkflowTreeDebugger } from '../../index.js';
+import type { WorkflowEvent, WorkflowNode } from '../../types/index.js';
+
+describe('WorkflowEventReplayer history and time travel', () => {
+  let replayer: WorkflowEventReplayer;
+
+  beforeEach(() => {
+    replayer = new WorkflowEventReplayer();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('per-node history', () => {
+    const root = createMockNode('root', null);
+    const step = createMockNode('step', root);
+    const error = { message: 'overloaded', original: null, workflowId: 'root', state: {}, logs: [] };
+
+    const events: WorkflowEvent[] = [
+      { type: 'treeUpdated', root },
+      { type: 'stepStart', node: step, step: 'fetch' },
+      { type: 'agentPromptStart', agentId: 'a1', agentName: 'Fetcher', promptId: 'p1', node: step },
+      { type: 'cacheMiss', key: 'k1', node: step },
+      {
+        type: 'toolInvocation',
+        toolName: 'http_get',
+        input: { url: 'https://example.com' },
+        output: { status: 200 },
+        duration: 40,
+        node: step,
+      },
+      {
+        type: 'agentPromptEnd',
+        agentId: 'a1',
+        agentName: 'Fetcher',
+        promptId: 'p1',
+        node: step,
+        duration: 120,
+        tokenUsage: { input_tokens: 100, output_tokens: 20 },
+        model: 'anthropic/claude-sonnet-4-20250514',
+        costUsd: 0.0006,
+      },
+      {
+        type: 'stepRetry',
+        node: step,
+        stepName: 'fetch',
+        retryCount: 1,
+        analysis: { shouldRestart: true, reason: 'retry', suggestedAction: 'retry', estimatedSuccessProbability: 0.7 },
+        error,
+        timestamp: 1,
+        delayMs: 500,
+        delayReason: 'backoff',
+      },
+      { type: 'stepRestarted', node: step, stepName: 'fetch', retryCount: 2, restoredState: { page: 1 }, timestamp: 2 },
+      { type: 'cacheHit', key: 'k1', node: step },
+      { type: 'reflectionStart', level: 'prompt', node: step },
+      { type: 'reflectionEnd', level: 'prompt', success: true, node: step },
+      { type: 'mcpEvent', serverName: 'web', event: 'connected', node: step },
+      { type: 'stepEnd', node: step, step: 'fetch', duration: 300 },
+    ];
+
+    it('should attach step nodes that have no childAttached event', () => {
+      const tree = replayer.replay(events);
+
+      expect(tree.children).toHaveLength(1);
+      expect(tree.children[0]).toMatchObject({ id: 'step', status: 'completed' });
+      expect(tree.children[0].parent).toBe(tree);
+      expect(tree.children[0].events.map((event) => event.type)).toEqual(events.slice(1).map((event) => event.type));
+    });
+
+    it('should rebuild agent calls, tool calls, retries and metrics', () => {
+      replayer.replay(events);
+
+      const history = replayer.getNodeHistory('step');
+      expect(history?.agentCalls).toEqual([
+        {
+          promptId: 'p1',
+          agentId: 'a1',
+          agentName: 'Fetcher',
+          startIndex: 2,
+          endIndex: 5,
+          duration: 120,
+          tokenUsage: { input_tokens: 100, output_tokens: 20 },
+          model: 'anthropic/claude-sonnet-4-20250514',
+          costUsd: 0.0006,
+        },
+      ]);
+      expect(history?.toolCalls).toEqual([
+        {
+          toolName: 'http_get',
+          input: { url: 'https://example.com' },
+          output: { status: 200 },
+          duration: 40,
+          eventIndex: 4,
+        },
+      ]);
+      expect(history?.retries).toEqual([
+        {
+          kind: 'retry',
+          step: 'fetch',
+          retryCount: 1,
+          eventIndex: 6,
+          errorMessage: 'overloaded',
+          delayMs: 500,
+          delayReason: 'backoff',
+        },
+        { kind: 'restart', step: 'fetch', retryCount: 2, eventIndex: 7 },
+      ]);
+      expect(history?.metrics).toEqual({
+        agentCalls: 1,
+        toolCalls: 1,
+        retries: 1,
+        restarts: 1,
+        invalidResponses: 0,
+        cacheHits: 1,
+        cacheMisses: 1,
+        reflections: 1,
+        tokenUsage: { input: 100, output: 20 },
+        costUsd: 0.0006,
+        stepDurationMs: 300,
+      });
+      expect(replayer.getTree()?.children[0].stateSnapshot).toEqual({ page: 1 });
+    });
+
+    it('should record agent calls whose start was not recorded', () => {
+      replayer.replay([
+        { type: 'treeUpdated', root: createMockNode('root', null) },
+        { type: 'agentPromptEnd', agentId: 'a1', agentName: 'A', promptId: 'p9', node: root, duration: 5 },
+      ]);
+
+      const [call] = replayer.getNodeHistory('root')?.agentCalls ?? [];
+      expect(call).toMatchObject({ promptId: 'p9', endIndex: 1, duration: 5 });
+      expect(call.startIndex).toBeUndefined();
+    });
+
+    it('should not modify the replayed events', () => {
+      const original = createMockNode('root', null);
+
+      replayer.replay([{ type: 'treeUpdated', root: original }, ...events.slice(1)]);
+
+      expect(original.children).toEqual([]);
+      expect(original.events).toEqual([]);
+    });
+  });
+
+  describe('time travel', () => {
+    const root = createMockNode('root', null);
+    const first = createMockNode('first', root);
+    const second = createMockNode('second', root);
+    const error = { message: 'boom', original: null, workflowId: 'root', state: {}, logs: [] };
+
+    const events: WorkflowEvent[] = [
+      { type: 'treeUpdated', root },
+      { type: 'stepStart', node: first, step: 'first' },
+      { type: 'stepEnd', node: first, step: 'first', duration: 10 },
+      { type: 'stepStart', node: second, step: 'second' },
+      { type: 'error', node: second, error },
+    ];
+
+    const statuses = (tree: WorkflowNode | null) => tree?.children.map((child) => `${child.id}:${child.status}`);
+
+    it('should seek backward and forward to any event index', () => {
+      expect(statuses(replayer.replay(events))).toEqual(['first:completed', 'second:failed']);
+      expect(replayer.getPosition()).toBe(5);
+
+      expect(statuses(replayer.seek(2))).toEqual(['first:running']);
+      expect(replayer.getCurrentEvent()).toBe(events[1]);
+
+      expect(statuses(replayer.seek(4))).toEqual(['first:completed', 'second:running']);
+      expect(replayer.seek(0)).toBeNull();
+      expect(replayer.getCurrentEvent()).toBeUndefined();
+      expect(statuses(replayer.seek(5))).toEqual(['first:completed', 'second:failed']);
+    });
+
+    it('should step one event at a time', () => {
+      replayer.replay(events);
+
+      expect(statuses(replayer.stepBackward())).toEqual(['first:completed', 'second:running']);
+      expect(statuses(replayer.stepBackward())).toEqual(['first:completed']);
+      expect(statuses(replayer.stepForward())).toEqual(['first:completed', 'second:running']);
+      replayer.stepForward();
+      expect(replayer.stepForward()).toBe(replayer.getTree());
+      expect(replayer.getPosition()).toBe(events.length);
+    });
+
+    it('should rebuild node histories when seeking backward', () => {
+      replayer.replay(events);
+      expect(replayer.getNodeHistory('first')?.metrics.stepDurationMs).toBe(10);
+
+      replayer.seek(2);
+
+      expect(replayer.getNodeHistory('first')).toBeUndefined();
+      expect(replayer.getTree()?.children[0].events).toHaveLength(1);
+    });
+
+    it('should reject out-of-range indices and seeking before replay', () => {
+      expect(() => replayer.seek(0)).toThrow('call replay() first');
+
+      replayer.replay(events);
+
+      expect(() => replayer.seek(6)).toThrow(RangeError);
+      expect(() => replayer.seek(-1)).toThrow('out of range (0-5)');
+      expect(replayer.getEvents()).toEqual(events);
+    });
+  });
+
+  describe('saved event histories', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'groundswell-replay-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should travel through a failed run loaded from disk', async () => {
+      const workflow = createWorkflow({ name: 'Pipeline' }, async (ctx) => {
+        await ctx.step('fetch', async () => 'page');
+        await ctx.step('parse', async () => {
+          throw new Error('bad markup');
+        });
+      });
+      const live = new WorkflowTreeDebugger(workflow, { persistEvents: true });
+      await expect(workflow.run()).rejects.toThrow('bad markup');
+      await live.saveEventHistory(join(dir, 'run.json'));
+
+      const restored = await WorkflowTreeDebugger.fromEventHistoryFile(join(dir, 'run.json'));
+      const events = restored.getEventHistory();
+      const tree = replayer.replay(events);
+
+      expect(tree.name).toBe('Pipeline');
+      expect(statuses(tree)).toEqual(['fetch:completed', 'parse:failed']);
+
+      const parseStart = events.findIndex((event) => event.type === 'stepStart' && event.step === 'parse');
+      expect(statuses(replayer.seek(parseStart))).toEqual(['fetch:completed']);
+    });
+
+    function statuses(tree: WorkflowNode | null) {
+      return tree?.children.map((child) => `${child.name}:${child.status}`);
+    }
+  });
+});
+
+/**
+ * Helper function to create mock WorkflowNode
+ */
+function createMockNode(id: string, parent: WorkflowNode | null): WorkflowNode {
+  return {
+    id,
+    name: id,
+    parent,
+    children: [],
+    status: 'idle',
+    logs: [],
+    events: [],
+    stateSnapshot: null,
+  };
+}
@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, appendFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  Workflow,
+  Step,
+  MemoryEventStore,
+  MemoryCheckpointStore,
+  JsonLinesEventStore,
+  totalTokensByModel,
+  stepDurationPercentile,
+  failureCountsByCode,
+} from '../../index.js';
+import type { EventStore, StoredEvent, WorkflowNode } from '../../types/index.js';
+
+class ParseWorkflow extends Workflow {
+  @Step()
+  async extract(): Promise<void> {
+    this.emitEvent({
+      type: 'agentPromptEnd',
+      agentId: 'agent-1',
+      agentName: 'Extractor',
+      promptId: 'prompt-1',
+      node: this.node,
+      duration: 40,
+      tokenUsage: { input_tokens: 100, output_tokens: 20 },
+      model: 'anthropic/claude-sonnet-4',
+      costUsd: 0.01,
+    });
+  }
+
+  async run(): Promise<void> {
+    await this.extract();
+  }
+}
+
+class IngestWorkflow extends Workflow {
+  readonly parse = new ParseWorkflow('Parse', this);
+
+  @Step()
+  async load(): Promise<void> {
+    throw Object.assign(new Error('disk full'), { code: 'ENOSPC' });
+  }
+
+  async run(): Promise<void> {
+    await this.parse.run();
+    await this.load().catch(() => {});
+  }
+}
+
+/** Attach an ingest workflow to a root workflow that writes to the store */
+function ingestWithStore(store: EventStore): IngestWorkflow {
+  const ingest = new IngestWorkflow('Ingest');
+  new Workflow({ name: 'Root', eventHistory: { store } }, async () => {}).attachChild(ingest);
+  return ingest;
+}
+
+function stored(type: string, fields: Record<string, unknown> = {}, step?: string): StoredEvent {
+  return { runId: 'run-1', workflowId: 'wf', nodeId: 'wf', path: ['wf'], step, timestamp: 0, event: { type, timestamp: 0, ...fields } };
+}
+
+describe('event store', () => {
+  it('should store the events of the tree with node, step, agent and run ids', async () => {
+    const store = new MemoryEventStore();
+    const ingest = ingestWithStore(store);
+    const root = ingest.parent!;
+    await ingest.run();
+
+    const events = await store.query();
+    expect(events.every((event) => event.runId === root.id)).toBe(true);
+    expect(events.map((event) => event.event.type)).toContain('childAttached');
+
+    const prompt = await store.query({ agentId: 'agent-1' });
+    expect(prompt).toHaveLength(1);
+    expect(prompt[0]).toMatchObject({
+      workflowId: ingest.parse.id,
+      nodeId: ingest.parse.id,
+      path: [root.id, ingest.id, ingest.parse.id],
+      step: 'extract',
+      event: { type: 'agentPromptEnd', nodeName: 'Parse', tokenUsage: { input_tokens: 100, output_tokens: 20 } },
+    });
+    // Stored events are copies without node references
+    expect(prompt[0].event).not.toHaveProperty('node');
+  });
+
+  it('should query by type, node, subtree, step and time range', async () => {
+    // GOTCHA: Taken before the tree is built, which already stores a childAttached event
+    const started = Date.now();
+    const store = new MemoryEventStore();
+    const workflow = ingestWithStore(store);
+    await workflow.run();
+
+    expect((await store.query({ type: 'stepEnd' })).map((event) => event.step)).toEqual(['extract']);
+    expect((await store.query({ type: ['stepStart', 'stepEnd'], step: 'extract' })).map((event) => event.event.type)).toEqual([
+      'stepStart',
+      'stepEnd',
+    ]);
+    const subtree = await store.query({ subtreeOf: workflow.parse.id });
+    expect(subtree.length).toBeGreaterThan(0);
+    expect(subtree.every((event) => event.path.includes(workflow.parse.id))).toBe(true);
+    expect(await store.query({ nodeId: workflow.id, type: 'agentPromptEnd' })).toEqual([]);
+    expect(await store.query({ since: started, until: Date.now(), limit: 2 })).toHaveLength(2);
+    expect(await store.query({ until: started - 1 })).toEqual([]);
+  });
+
+  it('should use the checkpoint run id and keep events without history enabled', async () => {
+    const store = new MemoryEventStore();
+    const workflow = new Workflow(
+      { name: 'Nightly', checkpoint: { store: new MemoryCheckpointStore(), runId: 'nightly-7' }, eventHistory: { store } },
+      async () => {}
+    );
+    workflow.attachChild(new ParseWorkflow('Parse'));
+    await workflow.children[0].run();
+
+    const events = await store.query({ runId: 'nightly-7' });
+    expect(events.length).toBeGreaterThan(0);
+    expect(await store.query({ runId: workflow.id })).toEqual([]);
+  });
+
+  it('should store events when event history is disabled', async () => {
+    const store = new MemoryEventStore();
+    const workflow = new Workflow({ name: 'Quiet', eventHistory: { enabled: false, store } }, async (ctx) => {
+      await ctx.step('fetch', async () => 'ok');
+    });
+    await workflow.run();
+
+    const replayed: string[] = [];
+    workflow.replayEvents({
+      onLog: () => {},
+      onEvent: (event) => replayed.push(event.type),
+      onStateUpdated: () => {},
+      onTreeChanged: () => {},
+    });
+    expect(replayed).toEqual([]);
+    expect((await store.query({ type: 'stepEnd' })).map((event) => event.step)).toEqual(['fetch']);
+  });
+
+  it('should log append errors instead of throwing', () => {
+    const workflow = new Workflow(
+      {
+        name: 'Broken',
+        eventHistory: {
+          store: {
+            append: () => {
+              throw new Error('store down');
+            },
+            query: async () => [],
+          },
+        },
+      },
+      async () => {}
+    );
+    workflow.emitEvent({ type: 'cacheMiss', key: 'k', node: workflow.node as WorkflowNode });
+
+    expect(workflow.node.logs.map((entry) => entry.message)).toEqual(['Event store error']);
+    expect(workflow.node.events).toHaveLength(1);
+  });
+});
+
+describe('JsonLinesEventStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'groundswell-events-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should append JSON lines that a new store can query', async () => {
+    const path = join(dir, 'nested', 'events.jsonl');
+    const workflow = ingestWithStore(new JsonLinesEventStore(path));
+    await workflow.run();
+    await workflow.flushEvents();
+
+    const lines = (await readFile(path, 'utf-8')).trim().split('\n');
+    const reopened = new JsonLinesEventStore(path);
+    expect(await reopened.query()).toHaveLength(lines.length);
+    const errors = await reopened.query({ type: 'error' });
+    expect(errors[0].event.error).toMatchObject({ message: 'disk full', code: 'ENOSPC' });
+  });
+
+  it('should skip a partial last line and reject corrupt lines before it', async () => {
+    const path = join(dir, 'events.jsonl');
+    const store = new JsonLinesEventStore(path);
+    expect(await store.query()).toEqual([]);
+
+    store.append(stored('stepEnd', { duration: 5 }));
+    await store.flush();
+    await appendFile(path, '{"runId":"run-1","ev');
+    expect(await store.query()).toHaveLength(1);
+
+    await appendFile(path, '\n' + JSON.stringify(stored('stepEnd')) + '\n');
+    await expect(store.query()).rejects.toThrow(`Invalid event store line 2 in ${path}`);
+  });
+
+  it('should rethrow write errors on flush', async () => {
+    const store = new JsonLinesEventStore(dir);
+    store.append(stored('stepEnd'));
+
+    await expect(store.flush()).rejects.toThrow();
+    await expect(store.flush()).resolves.toBeUndefined();
+  });
+});
+
+describe('event aggregations', () => {
+  it('should total tokens and cost by model', () => {
+    const events = [
+      stored('agentPromptEnd', { model: 'openai/gpt-4o', tokenUsage: { input_tokens: 10, output_tokens: 5 }, costUsd: 0.5 }),
+      stored('agentPromptEnd', { model: 'openai/gpt-4o', tokenUsage: { input_tokens: 20, output_tokens: 1 }, costUsd: 0.25 }),
+      stored('agentPromptEnd', { tokenUsage: { input_tokens: 3, output_tokens: 4 } }),
+      stored('stepEnd', { duration: 1 }),
+    ];
+
+    expect(totalTokensByModel(events)).toEqual({
+      'openai/gpt-4o': { calls: 2, inputTokens: 30, outputTokens: 6, totalTokens: 36, costUsd: 0.75 },
+      unknown: { calls: 1, inputTokens: 3, outputTokens: 4, totalTokens: 7, costUsd: 0 },
+    });
+  });
+
+  it('should compute step duration percentiles with the nearest-rank method', () => {
+    const events = Array.from({ length: 20 }, (_, index) => stored('stepEnd', { duration: (index + 1) * 10 }, 'extract'));
+
+    expect(stepDurationPercentile(events)).toBe(190);
+    expect(stepDurationPercentile(events, 50)).toBe(100);
+    expect(stepDurationPercentile(events, 100)).toBe(200);
+    expect(stepDurationPercentile([stored('stepStart')])).toBeUndefined();
+    expect(() => stepDurationPercentile(events, 0)).toThrow('Percentile must be greater than 0 and at most 100, got 0');
+  });
+
+  it('should count failures by error code', () => {
+    const events = [
+      stored('error', { error: { message: 'a', code: 'TIMEOUT' } }),
+      stored('error', { error: { message: 'b', code: 'TIMEOUT' } }),
+      stored('error', { error: { message: 'c' } }),
+      stored('stepRetry', { error: { message: 'd', code: 'RATE_LIMITED' } }),
+    ];
+
+    expect(failureCountsByCode(events)).toEqual({ TIMEOUT: 2, unknown: 1 });
+  });
+});
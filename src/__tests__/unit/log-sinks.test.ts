@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  Workflow,
+  Step,
+  MemoryCheckpointStore,
+  JsonLinesFileSink,
+  ConsoleLogSink,
+  LoggerAdapterSink,
+} from '../../index.js';
+import type { LogRecord, LogSink } from '../../types/index.js';
+
+class MemorySink implements LogSink {
+  records: LogRecord[] = [];
+
+  write(record: LogRecord): void {
+    this.records.push(record);
+  }
+}
+
+class ParseWorkflow extends Workflow {
+  @Step()
+  async extract(): Promise<void> {
+    this.logger.warn('rows skipped', { rows: [4, 9] });
+  }
+
+  async run(): Promise<void> {
+    this.logger.debug('parsing');
+    await this.extract();
+  }
+}
+
+class IngestWorkflow extends Workflow {
+  readonly parse = new ParseWorkflow('Parse', this);
+
+  async run(): Promise<void> {
+    this.logger.info('starting');
+    this.logger.child({ parentLogId: 'log-1' }).info('detail');
+    await this.parse.run();
+  }
+}
+
+describe('log sinks', () => {
+  it('should write records with workflow, run, step and parent log ids', async () => {
+    const sink = new MemorySink();
+    const workflow = new IngestWorkflow('Ingest');
+    workflow.addLogSink(sink);
+    await workflow.run();
+
+    expect(sink.records.map((record) => record.message)).toEqual(['starting', 'detail', 'parsing', 'rows skipped']);
+    expect(sink.records[0]).toMatchObject({ workflowId: workflow.id, runId: workflow.id, workflowName: 'Ingest', depth: 0 });
+    expect(sink.records[0].step).toBeUndefined();
+    expect(sink.records[1].parentLogId).toBe('log-1');
+    expect(sink.records[3]).toMatchObject({
+      workflowId: workflow.parse.id,
+      runId: workflow.id,
+      workflowName: 'Parse',
+      step: 'extract',
+      depth: 1,
+      level: 'warn',
+      data: { rows: [4, 9] },
+    });
+    // Node logs keep their shape
+    expect(workflow.parse.node.logs[1]).not.toHaveProperty('runId');
+  });
+
+  it('should use the checkpoint run id of the root workflow', async () => {
+    const sink = new MemorySink();
+    const store = new MemoryCheckpointStore();
+    const workflow = new Workflow(
+      { name: 'Nightly', checkpoint: { store, runId: 'nightly-42' }, logging: { sinks: [sink] } },
+      async () => {}
+    );
+    workflow.attachChild(new ParseWorkflow('Parse'));
+    await workflow.children[0].run();
+
+    expect(sink.records.map((record) => record.runId)).toEqual(['nightly-42', 'nightly-42']);
+  });
+
+  it('should only add sinks to root workflows', () => {
+    const workflow = new IngestWorkflow('Ingest');
+    expect(() => workflow.parse.addLogSink(new MemorySink())).toThrow('Log sinks can only be added to root workflows');
+  });
+
+  it('should record sink errors on the node and keep logging', async () => {
+    const sink = new MemorySink();
+    const workflow = new IngestWorkflow('Ingest');
+    workflow.addLogSink({
+      write: () => {
+        throw new Error('disk full');
+      },
+    });
+    workflow.addLogSink(sink);
+    await workflow.run();
+
+    expect(sink.records).toHaveLength(4);
+    expect(workflow.node.logs.filter((entry) => entry.message === 'Log sink error')).toHaveLength(2);
+  });
+});
+
+describe('log levels', () => {
+  it('should drop entries below the workflow level and inherit it in children', async () => {
+    const sink = new MemorySink();
+    const workflow = new IngestWorkflow('Ingest');
+    workflow.addLogSink(sink);
+    workflow.setLogLevel('warn');
+    await workflow.run();
+
+    expect(sink.records.map((record) => record.message)).toEqual(['rows skipped']);
+    expect(workflow.node.logs).toHaveLength(0);
+    expect(workflow.parse.getLogLevel()).toBe('warn');
+  });
+
+  it('should let a child override the inherited level', async () => {
+    const sink = new MemorySink();
+    const workflow = new IngestWorkflow('Ingest');
+    workflow.addLogSink(sink);
+    workflow.setLogLevel('error');
+    workflow.parse.setLogLevel('debug');
+    await workflow.run();
+
+    expect(sink.records.map((record) => record.message)).toEqual(['parsing', 'rows skipped']);
+  });
+
+  it('should read the level from the workflow config', async () => {
+    const sink = new MemorySink();
+    const workflow = new Workflow({ name: 'Quiet', logging: { level: 'info', sinks: [sink] } }, async () => {});
+    const logger = (workflow as unknown as { logger: { debug(message: string): void; info(message: string): void } })
+      .logger;
+    logger.debug('hidden');
+    logger.info('shown');
+
+    expect(workflow.getLogLevel()).toBe('info');
+    expect(sink.records.map((record) => record.message)).toEqual(['shown']);
+  });
+});
+
+describe('JsonLinesFileSink', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'groundswell-logs-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should append JSON lines and serialize errors', async () => {
+    const path = join(dir, 'nested', 'run.jsonl');
+    const workflow = new IngestWorkflow('Ingest');
+    workflow.addLogSink(new JsonLinesFileSink(path));
+    await workflow.run();
+    workflow.node.logs.length = 0;
+    (workflow as unknown as { logger: { error(message: string, data: unknown): void } }).logger.error('failed', {
+      error: Object.assign(new Error('boom'), { code: 'E_BOOM' }),
+    });
+    await workflow.flushLogs();
+
+    const lines = (await readFile(path, 'utf-8')).trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines).toHaveLength(5);
+    expect(lines[3]).toMatchObject({ message: 'rows skipped', step: 'extract', runId: workflow.id });
+    expect(lines[4].data.error).toMatchObject({ name: 'Error', message: 'boom', code: 'E_BOOM' });
+  });
+
+  it('should rotate files past maxBytes and keep maxFiles of them', async () => {
+    const path = join(dir, 'run.jsonl');
+    const sink = new JsonLinesFileSink(path, { maxBytes: 300, maxFiles: 2 });
+    const workflow = new Workflow({ name: 'Chatty', logging: { sinks: [sink] } }, async () => {});
+    const logger = (workflow as unknown as { logger: { info(message: string): void } }).logger;
+    for (let i = 0; i < 12; i++) {
+      logger.info(`message ${i}`);
+    }
+    await sink.flush();
+
+    expect((await readdir(dir)).sort()).toEqual(['run.jsonl', 'run.jsonl.1', 'run.jsonl.2']);
+    for (const file of ['run.jsonl', 'run.jsonl.1', 'run.jsonl.2']) {
+      expect((await readFile(join(dir, file), 'utf-8')).length).toBeLessThanOrEqual(300);
+    }
+    const current = (await readFile(path, 'utf-8')).trim().split('\n');
+    expect(JSON.parse(current[current.length - 1]).message).toBe('message 11');
+  });
+
+  it('should rethrow write errors on flush', async () => {
+    const sink = new JsonLinesFileSink(dir);
+    const workflow = new Workflow({ name: 'Broken', logging: { sinks: [sink] } }, async () => {});
+    (workflow as unknown as { logger: { info(message: string): void } }).logger.info('lost');
+
+    await expect(workflow.flushLogs()).rejects.toThrow();
+    await expect(workflow.flushLogs()).resolves.toBeUndefined();
+  });
+});
+
+describe('ConsoleLogSink', () => {
+  it('should indent records by depth and name the step', async () => {
+    const lines: string[] = [];
+    const workflow = new IngestWorkflow('Ingest');
+    workflow.addLogSink(new ConsoleLogSink({ output: (line) => lines.push(line), colors: false }));
+    await workflow.run();
+
+    expect(lines[0]).toMatch(/^\d{2}:\d{2}:\d{2}\.\d{3} INFO  Ingest: starting$/);
+    expect(lines[3]).toMatch(/ WARN    Parse › extract: rows skipped \{"rows":\[4,9\]\}$/);
+  });
+});
+
+describe('LoggerAdapterSink', () => {
+  it('should pass fields first in pino style and message first in winston style', async () => {
+    const pino = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const winston = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const workflow = new IngestWorkflow('Ingest');
+    workflow.addLogSink(new LoggerAdapterSink(pino));
+    workflow.addLogSink(new LoggerAdapterSink(winston, { style: 'winston' }));
+    await workflow.run();
+
+    expect(pino.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ workflowId: workflow.parse.id, runId: workflow.id, step: 'extract', data: { rows: [4, 9] } }),
+      'rows skipped'
+    );
+    expect(pino.warn.mock.calls[0][0]).not.toHaveProperty('depth');
+    expect(winston.info).toHaveBeenCalledWith('starting', expect.objectContaining({ workflowName: 'Ingest' }));
+    expect(winston.debug).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { Workflow, Step, MetricsObserver, MetricsRegistry, renderPrometheus } from '../../index.js';
+import type { CacheMetrics } from '../../index.js';
+
+class ReportWorkflow extends Workflow {
+  constructor(private readonly fail = false) {
+    super('Report');
+  }
+
+  @Step()
+  async draft(): Promise<void> {
+    this.emitEvent({
+      type: 'agentPromptEnd',
+      agentId: 'a1',
+      agentName: 'Writer',
+      promptId: 'p1',
+      node: this.node,
+      duration: 1500,
+      tokenUsage: { input_tokens: 100, output_tokens: 40 },
+      model: 'anthropic/claude-sonnet-4-20250514',
+      harness: 'claude-code',
+      costUsd: 0.25,
+    });
+    this.emitEvent({ type: 'toolInvocation', toolName: 'search', input: {}, output: [], duration: 30, node: this.node });
+    if (this.fail) {
+      throw Object.assign(new Error('too slow'), { code: 'TIMEOUT' });
+    }
+  }
+
+  async run(): Promise<void> {
+    this.setStatus('running');
+    try {
+      await this.draft();
+      this.setStatus('completed');
+    } catch {
+      this.setStatus('failed');
+    }
+  }
+}
+
+const cache = (metrics: Partial<CacheMetrics> = {}) => ({
+  metrics: (): CacheMetrics => ({ hits: 3, misses: 1, size: 2, sizeBytes: 512, hitRate: 75, ...metrics }),
+});
+
+describe('MetricsObserver', () => {
+  it('should aggregate the events of several runs', async () => {
+    const metrics = new MetricsObserver({ cache: false });
+    for (const fail of [false, false, true]) {
+      const workflow = new ReportWorkflow(fail);
+      workflow.addObserver(metrics);
+      await workflow.run();
+    }
+
+    const text = renderPrometheus(metrics.registry);
+    expect(text).toContain('groundswell_step_duration_seconds_count{step="draft"} 2');
+    expect(text).toContain(
+      'groundswell_agent_prompt_duration_seconds_count{harness="claude-code",model="anthropic/claude-sonnet-4-20250514"} 3'
+    );
+    expect(text).toContain(
+      'groundswell_agent_prompt_duration_seconds_sum{harness="claude-code",model="anthropic/claude-sonnet-4-20250514"} 4.5'
+    );
+    expect(text).toContain('groundswell_tokens_total{model="anthropic/claude-sonnet-4-20250514",type="input"} 300');
+    expect(text).toContain('groundswell_tokens_total{model="anthropic/claude-sonnet-4-20250514",type="output"} 120');
+    expect(text).toContain('groundswell_cost_usd_total{model="anthropic/claude-sonnet-4-20250514"} 0.75');
+    expect(text).toContain('groundswell_tool_duration_seconds_count{tool="search"} 3');
+    expect(text).toContain('groundswell_errors_total{code="TIMEOUT"} 1');
+    expect(text).toContain('groundswell_workflow_runs_total{workflow="Report",status="completed"} 2');
+    expect(text).toContain('groundswell_workflow_runs_total{workflow="Report",status="failed"} 1');
+    expect(text).not.toContain('llm_cache');
+  });
+
+  it('should count retries by step name', async () => {
+    const metrics = new MetricsObserver({ cache: false });
+    let attempts = 0;
+    const workflow = new Workflow({ name: 'Fetch' }, async (ctx) => {
+      await ctx.step(
+        'download',
+        async () => {
+          if (++attempts < 3) {
+            throw new Error('flaky');
+          }
+        },
+        { restartable: true, maxRetries: 2, retryDelayMs: 1 }
+      );
+    });
+    workflow.addObserver(metrics);
+    await workflow.run();
+
+    expect(renderPrometheus(metrics.registry)).toContain('groundswell_step_retries_total{step="download"} 2');
+  });
+
+  it('should read cache metrics when rendering', () => {
+    let hits = 3;
+    const metrics = new MetricsObserver({ cache: { metrics: () => cache({ hits }).metrics() } });
+
+    expect(renderPrometheus(metrics.registry)).toContain('groundswell_llm_cache_hits_total 3');
+    hits = 9;
+    const text = renderPrometheus(metrics.registry);
+    expect(text).toContain('groundswell_llm_cache_hits_total 9');
+    expect(text).toContain('groundswell_llm_cache_misses_total 1');
+    expect(text).toContain('groundswell_llm_cache_hit_ratio 0.75');
+    expect(text).toContain('groundswell_llm_cache_entries 2');
+    expect(text).toContain('groundswell_llm_cache_size_bytes 512');
+  });
+});
+
+describe('renderPrometheus', () => {
+  it('should render cumulative histogram buckets with sum and count', () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram('job_seconds', 'Job latency', ['queue'], [1, 0.1]);
+    latency.observe({ queue: 'a' }, 0.05);
+    latency.observe({ queue: 'a' }, 0.5);
+    latency.observe({ queue: 'a' }, 7);
+
+    expect(renderPrometheus(registry)).toBe(
+      [
+        '# HELP job_seconds Job latency',
+        '# TYPE job_seconds histogram',
+        'job_seconds_bucket{queue="a",le="0.1"} 1',
+        'job_seconds_bucket{queue="a",le="1"} 2',
+        'job_seconds_bucket{queue="a",le="+Inf"} 3',
+        'job_seconds_sum{queue="a"} 7.55',
+        'job_seconds_count{queue="a"} 3',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should escape help text and label values', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('jobs_total', 'Jobs\nrun \\ total', ['name']).inc({ name: 'say "hi"\\\n' });
+
+    expect(renderPrometheus(registry)).toBe(
+      ['# HELP jobs_total Jobs\\nrun \\\\ total', '# TYPE jobs_total counter', 'jobs_total{name="say \\"hi\\"\\\\\\n"} 1', ''].join(
+        '\n'
+      )
+    );
+  });
+});
+
+describe('MetricsRegistry', () => {
+  it('should return the registered metric for the same name', () => {
+    const registry = new MetricsRegistry();
+    expect(registry.counter('jobs_total', 'Jobs')).toBe(registry.counter('jobs_total', 'Jobs'));
+    expect(() => registry.gauge('jobs_total', 'Jobs')).toThrow("Metric 'jobs_total' is already registered as a counter");
+  });
+
+  it('should reject unknown labels and decreasing counters', () => {
+    const counter = new MetricsRegistry().counter('jobs_total', 'Jobs', ['queue']);
+    expect(() => counter.inc({ worker: '1' })).toThrow("Unknown label 'worker' for metric 'jobs_total'");
+    expect(() => counter.inc({ queue: 'a' }, -1)).toThrow("Counter 'jobs_total' cannot be decreased");
+  });
+});
@@ -328,4 +328,51 @@ describe('PiHarness - execute() non-streaming', () => {
       }
     });
   });
+  // ── Cancellation ─────────────────────────────────────────────────────────
+
+  describe('cancellation', () => {
+    it('should return CANCELLED without creating a session when the signal is already aborted', async () => {
+      wireFakeSession(harness, []);
+      const controller = new AbortController();
+      controller.abort();
+
+      const response = await harness.execute(
+        { prompt: 'test', options: { signal: controller.signal } },
+        dummyToolExecutor,
+      );
+
+      expect(response.status).toBe('error');
+      expect(response.error?.code).toBe(AGENT_ERROR_CODES.CANCELLED);
+      expect(response.error?.recoverable).toBe(false);
+      // @ts-expect-error - private field access for testing
+      expect(harness.sdk.createAgentSession).not.toHaveBeenCalled();
+    });
+
+    it('should abort the session when the signal fires mid-turn', async () => {
+      let finishTurn!: () => void;
+      const fakeSession = {
+        subscribe: vi.fn(() => () => {}),
+        prompt: vi.fn(() => new Promise<void>((resolve) => { finishTurn = resolve; })),
+        abort: vi.fn(async () => finishTurn()),
+      };
+      // @ts-expect-error - private field access for testing
+      harness.sdk = {
+        ...harness.sdk,
+        createAgentSession: vi.fn().mockResolvedValue({ session: fakeSession }),
+      };
+      const controller = new AbortController();
+
+      const pending = harness.execute(
+        { prompt: 'test', options: { signal: controller.signal } },
+        dummyToolExecutor,
+      );
+      await vi.waitFor(() => expect(fakeSession.prompt).toHaveBeenCalled());
+      controller.abort();
+      const response = await pending;
+
+      expect(fakeSession.abort).toHaveBeenCalledTimes(1);
+      expect(response.status).toBe('error');
+      expect(response.error?.code).toBe(AGENT_ERROR_CODES.CANCELLED);
+    });
+  });
 });
@@ -0,0 +1,158 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  Workflow,
+  Step,
+  ObservedState,
+  getObservedState,
+  Agent,
+  Redactor,
+  configureRedaction,
+  resetRedaction,
+  registerSecret,
+  EMAIL_PATTERN,
+  DEFAULT_REDACTED_KEYS,
+} from '../../index.js';
+import { serializeSession } from '../../utils/index.js';
+import type { WorkflowError } from '../../types/index.js';
+import { collectEvents } from '../helpers/index.js';
+
+const TOKEN = 'sk-ant-REDACTED';
+
+class DeployWorkflow extends Workflow {
+  @ObservedState()
+  target = `deploy for ops@example.com with ${TOKEN}`;
+
+  @ObservedState({ redact: true })
+  password = 'hunter22';
+
+  @Step()
+  async deploy(): Promise<void> {
+    this.logger.info(`using ${TOKEN}`, { headers: { authorization: 'Basic abc' }, user: 'ada@example.com' });
+    this.emitEvent({
+      type: 'toolInvocation',
+      toolName: 'http',
+      input: { url: 'https://api.example.com', apiKey: 'plain-key-value' },
+      output: { ok: true },
+      duration: 3,
+      node: this.node,
+    });
+    throw new Error(`rejected ${TOKEN}`);
+  }
+
+  async run(): Promise<void> {
+    await this.deploy().catch(() => {});
+  }
+}
+
+describe('Redactor', () => {
+  it('should redact keys, patterns and custom rules without touching clean values', () => {
+    const redactor = new Redactor({
+      keys: ['ssn'],
+      patterns: [EMAIL_PATTERN],
+      functions: [(value, path) => (path[path.length - 1] === 'phone' ? '[PHONE]' : undefined)],
+    });
+    const clean = { tags: ['a', 'b'] };
+    const input = { ssn: '123-45-6789', note: 'mail ada@example.com', phone: '555-0100', clean };
+
+    const output = redactor.redact(input);
+
+    expect(output).toEqual({ ssn: '[REDACTED]', note: 'mail [REDACTED]', phone: '[PHONE]', clean: { tags: ['a', 'b'] } });
+    expect(output.clean).toBe(clean);
+    expect(input.ssn).toBe('123-45-6789');
+    expect(redactor.redact(clean)).toBe(clean);
+  });
+
+  it('should redact errors, shared objects and circular structures', () => {
+    const redactor = new Redactor();
+    const error = Object.assign(new TypeError(`bad key ${TOKEN}`), { code: 'E_AUTH' });
+    const shared = { token: 'abc123' };
+    const circular: Record<string, unknown> = { mail: 'ada@example.com' };
+    circular.self = circular;
+
+    const output = redactor.redact({ error, first: shared, second: shared, circular });
+
+    expect(output.error).toBeInstanceOf(TypeError);
+    expect(output.error.message).toBe('bad key [REDACTED]');
+    expect(output.error.stack).not.toContain(TOKEN);
+    expect((output.error as TypeError & { code: string }).code).toBe('E_AUTH');
+    expect(output.first).toEqual({ token: '[REDACTED]' });
+    expect(output.second).toBe(output.first);
+    expect(output.circular.mail).toBe('[REDACTED]');
+  });
+
+  it('should match default keys in any case style', () => {
+    const redactor = new Redactor({ keys: DEFAULT_REDACTED_KEYS, patterns: [] });
+    expect(
+      redactor.redact({ apiKey: 'a', ANTHROPIC_API_KEY: 'b', access_token: 'c', Authorization: 'd', tokenUsage: { input_tokens: 1 } })
+    ).toEqual({
+      apiKey: '[REDACTED]',
+      ANTHROPIC_API_KEY: '[REDACTED]',
+      access_token: '[REDACTED]',
+      Authorization: '[REDACTED]',
+      tokenUsage: { input_tokens: 1 },
+    });
+  });
+});
+
+describe('workflow redaction', () => {
+  afterEach(() => {
+    resetRedaction();
+  });
+
+  it('should redact log data, event payloads and error state', async () => {
+    const workflow = new DeployWorkflow();
+    const events = collectEvents(workflow);
+    await workflow.run();
+
+    const log = workflow.node.logs[0];
+    expect(log.message).toBe('using [REDACTED]');
+    expect(log.data).toEqual({ headers: { authorization: '[REDACTED]' }, user: '[REDACTED]' });
+
+    const tool = events.find((event) => event.type === 'toolInvocation');
+    expect(tool).toMatchObject({ input: { url: 'https://api.example.com', apiKey: '[REDACTED]' } });
+    expect(workflow.node.events).toContain(tool);
+
+    const error = (events.find((event) => event.type === 'error') as { error: WorkflowError }).error;
+    expect(error.state).toEqual({ target: 'deploy for [REDACTED] with [REDACTED]', password: '***' });
+    expect(error.message).toBe('rejected [REDACTED]');
+    expect((error.original as Error).message).toBe('rejected [REDACTED]');
+  });
+
+  it('should redact registered secrets such as agent API keys', () => {
+    new Agent({ harnessOptions: { apiKey: 'opaque-key-without-prefix' }, env: { SERVICE_TOKEN: 'token-value-1234' } });
+    registerSecret('short');
+
+    const session = {
+      history: [{ role: 'user', content: 'key opaque-key-without-prefix, token token-value-1234, short' }],
+      lastResult: null,
+    } as never;
+
+    expect(serializeSession(session, { redact: true })).toContain('key [REDACTED], token [REDACTED], short');
+  });
+
+  it('should serialize sessions without redaction by default', () => {
+    const session = { history: [{ role: 'user', content: `mail ops@example.com, key ${TOKEN}` }], lastResult: null } as never;
+    expect(serializeSession(session)).toContain(`mail ops@example.com, key ${TOKEN}`);
+  });
+
+  it('should keep checkpointed state unredacted and redact snapshots', () => {
+    const workflow = new DeployWorkflow();
+    expect(getObservedState(workflow)).toEqual({ target: `deploy for ops@example.com with ${TOKEN}`, password: '***' });
+
+    workflow.snapshotState();
+    expect(workflow.node.stateSnapshot).toEqual({ target: 'deploy for [REDACTED] with [REDACTED]', password: '***' });
+  });
+
+  it('should follow configureRedaction()', async () => {
+    configureRedaction({ keys: ['user'], patterns: [] });
+    const workflow = new DeployWorkflow();
+    await workflow.run();
+    expect(workflow.node.logs[0].message).toBe(`using ${TOKEN}`);
+    expect(workflow.node.logs[0].data).toEqual({ headers: { authorization: 'Basic abc' }, user: '[REDACTED]' });
+
+    configureRedaction({ enabled: false });
+    const plain = new DeployWorkflow();
+    await plain.run();
+    expect(plain.node.logs[0].data).toEqual({ headers: { authorization: 'Basic abc' }, user: 'ada@example.com' });
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  Workflow,
+  Step,
+  TracingObserver,
+  InMemorySpanExporter,
+  OtlpJsonFileExporter,
+  toOtlpJson,
+} from '../../index.js';
+import type { TraceSpan, OtlpExportTraceRequest } from '../../types/index.js';
+
+class ResearchWorkflow extends Workflow {
+  readonly child = new Workflow({ name: 'Parse' }, async (ctx) => {
+    await ctx.step('extract', async () => {
+      throw new Error('bad markup');
+    });
+  });
+
+  constructor() {
+    super('Research');
+    this.attachChild(this.child);
+  }
+
+  @Step()
+  async plan(): Promise<void> {
+    this.emitEvent({ type: 'cacheMiss', key: 'k1', node: this.node });
+    this.emitEvent({ type: 'agentPromptStart', agentId: 'a1', agentName: 'Planner', promptId: 'p1', node: this.node });
+    this.emitEvent({
+      type: 'toolInvocation',
+      toolName: 'web_search',
+      input: { q: 'tides' },
+      output: [],
+      duration: 5,
+      node: this.node,
+    });
+    this.emitEvent({
+      type: 'agentPromptEnd',
+      agentId: 'a1',
+      agentName: 'Planner',
+      promptId: 'p1',
+      node: this.node,
+      duration: 20,
+      tokenUsage: { input_tokens: 120, output_tokens: 30 },
+      model: 'anthropic/claude-sonnet-4-20250514',
+      costUsd: 0.0008,
+    });
+    await this.child.run().catch(() => {});
+  }
+
+  async run(): Promise<void> {
+    this.setStatus('running');
+    await this.plan();
+    this.setStatus('completed');
+  }
+}
+
+describe('TracingObserver', () => {
+  let exporter: InMemorySpanExporter;
+  let spans: TraceSpan[];
+
+  const byName = (name: string) => spans.find((span) => span.name === name)!;
+
+  beforeEach(async () => {
+    exporter = new InMemorySpanExporter();
+    const workflow = new ResearchWorkflow();
+    const tracer = new TracingObserver({ exporter, attributes: { 'deployment.environment': 'test' } });
+    workflow.addObserver(tracer);
+
+    await workflow.run();
+    await tracer.flush();
+    spans = exporter.getFinishedSpans();
+  });
+
+  it('should create a span per workflow, step, agent prompt and tool invocation', () => {
+    expect(spans.map((span) => span.name).sort()).toEqual([
+      'prompt Planner',
+      'step extract',
+      'step plan',
+      'tool web_search',
+      'workflow Parse',
+      'workflow Research',
+    ]);
+    expect(new Set(spans.map((span) => span.traceId)).size).toBe(1);
+    expect(spans.every((span) => span.attributes['deployment.environment'] === 'test')).toBe(true);
+  });
+
+  it('should link spans along the workflow tree', () => {
+    const root = byName('workflow Research');
+    expect(root.parentSpanId).toBeUndefined();
+    expect(byName('step plan').parentSpanId).toBe(root.spanId);
+    expect(byName('prompt Planner').parentSpanId).toBe(byName('step plan').spanId);
+    expect(byName('tool web_search').parentSpanId).toBe(byName('prompt Planner').spanId);
+    // The child workflow ran inside the plan step
+    expect(byName('workflow Parse').parentSpanId).toBe(byName('step plan').spanId);
+    expect(byName('step extract').parentSpanId).toBe(byName('workflow Parse').spanId);
+  });
+
+  it('should record model, token usage and cache attributes on agent spans', () => {
+    const prompt = byName('prompt Planner');
+    expect(prompt.kind).toBe('client');
+    expect(prompt.attributes).toMatchObject({
+      'gen_ai.request.model': 'anthropic/claude-sonnet-4-20250514',
+      'gen_ai.usage.input_tokens': 120,
+      'gen_ai.usage.output_tokens': 30,
+      'groundswell.cost_usd': 0.0008,
+      'groundswell.cache.hit': false,
+    });
+    expect(byName('step plan').attributes['groundswell.cache.misses']).toBe(1);
+    expect(byName('tool web_search').endTime - byName('tool web_search').startTime).toBe(5);
+  });
+
+  it('should mark failed steps and workflows as errors', () => {
+    expect(byName('step extract').status).toEqual({ code: 'error', message: 'bad markup' });
+    expect(byName('step extract').events[0]).toMatchObject({
+      name: 'exception',
+      attributes: { 'exception.message': 'bad markup' },
+    });
+    expect(byName('workflow Parse').status).toEqual({ code: 'error', message: 'bad markup' });
+    expect(byName('workflow Parse').attributes['groundswell.workflow.status']).toBe('failed');
+    expect(byName('workflow Research').status).toEqual({ code: 'ok' });
+  });
+
+  describe('OTLP JSON', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'groundswell-otlp-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should encode spans as an ExportTraceServiceRequest', () => {
+      const request = toOtlpJson(spans, { serviceName: 'nightly' });
+      const [resourceSpans] = request.resourceSpans;
+
+      expect(resourceSpans.resource.attributes).toEqual([{ key: 'service.name', value: { stringValue: 'nightly' } }]);
+      const prompt = resourceSpans.scopeSpans[0].spans.find((span) => span.name === 'prompt Planner')!;
+      expect(prompt.kind).toBe(3);
+      expect(prompt.status).toEqual({ code: 1 });
+      expect(prompt.startTimeUnixNano).toBe(`${byName('prompt Planner').startTime}000000`);
+      expect(prompt.attributes).toContainEqual({ key: 'gen_ai.usage.input_tokens', value: { intValue: '120' } });
+      expect(prompt.attributes).toContainEqual({ key: 'groundswell.cost_usd', value: { doubleValue: 0.0008 } });
+      expect(prompt.attributes).toContainEqual({ key: 'groundswell.cache.hit', value: { boolValue: false } });
+    });
+
+    it('should append one request per export to a file', async () => {
+      const path = join(dir, 'traces', 'spans.jsonl');
+      const fileExporter = new OtlpJsonFileExporter(path);
+
+      await fileExporter.export(spans.slice(0, 2));
+      await fileExporter.export(spans.slice(2));
+
+      const lines = (await readFile(path, 'utf-8')).trim().split('\n');
+      const requests: OtlpExportTraceRequest[] = lines.map((line) => JSON.parse(line));
+      expect(requests.map((request) => request.resourceSpans[0].scopeSpans[0].spans.length)).toEqual([2, spans.length - 2]);
+      expect(requests[0].resourceSpans[0].scopeSpans[0].scope.name).toBe('groundswell');
+    });
+  });
+
+  it('should report export failures from flush()', async () => {
+    const tracer = new TracingObserver({
+      exporter: {
+        export: () => {
+          throw new Error('collector down');
+        },
+      },
+    });
+    const workflow = new Workflow({ name: 'Solo' }, async (ctx) => {
+      await ctx.step('only', async () => 1);
+    });
+    workflow.addObserver(tracer);
+
+    await workflow.run();
+
+    await expect(tracer.flush()).rejects.toThrow('collector down');
+    await expect(tracer.flush()).resolves.toBeUndefined();
+  });
+});
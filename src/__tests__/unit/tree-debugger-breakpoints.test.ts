@@ -0,0 +1,224 @@
+import { describe, it, expect } from 'vitest';
+import { Workflow, Step, ObservedState, WorkflowTreeDebugger } from '../../index.js';
+import type { WorkflowEvent } from '../../types/index.js';
+
+class PlanningWorkflow extends Workflow {
+  @ObservedState()
+  goal = 'write a haiku';
+
+  @ObservedState()
+  attempts = 0;
+
+  @ObservedState({ redact: true })
+  apiKey = 'secret';
+
+  readonly calls: string[] = [];
+
+  @Step()
+  async plan(topic: string): Promise<string> {
+    this.attempts++;
+    this.calls.push(`plan:${this.goal}:${topic}`);
+    return this.goal;
+  }
+
+  @Step()
+  async execute(): Promise<void> {
+    this.calls.push('execute');
+  }
+
+  async run(): Promise<string> {
+    this.setStatus('running');
+    const plan = await this.plan('autumn');
+    await this.execute();
+    this.setStatus('completed');
+    return plan;
+  }
+}
+
+/** Resolve with the next `paused` event */
+function nextPause(debugger_: WorkflowTreeDebugger): Promise<Extract<WorkflowEvent, { type: 'paused' }>> {
+  return new Promise((resolve) => {
+    const subscription = debugger_.events.subscribe({
+      next: (event) => {
+        if (event.type === 'paused') {
+          subscription.unsubscribe();
+          resolve(event);
+        }
+      },
+    });
+  });
+}
+
+describe('WorkflowTreeDebugger breakpoints', () => {
+  it('should pause before a @Step method and resume it', async () => {
+    const workflow = new PlanningWorkflow('Planner');
+    const debugger_ = new WorkflowTreeDebugger(workflow);
+    const id = debugger_.setBreakpoint({ step: 'plan' });
+
+    const paused = nextPause(debugger_);
+    const run = workflow.run();
+    const event = await paused;
+
+    expect(event).toMatchObject({ step: 'plan', breakpointId: id, node: workflow.getNode() });
+    expect(debugger_.isPaused()).toBe(true);
+    expect(debugger_.getPausedStep()).toMatchObject({ step: 'plan', args: ['autumn'], workflowId: workflow.id });
+    expect(workflow.calls).toEqual([]);
+
+    debugger_.resume();
+
+    await expect(run).resolves.toBe('write a haiku');
+    expect(debugger_.isPaused()).toBe(false);
+    expect(workflow.calls).toEqual(['plan:write a haiku:autumn', 'execute']);
+  });
+
+  it('should read and edit observed state while paused', async () => {
+    const workflow = new PlanningWorkflow('Planner');
+    const debugger_ = new WorkflowTreeDebugger(workflow);
+    debugger_.setBreakpoint({ step: 'plan' });
+
+    const paused = nextPause(debugger_);
+    const run = workflow.run();
+    await paused;
+
+    expect(debugger_.getPausedState()).toEqual({ goal: 'write a haiku', attempts: 0, apiKey: '***' });
+    expect(() => debugger_.setPausedState({ calls: [] })).toThrow("'calls' is not an @ObservedState field");
+
+    debugger_.setPausedState({ goal: 'write a limerick' });
+    expect(workflow.getNode().stateSnapshot).toMatchObject({ goal: 'write a limerick' });
+    debugger_.resume();
+
+    await expect(run).resolves.toBe('write a limerick');
+  });
+
+  it('should only pause when the predicate matches', async () => {
+    const workflow = new PlanningWorkflow('Planner');
+    const debugger_ = new WorkflowTreeDebugger(workflow);
+    const seen: unknown[] = [];
+    debugger_.setBreakpoint({
+      step: /^(plan|execute)$/,
+      when: async ({ step, state }) => {
+        seen.push([step, state.attempts]);
+        return state.attempts === 1;
+      },
+    });
+
+    const paused = nextPause(debugger_);
+    const run = workflow.run();
+
+    expect((await paused).step).toBe('execute');
+    expect(seen).toEqual([
+      ['plan', 0],
+      ['execute', 1],
+    ]);
+    debugger_.resume();
+    await run;
+  });
+
+  it('should pause at the next step after stepOver()', async () => {
+    const workflow = new PlanningWorkflow('Planner');
+    const debugger_ = new WorkflowTreeDebugger(workflow);
+    debugger_.setBreakpoint({ step: 'plan' });
+
+    let paused = nextPause(debugger_);
+    const run = workflow.run();
+    await paused;
+
+    paused = nextPause(debugger_);
+    debugger_.stepOver();
+    const event = await paused;
+
+    expect(event.step).toBe('execute');
+    expect(event.breakpointId).toBeUndefined();
+    expect(workflow.calls).toEqual(['plan:write a haiku:autumn']);
+
+    debugger_.resume();
+    await run;
+    expect(workflow.calls).toEqual(['plan:write a haiku:autumn', 'execute']);
+  });
+
+  it('should pause ctx.step() calls of functional workflows', async () => {
+    const calls: string[] = [];
+    const workflow = new Workflow({ name: 'Pipeline' }, async (ctx) => {
+      await ctx.step('fetch', async () => calls.push('fetch'));
+      await ctx.step('parse', async () => calls.push('parse'));
+    });
+    const debugger_ = new WorkflowTreeDebugger(workflow, { persistEvents: true });
+    debugger_.setBreakpoint({ step: 'parse' });
+
+    const paused = nextPause(debugger_);
+    const run = workflow.run();
+    const event = await paused;
+
+    expect(event.node.name).toBe('parse');
+    expect(calls).toEqual(['fetch']);
+    expect(debugger_.getPausedState()).toEqual({});
+
+    debugger_.resume();
+    await run;
+
+    expect(calls).toEqual(['fetch', 'parse']);
+    const history = debugger_.getEventHistory();
+    const parseStart = history.findIndex((e) => e.type === 'stepStart' && e.step === 'parse');
+    expect(history.findIndex((e) => e.type === 'paused')).toBe(parseStart + 1);
+    expect(workflow.getNode().events.map((e) => e.type)).toContain('paused');
+  });
+
+  it('should fail a paused step that times out without running it', async () => {
+    const calls: string[] = [];
+    const workflow = new Workflow({ name: 'Pipeline' }, async (ctx) => {
+      await ctx.step('slow', async () => calls.push('slow'), { timeoutMs: 20 });
+    });
+    const debugger_ = new WorkflowTreeDebugger(workflow);
+    debugger_.setBreakpoint({ step: 'slow' });
+
+    const paused = nextPause(debugger_);
+    const run = workflow.run();
+    await paused;
+
+    // The pause runs inside the step's time limit, so the clock keeps running
+    await expect(run).rejects.toMatchObject({ code: 'TIMEOUT', message: "Step 'slow' timed out after 20ms" });
+    expect(debugger_.isPaused()).toBe(false);
+    expect(calls).toEqual([]);
+  });
+
+  it('should time out a paused @Step method with timeoutMs', async () => {
+    class SlowWorkflow extends Workflow {
+      readonly calls: string[] = [];
+
+      @Step({ timeoutMs: 20 })
+      async slow(): Promise<void> {
+        this.calls.push('slow');
+      }
+
+      async run(): Promise<void> {
+        await this.slow();
+      }
+    }
+    const workflow = new SlowWorkflow('Slow');
+    const debugger_ = new WorkflowTreeDebugger(workflow);
+    debugger_.setBreakpoint({ step: 'slow' });
+
+    const paused = nextPause(debugger_);
+    const run = workflow.run();
+    await paused;
+
+    await expect(run).rejects.toMatchObject({ code: 'TIMEOUT' });
+    expect(debugger_.isPaused()).toBe(false);
+    expect(workflow.calls).toEqual([]);
+  });
+
+  it('should reject controls that need a paused or live workflow', () => {
+    const debugger_ = new WorkflowTreeDebugger(new PlanningWorkflow('Planner'));
+    expect(() => debugger_.resume()).toThrow('Workflow is not paused');
+    expect(() => debugger_.getPausedState()).toThrow('Workflow is not paused');
+
+    const id = debugger_.setBreakpoint({ step: 'plan' });
+    expect(debugger_.removeBreakpoint(id)).toBe(true);
+    expect(debugger_.removeBreakpoint(id)).toBe(false);
+
+    const restored = WorkflowTreeDebugger.fromEventHistory([
+      { type: 'treeUpdated', timestamp: 1, rootId: 'root', rootName: 'Planner' },
+    ]);
+    expect(() => restored.setBreakpoint({ step: 'plan' })).toThrow('Breakpoints need a live workflow');
+  });
+});
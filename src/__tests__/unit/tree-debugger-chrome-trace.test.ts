@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createWorkflow, WorkflowTreeDebugger } from '../../index.js';
+import type { ChromeTrace, SavedEventHistory, SavedWorkflowNode } from '../../types/index.js';
+
+function savedNode(id: string, name: string, children: SavedWorkflowNode[] = []): SavedWorkflowNode {
+  return { id, name, status: 'completed', logs: [], stateSnapshot: null, events: [], children };
+}
+
+/** Root with two overlapping ctx.step nodes and a child workflow running an @Step */
+const history: SavedEventHistory = {
+  version: 1,
+  savedAt: 2000,
+  tree: savedNode('root', 'Pipeline', [savedNode('s1', 'fetch'), savedNode('s2', 'parse'), savedNode('child', 'Child')]),
+  events: [
+    { type: 'treeUpdated', timestamp: 1000, rootId: 'root', rootName: 'Pipeline' },
+    { type: 'stepStart', timestamp: 1000, nodeId: 's1', nodeName: 'fetch', step: 'fetch', parentId: 'root' },
+    { type: 'stepStart', timestamp: 1002, nodeId: 's2', nodeName: 'parse', step: 'parse', parentId: 'root' },
+    { type: 'agentPromptStart', timestamp: 1003, nodeId: 's1', nodeName: 'fetch', agentId: 'a1', agentName: 'Fetcher', promptId: 'p1' },
+    { type: 'toolInvocation', timestamp: 1008, nodeId: 's1', nodeName: 'fetch', toolName: 'http_get', input: {}, output: {}, duration: 3 },
+    { type: 'cacheHit', timestamp: 1009, nodeId: 's1', nodeName: 'fetch', key: 'k1' },
+    {
+      type: 'agentPromptEnd',
+      timestamp: 1010,
+      nodeId: 's1',
+      nodeName: 'fetch',
+      agentId: 'a1',
+      agentName: 'Fetcher',
+      promptId: 'p1',
+      duration: 7,
+      model: 'anthropic/claude-sonnet-4-20250514',
+    },
+    { type: 'stepEnd', timestamp: 1012, nodeId: 's1', nodeName: 'fetch', step: 'fetch', duration: 12 },
+    { type: 'stepStart', timestamp: 1013, nodeId: 'child', nodeName: 'Child', step: 'load', parentId: 'root' },
+    { type: 'error', timestamp: 1015, nodeId: 's2', nodeName: 'parse', error: { message: 'boom' } },
+    { type: 'stepEnd', timestamp: 1020, nodeId: 'child', nodeName: 'Child', step: 'load', duration: 7 },
+  ],
+};
+
+describe('WorkflowTreeDebugger Chrome trace export', () => {
+  it('should build nested spans on per-workflow tracks', () => {
+    const trace = WorkflowTreeDebugger.fromEventHistory(history).toChromeTrace();
+    const span = (name: string) => trace.traceEvents.find((event) => event.ph === 'X' && event.name === name);
+
+    expect(span('fetch')).toMatchObject({ cat: 'step', ts: 0, dur: 12000, pid: 1, tid: 1 });
+    expect(span('Fetcher')).toMatchObject({
+      cat: 'agent',
+      ts: 3000,
+      dur: 7000,
+      tid: 1,
+      args: { model: 'anthropic/claude-sonnet-4-20250514' },
+    });
+    expect(span('http_get')).toMatchObject({ cat: 'tool', ts: 5000, dur: 3000, tid: 1 });
+    expect(span('load')).toMatchObject({ cat: 'step', ts: 13000, dur: 7000, tid: 3 });
+    expect(trace.traceEvents).toContainEqual(
+      expect.objectContaining({ name: 'cacheHit', ph: 'i', s: 't', ts: 9000, tid: 1 })
+    );
+  });
+
+  it('should move overlapping spans to extra tracks and close failed steps', () => {
+    const trace = WorkflowTreeDebugger.fromEventHistory(history).toChromeTrace();
+
+    expect(trace.traceEvents.find((event) => event.name === 'parse')).toMatchObject({
+      ts: 2000,
+      dur: 13000,
+      tid: 2,
+      args: { error: 'boom' },
+    });
+    const names = trace.traceEvents
+      .filter((event) => event.name === 'thread_name' || event.name === 'process_name')
+      .map((event) => [event.tid, event.args?.name]);
+    expect(names).toEqual([
+      [0, 'Pipeline'],
+      [1, 'Pipeline'],
+      [2, 'Pipeline (2)'],
+      [3, 'Child'],
+    ]);
+  });
+
+  describe('live workflows', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'groundswell-trace-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should write a trace file of a run', async () => {
+      const workflow = createWorkflow({ name: 'Pipeline' }, async (ctx) => {
+        await ctx.step('fetch', async () => 'page');
+      });
+      const debugger_ = new WorkflowTreeDebugger(workflow, { persistEvents: true });
+      await workflow.run();
+
+      await debugger_.exportChromeTrace(join(dir, 'run.trace.json'));
+      const trace: ChromeTrace = JSON.parse(await readFile(join(dir, 'run.trace.json'), 'utf-8'));
+
+      expect(trace.displayTimeUnit).toBe('ms');
+      expect(trace.traceEvents).toContainEqual(
+        expect.objectContaining({ name: 'fetch', cat: 'step', ph: 'X', tid: 1 })
+      );
+    });
+
+    it('should only name the process without event times', async () => {
+      const workflow = createWorkflow({ name: 'Pipeline' }, async (ctx) => {
+        await ctx.step('fetch', async () => 'page');
+      });
+      const debugger_ = new WorkflowTreeDebugger(workflow);
+      await workflow.run();
+
+      expect(debugger_.toChromeTrace().traceEvents).toEqual([
+        expect.objectContaining({ name: 'process_name', args: { name: 'Pipeline' } }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Workflow, WorkflowTreeDebugger } from '../../index.js';
+import type { WorkflowEvent } from '../../types/events.js';
+
+class LoggingWorkflow extends Workflow {
+  async run(): Promise<void> {
+    this.logger.info(`${this.node.name} done`);
+    this.setStatus('completed');
+  }
+}
+
+describe('WorkflowTreeDebugger event history loading', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'groundswell-history-'));
+    path = join(dir, 'events.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  /** Run a root with two children; `Fetch` records an agent call shared with the root */
+  async function runAndSave(): Promise<WorkflowTreeDebugger> {
+    const root = new LoggingWorkflow('Pipeline');
+    const live = new WorkflowTreeDebugger(root, { persistEvents: true });
+    const fetch = new LoggingWorkflow('Fetch', root);
+    const parse = new LoggingWorkflow('Parse', root);
+
+    await fetch.run();
+    const call: WorkflowEvent = {
+      type: 'agentPromptEnd',
+      agentId: 'a1',
+      agentName: 'Fetcher',
+      promptId: 'p1',
+      node: fetch.getNode(),
+      duration: 12,
+      model: 'anthropic/claude-sonnet-4-20250514',
+      costUsd: 0.25,
+    };
+    // GOTCHA: like ctx.step, record the event on the child and emit it through the root
+    fetch.getNode().events.push(call);
+    root.emitEvent(call);
+    parse.snapshotState();
+    parse.setStatus('failed');
+    await root.run();
+
+    await live.saveEventHistory(path);
+    return live;
+  }
+
+  it('should restore the tree, logs and stats from a saved file', async () => {
+    const live = await runAndSave();
+
+    const restored = await WorkflowTreeDebugger.fromEventHistoryFile(path);
+
+    expect(restored.toTreeString()).toBe(live.toTreeString());
+    expect(restored.toLogString()).toBe(live.toLogString());
+    expect(restored.getStats()).toEqual(live.getStats());
+    expect(restored.getStats().totalCostUsd).toBe(0.25);
+    expect(restored.getEventHistory().map((event) => event.type)).toEqual(
+      live.getEventHistory().map((event) => event.type)
+    );
+  });
+
+  it('should rebuild parent links and point events at the restored nodes', async () => {
+    await runAndSave();
+
+    const restored = await WorkflowTreeDebugger.fromEventHistoryFile(path);
+    const root = restored.getTree();
+    const [fetch, parse] = root.children;
+
+    expect(root.parent).toBeNull();
+    expect(fetch.parent).toBe(root);
+    expect(restored.getNode(parse.id)).toBe(parse);
+    expect(parse.stateSnapshot).not.toBeNull();
+
+    const call = restored.getEventHistory().find((event) => event.type === 'agentPromptEnd');
+    expect(call && 'node' in call && call.node).toBe(fetch);
+    // The shared event is restored once and kept on both nodes
+    expect(fetch.events).toContain(call);
+    expect(root.events).toContain(call);
+  });
+
+  it('should keep the timestamps of when events were received', async () => {
+    await runAndSave();
+
+    const first = JSON.parse(await readFile(path, 'utf-8'));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const restored = await WorkflowTreeDebugger.fromEventHistoryFile(path);
+    await restored.saveEventHistory(path);
+    const second = JSON.parse(await readFile(path, 'utf-8'));
+
+    expect(second.events.map((event: { timestamp: number }) => event.timestamp)).toEqual(
+      first.events.map((event: { timestamp: number }) => event.timestamp)
+    );
+    expect(second.tree).toEqual(first.tree);
+  });
+
+  it('should rebuild the tree of an unversioned event array with the replayer', async () => {
+    await writeFile(
+      path,
+      JSON.stringify([
+        { type: 'treeUpdated', timestamp: 1, rootId: 'root', rootName: 'Legacy' },
+        { type: 'childAttached', timestamp: 2, parentId: 'root', childId: 'c1', childName: 'Child', childStatus: 'idle' },
+        { type: 'error', timestamp: 3, nodeId: 'c1', nodeName: 'Child', error: { message: 'boom' } },
+      ])
+    );
+
+    const restored = await WorkflowTreeDebugger.fromEventHistoryFile(path);
+
+    expect(restored.getTree().name).toBe('Legacy');
+    expect(restored.getTree().children[0]).toMatchObject({ id: 'c1', name: 'Child' });
+    expect(restored.getTree().children[0].parent).toBe(restored.getTree());
+    expect(restored.getEventHistory()).toHaveLength(3);
+  });
+
+  it('should accept parsed history objects', async () => {
+    await runAndSave();
+    const history = JSON.parse(await readFile(path, 'utf-8'));
+
+    const restored = WorkflowTreeDebugger.fromEventHistory(history);
+
+    expect(restored.getTree().children.map((child) => child.name)).toEqual(['Fetch', 'Parse']);
+  });
+
+  it('should reject unsupported versions', async () => {
+    await writeFile(path, JSON.stringify({ version: 2, savedAt: 0, tree: null, events: [] }));
+
+    await expect(WorkflowTreeDebugger.fromEventHistoryFile(path)).rejects.toThrow(
+      'Unsupported event history version 2'
+    );
+    expect(() => WorkflowTreeDebugger.fromEventHistory({ foo: 'bar' } as never)).toThrow('Expected array');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Workflow, Step, ObservedState, WorkflowTreeDebugger } from '../../index.js';
+import type { WorkflowEvent } from '../../types/index.js';
+
+class NightlyWorkflow extends Workflow {
+  @ObservedState()
+  page = 3;
+
+  @Step()
+  async summarize(): Promise<void> {
+    const call: WorkflowEvent = {
+      type: 'agentPromptEnd',
+      agentId: 'a1',
+      agentName: 'Summarizer',
+      promptId: 'p1',
+      node: this.node,
+      duration: 40,
+      tokenUsage: { input_tokens: 1200, output_tokens: 300 },
+      model: 'anthropic/claude-sonnet-4-20250514',
+      costUsd: 0.0081,
+    };
+    this.emitEvent(call);
+    this.logger.info('summarized <b>3</b> pages');
+  }
+
+  @Step()
+  async publish(): Promise<void> {
+    throw new Error('upload rejected');
+  }
+
+  async run(): Promise<void> {
+    this.setStatus('running');
+    try {
+      await this.summarize();
+      await this.publish();
+    } catch (error) {
+      this.setStatus('failed');
+      throw error;
+    }
+  }
+}
+
+describe('WorkflowTreeDebugger HTML reports', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'groundswell-report-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function runNightly(): Promise<WorkflowTreeDebugger> {
+    const root = new NightlyWorkflow('Nightly');
+    const debugger_ = new WorkflowTreeDebugger(root, { persistEvents: true });
+    const fetch = new Workflow({ name: 'Fetch' }, async (ctx) => {
+      await ctx.step('download <raw>', async () => 'ok');
+    });
+    root.attachChild(fetch);
+    await fetch.run();
+    await expect(root.run()).rejects.toThrow('upload rejected');
+    return debugger_;
+  }
+
+  it('should write a self-contained report of the run', async () => {
+    const debugger_ = await runNightly();
+    const path = join(dir, 'report.html');
+
+    await debugger_.exportHtml(path);
+    const html = await readFile(path, 'utf-8');
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).not.toMatch(/<script|<link|src=/);
+    // Collapsible tree with status, tokens and cost per node
+    expect(html).toContain('<details open><summary><span class="status" style="background:#d93025">failed</span>Nightly');
+    expect(html).toContain('Fetch');
+    expect(html).toContain('download &lt;raw&gt;');
+    expect(html).toContain('1500 tokens');
+    expect(html).toContain('$0.0081');
+    // Errors with the state at failure
+    expect(html).toContain('<b>upload rejected</b>');
+    expect(html).toContain('&quot;page&quot;: 3');
+    // Logs, plain text tree and timeline
+    expect(html).toContain('summarized &lt;b&gt;3&lt;/b&gt; pages');
+    expect(html).toContain(debugger_.toTreeString().split('\n')[0]);
+    expect(html).toContain('class="bar"');
+    expect(html).toContain('<td>agentPromptEnd</td>');
+  });
+
+  it('should write the same report from a saved event history', async () => {
+    const debugger_ = await runNightly();
+    await debugger_.saveEventHistory(join(dir, 'run.json'));
+
+    await WorkflowTreeDebugger.exportEventHistoryHtml(join(dir, 'run.json'), join(dir, 'saved.html'));
+    const saved = await readFile(join(dir, 'saved.html'), 'utf-8');
+
+    const withoutDate = (html: string) => html.replace(/Generated [^<]*/, '');
+    expect(withoutDate(saved)).toBe(withoutDate(debugger_.toHtml()));
+  });
+
+  it('should render without event times when events are not persisted', async () => {
+    const workflow = new NightlyWorkflow('Nightly');
+    const debugger_ = new WorkflowTreeDebugger(workflow);
+    await expect(workflow.run()).rejects.toThrow();
+
+    const html = debugger_.toHtml();
+
+    expect(html).toContain('No event times were recorded');
+    expect(html).toContain('<b>upload rejected</b>');
+    expect(html).toContain('1500 tokens');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { BudgetTracker, describeBudgetLimit, type WorkflowNode } from '../../../index.js';
+
+const node = { id: 'n1', name: 'Owner' } as WorkflowNode;
+
+describe('BudgetTracker', () => {
+  it('should add up tokens and cost', () => {
+    const tracker = new BudgetTracker(
+      { pricing: { inputPerMillionTokens: 2, outputPerMillionTokens: 10 } },
+      node
+    );
+
+    tracker.record({ input_tokens: 1000, output_tokens: 500 });
+    tracker.record({ input_tokens: 1000, output_tokens: 500 });
+
+    expect(tracker.usage).toEqual({
+      inputTokens: 2000,
+      outputTokens: 1000,
+      totalTokens: 3000,
+      costUsd: 0.014,
+    });
+    expect(tracker.exceeded()).toBeUndefined();
+  });
+
+  it('should use the model catalog cost unless the budget has its own pricing', () => {
+    const catalogPriced = new BudgetTracker({}, node);
+    const ownPriced = new BudgetTracker(
+      { pricing: { inputPerMillionTokens: 1, outputPerMillionTokens: 1 } },
+      node
+    );
+
+    catalogPriced.record({ input_tokens: 1000, output_tokens: 0 }, 0.5);
+    ownPriced.record({ input_tokens: 1000, output_tokens: 0 }, 0.5);
+
+    expect(catalogPriced.usage.costUsd).toBe(0.5);
+    expect(ownPriced.usage.costUsd).toBe(0.001);
+  });
+
+  it('should report each threshold of each limit once', () => {
+    const tracker = new BudgetTracker({ maxInputTokens: 100, maxOutputTokens: 100 }, node);
+
+    expect(tracker.record({ input_tokens: 85, output_tokens: 10 })).toEqual([
+      { metric: 'inputTokens', used: 85, limit: 100, threshold: 0.8 },
+    ]);
+    expect(tracker.record({ input_tokens: 5, output_tokens: 0 })).toEqual([]);
+    expect(tracker.record({ input_tokens: 20, output_tokens: 90 })).toEqual([
+      { metric: 'inputTokens', used: 110, limit: 100, threshold: 1 },
+      { metric: 'outputTokens', used: 100, limit: 100, threshold: 0.8 },
+      { metric: 'outputTokens', used: 100, limit: 100, threshold: 1 },
+    ]);
+  });
+
+  it('should be exceeded once usage reaches a limit and clear on reset', () => {
+    const tracker = new BudgetTracker({ maxTotalTokens: 10 }, node);
+
+    tracker.record({ input_tokens: 6, output_tokens: 4 });
+    const exceeded = tracker.exceeded();
+
+    expect(exceeded).toEqual({ metric: 'totalTokens', used: 10, limit: 10 });
+    expect(describeBudgetLimit(exceeded!)).toBe('totalTokens budget exhausted (10 of 10 used)');
+
+    tracker.reset();
+    expect(tracker.exceeded()).toBeUndefined();
+    expect(tracker.record({ input_tokens: 8, output_tokens: 0 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { runWithConcurrency } from '../../../utils/concurrency.js';
+import { WorkflowCancelledError } from '../../../utils/cancellation.js';
+
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('runWithConcurrency', () => {
+  it('should never run more than maxConcurrency tasks at once', async () => {
+    let active = 0;
+    let peak = 0;
+
+    const tasks = Array.from({ length: 10 }, (_, i) => async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      active--;
+      return i;
+    });
+
+    const results = await runWithConcurrency(tasks, { maxConcurrency: 3 });
+
+    expect(peak).toBe(3);
+    expect(results.map((r) => r.status === 'fulfilled' && r.value)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('should run every task at once without a limit', async () => {
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const pending = runWithConcurrency(
+      gates.map((gate, i) => async () => {
+        started.push(i);
+        await gate.promise;
+      })
+    );
+
+    expect(started).toEqual([0, 1, 2]);
+    gates.forEach((gate) => gate.resolve());
+    await pending;
+  });
+
+  it('should report rejections without rejecting', async () => {
+    const error = new Error('boom');
+    const results = await runWithConcurrency([async () => 1, async () => { throw error; }]);
+
+    expect(results).toEqual([
+      { status: 'fulfilled', value: 1 },
+      { status: 'rejected', reason: error },
+    ]);
+  });
+
+  it('should skip queued tasks after the first rejection in fail-fast mode', async () => {
+    const calls: number[] = [];
+    const rejections: number[] = [];
+
+    const results = await runWithConcurrency(
+      [0, 1, 2, 3].map((i) => async () => {
+        calls.push(i);
+        if (i === 1) throw new Error('fail');
+        return i;
+      }),
+      { maxConcurrency: 1, failFast: true, onReject: (_, index) => rejections.push(index) }
+    );
+
+    expect(calls).toEqual([0, 1]);
+    expect(rejections).toEqual([1]);
+    expect(results[2]).toMatchObject({ status: 'rejected' });
+    expect((results[3] as PromiseRejectedResult).reason).toBeInstanceOf(WorkflowCancelledError);
+  });
+
+  it('should not start queued tasks once the signal aborts', async () => {
+    const controller = new AbortController();
+    const calls: number[] = [];
+
+    const results = await runWithConcurrency(
+      [0, 1, 2].map((i) => async () => {
+        calls.push(i);
+        controller.abort('stop');
+        return i;
+      }),
+      { maxConcurrency: 1, signal: controller.signal }
+    );
+
+    expect(calls).toEqual([0]);
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 0 });
+    expect((results[1] as PromiseRejectedResult).reason).toMatchObject({ code: 'CANCELLED', reason: 'stop' });
+  });
+
+  it('should reject a maxConcurrency that is not an integer >= 1', async () => {
+    const task = async () => 1;
+
+    for (const maxConcurrency of [0.5, 0, -1]) {
+      await expect(runWithConcurrency([task], { maxConcurrency })).rejects.toThrow(
+        new RangeError(`maxConcurrency must be an integer >= 1, got ${maxConcurrency}`)
+      );
+    }
+  });
+});
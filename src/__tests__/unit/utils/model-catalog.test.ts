@@ -0,0 +1,83 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  ModelCatalog,
+  computeTokenCost,
+  collectSubtreeCosts,
+  parseModelSpec,
+  type WorkflowEvent,
+  type WorkflowNode,
+} from '../../../index.js';
+
+function node(id: string, children: WorkflowNode[] = [], events: WorkflowEvent[] = []): WorkflowNode {
+  return { id, name: id, parent: null, children, status: 'completed', logs: [], events, stateSnapshot: null };
+}
+
+function promptEnd(at: WorkflowNode, costUsd?: number): WorkflowEvent {
+  return {
+    type: 'agentPromptEnd',
+    agentId: 'a',
+    agentName: 'Agent',
+    promptId: 'p',
+    node: at,
+    duration: 1,
+    costUsd,
+  };
+}
+
+describe('ModelCatalog', () => {
+  const catalog = new ModelCatalog();
+
+  afterEach(() => catalog.reset());
+
+  it('should look up models by spec, plain string or provider/model string', () => {
+    const entry = catalog.get('anthropic/claude-sonnet-4-20250514');
+
+    expect(entry).toMatchObject({ inputPerMillionTokens: 3, outputPerMillionTokens: 15, contextWindow: 200_000 });
+    expect(catalog.get('claude-sonnet-4-20250514')).toBe(entry);
+    expect(catalog.get(parseModelSpec('anthropic/claude-sonnet-4-20250514'))).toBe(entry);
+    expect(catalog.get('openai/gpt-4o')).toBeUndefined();
+  });
+
+  it('should let users add custom providers and override built-in prices', () => {
+    catalog
+      .set('openai/gpt-4o', { inputPerMillionTokens: 2.5, outputPerMillionTokens: 10, contextWindow: 128_000 })
+      .set('claude-sonnet-4-20250514', { inputPerMillionTokens: 1, outputPerMillionTokens: 1, contextWindow: 1 });
+
+    expect(catalog.computeCost('openai/gpt-4o', { input_tokens: 1_000_000, output_tokens: 100_000 })).toBe(3.5);
+    expect(catalog.get('anthropic/claude-sonnet-4-20250514')?.contextWindow).toBe(1);
+
+    catalog.reset();
+    expect(catalog.get('openai/gpt-4o')).toBeUndefined();
+    expect(catalog.get('anthropic/claude-sonnet-4-20250514')?.contextWindow).toBe(200_000);
+  });
+
+  it('should price cache reads and writes, falling back to the input price', () => {
+    const usage = {
+      input_tokens: 1_000_000,
+      output_tokens: 0,
+      cache_read_input_tokens: 1_000_000,
+      cache_creation_input_tokens: 1_000_000,
+    };
+
+    expect(
+      computeTokenCost(
+        { inputPerMillionTokens: 3, outputPerMillionTokens: 15, cacheReadPerMillionTokens: 0.3, cacheWritePerMillionTokens: 3.75 },
+        usage
+      )
+    ).toBeCloseTo(7.05);
+    expect(computeTokenCost({ inputPerMillionTokens: 3, outputPerMillionTokens: 15 }, usage)).toBe(9);
+  });
+});
+
+describe('collectSubtreeCosts', () => {
+  it('should total costs per subtree by the node each call ran under', () => {
+    const step = node('step');
+    const detached = node('detached');
+    const child = node('child', [], [promptEnd(detached, 0.25)]);
+    const root = node('root', [step, child], [promptEnd(step, 1), promptEnd(step, 0.5), promptEnd(step)]);
+
+    const costs = collectSubtreeCosts(root);
+
+    expect(Object.fromEntries(costs)).toEqual({ root: 1.75, step: 1.5, child: 0.25 });
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import { computeRetryDelay, getRetryAfterMs } from '../../../utils/retry-policy.js';
+import { Workflow, Step, type WorkflowError } from '../../../index.js';
+import { collectEvents } from '../../helpers/index.js';
+
+describe('computeRetryDelay', () => {
+  const error = new Error('boom');
+
+  it('should use the fixed retryDelayMs without a policy', () => {
+    expect(computeRetryDelay({}, 3, error)).toEqual({ delayMs: 1000, reason: 'fixed' });
+    expect(computeRetryDelay({ retryDelayMs: 50 }, 3, error)).toEqual({ delayMs: 50, reason: 'fixed' });
+  });
+
+  it('should grow exponentially and cap at maxDelayMs', () => {
+    const options = { retryPolicy: { initialDelayMs: 100, maxDelayMs: 500 } };
+
+    expect([1, 2, 3, 4].map((n) => computeRetryDelay(options, n, error).delayMs)).toEqual([
+      100, 200, 400, 500,
+    ]);
+    expect(computeRetryDelay(options, 1, error).reason).toBe('backoff');
+  });
+
+  it('should support linear and fixed backoff and fall back to retryDelayMs', () => {
+    expect(computeRetryDelay({ retryDelayMs: 10, retryPolicy: { backoff: 'linear' } }, 3, error).delayMs).toBe(30);
+    expect(computeRetryDelay({ retryPolicy: { backoff: 'fixed', initialDelayMs: 7 } }, 5, error).delayMs).toBe(7);
+  });
+
+  it('should apply full and equal jitter', () => {
+    const options = (jitter: 'full' | 'equal') => ({ retryPolicy: { initialDelayMs: 100, jitter } });
+
+    expect(computeRetryDelay(options('full'), 1, error, () => 0.25).delayMs).toBe(25);
+    expect(computeRetryDelay(options('equal'), 1, error, () => 0.25).delayMs).toBe(63);
+    expect(computeRetryDelay(options('equal'), 1, error, () => 0).delayMs).toBe(50);
+  });
+
+  it('should prefer a retry-after hint unless disabled', () => {
+    const rateLimited = { code: 'RATE_LIMIT', original: { details: { retryAfter: 2 } } };
+    const policy = { initialDelayMs: 10, maxDelayMs: 100 };
+
+    expect(computeRetryDelay({ retryPolicy: policy }, 1, rateLimited)).toEqual({
+      delayMs: 2000,
+      reason: 'retry-after',
+    });
+    expect(
+      computeRetryDelay({ retryPolicy: { ...policy, respectRetryAfter: false } }, 1, rateLimited)
+    ).toEqual({ delayMs: 10, reason: 'backoff' });
+  });
+
+  it('should cap retry-after hints at maxRetryAfterMs', () => {
+    const stalled = { details: { retryAfter: 3600 } };
+
+    expect(computeRetryDelay({}, 1, stalled)).toEqual({ delayMs: 30_000, reason: 'retry-after' });
+    expect(computeRetryDelay({ retryPolicy: { maxRetryAfterMs: 5_000 } }, 1, stalled)).toEqual({
+      delayMs: 5_000,
+      reason: 'retry-after',
+    });
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  it('should read hints from errors, agent details and headers', () => {
+    expect(getRetryAfterMs({ retryAfterMs: 1500 })).toBe(1500);
+    expect(getRetryAfterMs({ details: { retryAfter: '3' } })).toBe(3000);
+    expect(getRetryAfterMs({ error: { code: 'RATE_LIMIT', details: { retryAfterMs: 20 } } })).toBe(20);
+    expect(getRetryAfterMs({ response: { headers: { 'Retry-After': '1' } } })).toBe(1000);
+    expect(getRetryAfterMs({ headers: new Headers({ 'retry-after': '4' }) })).toBe(4000);
+  });
+
+  it('should follow the original and cause chain', () => {
+    const cause = Object.assign(new Error('429'), { retryAfter: 1 });
+    const workflowError = { message: 'failed', original: new Error('wrapped', { cause }) };
+
+    expect(getRetryAfterMs(workflowError)).toBe(1000);
+  });
+
+  it('should resolve HTTP dates and ignore invalid values', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+
+    expect(getRetryAfterMs({ retryAfter: 'Wed, 01 Jan 2025 00:00:05 GMT' }, now)).toBe(5000);
+    expect(getRetryAfterMs({ retryAfter: 'soon' }, now)).toBeUndefined();
+    expect(getRetryAfterMs({ retryAfter: -1 }, now)).toBeUndefined();
+    expect(getRetryAfterMs(new Error('no hint'))).toBeUndefined();
+  });
+});
+
+describe('retry policies in steps', () => {
+  it('should report backoff delays on stepRetry events for ctx.step', async () => {
+    let attempts = 0;
+    const workflow = new Workflow({ name: 'Backoff' }, async (ctx) =>
+      ctx.step(
+        'flaky',
+        async () => {
+          if (++attempts < 3) throw new Error('NETWORK_ERROR');
+          return attempts;
+        },
+        { restartable: true, retryPolicy: { initialDelayMs: 2, multiplier: 3 } }
+      )
+    );
+    const events = collectEvents(workflow);
+
+    await expect(workflow.run()).resolves.toMatchObject({ data: 3 });
+
+    const retries = events.filter((e) => e.type === 'stepRetry');
+    expect(retries.map((e) => e.type === 'stepRetry' && [e.delayMs, e.delayReason])).toEqual([
+      [2, 'backoff'],
+      [6, 'backoff'],
+    ]);
+  });
+
+  it('should wait for a retry-after hint in @Step', async () => {
+    let attempts = 0;
+
+    class RateLimitedWorkflow extends Workflow {
+      @Step({ restartable: true, retryDelayMs: 1 })
+      async call(): Promise<string> {
+        if (++attempts === 1) {
+          throw Object.assign(new Error('RATE_LIMIT'), { details: { retryAfterMs: 30 } });
+        }
+        return 'ok';
+      }
+
+      async run(): Promise<string> {
+        return this.call();
+      }
+    }
+
+    const workflow = new RateLimitedWorkflow('RateLimited');
+    const events = collectEvents(workflow);
+    const start = Date.now();
+
+    await expect(workflow.run()).resolves.toBe('ok');
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(25);
+    const retry = events.find((e) => e.type === 'stepRetry');
+    expect(retry?.type === 'stepRetry' && [retry.delayMs, retry.delayReason]).toEqual([30, 'retry-after']);
+  });
+
+  it('should not retry when the back-off would outlast the deadline', async () => {
+    let attempts = 0;
+    const workflow = new Workflow({ name: 'Deadline', deadline: Date.now() + 1_000 }, async (ctx) =>
+      ctx.step(
+        'flaky',
+        async () => {
+          attempts++;
+          throw Object.assign(new Error('RATE_LIMIT'), { details: { retryAfterMs: 5_000 } });
+        },
+        { restartable: true, maxRetries: 3 }
+      )
+    );
+    const events = collectEvents(workflow);
+    const start = Date.now();
+
+    await expect(workflow.run()).rejects.toMatchObject({ message: 'RATE_LIMIT' });
+
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(attempts).toBe(1);
+    expect(events.some((e) => e.type === 'stepRetry')).toBe(false);
+  });
+
+  it('should not retry a @Step when the back-off would outlast the deadline', async () => {
+    let attempts = 0;
+
+    class DeadlineWorkflow extends Workflow {
+      constructor() {
+        super({ name: 'Deadline', deadline: Date.now() + 1_000 });
+      }
+
+      @Step({ restartable: true, maxRetries: 3, retryDelayMs: 5_000 })
+      async call(): Promise<void> {
+        attempts++;
+        throw new Error('NETWORK_ERROR');
+      }
+
+      async run(): Promise<void> {
+        await this.call();
+      }
+    }
+
+    const start = Date.now();
+
+    await expect(new DeadlineWorkflow().run()).rejects.toMatchObject({ message: 'NETWORK_ERROR' });
+
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(attempts).toBe(1);
+  });
+
+  it('should back off in restartStep when given a policy and error', async () => {
+    let calls = 0;
+
+    class RestartWorkflow extends Workflow {
+      async work(): Promise<number> {
+        return ++calls;
+      }
+
+      async run(): Promise<void> {}
+    }
+
+    const workflow = new RestartWorkflow('Restart');
+    const error = { message: 'limited', original: { retryAfterMs: 25 } } as WorkflowError;
+    const start = Date.now();
+
+    await expect(workflow.restartStep('work', { error })).resolves.toBe(1);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(20);
+
+    const quick = Date.now();
+    await workflow.restartStep('work', { retryPolicy: { initialDelayMs: 0 } });
+    expect(Date.now() - quick).toBeLessThan(20);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Workflow, Agent, Prompt, Step } from '../../index.js';
+import { HarnessRegistry } from '../../harnesses/harness-registry.js';
+import { resetGlobalConfig } from '../../utils/provider-config.js';
+import { createSuccessResponse } from '../../types/agent.js';
+import type { Harness } from '../../types/harnesses.js';
+import { collectEvents, registerFakeHarness } from '../helpers/index.js';
+
+describe('Workflow budgets', () => {
+  let harness: Harness;
+
+  beforeEach(() => {
+    resetGlobalConfig();
+
+    // Every call uses 100 input and 50 output tokens
+    const execute = vi.fn(async () =>
+      createSuccessResponse('ok', {
+        agentId: 'mock',
+        timestamp: Date.now(),
+        usage: { input_tokens: 100, output_tokens: 50 },
+      })
+    );
+
+    harness = registerFakeHarness(execute);
+  });
+
+  afterEach(() => {
+    HarnessRegistry['_resetForTesting']();
+    resetGlobalConfig();
+  });
+
+  const agent = () => new Agent({ harness: 'pi' });
+  const prompt = () => new Prompt({ user: 'hi' });
+
+  it('should refuse agent calls with BUDGET_EXCEEDED once the budget is spent', async () => {
+    const codes: Array<string | undefined> = [];
+    const workflow = new Workflow(
+      { name: 'Capped', budget: { maxOutputTokens: 100 } },
+      async (ctx) => {
+        for (let i = 0; i < 3; i++) {
+          const response = await ctx.step(`ask ${i}`, () => agent().prompt(prompt()));
+          codes.push(response.error?.code);
+        }
+      }
+    );
+
+    await workflow.run();
+
+    expect(codes).toEqual([undefined, undefined, 'BUDGET_EXCEEDED']);
+    expect(harness.execute).toHaveBeenCalledTimes(2);
+    expect(workflow.getBudgetUsage()).toEqual({
+      inputTokens: 200,
+      outputTokens: 100,
+      totalTokens: 300,
+      // Catalog price of the default model: 100 * $3/M + 50 * $15/M per call
+      costUsd: expect.closeTo(0.0021, 10),
+    });
+  });
+
+  it('should report why a call was refused', async () => {
+    let refusal: Awaited<ReturnType<Agent['prompt']>> | undefined;
+    const workflow = new Workflow(
+      {
+        name: 'Priced',
+        budget: {
+          maxCostUsd: 0.001,
+          pricing: { inputPerMillionTokens: 3, outputPerMillionTokens: 20 },
+        },
+      },
+      async (ctx) => {
+        // One call costs 100 * $3/M + 50 * $20/M = $0.0013
+        await ctx.step('first', () => agent().prompt(prompt()));
+        refusal = await ctx.step('second', () => agent().prompt(prompt()));
+      }
+    );
+
+    await workflow.run();
+
+    expect(refusal?.error).toMatchObject({
+      code: 'BUDGET_EXCEEDED',
+      message: 'Agent call refused: costUsd budget exhausted ($0.0013 of $0.0010 used)',
+      recoverable: false,
+      details: { metric: 'costUsd', limit: 0.001 },
+    });
+  });
+
+  it('should emit budgetWarning once per threshold', async () => {
+    const workflow = new Workflow(
+      { name: 'Warned', budget: { maxTotalTokens: 600, warnAt: [0.5, 1] } },
+      async (ctx) => {
+        for (let i = 0; i < 4; i++) {
+          await ctx.step(`ask ${i}`, () => agent().prompt(prompt()));
+        }
+      }
+    );
+    const events = collectEvents(workflow);
+
+    await workflow.run();
+
+    const warnings = events.filter((e) => e.type === 'budgetWarning');
+    expect(warnings.map((e) => e.type === 'budgetWarning' && [e.threshold, e.used])).toEqual([
+      [0.5, 300],
+      [1, 600],
+    ]);
+    expect(warnings[0].type === 'budgetWarning' && warnings[0].node).toBe(workflow.node);
+  });
+
+  it('should count attached and spawned children against the parent budget', async () => {
+    class ChildWorkflow extends Workflow {
+      @Step()
+      async ask() {
+        return agent().prompt(prompt());
+      }
+
+      async run() {
+        return this.ask();
+      }
+    }
+
+    const spawned = new Workflow({ name: 'Spawned' }, async (ctx) =>
+      ctx.step('ask', () => agent().prompt(prompt()))
+    );
+    let refused: string | undefined;
+    const parent = new Workflow(
+      { name: 'Parent', budget: { maxInputTokens: 200 } },
+      async (ctx) => {
+        await ctx.step('attached', () => new ChildWorkflow('Attached', parent).run());
+        await ctx.spawnWorkflow(spawned);
+        refused = (await ctx.step('own', () => agent().prompt(prompt()))).error?.code;
+      }
+    );
+
+    await parent.run();
+
+    expect(parent.getBudgetUsage()?.inputTokens).toBe(200);
+    expect(refused).toBe('BUDGET_EXCEEDED');
+  });
+
+  it('should enforce a child budget independently of the parent', async () => {
+    const child = new Workflow({ name: 'Child', budget: { maxOutputTokens: 50 } }, async (ctx) => {
+      await ctx.step('first', () => agent().prompt(prompt()));
+      return (await ctx.step('second', () => agent().prompt(prompt()))).error?.code;
+    });
+    const parent = new Workflow({ name: 'Parent', budget: { maxOutputTokens: 1000 } }, async (ctx) =>
+      ctx.spawnWorkflow(child)
+    );
+
+    const result = await parent.run();
+
+    expect((result as { data: { data: unknown } }).data.data).toBe('BUDGET_EXCEEDED');
+    expect(child.getBudgetUsage()?.outputTokens).toBe(50);
+    expect(parent.getBudgetUsage()?.outputTokens).toBe(50);
+  });
+
+  it('should reset usage at the start of each run', async () => {
+    const workflow = new Workflow({ name: 'Rerun', budget: { maxOutputTokens: 50 } }, async (ctx) =>
+      (await ctx.step('ask', () => agent().prompt(prompt()))).status
+    );
+
+    await expect(workflow.run()).resolves.toMatchObject({ data: 'success' });
+    await expect(workflow.run()).resolves.toMatchObject({ data: 'success' });
+    expect(workflow.getBudgetUsage()?.outputTokens).toBe(50);
+  });
+});
@@ -0,0 +1,370 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  Workflow,
+  Step,
+  Task,
+  Agent,
+  Prompt,
+  WorkflowCancelledError,
+  isCancellationError,
+} from '../../index.js';
+import { HarnessRegistry } from '../../harnesses/harness-registry.js';
+import { resetGlobalConfig } from '../../utils/provider-config.js';
+import { createSuccessResponse } from '../../types/agent.js';
+import type { Harness, HarnessId, HarnessRequest } from '../../types/harnesses.js';
+import type { ToolExecutionRequest, ToolExecutionResult } from '../../types/providers.js';
+import { z } from 'zod';
+import { collectEvents, registerFakeHarness } from '../helpers/index.js';
+
+/** Promise that never settles unless the signal aborts */
+function waitForAbort(signal: AbortSignal | undefined): Promise<never> {
+  return new Promise((_, reject) => {
+    signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+}
+
+describe('Workflow cancellation', () => {
+  describe('functional workflows', () => {
+    it('should stop at the running step and mark it cancelled', async () => {
+      const reached: string[] = [];
+      let workflow!: Workflow<void>;
+
+      workflow = new Workflow<void>({ name: 'Cancellable' }, async (ctx) => {
+        await ctx.step('first', async () => {
+          reached.push('first');
+        });
+        await ctx.step('slow', async () => {
+          reached.push('slow');
+          workflow.cancel('user abort');
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        });
+        await ctx.step('never', async () => {
+          reached.push('never');
+        });
+      });
+      const events = collectEvents(workflow);
+
+      const error = await workflow.run().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(WorkflowCancelledError);
+      expect((error as WorkflowCancelledError).message).toBe('Workflow cancelled: user abort');
+      expect(reached).toEqual(['first', 'slow']);
+      expect(workflow.status).toBe('cancelled');
+      expect(workflow.node.children.map((c) => [c.name, c.status])).toEqual([
+        ['first', 'completed'],
+        ['slow', 'cancelled'],
+      ]);
+
+      const cancelled = events.filter((e) => e.type === 'cancelled');
+      expect(cancelled.map((e) => e.type === 'cancelled' && [e.node.name, e.step, e.reason])).toEqual([
+        ['Cancellable', undefined, 'user abort'],
+        ['slow', 'slow', 'user abort'],
+      ]);
+      expect(events.some((e) => e.type === 'error')).toBe(false);
+    });
+
+    it('should cancel when the run() signal aborts', async () => {
+      const controller = new AbortController();
+      const workflow = new Workflow({ name: 'Signalled' }, async (ctx) => {
+        await ctx.step('wait', async () => {
+          controller.abort('shutdown');
+          return waitForAbort(ctx.signal);
+        });
+      });
+
+      await expect(workflow.run({ signal: controller.signal })).rejects.toThrow(
+        'Workflow cancelled: shutdown'
+      );
+      expect(workflow.status).toBe('cancelled');
+    });
+
+    it('should not start when the signal is already aborted', async () => {
+      const executor = vi.fn(async () => 'never');
+      const workflow = new Workflow({ name: 'PreAborted' }, executor);
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(workflow.run({ signal: controller.signal })).rejects.toBeInstanceOf(
+        WorkflowCancelledError
+      );
+      expect(executor).not.toHaveBeenCalled();
+    });
+
+    it('should discard the result of an executor that ignores cancellation', async () => {
+      let workflow!: Workflow<string>;
+      workflow = new Workflow<string>({ name: 'Ignores' }, async () => {
+        workflow.cancel();
+        return 'finished anyway';
+      });
+
+      await expect(workflow.run()).rejects.toBeInstanceOf(WorkflowCancelledError);
+      expect(workflow.status).toBe('cancelled');
+    });
+
+    it('should not collect cancellation when error merging is enabled', async () => {
+      let workflow!: Workflow;
+      workflow = new Workflow(
+        { name: 'Merging', errorMergeStrategy: { enabled: true } },
+        async (ctx) => {
+          await ctx.step('cancelled', async () => {
+            workflow.cancel();
+          });
+        }
+      );
+
+      const error = await workflow.run().catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(WorkflowCancelledError);
+    });
+
+    it('should cancel spawned child workflows', async () => {
+      const child = new Workflow({ name: 'Child' }, async (ctx) => {
+        await ctx.step('child step', async () => waitForAbort(ctx.signal));
+      });
+      const parent = new Workflow({ name: 'Parent' }, async (ctx) => {
+        const pending = ctx.spawnWorkflow(child);
+        setTimeout(() => parent.cancel('stop all'), 10);
+        await pending;
+      });
+
+      await expect(parent.run()).rejects.toBeInstanceOf(WorkflowCancelledError);
+      expect(child.status).toBe('cancelled');
+      expect(child.node.children[0].status).toBe('cancelled');
+    });
+
+    it('should ignore cancel() after the workflow completed', async () => {
+      const workflow = new Workflow({ name: 'Done' }, async () => 42);
+      await workflow.run();
+
+      workflow.cancel();
+
+      expect(workflow.status).toBe('completed');
+      expect(workflow.signal.aborted).toBe(false);
+    });
+  });
+
+  describe('retry back-off', () => {
+    it('should end a ctx.step during its back-off without starting another attempt', async () => {
+      let workflow!: Workflow;
+      workflow = new Workflow({ name: 'BackOff' }, async (ctx) => {
+        await ctx.step(
+          'flaky',
+          async () => {
+            setTimeout(() => workflow.cancel('stop'), 10);
+            throw new Error('flaky');
+          },
+          { restartable: true, maxRetries: 3, retryDelayMs: 1_000 }
+        );
+      });
+      const events = collectEvents(workflow);
+
+      await expect(workflow.run()).rejects.toBeInstanceOf(WorkflowCancelledError);
+
+      expect(events.filter((e) => e.type === 'stepStart')).toHaveLength(1);
+      expect(workflow.node.children.map((node) => [node.name, node.status])).toEqual([['flaky', 'cancelled']]);
+      expect(events.some((e) => e.type === 'cancelled' && e.step === 'flaky')).toBe(true);
+    });
+
+    it('should end a @Step during its back-off without another attempt', async () => {
+      let attempts = 0;
+
+      class BackOffWorkflow extends Workflow {
+        @Step({ restartable: true, maxRetries: 3, retryDelayMs: 1_000 })
+        async work(): Promise<void> {
+          attempts++;
+          setTimeout(() => this.cancel('stop'), 10);
+          throw new Error('flaky');
+        }
+
+        async run(): Promise<void> {
+          await this.work();
+        }
+      }
+
+      const workflow = new BackOffWorkflow('BackOff');
+      const events = collectEvents(workflow);
+
+      await expect(workflow.run()).rejects.toBeInstanceOf(WorkflowCancelledError);
+
+      expect(attempts).toBe(1);
+      expect(events.some((e) => e.type === 'cancelled' && e.step === 'work')).toBe(true);
+    });
+  });
+
+  describe('class-based workflows', () => {
+    it('should not retry a cancelled @Step', async () => {
+      let attempts = 0;
+
+      class RetryingWorkflow extends Workflow {
+        @Step({ restartable: true, maxRetries: 3, retryDelayMs: 1 })
+        async work(): Promise<void> {
+          attempts++;
+          this.cancel('no more');
+          await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+
+        async run(): Promise<void> {
+          this.setStatus('running');
+          try {
+            await this.work();
+            this.setStatus('completed');
+          } catch (error) {
+            this.setStatus('failed');
+            throw error;
+          }
+        }
+      }
+
+      const workflow = new RetryingWorkflow('Retrying');
+      const events = collectEvents(workflow);
+
+      const error = await workflow.run().catch((e: unknown) => e);
+
+      expect(isCancellationError(error)).toBe(true);
+      expect(attempts).toBe(1);
+      // Status stays 'cancelled' even though run() sets 'failed' in its catch block
+      expect(workflow.status).toBe('cancelled');
+      expect(events.some((e) => e.type === 'stepRetry' || e.type === 'error')).toBe(false);
+      expect(events.some((e) => e.type === 'cancelled' && e.step === 'work')).toBe(true);
+    });
+
+    it('should cancel attached children and refuse to start new tasks', async () => {
+      class ChildWorkflow extends Workflow {
+        @Step()
+        async work(): Promise<void> {
+          await waitForAbort(this.signal);
+        }
+
+        async run(): Promise<void> {
+          this.setStatus('running');
+          await this.work();
+        }
+      }
+
+      class ParentWorkflow extends Workflow {
+        @Task({ concurrent: true })
+        async spawnChildren(): Promise<ChildWorkflow[]> {
+          return [new ChildWorkflow('A', this), new ChildWorkflow('B', this)];
+        }
+
+        async run(): Promise<void> {
+          this.setStatus('running');
+          await this.spawnChildren();
+        }
+      }
+
+      const parent = new ParentWorkflow('Parent');
+      const pending = parent.run();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      parent.cancel('stop');
+
+      await expect(pending).rejects.toBeInstanceOf(WorkflowCancelledError);
+      expect(parent.children.map((c) => c.status)).toEqual(['cancelled', 'cancelled']);
+      await expect(parent.spawnChildren()).rejects.toBeInstanceOf(WorkflowCancelledError);
+    });
+
+    it('should cancel children attached after cancellation', () => {
+      const parent = new Workflow('Parent');
+      parent.cancel();
+
+      const child = new Workflow('Late', parent);
+
+      expect(child.signal.aborted).toBe(true);
+      expect(child.status).toBe('cancelled');
+    });
+  });
+
+  describe('agents', () => {
+    let harness: Harness;
+    let toolResult: ToolExecutionResult | undefined;
+
+    beforeEach(() => {
+      resetGlobalConfig();
+      toolResult = undefined;
+
+      const execute = vi.fn(
+        async (
+          request: HarnessRequest,
+          toolExecutor: (req: ToolExecutionRequest) => Promise<ToolExecutionResult>
+        ) => {
+          await waitForAbort(request.options.signal).catch(() => {});
+          toolResult = await toolExecutor({ id: 't1', name: 'search', input: {} });
+          return createSuccessResponse({ answer: 'late' }, { agentId: 'mock', timestamp: Date.now() });
+        }
+      );
+
+      harness = registerFakeHarness(execute);
+      registerFakeHarness(execute, 'anthropic' as HarnessId);
+    });
+
+    afterEach(() => {
+      HarnessRegistry['_resetForTesting']();
+      resetGlobalConfig();
+    });
+
+    it('should pass the workflow signal to the harness and return CANCELLED', async () => {
+      const agent = new Agent({ harness: 'pi' });
+      const prompt = new Prompt({ user: 'hi', responseFormat: z.object({ answer: z.string() }) });
+
+      let workflow!: Workflow;
+      let response: Awaited<ReturnType<typeof agent.prompt>> | undefined;
+      workflow = new Workflow({ name: 'AgentWorkflow' }, async (ctx) => {
+        await ctx.step('ask', async () => {
+          const pending = agent.prompt(prompt);
+          setTimeout(() => workflow.cancel('deadline'), 10);
+          response = await pending;
+        });
+      });
+      const events = collectEvents(workflow);
+
+      await expect(workflow.run()).rejects.toBeInstanceOf(WorkflowCancelledError);
+
+      const request = vi.mocked(harness.execute).mock.calls[0][0];
+      expect(request.options.signal).toBe(workflow.signal);
+
+      // The step stops waiting immediately; the agent call settles as CANCELLED
+      await vi.waitFor(() => expect(response).toBeDefined());
+      expect(response!.status).toBe('error');
+      expect(response!.error).toMatchObject({
+        code: 'CANCELLED',
+        message: 'Workflow cancelled: deadline',
+        recoverable: false,
+      });
+      expect(events.some((e) => e.type === 'agentPromptEnd')).toBe(true);
+
+      // Tools requested after cancellation are refused
+      await vi.waitFor(() => expect(toolResult).toBeDefined());
+      expect(toolResult!.isError).toBe(true);
+    });
+
+    it('should release the signal listener once a stream settles', async () => {
+      vi.mocked(harness.execute).mockImplementationOnce(
+        async () => createSuccessResponse({ answer: 'ok' }, { agentId: 'mock', timestamp: Date.now() }) as never
+      );
+      const agent = new Agent({ harness: 'pi' });
+      const prompt = new Prompt({ user: 'hi', responseFormat: z.object({ answer: z.string() }) });
+      const controller = new AbortController();
+      const add = vi.spyOn(controller.signal, 'addEventListener');
+      const remove = vi.spyOn(controller.signal, 'removeEventListener');
+
+      const { stream } = agent.stream(prompt, { signal: controller.signal });
+      for await (const _event of stream) {
+        // drain
+      }
+
+      expect(add).toHaveBeenCalledTimes(1);
+      expect(remove).toHaveBeenCalledWith('abort', add.mock.calls[0][1]);
+    });
+
+    it('should honour a prompt-level signal outside a workflow', async () => {
+      const agent = new Agent({ harness: 'pi' });
+      const prompt = new Prompt({ user: 'hi', responseFormat: z.object({ answer: z.string() }) });
+      const controller = new AbortController();
+      controller.abort('not needed');
+
+      const response = await agent.prompt(prompt, { signal: controller.signal });
+
+      expect(response.error?.code).toBe('CANCELLED');
+      expect(harness.execute).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,350 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  Workflow,
+  Step,
+  ObservedState,
+  MemoryCheckpointStore,
+  FileCheckpointStore,
+  deserializeWorkflowNode,
+  type WorkflowCheckpoint,
+} from '../../index.js';
+
+describe('Workflow checkpointing', () => {
+  describe('functional workflows', () => {
+    it('should record completed step results', async () => {
+      const store = new MemoryCheckpointStore();
+      const workflow = new Workflow(
+        { name: 'Pipeline', checkpoint: { store, runId: 'run-1' } },
+        async (ctx) => {
+          const a = await ctx.step('fetch', async () => 1);
+          const b = await ctx.step('transform', async () => a + 1);
+          return b;
+        }
+      );
+
+      await workflow.run();
+
+      const checkpoint = await store.load('run-1');
+      expect(checkpoint).not.toBeNull();
+      expect(checkpoint!.status).toBe('completed');
+      expect(Object.values(checkpoint!.steps).map((s) => [s.stepName, s.result])).toEqual([
+        ['fetch', 1],
+        ['transform', 2],
+      ]);
+    });
+
+    it('should skip completed steps when resuming a failed run', async () => {
+      const store = new MemoryCheckpointStore();
+      const calls: string[] = [];
+      let failTransform = true;
+
+      const createWorkflow = () =>
+        new Workflow({ name: 'Pipeline', checkpoint: { store, runId: 'run-2' } }, async (ctx) => {
+          const a = await ctx.step('fetch', async () => {
+            calls.push('fetch');
+            return 10;
+          });
+          const b = await ctx.step('transform', async () => {
+            calls.push('transform');
+            if (failTransform) throw new Error('process died');
+            return a * 2;
+          });
+          return ctx.step('load', async () => {
+            calls.push('load');
+            return b + 1;
+          });
+        });
+
+      await expect(createWorkflow().run()).rejects.toThrow('process died');
+      expect((await store.load('run-2'))!.status).toBe('failed');
+
+      // New process: fresh workflow instance, same run ID
+      failTransform = false;
+      calls.length = 0;
+      const resumed = createWorkflow();
+      const result = await resumed.resume('run-2');
+
+      expect(calls).toEqual(['transform', 'load']);
+      expect(result).toMatchObject({ data: 21 });
+      expect(resumed.node.children.map((c) => [c.name, c.status])).toEqual([
+        ['fetch', 'completed'],
+        ['transform', 'completed'],
+        ['load', 'completed'],
+      ]);
+    });
+
+    it('should key repeated step names by occurrence', async () => {
+      const store = new MemoryCheckpointStore();
+      let calls = 0;
+      let failAt = 2;
+
+      const createWorkflow = () =>
+        new Workflow({ name: 'Loop', checkpoint: { store, runId: 'run-3' } }, async (ctx) => {
+          const results: number[] = [];
+          for (let i = 0; i < 4; i++) {
+            results.push(
+              await ctx.step('iteration', async () => {
+                calls++;
+                if (i === failAt) throw new Error('boom');
+                return i;
+              })
+            );
+          }
+          return results;
+        });
+
+      await expect(createWorkflow().run()).rejects.toThrow('boom');
+
+      failAt = -1;
+      calls = 0;
+      const result = await createWorkflow().resume('run-3');
+
+      expect(calls).toBe(2);
+      expect(result).toMatchObject({ data: [0, 1, 2, 3] });
+    });
+
+    it('should not re-run steps nested inside a restored step', async () => {
+      const store = new MemoryCheckpointStore();
+      const calls: string[] = [];
+      let fail = true;
+
+      const createWorkflow = () =>
+        new Workflow({ name: 'Nested', checkpoint: { store, runId: 'run-4' } }, async (ctx) => {
+          await ctx.step('outer', async () => {
+            await ctx.step('inner', async () => calls.push('inner'));
+          });
+          await ctx.step('inner', async () => {
+            calls.push('second inner');
+            if (fail) throw new Error('boom');
+          });
+        });
+
+      await expect(createWorkflow().run()).rejects.toThrow('boom');
+
+      fail = false;
+      calls.length = 0;
+      await createWorkflow().resume('run-4');
+
+      expect(calls).toEqual(['second inner']);
+    });
+
+    it('should persist the node tree', async () => {
+      const store = new MemoryCheckpointStore();
+      const workflow = new Workflow(
+        { name: 'Tree', checkpoint: { store, runId: 'run-5' } },
+        async (ctx) => {
+          await ctx.step('only', async () => 'done');
+        }
+      );
+
+      await workflow.run();
+
+      const checkpoint = (await store.load('run-5')) as WorkflowCheckpoint;
+      const tree = deserializeWorkflowNode(checkpoint.tree);
+      expect(tree.id).toBe(workflow.id);
+      expect(tree.status).toBe('completed');
+      expect(tree.children[0].name).toBe('only');
+      expect(tree.children[0].parent).toBe(tree);
+    });
+  });
+
+  describe('class-based workflows', () => {
+    it('should restore observed state and respect redaction', async () => {
+      const store = new MemoryCheckpointStore();
+      let stepBCalls = 0;
+      let failB = true;
+
+      class StatefulWorkflow extends Workflow {
+        @ObservedState()
+        counter = 0;
+
+        @ObservedState({ redact: true })
+        apiKey = 'initial-secret';
+
+        @ObservedState({ hidden: true })
+        scratch = 'scratch';
+
+        constructor() {
+          super({ name: 'Stateful', checkpoint: { store, runId: 'run-6' } });
+        }
+
+        @Step()
+        async stepA(): Promise<string> {
+          this.counter = 5;
+          this.apiKey = 'rotated-secret';
+          this.scratch = 'changed';
+          return 'a';
+        }
+
+        @Step()
+        async stepB(): Promise<string> {
+          stepBCalls++;
+          if (failB) throw new Error('crash');
+          this.counter++;
+          return 'b';
+        }
+
+        async run(): Promise<string[]> {
+          this.setStatus('running');
+          try {
+            const results = [await this.stepA(), await this.stepB()];
+            this.setStatus('completed');
+            return results;
+          } catch (error) {
+            this.setStatus('failed');
+            throw error;
+          }
+        }
+      }
+
+      const first = new StatefulWorkflow();
+      await expect(first.run()).rejects.toMatchObject({ message: 'crash' });
+      await first.getCheckpointer()!.flush();
+
+      const checkpoint = (await store.load('run-6'))!;
+      const rootState = Object.values(checkpoint.state)[0];
+      expect(rootState).toEqual({ counter: 5, apiKey: '***' });
+
+      failB = false;
+      const resumed = new StatefulWorkflow();
+      const results = await resumed.resume('run-6');
+
+      expect(results).toEqual(['a', 'b']);
+      expect(stepBCalls).toBe(2);
+      expect(resumed.counter).toBe(6);
+      // Redacted and hidden fields are never restored from the checkpoint
+      expect(resumed.apiKey).toBe('initial-secret');
+      expect(resumed.scratch).toBe('scratch');
+    });
+
+    it('should share the checkpoint with attached child workflows', async () => {
+      const store = new MemoryCheckpointStore();
+      const calls: string[] = [];
+      let fail = true;
+
+      class ChildWorkflow extends Workflow {
+        @Step()
+        async work(): Promise<string> {
+          calls.push(`${this.node.name}.work`);
+          return this.node.name;
+        }
+
+        async run(): Promise<string> {
+          return this.work();
+        }
+      }
+
+      class ParentWorkflow extends Workflow {
+        constructor() {
+          super({ name: 'Parent', checkpoint: { store, runId: 'run-7' } });
+        }
+
+        @Step()
+        async spawn(): Promise<string[]> {
+          const first = new ChildWorkflow('Child', this);
+          const second = new ChildWorkflow('Child', this);
+          return [await first.run(), await second.run()];
+        }
+
+        @Step()
+        async finish(): Promise<void> {
+          calls.push('finish');
+          if (fail) throw new Error('crash');
+        }
+
+        async run(): Promise<void> {
+          await this.spawn();
+          await this.finish();
+        }
+      }
+
+      await expect(new ParentWorkflow().run()).rejects.toMatchObject({ message: 'crash' });
+      expect(calls).toEqual(['Child.work', 'Child.work', 'finish']);
+
+      fail = false;
+      calls.length = 0;
+      await new ParentWorkflow().resume('run-7');
+
+      expect(calls).toEqual(['finish']);
+    });
+  });
+
+  describe('resume errors', () => {
+    it('should throw when no checkpoint store is configured', async () => {
+      const workflow = new Workflow({ name: 'Plain' }, async () => 'x');
+      await expect(workflow.resume('anything')).rejects.toThrow('no checkpoint store configured');
+    });
+
+    it('should throw when the run has no checkpoint', async () => {
+      const workflow = new Workflow(
+        { name: 'Missing', checkpoint: { store: new MemoryCheckpointStore() } },
+        async () => 'x'
+      );
+      await expect(workflow.resume('unknown-run')).rejects.toThrow(
+        "No checkpoint found for run 'unknown-run'"
+      );
+    });
+  });
+
+  describe('FileCheckpointStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'groundswell-checkpoints-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should resume a run from disk', async () => {
+      let fail = true;
+      let fetches = 0;
+
+      const createWorkflow = () =>
+        new Workflow(
+          { name: 'Durable', checkpoint: { store: new FileCheckpointStore(directory), runId: 'disk-run' } },
+          async (ctx) => {
+            const data = await ctx.step('fetch', async () => {
+              fetches++;
+              return { items: [1, 2, 3] };
+            });
+            return ctx.step('sum', async () => {
+              if (fail) throw new Error('oom');
+              return data.items.reduce((a, b) => a + b, 0);
+            });
+          }
+        );
+
+      await expect(createWorkflow().run()).rejects.toThrow('oom');
+      expect(await readdir(directory)).toEqual(['disk-run.json']);
+
+      fail = false;
+      const result = await createWorkflow().resume('disk-run');
+
+      expect(fetches).toBe(1);
+      expect(result).toMatchObject({ data: 6 });
+    });
+
+    it('should list, load and delete checkpoints', async () => {
+      const store = new FileCheckpointStore(directory);
+      expect(await store.list()).toEqual([]);
+      expect(await store.load('nope')).toBeNull();
+
+      const workflow = new Workflow({ name: 'Listed', checkpoint: { store, runId: 'a' } }, async () => 1);
+      await workflow.run();
+
+      expect(await store.list()).toEqual(['a']);
+      expect(await store.delete('a')).toBe(true);
+      expect(await store.delete('a')).toBe(false);
+    });
+
+    it('should reject run IDs that escape the directory', async () => {
+      const store = new FileCheckpointStore(directory);
+      await expect(store.load('../etc/passwd')).rejects.toThrow('Invalid checkpoint run ID');
+    });
+  });
+});
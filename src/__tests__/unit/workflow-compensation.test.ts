@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import { Workflow, Step, type WorkflowError } from '../../index.js';
+import { collectEvents } from '../helpers/index.js';
+
+describe('Workflow compensation', () => {
+  describe('ctx.step()', () => {
+    it('should run compensations in reverse order when the workflow fails', async () => {
+      const undone: string[] = [];
+      const workflow = new Workflow({ name: 'Saga' }, async (ctx) => {
+        await ctx.step('write file', async () => 'a.txt', {
+          compensate: (file) => {
+            undone.push(`delete ${file}`);
+          },
+        });
+        await ctx.step('create ticket', async () => ({ id: 42 }), {
+          compensate: async (ticket) => {
+            undone.push(`close ${ticket.id}`);
+          },
+        });
+        await ctx.step('deploy', async () => {
+          throw new Error('deploy failed');
+        });
+      });
+      const events = collectEvents(workflow);
+
+      await expect(workflow.run()).rejects.toMatchObject({ message: 'deploy failed' });
+
+      expect(undone).toEqual(['close 42', 'delete a.txt']);
+      const compensation = events.filter(
+        (e) => e.type === 'compensationStart' || e.type === 'compensationEnd'
+      );
+      expect(compensation.map((e) => `${e.type}:${'step' in e ? e.step : ''}`)).toEqual([
+        'compensationStart:create ticket',
+        'compensationEnd:create ticket',
+        'compensationStart:write file',
+        'compensationEnd:write file',
+      ]);
+      // Compensation finishes before the workflow reports its failure
+      const lastCompensation = events.findIndex((e) => e.type === 'compensationEnd' && e.step === 'write file');
+      const workflowError = events.findIndex((e) => e.type === 'error' && e.node === workflow.node);
+      expect(lastCompensation).toBeLessThan(workflowError);
+    });
+
+    it('should not compensate steps that failed or workflows that succeed', async () => {
+      const undone: string[] = [];
+      const compensate = (step: string) => () => {
+        undone.push(step);
+      };
+
+      const succeeding = new Workflow({ name: 'Ok' }, async (ctx) => {
+        await ctx.step('one', async () => 1, { compensate: compensate('one') });
+      });
+      await succeeding.run();
+
+      const failing = new Workflow({ name: 'Failing' }, async (ctx) => {
+        await ctx.step('two', async () => {
+          throw new Error('nope');
+        }, { compensate: compensate('two') });
+      });
+      await expect(failing.run()).rejects.toBeDefined();
+
+      expect(undone).toEqual([]);
+    });
+
+    it('should continue after a failing compensation and report it on the error', async () => {
+      const undone: string[] = [];
+      const workflow = new Workflow({ name: 'Partial' }, async (ctx) => {
+        await ctx.step('first', async () => 1, { compensate: () => { undone.push('first'); } });
+        await ctx.step('second', async () => 2, {
+          compensate: () => {
+            throw new Error('cannot undo');
+          },
+        });
+        await ctx.step('third', async () => {
+          throw new Error('third failed');
+        });
+      });
+      const events = collectEvents(workflow);
+
+      const error = (await workflow.run().catch((e: unknown) => e)) as WorkflowError;
+
+      expect(undone).toEqual(['first']);
+      expect(error.message).toBe('third failed');
+      expect(error.compensationErrors).toHaveLength(1);
+      expect(error.compensationErrors![0].message).toBe(
+        "Compensation for step 'second' failed: cannot undo"
+      );
+
+      const end = events.find((e) => e.type === 'compensationEnd' && e.step === 'second');
+      expect(end?.type === 'compensationEnd' && end.error?.message).toContain('cannot undo');
+      const workflowError = events.find((e) => e.type === 'error' && e.node === workflow.node);
+      expect(workflowError?.type === 'error' && workflowError.error.compensationErrors).toHaveLength(1);
+    });
+
+    it('should not compensate a cancelled workflow', async () => {
+      const undone: string[] = [];
+      const workflow = new Workflow({ name: 'Cancelled' }, async (ctx) => {
+        await ctx.step('one', async () => 1, { compensate: () => { undone.push('one'); } });
+        workflow.cancel('stop');
+        await ctx.step('two', async () => 2);
+      });
+
+      await expect(workflow.run()).rejects.toMatchObject({ code: 'CANCELLED' });
+      expect(undone).toEqual([]);
+    });
+  });
+
+  describe('@Step()', () => {
+    it('should register compensations that compensate() runs once', async () => {
+      const undone: string[] = [];
+
+      class ProvisionWorkflow extends Workflow {
+        @Step({ compensate: (id) => { undone.push(`release ${id}`); } })
+        async reserve(): Promise<string> {
+          return 'vm-1';
+        }
+
+        @Step()
+        async configure(): Promise<void> {
+          throw new Error('configure failed');
+        }
+
+        async run(): Promise<void> {
+          try {
+            await this.reserve();
+            await this.configure();
+          } catch (error) {
+            await this.compensate(error as WorkflowError);
+            throw error;
+          }
+        }
+      }
+
+      const workflow = new ProvisionWorkflow('Provision');
+
+      await expect(workflow.run()).rejects.toMatchObject({ message: 'configure failed' });
+      expect(undone).toEqual(['release vm-1']);
+      await expect(workflow.compensate()).resolves.toEqual([]);
+      expect(undone).toHaveLength(1);
+    });
+
+    it('should compensate when a class-based run() fails', async () => {
+      const undone: string[] = [];
+
+      class ProvisionWorkflow extends Workflow {
+        failing = true;
+
+        @Step({ compensate: (id) => { undone.push(`release ${id}`); } })
+        async reserve(): Promise<string> {
+          return 'vm-1';
+        }
+
+        @Step({ compensate: () => { throw new Error('tracker down'); } })
+        async track(): Promise<void> {}
+
+        @Step()
+        async configure(): Promise<void> {
+          if (this.failing) throw new Error('configure failed');
+        }
+
+        async run(): Promise<void> {
+          await this.reserve();
+          await this.track();
+          await this.configure();
+        }
+      }
+
+      const workflow = new ProvisionWorkflow('Provision');
+      const events = collectEvents(workflow);
+
+      const error = (await workflow.run().catch((e: unknown) => e)) as WorkflowError;
+      expect(error.message).toBe('configure failed');
+      expect(error.compensationErrors?.map((e) => e.message)).toEqual(["Compensation for step 'track' failed: tracker down"]);
+      expect(undone).toEqual(['release vm-1']);
+      // Compensation events are reported on the step's own node
+      expect(
+        events.filter((e) => e.type === 'compensationStart').map((e) => e.type === 'compensationStart' && [e.step, e.node.name])
+      ).toEqual([
+        ['track', 'track'],
+        ['reserve', 'reserve'],
+      ]);
+
+      // Each run starts with an empty list: only the last run's steps are compensated
+      undone.length = 0;
+      workflow.failing = false;
+      await workflow.run();
+      await workflow.run();
+      await expect(workflow.compensate()).resolves.toHaveLength(1);
+      expect(undone).toEqual(['release vm-1']);
+    });
+  });
+});
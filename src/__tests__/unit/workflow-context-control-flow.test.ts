@@ -0,0 +1,314 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Workflow, type WorkflowError } from '../../index.js';
+import { collectEvents } from '../helpers/index.js';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('WorkflowContext control flow', () => {
+  describe('step() options', () => {
+    it('should retry a restartable step in new nodes', async () => {
+      let attempts = 0;
+      const workflow = new Workflow({ name: 'Retrying' }, async (ctx) =>
+        ctx.step(
+          'flaky',
+          async () => {
+            attempts++;
+            if (attempts < 3) throw new Error('NETWORK_ERROR');
+            return 'ok';
+          },
+          { restartable: true, maxRetries: 3, retryDelayMs: 1 }
+        )
+      );
+      const events = collectEvents(workflow);
+
+      await expect(workflow.run()).resolves.toMatchObject({ data: 'ok' });
+
+      expect(attempts).toBe(3);
+      expect(workflow.node.children.map((c) => [c.name, c.status])).toEqual([
+        ['flaky', 'failed'],
+        ['flaky (retry 1)', 'failed'],
+        ['flaky (retry 2)', 'completed'],
+      ]);
+      expect(events.filter((e) => e.type === 'stepRetry')).toHaveLength(2);
+      expect(events.some((e) => e.type === 'error')).toBe(false);
+    });
+
+    it('should only retry errors matching retryOn', async () => {
+      let attempts = 0;
+      const workflow = new Workflow({ name: 'Selective' }, async (ctx) =>
+        ctx.step(
+          'auth',
+          async () => {
+            attempts++;
+            throw new Error('UNAUTHORIZED');
+          },
+          { restartable: true, retryDelayMs: 1, retryOn: [{ code: 'NETWORK_ERROR' }] }
+        )
+      );
+
+      await expect(workflow.run()).rejects.toThrow('UNAUTHORIZED');
+      expect(attempts).toBe(1);
+    });
+
+    it('should give up after maxRetries', async () => {
+      const fn = vi.fn(async () => {
+        throw new Error('boom');
+      });
+      const workflow = new Workflow({ name: 'Exhausted' }, async (ctx) =>
+        ctx.step('always fails', fn, { restartable: true, maxRetries: 2, retryDelayMs: 1 })
+      );
+
+      await expect(workflow.run()).rejects.toThrow('boom');
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should snapshot state, log and skip timing when requested', async () => {
+      const workflow = new Workflow({ name: 'Options' }, async (ctx) =>
+        ctx.step('quiet', async () => 1, {
+          snapshotState: true,
+          trackTiming: false,
+          logStart: true,
+          logFinish: true,
+        })
+      );
+      const events = collectEvents(workflow);
+
+      await workflow.run();
+
+      expect(events.some((e) => e.type === 'stateSnapshot')).toBe(true);
+      expect(events.some((e) => e.type === 'stepEnd')).toBe(false);
+      expect(workflow.node.logs.map((l) => l.message)).toEqual([
+        'STEP START: quiet',
+        expect.stringMatching(/^STEP END: quiet \(\d+ms\)$/),
+      ]);
+    });
+  });
+
+  describe('parallel()', () => {
+    it('should run branches concurrently under a group node', async () => {
+      const order: string[] = [];
+      const workflow = new Workflow({ name: 'Parallel' }, async (ctx) =>
+        ctx.parallel([
+          async () => {
+            await sleep(10);
+            order.push('slow');
+            return 1;
+          },
+          async () => {
+            order.push('fast');
+            return 'two';
+          },
+        ])
+      );
+
+      const result = await workflow.run();
+
+      expect(result.data).toEqual([1, 'two']);
+      expect(order).toEqual(['fast', 'slow']);
+      const group = workflow.node.children[0];
+      expect([group.name, group.status]).toEqual(['parallel', 'completed']);
+      expect(group.children.map((c) => [c.name, c.status])).toEqual([
+        ['parallel[0]', 'completed'],
+        ['parallel[1]', 'completed'],
+      ]);
+    });
+
+    it('should cancel the remaining branches when one fails', async () => {
+      const workflow = new Workflow({ name: 'FailFast' }, async (ctx) =>
+        ctx.parallel(
+          [
+            async () => {
+              throw new Error('branch failed');
+            },
+            () => sleep(1000),
+          ],
+          { name: 'fetch all' }
+        )
+      );
+
+      await expect(workflow.run()).rejects.toThrow('branch failed');
+
+      const group = workflow.node.children[0];
+      expect(group.status).toBe('failed');
+      await vi.waitFor(() =>
+        expect(group.children.map((c) => c.status)).toEqual(['failed', 'cancelled'])
+      );
+    });
+  });
+
+  describe('race()', () => {
+    it('should return the first result and cancel the losers', async () => {
+      const workflow = new Workflow({ name: 'Race' }, async (ctx) =>
+        ctx.race([() => sleep(1000).then(() => 'slow'), async () => 'fast'])
+      );
+      const events = collectEvents(workflow);
+
+      await expect(workflow.run()).resolves.toMatchObject({ data: 'fast' });
+
+      const group = workflow.node.children[0];
+      await vi.waitFor(() =>
+        expect(group.children.map((c) => c.status)).toEqual(['cancelled', 'completed'])
+      );
+      const cancelled = events.find((e) => e.type === 'cancelled');
+      expect(cancelled?.type === 'cancelled' && cancelled.reason).toBe("lost race 'race'");
+      expect(workflow.status).toBe('completed');
+    });
+
+    it('should cancel groups nested in a losing branch', async () => {
+      const started: number[] = [];
+      const workflow = new Workflow({ name: 'NestedRace' }, async (ctx) =>
+        ctx.race([
+          () =>
+            ctx.map(
+              [1, 2, 3],
+              async (item) => {
+                started.push(item);
+                await sleep(30);
+                return item;
+              },
+              { name: 'slow map', concurrency: 1 }
+            ),
+          async () => [0],
+        ])
+      );
+
+      await expect(workflow.run()).resolves.toMatchObject({ data: [0] });
+
+      const nested = workflow.node.children.find((node) => node.name === 'slow map')!;
+      await vi.waitFor(() => expect(nested.status).toBe('cancelled'));
+      // Queued items never start once the losing branch is stopped
+      await sleep(100);
+      expect(started).toEqual([1]);
+      expect(nested.children.map((c) => c.status)).toEqual(['cancelled']);
+    });
+
+    it('should reject an empty race', async () => {
+      const workflow = new Workflow({ name: 'Empty' }, async (ctx) => ctx.race([]));
+      await expect(workflow.run()).rejects.toThrow('requires at least one branch');
+    });
+  });
+
+  describe('map()', () => {
+    it('should process items with bounded concurrency in item order', async () => {
+      let active = 0;
+      let peak = 0;
+      const workflow = new Workflow({ name: 'Map' }, async (ctx) =>
+        ctx.map(
+          [3, 1, 2, 5],
+          async (n, i) => {
+            active++;
+            peak = Math.max(peak, active);
+            await sleep(n);
+            active--;
+            return n * 10 + i;
+          },
+          { concurrency: 2, name: 'square' }
+        )
+      );
+
+      const result = await workflow.run();
+
+      expect(result.data).toEqual([30, 11, 22, 53]);
+      expect(peak).toBe(2);
+      expect(workflow.node.children[0].children.map((c) => c.name)).toEqual([
+        'square[0]',
+        'square[1]',
+        'square[2]',
+        'square[3]',
+      ]);
+    });
+
+    it('should skip queued items after a failure', async () => {
+      const fn = vi.fn(async (n: number) => {
+        if (n === 2) throw new Error('bad item');
+        return n;
+      });
+      const workflow = new Workflow({ name: 'MapFail' }, async (ctx) =>
+        ctx.map([1, 2, 3, 4], fn, { concurrency: 1 })
+      );
+
+      const error = (await workflow.run().catch((e: unknown) => e)) as Error;
+
+      expect(error.message).toBe('bad item');
+      expect(fn.mock.calls.map(([n]) => n)).toEqual([1, 2]);
+    });
+
+    it('should apply step options to every item', async () => {
+      let attempts = 0;
+      const workflow = new Workflow({ name: 'MapRetry' }, async (ctx) =>
+        ctx.map(
+          ['a'],
+          async (item) => {
+            attempts++;
+            if (attempts === 1) throw new Error('transient');
+            return item;
+          },
+          { stepOptions: { restartable: true, retryDelayMs: 1 } }
+        )
+      );
+
+      await expect(workflow.run()).resolves.toMatchObject({ data: ['a'] });
+      expect(attempts).toBe(2);
+    });
+  });
+
+  describe('loop()', () => {
+    it('should run iterations until the condition fails', async () => {
+      const workflow = new Workflow({ name: 'Loop' }, async (ctx) => {
+        let remaining = 3;
+        return ctx.loop(
+          () => remaining > 0,
+          async (i) => {
+            remaining--;
+            return i;
+          },
+          { name: 'agent loop' }
+        );
+      });
+
+      const result = await workflow.run();
+
+      expect(result.data).toEqual([0, 1, 2]);
+      const group = workflow.node.children[0];
+      expect(group.name).toBe('agent loop');
+      expect(group.children.map((c) => c.name)).toEqual([
+        'agent loop[0]',
+        'agent loop[1]',
+        'agent loop[2]',
+      ]);
+    });
+
+    it('should stop at maxIterations', async () => {
+      const workflow = new Workflow({ name: 'Bounded' }, async (ctx) =>
+        ctx.loop(async () => true, async (i) => i, { maxIterations: 2 })
+      );
+
+      await expect(workflow.run()).resolves.toMatchObject({ data: [0, 1] });
+    });
+
+    it('should mark the group failed when an iteration fails', async () => {
+      const workflow = new Workflow({ name: 'LoopFail' }, async (ctx) =>
+        ctx.loop(
+          (i) => i < 5,
+          async (i) => {
+            if (i === 1) throw new Error('iteration failed');
+            return i;
+          }
+        )
+      );
+      const events = collectEvents(workflow);
+
+      const error = (await workflow.run().catch((e: unknown) => e)) as WorkflowError;
+
+      expect(error).toBeInstanceOf(Error);
+      expect(workflow.node.children[0].status).toBe('failed');
+      expect(events.filter((e) => e.type === 'stepStart').map((e) => e.type === 'stepStart' && e.step)).toEqual([
+        'loop',
+        'loop[0]',
+        'loop[1]',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  Workflow,
+  Agent,
+  Prompt,
+  WorkflowTreeDebugger,
+  createEventTreeHandle,
+  defaultModelCatalog,
+} from '../../index.js';
+import { HarnessRegistry } from '../../harnesses/harness-registry.js';
+import { resetGlobalConfig } from '../../utils/provider-config.js';
+import { createSuccessResponse } from '../../types/agent.js';
+import { collectEvents, registerFakeHarness } from '../helpers/index.js';
+
+describe('Workflow cost accounting', () => {
+  beforeEach(() => {
+    resetGlobalConfig();
+
+    // Every call uses 1000 input and 100 output tokens
+    registerFakeHarness(
+      vi.fn(async () =>
+        createSuccessResponse('ok', {
+          agentId: 'mock',
+          timestamp: Date.now(),
+          usage: { input_tokens: 1000, output_tokens: 100 },
+        })
+      )
+    );
+  });
+
+  afterEach(() => {
+    defaultModelCatalog.reset();
+    HarnessRegistry['_resetForTesting']();
+    resetGlobalConfig();
+  });
+
+  const ask = (model: string) => new Agent({ harness: 'pi', model }).prompt(new Prompt({ user: 'hi' }));
+
+  it('should put the catalog cost and model on agentPromptEnd', async () => {
+    const workflow = new Workflow({ name: 'Priced' }, async (ctx) => {
+      await ctx.step('known', () => ask('claude-sonnet-4-20250514'));
+      await ctx.step('unknown', () => ask('acme/unlisted'));
+    });
+    const events = collectEvents(workflow);
+
+    await workflow.run();
+
+    const ends = events.filter((e) => e.type === 'agentPromptEnd');
+    expect(ends.map((e) => e.type === 'agentPromptEnd' && [e.model, e.costUsd])).toEqual([
+      // 1000 * $3/M + 100 * $15/M
+      ['anthropic/claude-sonnet-4-20250514', expect.closeTo(0.0045, 10)],
+      ['acme/unlisted', undefined],
+    ]);
+  });
+
+  it('should price custom providers registered in the catalog', async () => {
+    defaultModelCatalog.set('acme/large', {
+      inputPerMillionTokens: 10,
+      outputPerMillionTokens: 100,
+      contextWindow: 32_000,
+    });
+    const workflow = new Workflow({ name: 'Custom' }, async (ctx) => {
+      await ctx.step('ask', () => ask('acme/large'));
+    });
+    const events = collectEvents(workflow);
+
+    await workflow.run();
+
+    const end = events.find((event) => event.type === 'agentPromptEnd');
+    expect(end?.type === 'agentPromptEnd' && end.costUsd).toBeCloseTo(0.02);
+  });
+
+  it('should total costs per subtree in the debugger and the event tree', async () => {
+    defaultModelCatalog.set('acme/flat', {
+      inputPerMillionTokens: 1000,
+      outputPerMillionTokens: 0,
+      contextWindow: 8_000,
+    });
+    const child = new Workflow({ name: 'Child' }, async (ctx) => {
+      await ctx.step('first', () => ask('acme/flat'));
+      await ctx.step('second', () => ask('acme/flat'));
+    });
+    const parent = new Workflow({ name: 'Parent' }, async (ctx) => {
+      await ctx.step('own', () => ask('acme/flat'));
+      await ctx.spawnWorkflow(child);
+    });
+    const debuggerInstance = new WorkflowTreeDebugger(parent);
+
+    await parent.run();
+
+    // Each call costs 1000 * $1000/M = $1
+    const stats = debuggerInstance.getStats();
+    const ownStep = parent.node.children.find((c) => c.name === 'own')!;
+    expect(stats.totalCostUsd).toBeCloseTo(3);
+    expect(stats.costByNode[parent.id]).toBeCloseTo(3);
+    expect(stats.costByNode[child.id]).toBeCloseTo(2);
+    expect(stats.costByNode[ownStep.id]).toBeCloseTo(1);
+
+    const tree = createEventTreeHandle(parent.node);
+    expect(tree.root.metrics?.costUsd).toBeCloseTo(3);
+    expect(tree.getNode(child.id)?.metrics?.costUsd).toBeCloseTo(2);
+    const promptNodes = tree.getChildren(child.id).filter((n) => n.type === 'agentPromptComplete');
+    expect(promptNodes.map((n) => n.metrics?.costUsd)).toEqual([
+      expect.closeTo(1, 10),
+      expect.closeTo(1, 10),
+    ]);
+  });
+});
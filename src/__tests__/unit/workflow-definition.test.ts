@@ -0,0 +1,311 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { stringify } from 'yaml';
+import {
+  compileWorkflowDefinition,
+  loadWorkflowDefinition,
+  validateWorkflowDefinition,
+  formatDefinitionIssue,
+  WorkflowDefinitionError,
+  type WorkflowDefinition,
+} from '../../index.js';
+import { HarnessRegistry } from '../../harnesses/harness-registry.js';
+import { resetGlobalConfig } from '../../utils/provider-config.js';
+import { createErrorResponse, createSuccessResponse } from '../../types/agent.js';
+import { registerFakeHarness } from '../helpers/index.js';
+
+const RESEARCH_YAML = `name: Research
+input:
+  type: object
+  properties:
+    topic: { type: string }
+  required: [topic]
+agents:
+  writer:
+    system: You are a concise technical writer.
+    model: anthropic/claude-sonnet-4-20250514
+steps:
+  - id: outline
+    agent: writer
+    prompt: Outline {{input.topic}}
+    schema:
+      type: object
+      properties:
+        points: { type: array, items: { type: string } }
+      required: [points]
+  - parallel:
+      - id: intro
+        agent: writer
+        prompt: Introduce {{steps.outline.points.0}}
+      - id: summary
+        agent: writer
+        prompt: Summarize {{steps.outline.points}}
+  - id: final
+    agent: writer
+    prompt: Combine {{steps.intro}} and {{steps.summary}}
+output: final
+`;
+
+/** Register a mock 'pi' harness whose replies are produced by `reply` */
+function registerHarness(reply: (prompt: string) => unknown) {
+  const execute = vi.fn(async (request: { prompt: string }) => {
+    const data = reply(request.prompt);
+    return data instanceof Error
+      ? createErrorResponse('AGENT_EXECUTION_FAILED', data.message, { agentId: 'mock', timestamp: Date.now() })
+      : createSuccessResponse(data, { agentId: 'mock', timestamp: Date.now() });
+  });
+  registerFakeHarness(execute);
+  return execute;
+}
+
+/** Reply to the research prompts: an outline object, otherwise an echo */
+function researchReply(prompt: string): unknown {
+  return prompt.startsWith('Outline') ? { points: ['tides', 'turbines'] } : `<${prompt}>`;
+}
+
+describe('Workflow definitions', () => {
+  describe('validation', () => {
+    it('should accept a valid YAML definition', () => {
+      const result = validateWorkflowDefinition(RESEARCH_YAML);
+
+      expect(result.issues).toEqual([]);
+      expect(result.valid).toBe(true);
+      expect(result.definition?.steps).toHaveLength(3);
+    });
+
+    it('should report the line and column of each YAML issue', () => {
+      const source = [
+        'name: Broken', // 1
+        'agents:', // 2
+        '  writer: {}', // 3
+        'steps:', // 4
+        '  - id: first', // 5
+        '    agent: editor', // 6
+        '    prompt: Hi', // 7
+        '    retries: 2', // 8
+        '  - id: second', // 9
+        '    agent: writer', // 10
+        '    prompt: Use {{steps.third}}', // 11
+        '  - id: third', // 12
+        '    agent: writer', // 13
+        '    prompt: Hi', // 14
+        '    timeoutMs: -5', // 15
+      ].join('\n');
+
+      const result = validateWorkflowDefinition(source, { filename: 'broken.yaml' });
+
+      expect(result.valid).toBe(false);
+      expect(result.issues.map((issue) => [issue.line, issue.column, issue.message])).toEqual([
+        [8, 5, "Unknown field 'retries'"],
+        [15, 5, "Invalid 'timeoutMs': Number must be greater than 0"],
+      ]);
+      expect(formatDefinitionIssue(result.issues[0], 'broken.yaml')).toBe(
+        "broken.yaml:8:5: Unknown field 'retries' (at steps[0].retries)"
+      );
+    });
+
+    it('should report reference errors once the structure is valid', () => {
+      const source = [
+        'name: Broken',
+        'agents:',
+        '  writer: {}',
+        'steps:',
+        '  - id: first',
+        '    agent: editor',
+        '    prompt: Hi',
+        '  - id: second',
+        '    agent: writer',
+        '    prompt: Use {{steps.third}}',
+        '  - id: third',
+        '    agent: writer',
+        '    prompt: Hi',
+        'output: last',
+      ].join('\n');
+
+      const result = validateWorkflowDefinition(source);
+
+      expect(result.issues.map((issue) => [issue.line, issue.column, issue.message])).toEqual([
+        [6, 5, "Unknown agent 'editor' (defined agents: writer)"],
+        [14, 1, "Output step 'last' does not exist"],
+      ]);
+    });
+
+    it('should reject templates that reference steps outside the dependencies', () => {
+      const source = [
+        'name: Templates',
+        'agents: { writer: {} }',
+        'steps:',
+        '  - id: a',
+        '    agent: writer',
+        '    prompt: Hi',
+        '  - id: b',
+        '    agent: writer',
+        '    prompt: "{{steps.c}} and {{outputs.a}}"',
+        '    dependsOn: [a]',
+        '  - id: c',
+        '    agent: writer',
+        '    prompt: Hi',
+        '    dependsOn: [a]',
+      ].join('\n');
+
+      const result = validateWorkflowDefinition(source);
+
+      expect(result.issues).toHaveLength(2);
+      expect(result.issues[0]).toMatchObject({
+        line: 9,
+        column: 5,
+        message: "Template {{steps.c}} refers to step 'c', which step 'b' does not depend on",
+      });
+      expect(result.issues[1].message).toContain('Invalid template reference {{outputs.a}}');
+    });
+
+    it('should report dependency cycles', () => {
+      const definition = {
+        name: 'Cycle',
+        agents: { writer: {} },
+        steps: [
+          { id: 'a', agent: 'writer', prompt: 'Hi', dependsOn: ['b'] },
+          { id: 'b', agent: 'writer', prompt: 'Hi' },
+        ],
+      };
+
+      const result = validateWorkflowDefinition(JSON.stringify(definition, null, 2), { format: 'json' });
+
+      expect(result.issues).toEqual([
+        expect.objectContaining({ message: 'Dependency cycle: a -> b -> a', line: 11, column: 7 }),
+      ]);
+    });
+
+    it('should locate JSON syntax errors and duplicate keys', () => {
+      const json = validateWorkflowDefinition('{\n  "name": "X",\n  "agents": {,\n}', { format: 'json' });
+      expect(json.issues[0]).toMatchObject({ line: 3 });
+      expect(json.issues[0].message).toMatch(/^Invalid JSON/);
+
+      const yaml = validateWorkflowDefinition('name: A\nname: B\n');
+      expect(yaml.issues[0]).toMatchObject({ line: 2, column: 1 });
+    });
+
+    it('should reject unsupported JSON Schema keywords', () => {
+      const result = validateWorkflowDefinition(
+        [
+          'name: Schema',
+          'agents: { w: {} }',
+          'steps:',
+          '  - id: a',
+          '    agent: w',
+          '    prompt: Hi',
+          '    schema:',
+          '      type: object',
+          '      oneOf: []',
+        ].join('\n')
+      );
+
+      expect(result.issues).toEqual([
+        expect.objectContaining({
+          line: 9,
+          column: 7,
+          message: "Unsupported JSON Schema keyword 'oneOf' for type 'object'",
+        }),
+      ]);
+    });
+
+    it('should throw a WorkflowDefinitionError listing every issue', () => {
+      expect(() => loadWorkflowDefinition('name: X\nagents: {}\nsteps: []\n', { filename: 'x.yaml' })).toThrow(
+        WorkflowDefinitionError
+      );
+      try {
+        loadWorkflowDefinition('name: X\nagents: {}\nsteps: []\n', { filename: 'x.yaml' });
+      } catch (error) {
+        expect((error as WorkflowDefinitionError).code).toBe('INVALID_DEFINITION');
+        expect((error as Error).message).toContain('x.yaml:3:1: Invalid');
+      }
+    });
+  });
+
+  describe('execution', () => {
+    beforeEach(() => {
+      resetGlobalConfig();
+    });
+
+    afterEach(() => {
+      HarnessRegistry['_resetForTesting']();
+      resetGlobalConfig();
+    });
+
+    it('should run steps in dependency order with rendered templates', async () => {
+      const execute = registerHarness(researchReply);
+      const workflow = loadWorkflowDefinition(RESEARCH_YAML);
+
+      const result = await workflow.run({ topic: 'tidal energy' });
+
+      expect(result.data).toBe('<Combine <Introduce tides> and <Summarize ["tides","turbines"]>>');
+      const prompts = execute.mock.calls.map(([request]) => request.prompt);
+      expect(prompts[0]).toBe('Outline tidal energy');
+      expect(prompts.slice(1, 3).sort()).toEqual(['Introduce tides', 'Summarize ["tides","turbines"]']);
+      expect(workflow.getNode().children.map((child) => child.name)).toEqual([
+        'outline',
+        'intro',
+        'summary',
+        'final',
+      ]);
+    });
+
+    it('should validate the run input against the input schema', async () => {
+      registerHarness(researchReply);
+      const workflow = loadWorkflowDefinition(RESEARCH_YAML);
+
+      await expect(workflow.run({ subject: 'x' })).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+    });
+
+    it('should retry failed steps as configured', async () => {
+      let calls = 0;
+      registerHarness(() => (++calls < 3 ? new Error('overloaded') : 'ok'));
+      const workflow = compileWorkflowDefinition({
+        name: 'Retry',
+        agents: { w: {} },
+        steps: [{ id: 'flaky', agent: 'w', prompt: 'Hi', retry: { maxRetries: 2, delayMs: 1 } }],
+      });
+
+      const result = await workflow.run(undefined);
+
+      expect(result.data).toEqual({ flaky: 'ok' });
+      expect(calls).toBe(3);
+    });
+
+    it('should fail the run when a step without retries fails', async () => {
+      registerHarness(() => new Error('overloaded'));
+      const workflow = compileWorkflowDefinition({
+        name: 'Failing',
+        agents: { w: {} },
+        steps: [{ id: 'once', agent: 'w', prompt: 'Hi' }],
+      });
+
+      await expect(workflow.run(undefined)).rejects.toMatchObject({
+        message: expect.stringContaining('overloaded'),
+      });
+    });
+  });
+
+  describe('round trip', () => {
+    afterEach(() => {
+      HarnessRegistry['_resetForTesting']();
+      resetGlobalConfig();
+    });
+
+    const definition = validateWorkflowDefinition(RESEARCH_YAML).definition as WorkflowDefinition;
+
+    it.each([
+      ['YAML', () => stringify(definition), 'yaml'],
+      ['JSON', () => JSON.stringify(definition, null, 2), 'json'],
+    ] as const)('should load the definition again after serializing it as %s', async (_label, serialize, format) => {
+      const result = validateWorkflowDefinition(serialize(), { format });
+      expect(result.issues).toEqual([]);
+      expect(result.definition).toEqual(definition);
+
+      resetGlobalConfig();
+      registerHarness(researchReply);
+      const original = await compileWorkflowDefinition(definition).run({ topic: 'waves' });
+      const reloaded = await loadWorkflowDefinition(serialize(), { format }).run({ topic: 'waves' });
+      expect(reloaded.data).toEqual(original.data);
+    });
+  });
+});
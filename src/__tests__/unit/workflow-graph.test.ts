@@ -0,0 +1,181 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  defineGraph,
+  GraphDefinitionError,
+  WorkflowGraph,
+  createWorkflow,
+} from '../../index.js';
+import { collectEvents } from '../helpers/index.js';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('defineGraph', () => {
+  it('should run nodes after their dependencies and pass upstream outputs', async () => {
+    const graph = defineGraph({
+      fetch: { run: async () => ({ rows: [1, 2, 3] }) },
+      factor: { run: async () => 10 },
+      analyze: {
+        dependsOn: ['fetch', 'factor'],
+        run: async ({ fetch, factor }: { fetch: { rows: number[] }; factor: number }) =>
+          fetch.rows.length * factor,
+      },
+      report: { dependsOn: ['analyze'], run: async ({ analyze }) => `total: ${analyze}` },
+    });
+
+    const result = await graph.toWorkflow({ name: 'Pipeline' }).run();
+
+    expect(result.data).toEqual({
+      fetch: { rows: [1, 2, 3] },
+      factor: 10,
+      analyze: 30,
+      report: 'total: 30',
+    });
+    expect(graph.order).toEqual(['fetch', 'factor', 'analyze', 'report']);
+  });
+
+  it('should run independent branches in parallel as normal steps', async () => {
+    let active = 0;
+    let peak = 0;
+    const branch = async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await sleep(10);
+      active--;
+      return true;
+    };
+
+    const workflow = defineGraph({
+      left: { run: branch },
+      right: { run: branch },
+      join: { dependsOn: ['left', 'right'], run: async () => 'joined' },
+    }).toWorkflow({ name: 'Diamond' });
+    const events = collectEvents(workflow);
+
+    await workflow.run();
+
+    expect(peak).toBe(2);
+    expect(workflow.node.children.map((c) => [c.name, c.status])).toEqual([
+      ['left', 'completed'],
+      ['right', 'completed'],
+      ['join', 'completed'],
+    ]);
+    const starts = events.filter((e) => e.type === 'stepStart').map((e) => e.type === 'stepStart' && e.step);
+    expect(starts).toEqual(['left', 'right', 'join']);
+  });
+
+  it('should skip nodes that have not started after a failure', async () => {
+    const downstream = vi.fn(async () => 'never');
+    const slow = vi.fn(async () => {
+      await sleep(20);
+      return 'slow';
+    });
+
+    const workflow = defineGraph({
+      broken: {
+        run: async (): Promise<string> => {
+          throw new Error('broken node');
+        },
+      },
+      slow: { run: slow },
+      after: { dependsOn: ['broken'], run: downstream },
+      afterSlow: { dependsOn: ['slow'], run: downstream },
+    }).toWorkflow({ name: 'Failing' });
+
+    await expect(workflow.run()).rejects.toMatchObject({ message: 'broken node' });
+
+    expect(slow).toHaveBeenCalledTimes(1);
+    expect(downstream).not.toHaveBeenCalled();
+    expect(workflow.node.children.map((c) => [c.name, c.status])).toEqual([
+      ['broken', 'failed'],
+      ['slow', 'completed'],
+    ]);
+  });
+
+  it('should skip the dependents of a node collected by errorMergeStrategy', async () => {
+    const downstream = vi.fn(async () => 'never');
+    const independent = vi.fn(async () => 'ok');
+
+    const workflow = defineGraph({
+      broken: {
+        run: async (): Promise<string> => {
+          throw new Error('broken node');
+        },
+      },
+      after: { dependsOn: ['broken'], run: downstream },
+      afterAfter: { dependsOn: ['after'], run: downstream },
+      independent: { run: independent },
+    }).toWorkflow({ name: 'Merging', errorMergeStrategy: { enabled: true } });
+
+    await expect(workflow.run()).rejects.toMatchObject({
+      original: { errors: [expect.objectContaining({ message: 'broken node' })] },
+    });
+
+    expect(downstream).not.toHaveBeenCalled();
+    expect(independent).toHaveBeenCalledTimes(1);
+    expect(workflow.node.children.map((c) => [c.name, c.status])).toEqual([
+      ['broken', 'failed'],
+      ['independent', 'completed'],
+    ]);
+  });
+
+  it('should apply per-node step options', async () => {
+    let attempts = 0;
+    const graph = defineGraph({
+      flaky: {
+        run: async () => {
+          if (++attempts === 1) throw new Error('transient');
+          return attempts;
+        },
+        options: { restartable: true, retryDelayMs: 1 },
+      },
+    });
+
+    await expect(graph.toWorkflow({ name: 'Retry' }).run()).resolves.toMatchObject({
+      data: { flaky: 2 },
+    });
+  });
+
+  it('should run inside an existing functional workflow', async () => {
+    const graph = defineGraph({
+      a: { run: async () => 1 },
+      b: { dependsOn: ['a'], run: async ({ a }) => a + 1 },
+    });
+
+    const workflow = createWorkflow({ name: 'Outer' }, async (ctx) => {
+      const before = await ctx.step('before', async () => 'x');
+      const outputs = await graph.execute(ctx);
+      return `${before}${outputs.b}`;
+    });
+
+    await expect(workflow.run()).resolves.toMatchObject({ data: 'x2' });
+    expect(workflow.node.children.map((c) => c.name)).toEqual(['before', 'a', 'b']);
+  });
+
+  it('should refuse cycles when the graph is built', () => {
+    const build = () =>
+      new WorkflowGraph({
+        a: { dependsOn: ['c'], run: async () => 1 },
+        b: { dependsOn: ['a'], run: async () => 2 },
+        c: { dependsOn: ['b'], run: async () => 3 },
+      });
+
+    expect(build).toThrow(GraphDefinitionError);
+    expect(build).toThrow('Graph has a dependency cycle: a -> c -> b -> a');
+    try {
+      build();
+    } catch (error) {
+      expect((error as GraphDefinitionError).cycle).toEqual(['a', 'c', 'b', 'a']);
+    }
+  });
+
+  it('should refuse unknown dependencies and self-dependencies', () => {
+    expect(
+      () => new WorkflowGraph({ a: { dependsOn: ['missing'], run: async () => 1 } })
+    ).toThrow("Graph node 'a' depends on unknown node 'missing'");
+    expect(() => new WorkflowGraph({ a: { dependsOn: ['a'], run: async () => 1 } })).toThrow(
+      'a -> a'
+    );
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  Workflow,
+  Step,
+  Task,
+  Agent,
+  Prompt,
+  getExecutionContext,
+  type WorkflowMiddleware,
+} from '../../index.js';
+import { HarnessRegistry } from '../../harnesses/harness-registry.js';
+import { resetGlobalConfig } from '../../utils/provider-config.js';
+import { createSuccessResponse } from '../../types/agent.js';
+import { registerFakeHarness } from '../helpers/index.js';
+
+/** Middleware that records the calls it sees under a label */
+function recorder(label: string, calls: string[]): WorkflowMiddleware {
+  return async (call, next) => {
+    calls.push(`${label}>${call.kind}:${call.name}`);
+    const result = await next();
+    calls.push(`${label}<${call.kind}:${call.name}`);
+    return result;
+  };
+}
+
+describe('Workflow middleware', () => {
+  it('should wrap ctx.step() in registration order, config middleware first', async () => {
+    const calls: string[] = [];
+    const workflow = new Workflow(
+      { name: 'Ordered', middleware: [recorder('a', calls)] },
+      async (ctx) => ctx.step('work', async () => {
+        calls.push('work');
+        return 1;
+      })
+    ).use(recorder('b', calls));
+
+    await expect(workflow.run()).resolves.toMatchObject({ data: 1 });
+
+    expect(calls).toEqual(['a>step:work', 'b>step:work', 'work', 'b<step:work', 'a<step:work']);
+  });
+
+  it('should change arguments and results of @Step methods', async () => {
+    class Greeter extends Workflow {
+      @Step()
+      async greet(name: string): Promise<string> {
+        return `hello ${name}`;
+      }
+
+      async run(): Promise<string> {
+        return this.greet('  Ada ');
+      }
+    }
+
+    const workflow = new Greeter('Greeter')
+      .use(async (call, next) => next(call.args.map((arg) => String(arg).trim())))
+      .use(async (_call, next) => `${await next()}!`);
+
+    await expect(workflow.run()).resolves.toBe('hello Ada!');
+  });
+
+  it('should let middleware replace errors and run once per attempt', async () => {
+    let attempts = 0;
+    const seen = vi.fn();
+    const workflow = new Workflow({ name: 'Flaky' }, async (ctx) =>
+      ctx.step(
+        'fetch',
+        async () => {
+          attempts++;
+          throw new Error('ECONNRESET');
+        },
+        { restartable: true, maxRetries: 1, retryDelayMs: 1 }
+      )
+    ).use(async (call, next) => {
+      seen(call.name);
+      try {
+        return await next();
+      } catch (error) {
+        throw new Error(`${call.name} failed: ${(error as Error).message}`);
+      }
+    });
+
+    await expect(workflow.run()).rejects.toMatchObject({ message: 'fetch failed: ECONNRESET' });
+    expect(attempts).toBe(2);
+    expect(seen).toHaveBeenCalledTimes(2);
+  });
+
+  it('should run step middleware inside the step execution context', async () => {
+    let nodeName: string | undefined;
+    const workflow = new Workflow({ name: 'Context' }, async (ctx) =>
+      ctx.step('inner', async () => 'done')
+    ).use(async (call, next) => {
+      nodeName = getExecutionContext()?.workflowNode.name;
+      expect(call.node.name).toBe('inner');
+      return next();
+    });
+
+    await workflow.run();
+
+    expect(nodeName).toBe('inner');
+  });
+
+  it('should wrap @Task methods and be inherited by attached children', async () => {
+    const calls: string[] = [];
+
+    class Child extends Workflow {
+      @Step()
+      async work(): Promise<void> {}
+
+      async run(): Promise<void> {
+        await this.work();
+      }
+    }
+
+    class Parent extends Workflow {
+      @Task()
+      async spawn(): Promise<Child> {
+        return new Child('Child', this);
+      }
+
+      async run(): Promise<void> {
+        const child = await this.spawn();
+        await child.run();
+      }
+    }
+
+    const parent = new Parent('Parent').use(recorder('p', calls));
+
+    await parent.run();
+
+    expect(calls).toEqual(['p>task:spawn', 'p<task:spawn', 'p>step:work', 'p<step:work']);
+  });
+
+  it('should pass middleware to children spawned with ctx.spawnWorkflow()', async () => {
+    const calls: string[] = [];
+    const child = new Workflow({ name: 'Child' }, async (ctx) => ctx.step('child-step', async () => 2));
+    child.use(recorder('c', calls));
+    const parent = new Workflow({ name: 'Parent' }, async (ctx) => ctx.spawnWorkflow(child)).use(
+      recorder('p', calls)
+    );
+
+    await parent.run();
+
+    expect(calls).toEqual(['p>step:child-step', 'c>step:child-step', 'c<step:child-step', 'p<step:child-step']);
+    expect(child.getMiddleware()).toHaveLength(1);
+  });
+
+  describe('agent prompts', () => {
+    afterEach(() => {
+      HarnessRegistry['_resetForTesting']();
+      resetGlobalConfig();
+    });
+
+    it('should wrap prompts and allow changing the prompt and response', async () => {
+      resetGlobalConfig();
+      const execute = vi.fn(async (request: { prompt: string }) =>
+        createSuccessResponse(request.prompt, { agentId: 'mock', timestamp: Date.now() })
+      );
+      registerFakeHarness(execute);
+
+      const kinds: string[] = [];
+      const agent = new Agent({ name: 'Writer', harness: 'pi' });
+      const workflow = new Workflow({ name: 'Prompted' }, async (ctx) =>
+        ctx.step('ask', () => agent.prompt(new Prompt({ user: 'secret: 42' })))
+      ).use(async (call, next) => {
+        kinds.push(`${call.kind}:${call.name}`);
+        if (call.kind !== 'prompt') {
+          return next();
+        }
+        const [, overrides] = call.args;
+        const response = (await next([new Prompt({ user: '[redacted]' }), overrides])) as {
+          data: string;
+        };
+        return { ...response, data: response.data.toUpperCase() };
+      });
+
+      const result = await workflow.run();
+
+      expect(kinds).toEqual(['step:ask', 'prompt:Writer']);
+      expect(execute.mock.calls[0][0].prompt).toBe('[redacted]');
+      expect((result as { data: { data: string } }).data.data).toBe('[REDACTED]');
+    });
+  });
+});
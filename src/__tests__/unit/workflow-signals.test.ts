@@ -0,0 +1,189 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  Workflow,
+  Step,
+  MemoryCheckpointStore,
+  SignalValidationError,
+  WorkflowTimeoutError,
+} from '../../index.js';
+import { collectEvents } from '../helpers/index.js';
+
+const ReviewSchema = z.object({ score: z.number().min(0).max(10) });
+
+describe('Workflow signals', () => {
+  describe('ctx.waitForSignal()', () => {
+    it('should suspend in waiting status until the signal is sent', async () => {
+      const workflow = new Workflow({ name: 'Review' }, async (ctx) => {
+        const review = await ctx.waitForSignal('review', ReviewSchema);
+        return review.score * 10;
+      });
+      const events = collectEvents(workflow);
+
+      const run = workflow.run();
+      await vi.waitFor(() => expect(workflow.status).toBe('waiting'));
+
+      const waitingNode = workflow.node.children[0];
+      expect(waitingNode.name).toBe('signal:review');
+      expect(waitingNode.status).toBe('waiting');
+      expect(events.some((e) => e.type === 'signalWaiting' && e.signal === 'review')).toBe(true);
+
+      expect(workflow.sendSignal('review', { score: 7 })).toBe(true);
+
+      await expect(run).resolves.toMatchObject({ data: 70 });
+      expect(waitingNode.status).toBe('completed');
+      expect(workflow.status).toBe('completed');
+      const received = events.find((e) => e.type === 'signalReceived');
+      expect(received?.type === 'signalReceived' && received.payload).toEqual({ score: 7 });
+    });
+
+    it('should reject invalid payloads and keep waiting', async () => {
+      const workflow = new Workflow({ name: 'Review' }, async (ctx) =>
+        ctx.waitForSignal('review', ReviewSchema)
+      );
+
+      const run = workflow.run();
+      await vi.waitFor(() => expect(workflow.status).toBe('waiting'));
+
+      expect(() => workflow.sendSignal('review', { score: 42 })).toThrow(SignalValidationError);
+      expect(workflow.status).toBe('waiting');
+
+      workflow.sendSignal('review', { score: 3 });
+      await expect(run).resolves.toMatchObject({ data: { score: 3 } });
+    });
+
+    it('should buffer signals sent before the step waits', async () => {
+      const workflow = new Workflow({ name: 'Early' }, async (ctx) => {
+        await ctx.step('prepare', async () => 'ready');
+        return ctx.waitForSignal('go', z.string());
+      });
+
+      expect(workflow.sendSignal('go', 'now')).toBe(false);
+
+      await expect(workflow.run()).resolves.toMatchObject({ data: 'now' });
+    });
+
+    it('should drop buffered signals that a run did not consume', async () => {
+      let waits = false;
+      const workflow = new Workflow({ name: 'Leftover' }, async (ctx) =>
+        waits ? ctx.waitForSignal('go', z.string(), { timeoutMs: 20 }) : 'skipped'
+      );
+
+      workflow.sendSignal('go', 'stale');
+      await expect(workflow.run()).resolves.toMatchObject({ data: 'skipped' });
+
+      waits = true;
+      await expect(workflow.run()).rejects.toBeInstanceOf(WorkflowTimeoutError);
+    });
+
+    it('should fail with a timeout when no signal arrives in time', async () => {
+      const workflow = new Workflow({ name: 'Slow' }, async (ctx) =>
+        ctx.waitForSignal('review', ReviewSchema, { timeoutMs: 20 })
+      );
+
+      await expect(workflow.run()).rejects.toBeInstanceOf(WorkflowTimeoutError);
+      expect(workflow.node.children[0].status).toBe('failed');
+      expect(workflow.status).toBe('failed');
+    });
+
+    it('should stop waiting when the workflow is cancelled', async () => {
+      const workflow = new Workflow({ name: 'Cancelled' }, async (ctx) =>
+        ctx.waitForSignal('review', ReviewSchema)
+      );
+
+      const run = workflow.run();
+      await vi.waitFor(() => expect(workflow.status).toBe('waiting'));
+      workflow.cancel('no reviewer');
+
+      await expect(run).rejects.toMatchObject({ code: 'CANCELLED' });
+      expect(workflow.node.children[0].status).toBe('cancelled');
+      expect(workflow.sendSignal('review', { score: 1 })).toBe(false);
+    });
+
+    it('should deliver signals sent to a parent to a waiting child workflow', async () => {
+      const child = new Workflow({ name: 'Child' }, async (ctx) => ctx.waitForSignal('go', z.number()));
+      const parent = new Workflow({ name: 'Parent' }, async (ctx) => ctx.spawnWorkflow(child));
+
+      const run = parent.run();
+      await vi.waitFor(() => expect(child.status).toBe('waiting'));
+
+      expect(parent.sendSignal('go', 5)).toBe(true);
+      await expect(run).resolves.toMatchObject({ data: { data: 5 } });
+    });
+
+    it('should not wait again for a signal received before a resume', async () => {
+      const store = new MemoryCheckpointStore();
+      let fail = true;
+      const create = () =>
+        new Workflow({ name: 'Gate', checkpoint: { store, runId: 'gate' } }, async (ctx) => {
+          const review = await ctx.waitForSignal('review', ReviewSchema);
+          return ctx.step('publish', async () => {
+            if (fail) throw new Error('publish failed');
+            return review.score;
+          });
+        });
+
+      const first = create();
+      const run = first.run();
+      await vi.waitFor(() => expect(first.status).toBe('waiting'));
+      first.sendSignal('review', { score: 9 });
+      await expect(run).rejects.toMatchObject({ message: 'publish failed' });
+
+      fail = false;
+      await expect(create().resume('gate')).resolves.toMatchObject({ data: 9 });
+    });
+  });
+
+  describe('ctx.requestApproval()', () => {
+    it('should report the prompt and return the decision', async () => {
+      const workflow = new Workflow({ name: 'Deploy' }, async (ctx) => {
+        const decision = await ctx.requestApproval('Deploy v2 to production?');
+        return decision.approved ? 'deployed' : `skipped: ${decision.comment}`;
+      });
+      const events = collectEvents(workflow);
+
+      const run = workflow.run();
+      await vi.waitFor(() => expect(workflow.status).toBe('waiting'));
+
+      const waiting = events.find((e) => e.type === 'signalWaiting');
+      expect(waiting?.type === 'signalWaiting' && waiting.prompt).toBe('Deploy v2 to production?');
+      expect(() => workflow.sendSignal('approval', { approved: 'yes' })).toThrow(
+        "Invalid payload for signal 'approval'"
+      );
+
+      workflow.sendSignal('approval', { approved: false, comment: 'freeze', approver: 'ops' });
+      await expect(run).resolves.toMatchObject({ data: 'skipped: freeze' });
+    });
+  });
+
+  describe('class-based workflows', () => {
+    it('should wait for signals inside @Step methods', async () => {
+      class ReleaseWorkflow extends Workflow {
+        @Step()
+        async gate(): Promise<boolean> {
+          const decision = await this.requestApproval('Release?', { name: 'release' });
+          return decision.approved;
+        }
+
+        async run(): Promise<boolean> {
+          this.setStatus('running');
+          const approved = await this.gate();
+          this.setStatus('completed');
+          return approved;
+        }
+      }
+
+      const workflow = new ReleaseWorkflow('Release');
+      const events = collectEvents(workflow);
+      const run = workflow.run();
+      await vi.waitFor(() => expect(workflow.status).toBe('waiting'));
+
+      const waiting = events.find((e) => e.type === 'signalWaiting');
+      expect(waiting?.type === 'signalWaiting' && waiting.node.parent?.name).toBe('gate');
+
+      workflow.sendSignal('release', { approved: true });
+      await expect(run).resolves.toBe(true);
+      expect(workflow.status).toBe('completed');
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  Workflow,
+  Step,
+  Agent,
+  Prompt,
+  WorkflowTimeoutError,
+  isTimeoutError,
+  startTimeLimit,
+  type WorkflowError,
+} from '../../index.js';
+import { analyzeErrorForRestart } from '../../utils/restart-analysis.js';
+import { HarnessRegistry } from '../../harnesses/harness-registry.js';
+import { resetGlobalConfig } from '../../utils/provider-config.js';
+import { createSuccessResponse } from '../../types/agent.js';
+import type { Harness, HarnessRequest } from '../../types/harnesses.js';
+import { z } from 'zod';
+import { collectEvents, registerFakeHarness } from '../helpers/index.js';
+
+/** Promise that never settles unless the signal aborts */
+function waitForAbort(signal: AbortSignal | undefined): Promise<never> {
+  return new Promise((_, reject) => {
+    signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+}
+
+describe('Workflow timeouts and deadlines', () => {
+  describe('ctx.step()', () => {
+    it('should fail a step that exceeds timeoutMs with code TIMEOUT', async () => {
+      const workflow = new Workflow({ name: 'Slow' }, async (ctx) => {
+        await ctx.step('fetch', async () => waitForAbort(ctx.signal), { timeoutMs: 20 });
+      });
+      const events = collectEvents(workflow);
+
+      const error = (await workflow.run().catch((e: unknown) => e)) as WorkflowError;
+
+      expect(error).toMatchObject({ code: 'TIMEOUT', message: "Step 'fetch' timed out after 20ms" });
+      expect(error.original).toBeInstanceOf(WorkflowTimeoutError);
+      expect(workflow.status).toBe('failed');
+      expect(workflow.node.children[0].status).toBe('failed');
+
+      const stepError = events.find((e) => e.type === 'error' && e.node.name === 'fetch');
+      expect(stepError?.type === 'error' && stepError.error.code).toBe('TIMEOUT');
+    });
+
+    it('should not time out a step that finishes in time', async () => {
+      const workflow = new Workflow({ name: 'Fast' }, async (ctx) =>
+        ctx.step('fetch', async () => 'ok', { timeoutMs: 1000 })
+      );
+
+      await expect(workflow.run()).resolves.toMatchObject({ data: 'ok' });
+    });
+
+    it('should fail the running step once the workflow deadline passes', async () => {
+      const workflow = new Workflow(
+        { name: 'Deadline', deadline: Date.now() + 20 },
+        async (ctx) => {
+          await ctx.step('first', async () => 'fast');
+          await ctx.step('second', async () => waitForAbort(ctx.signal));
+        }
+      );
+
+      const error = (await workflow.run().catch((e: unknown) => e)) as WorkflowError;
+
+      expect(error.code).toBe('TIMEOUT');
+      expect(error.message).toBe("Step 'second' exceeded the workflow deadline");
+      expect((error.original as WorkflowTimeoutError).recoverable).toBe(false);
+      expect(workflow.node.children.map((c) => c.status)).toEqual(['completed', 'failed']);
+    });
+
+    it('should not start steps after a run() deadline has passed', async () => {
+      const late = vi.fn(async () => 'never');
+      const workflow = new Workflow({ name: 'Late' }, async (ctx) => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return ctx.step('late', late);
+      });
+
+      const error = await workflow.run({ deadline: Date.now() + 5 }).catch((e: unknown) => e);
+
+      expect(error).toMatchObject({ code: 'TIMEOUT' });
+      expect(late).not.toHaveBeenCalled();
+      expect(workflow.status).toBe('failed');
+      expect(workflow.getDeadline()).toBeUndefined();
+    });
+
+    it('should pass the deadline down to spawned child workflows', async () => {
+      let childDeadline: number | undefined;
+      const deadline = Date.now() + 60_000;
+
+      const child = new Workflow({ name: 'Child' }, async (ctx) => {
+        await ctx.step('inspect', async () => {
+          childDeadline = child.getDeadline();
+        });
+      });
+      const parent = new Workflow({ name: 'Parent', deadline }, async (ctx) => {
+        await ctx.spawnWorkflow(child);
+      });
+
+      await parent.run();
+
+      expect(childDeadline).toBe(deadline);
+      expect(child.getDeadline()).toBeUndefined();
+    });
+  });
+
+  describe('@Step()', () => {
+    it('should retry a timed-out attempt when retryOn matches TIMEOUT', async () => {
+      let attempts = 0;
+
+      class FlakyWorkflow extends Workflow {
+        @Step({ timeoutMs: 20, restartable: true, maxRetries: 2, retryDelayMs: 1, retryOn: [{ code: 'TIMEOUT' }] })
+        async fetch(): Promise<string> {
+          attempts++;
+          if (attempts === 1) {
+            await waitForAbort(this.signal);
+          }
+          return 'done';
+        }
+
+        async run(): Promise<string> {
+          return this.fetch();
+        }
+      }
+
+      const workflow = new FlakyWorkflow('Flaky');
+      const events = collectEvents(workflow);
+
+      await expect(workflow.run()).resolves.toBe('done');
+      expect(attempts).toBe(2);
+
+      const retry = events.find((e) => e.type === 'stepRetry');
+      expect(retry?.type === 'stepRetry' && retry.error.code).toBe('TIMEOUT');
+    });
+
+    it('should not retry once the workflow deadline has passed', async () => {
+      let attempts = 0;
+
+      class DeadlineWorkflow extends Workflow {
+        constructor() {
+          super({ name: 'Deadline', deadline: Date.now() + 20 });
+        }
+
+        @Step({ restartable: true, maxRetries: 3, retryDelayMs: 1 })
+        async work(): Promise<void> {
+          attempts++;
+          await new Promise((resolve) => setTimeout(resolve, 1000));
+        }
+
+        async run(): Promise<void> {
+          await this.work();
+        }
+      }
+
+      const error = (await new DeadlineWorkflow().run().catch((e: unknown) => e)) as WorkflowError;
+
+      expect(error.code).toBe('TIMEOUT');
+      expect(attempts).toBe(1);
+    });
+  });
+
+  describe('restart analysis', () => {
+    it('should classify step timeouts as transient and deadlines as final', () => {
+      const base = { workflowId: 'wf', state: {}, logs: [] };
+      const stepTimeout: WorkflowError = {
+        ...base,
+        message: "Step 'fetch' timed out after 20ms",
+        code: 'TIMEOUT',
+        original: new WorkflowTimeoutError("Step 'fetch' timed out after 20ms", 20),
+      };
+      const deadline: WorkflowError = {
+        ...base,
+        message: "Step 'fetch' exceeded the workflow deadline",
+        code: 'TIMEOUT',
+        original: new WorkflowTimeoutError("Step 'fetch' exceeded the workflow deadline", 0, true),
+      };
+
+      expect(analyzeErrorForRestart(stepTimeout).suggestedAction).toBe('retry');
+      expect(analyzeErrorForRestart(deadline).suggestedAction).toBe('abort');
+      expect(isTimeoutError(stepTimeout)).toBe(true);
+    });
+  });
+
+  describe('startTimeLimit()', () => {
+    it('should return the parent signal when no limit applies', () => {
+      const controller = new AbortController();
+      const limit = startTimeLimit('Step', { signal: controller.signal });
+
+      expect(limit.signal).toBe(controller.signal);
+      expect(limit.deadline).toBeUndefined();
+    });
+
+    it('should abort immediately when the deadline has already passed', () => {
+      const limit = startTimeLimit('Step', { timeoutMs: 1000, deadline: Date.now() - 1 });
+
+      expect(limit.signal?.aborted).toBe(true);
+      expect((limit.signal?.reason as WorkflowTimeoutError).deadlineExceeded).toBe(true);
+      limit.dispose();
+    });
+  });
+
+  describe('agents', () => {
+    let harness: Harness;
+
+    beforeEach(() => {
+      resetGlobalConfig();
+
+      harness = registerFakeHarness(
+        vi.fn(async (request: HarnessRequest) => {
+          await waitForAbort(request.options.signal).catch(() => {});
+          return createSuccessResponse({ answer: 'late' }, { agentId: 'mock', timestamp: Date.now() });
+        })
+      );
+    });
+
+    afterEach(() => {
+      HarnessRegistry['_resetForTesting']();
+      resetGlobalConfig();
+    });
+
+    it('should resolve a prompt with a recoverable TIMEOUT when its step times out', async () => {
+      const agent = new Agent({ harness: 'pi' });
+      const prompt = new Prompt({ user: 'hi', responseFormat: z.object({ answer: z.string() }) });
+
+      let response: Awaited<ReturnType<typeof agent.prompt>> | undefined;
+      const workflow = new Workflow({ name: 'AgentWorkflow' }, async (ctx) => {
+        await ctx.step(
+          'ask',
+          async () => {
+            response = await agent.prompt(prompt);
+          },
+          { timeoutMs: 20 }
+        );
+      });
+
+      await expect(workflow.run()).rejects.toMatchObject({ code: 'TIMEOUT' });
+
+      await vi.waitFor(() => expect(response).toBeDefined());
+      expect(response!.error).toMatchObject({
+        code: 'TIMEOUT',
+        message: "Step 'ask' timed out after 20ms",
+        recoverable: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { createWorkflow, type WorkflowError } from '../../index.js';
+import { collectEvents } from '../helpers/index.js';
+
+const SummarizeInput = z.object({ url: z.string().url(), maxWords: z.number().int().default(50) });
+const SummarizeOutput = z.object({ summary: z.string().min(1) });
+
+describe('createWorkflow() input and output schemas', () => {
+  it('should pass the parsed input to the executor and validate the result', async () => {
+    const executor = vi.fn(async (_ctx: unknown, input: z.output<typeof SummarizeInput>) => ({
+      summary: `${input.url} in ${input.maxWords} words`,
+    }));
+    const workflow = createWorkflow(
+      { name: 'Summarize', input: SummarizeInput, output: SummarizeOutput },
+      executor
+    );
+
+    const result = await workflow.run({ url: 'https://example.com' });
+
+    expect(executor.mock.calls[0][1]).toEqual({ url: 'https://example.com', maxWords: 50 });
+    expect(result.data).toEqual({ summary: 'https://example.com in 50 words' });
+  });
+
+  it('should fail with INVALID_INPUT without running the executor', async () => {
+    const executor = vi.fn(async () => ({ summary: 'never' }));
+    const workflow = createWorkflow({ name: 'Summarize', input: SummarizeInput }, executor);
+    const events = collectEvents(workflow);
+
+    const error = (await workflow.run({ url: 'not a url' }).catch((e: unknown) => e)) as WorkflowError;
+
+    expect(executor).not.toHaveBeenCalled();
+    expect(error.code).toBe('INVALID_INPUT');
+    expect(error.message).toBe("Workflow 'Summarize' received invalid input: url: Invalid url");
+    expect(error.original).toBeInstanceOf(z.ZodError);
+    expect(error.workflowId).toBe(workflow.id);
+    expect(workflow.status).toBe('failed');
+    const errorEvent = events.find((e) => e.type === 'error');
+    expect(errorEvent?.type === 'error' && errorEvent.error).toBe(error);
+  });
+
+  it('should fail with INVALID_OUTPUT and compensate completed steps', async () => {
+    const undone: string[] = [];
+    const workflow = createWorkflow({ name: 'Summarize', output: SummarizeOutput }, async (ctx) => {
+      await ctx.step('draft', async () => 'draft-1', { compensate: (id) => { undone.push(id); } });
+      return { summary: '' };
+    });
+
+    await expect(workflow.run()).rejects.toMatchObject({
+      code: 'INVALID_OUTPUT',
+      message: "Workflow 'Summarize' returned invalid output: summary: String must contain at least 1 character(s)",
+    });
+    expect(undone).toEqual(['draft-1']);
+  });
+
+  it('should take run options after the input', async () => {
+    const controller = new AbortController();
+    controller.abort('stop');
+    const create = () => createWorkflow({ name: 'Echo', input: z.string() }, async (_ctx, input) => input);
+
+    await expect(create().run('hello')).resolves.toMatchObject({ data: 'hello' });
+    await expect(create().run('hello', { signal: controller.signal })).rejects.toMatchObject({
+      code: 'CANCELLED',
+    });
+  });
+
+  it('should pass a typed input to children spawned with ctx.spawnWorkflow()', async () => {
+    const child = createWorkflow(
+      { name: 'Double', input: z.object({ n: z.number() }), output: z.number() },
+      async (_ctx, { n }) => n * 2
+    );
+    const parent = createWorkflow({ name: 'Parent' }, async (ctx) => {
+      const { data } = await ctx.spawnWorkflow(child, { n: 21 });
+      return data;
+    });
+
+    await expect(parent.run()).resolves.toMatchObject({ data: 42 });
+    expect(parent.node.children.map((c) => c.name)).toEqual(['Double']);
+
+    const invalid = createWorkflow({ name: 'Invalid' }, async (ctx) =>
+      ctx.spawnWorkflow(child, { n: 'twenty-one' } as unknown as { n: number })
+    );
+    await expect(invalid.run()).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+  });
+});
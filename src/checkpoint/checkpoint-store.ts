@@ -0,0 +1,140 @@
+/**
+ * Checkpoint store implementations
+ *
+ * Provides in-memory and file-based storage backends for workflow
+ * checkpoints. Custom backends implement the CheckpointStore interface.
+ *
+ * @module
+ */
+
+import { writeFile, readFile, mkdir, unlink, readdir, rename } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { CheckpointStore, WorkflowCheckpoint } from '../types/checkpoint.js';
+
+/**
+ * Reject run IDs that could escape the store directory
+ */
+function assertValidRunId(runId: string): void {
+  if (runId.length === 0 || /[\/\\]|\.\./.test(runId) || /[\x00-\x1F\x7F]/.test(runId)) {
+    throw new Error(`Invalid checkpoint run ID: '${runId}'`);
+  }
+}
+
+/**
+ * In-memory checkpoint store using Map
+ *
+ * @remarks
+ * Checkpoints are deep-copied on save and load so that later mutations of
+ * a running workflow never leak into stored checkpoints. No persistence;
+ * intended for tests and short-lived processes.
+ *
+ * @public
+ */
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoints: Map<string, string> = new Map();
+
+  async save(checkpoint: WorkflowCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.runId, JSON.stringify(checkpoint));
+  }
+
+  async load(runId: string): Promise<WorkflowCheckpoint | null> {
+    const json = this.checkpoints.get(runId);
+    return json === undefined ? null : (JSON.parse(json) as WorkflowCheckpoint);
+  }
+
+  async delete(runId: string): Promise<boolean> {
+    return this.checkpoints.delete(runId);
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.checkpoints.keys());
+  }
+}
+
+/**
+ * File-based checkpoint store with JSON persistence
+ *
+ * @remarks
+ * Each run is stored as `{directory}/{runId}.json`. Writes go to a temp
+ * file that is renamed over the target, so a crash mid-write never leaves
+ * a truncated checkpoint behind.
+ *
+ * @example
+ * ```ts
+ * const store = new FileCheckpointStore('./checkpoints');
+ * const workflow = new Workflow({ name: 'Ingest', checkpoint: { store, runId: 'ingest-42' } }, executor);
+ * ```
+ *
+ * @public
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  private directory: string;
+
+  constructor(directory: string = './checkpoints') {
+    this.directory = directory;
+  }
+
+  private getPath(runId: string): string {
+    assertValidRunId(runId);
+    return join(this.directory, `${runId}.json`);
+  }
+
+  async save(checkpoint: WorkflowCheckpoint): Promise<void> {
+    const path = this.getPath(checkpoint.runId);
+    const tempPath = `${path}.tmp`;
+
+    try {
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(tempPath, JSON.stringify(checkpoint, null, 2), 'utf-8');
+      await rename(tempPath, path);
+    } catch (error: unknown) {
+      const err = error as NodeJS.ErrnoException;
+      throw new Error(`Failed to save checkpoint: ${err.message}`);
+    }
+  }
+
+  async load(runId: string): Promise<WorkflowCheckpoint | null> {
+    const path = this.getPath(runId);
+
+    try {
+      const content = await readFile(path, 'utf-8');
+      return JSON.parse(content) as WorkflowCheckpoint;
+    } catch (error: unknown) {
+      const err = error as NodeJS.ErrnoException;
+      if (err.code === 'ENOENT') {
+        return null;
+      }
+      throw new Error(`Failed to load checkpoint: ${err.message}`);
+    }
+  }
+
+  async delete(runId: string): Promise<boolean> {
+    const path = this.getPath(runId);
+
+    try {
+      await unlink(path);
+      return true;
+    } catch (error: unknown) {
+      const err = error as NodeJS.ErrnoException;
+      if (err.code === 'ENOENT') {
+        return false;
+      }
+      throw new Error(`Failed to delete checkpoint: ${err.message}`);
+    }
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      const files = await readdir(this.directory);
+      return files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => file.slice(0, -'.json'.length));
+    } catch (error: unknown) {
+      const err = error as NodeJS.ErrnoException;
+      if (err.code === 'ENOENT') {
+        return [];
+      }
+      throw new Error(`Failed to list checkpoints: ${err.message}`);
+    }
+  }
+}
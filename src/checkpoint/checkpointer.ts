@@ -0,0 +1,296 @@
+/**
+ * WorkflowCheckpointer - Runtime bookkeeping for durable workflow runs
+ *
+ * Owned by the workflow whose config declares a checkpoint store and shared
+ * by every workflow attached below it. Steps ask the checkpointer for a
+ * deterministic key, skip themselves when that key already has a result and
+ * report their result when they complete.
+ *
+ * @module
+ */
+
+import type { WorkflowNode } from '../types/workflow.js';
+import type { SerializedWorkflowState } from '../types/snapshot.js';
+import type {
+  CheckpointStore,
+  CheckpointStepRecord,
+  WorkflowCheckpoint,
+} from '../types/checkpoint.js';
+import { getExecutionContext } from '../core/context.js';
+import { getObservedState, restoreObservedState } from '../decorators/observed-state.js';
+import { serializeWorkflowNode } from '../utils/tree-serialization.js';
+
+/**
+ * Minimal workflow shape needed for scoping and state capture
+ */
+interface CheckpointedWorkflow {
+  node: WorkflowNode;
+}
+
+/**
+ * Tracks completed steps for one workflow run and writes checkpoints
+ *
+ * **Step keys** are derived from execution order, not from random node IDs,
+ * so the same code produces the same keys in a new process:
+ * - A workflow's scope is its name, prefixed by the key of the step it was
+ *   first entered from (or its parent's scope), plus an occurrence index
+ * - A step's key is its scope (or enclosing step key of the same workflow),
+ *   the step name and an occurrence index
+ *
+ * When a step is restored from a checkpoint, nothing nested inside it runs,
+ * and because nested keys are prefixed by the enclosing key the keys of
+ * later steps are unaffected.
+ *
+ * **Redaction:** state is captured with getObservedState(), so hidden
+ * fields are never written and redacted fields are written as '***' and
+ * never restored.
+ */
+export class WorkflowCheckpointer {
+  /** Run identifier used as the storage key */
+  public runId: string;
+
+  private readonly store: CheckpointStore;
+  private readonly owner: CheckpointedWorkflow;
+  private readonly onError: (error: unknown) => void;
+
+  private createdAt: number = Date.now();
+  private completedSteps: Map<string, CheckpointStepRecord> = new Map();
+  private loadedState: Record<string, SerializedWorkflowState> = {};
+  private restoredScopes: Set<string> = new Set();
+  private scopes: WeakMap<WorkflowNode, string> = new WeakMap();
+  private stepKeys: WeakMap<WorkflowNode, { key: string; owner: WorkflowNode }> = new WeakMap();
+  private counters: Map<string, number> = new Map();
+  private workflows: Map<string, CheckpointedWorkflow> = new Map();
+  private active: boolean = false;
+  private resuming: boolean = false;
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * @param store - Storage backend
+   * @param owner - Workflow that owns the run (usually the root)
+   * @param runId - Run identifier
+   * @param onError - Called when a checkpoint write fails (writes never throw into the run)
+   */
+  constructor(
+    store: CheckpointStore,
+    owner: CheckpointedWorkflow,
+    runId: string,
+    onError: (error: unknown) => void = () => {}
+  ) {
+    this.store = store;
+    this.owner = owner;
+    this.runId = runId;
+    this.onError = onError;
+  }
+
+  /**
+   * Start a run
+   *
+   * A fresh run discards results from any previous run. A run started after
+   * load() keeps the loaded results so completed steps are skipped.
+   * No-op while a run is already active.
+   */
+  begin(): void {
+    if (this.active) {
+      return;
+    }
+    this.active = true;
+    this.resetRuntime();
+
+    if (this.resuming) {
+      this.resuming = false;
+      return;
+    }
+
+    this.createdAt = Date.now();
+    this.completedSteps = new Map();
+    this.loadedState = {};
+  }
+
+  /**
+   * Mark the run as finished and write a final checkpoint
+   */
+  finish(): Promise<void> {
+    const write = this.persist();
+    this.active = false;
+    return write;
+  }
+
+  /**
+   * Load a stored checkpoint so the next run resumes from it
+   *
+   * @param runId - Run identifier to load
+   * @throws {Error} If no checkpoint exists for the run
+   */
+  async load(runId: string): Promise<WorkflowCheckpoint> {
+    const checkpoint = await this.store.load(runId);
+    if (!checkpoint) {
+      throw new Error(`No checkpoint found for run '${runId}'`);
+    }
+
+    this.runId = runId;
+    this.createdAt = checkpoint.createdAt;
+    this.completedSteps = new Map(Object.entries(checkpoint.steps ?? {}));
+    this.loadedState = { ...(checkpoint.state ?? {}) };
+    this.active = false;
+    this.resuming = true;
+    this.resetRuntime();
+
+    return checkpoint;
+  }
+
+  /**
+   * Register a workflow with the run and return its scope
+   *
+   * The first time a scope is entered during a resumed run, its observed
+   * state is restored from the checkpoint.
+   */
+  enterWorkflow(workflow: CheckpointedWorkflow): string {
+    this.begin();
+
+    const scope = this.scopeOf(workflow.node);
+    this.workflows.set(scope, workflow);
+
+    if (!this.restoredScopes.has(scope)) {
+      this.restoredScopes.add(scope);
+      const saved = this.loadedState[scope];
+      if (saved) {
+        restoreObservedState(workflow, saved);
+      }
+    }
+
+    return scope;
+  }
+
+  /**
+   * Allocate the key for the next execution of a step
+   *
+   * @param workflow - Workflow executing the step
+   * @param stepName - Step name
+   */
+  nextStepKey(workflow: CheckpointedWorkflow, stepName: string): string {
+    const scope = this.enterWorkflow(workflow);
+
+    // Nested steps of the same workflow are keyed below their enclosing step
+    const enclosing = getExecutionContext()?.workflowNode;
+    const enclosingStep = enclosing ? this.stepKeys.get(enclosing) : undefined;
+    const base = enclosingStep && enclosingStep.owner === workflow.node ? enclosingStep.key : scope;
+
+    return this.claim(`${base}:${stepName}`, '#');
+  }
+
+  /**
+   * Associate a step node with its key so nested work can be scoped under it
+   */
+  bindStepNode(stepNode: WorkflowNode, key: string, workflow: CheckpointedWorkflow): void {
+    this.stepKeys.set(stepNode, { key, owner: workflow.node });
+  }
+
+  /**
+   * Get the stored result for a step key, if the step completed previously
+   */
+  getCompletedStep(key: string): CheckpointStepRecord | undefined {
+    return this.completedSteps.get(key);
+  }
+
+  /**
+   * Record a completed step and write a checkpoint
+   *
+   * @returns Promise resolving once the checkpoint write has settled
+   */
+  completeStep(key: string, stepName: string, result: unknown): Promise<void> {
+    this.completedSteps.set(key, {
+      key,
+      stepName,
+      result,
+      completedAt: Date.now(),
+    });
+    return this.persist();
+  }
+
+  /**
+   * Capture the current run and queue a checkpoint write
+   *
+   * Capture happens synchronously; writes are serialized so a slow store
+   * never reorders checkpoints. Write failures are reported via onError.
+   */
+  persist(): Promise<void> {
+    let checkpoint: WorkflowCheckpoint;
+    try {
+      checkpoint = this.toCheckpoint();
+    } catch (error) {
+      this.onError(error);
+      return this.writes;
+    }
+
+    this.writes = this.writes
+      .then(() => this.store.save(checkpoint))
+      .catch((error) => this.onError(error));
+    return this.writes;
+  }
+
+  /**
+   * Wait for all queued checkpoint writes to settle
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  /**
+   * Build a checkpoint from the current state of the run
+   */
+  toCheckpoint(): WorkflowCheckpoint {
+    const state: Record<string, SerializedWorkflowState> = { ...this.loadedState };
+    for (const [scope, workflow] of this.workflows) {
+      state[scope] = getObservedState(workflow);
+    }
+
+    return {
+      version: 1,
+      runId: this.runId,
+      workflowName: this.owner.node.name,
+      status: this.owner.node.status,
+      createdAt: this.createdAt,
+      updatedAt: Date.now(),
+      tree: serializeWorkflowNode(this.owner.node),
+      state,
+      steps: Object.fromEntries(this.completedSteps),
+    };
+  }
+
+  private resetRuntime(): void {
+    this.scopes = new WeakMap();
+    this.stepKeys = new WeakMap();
+    this.counters = new Map();
+    this.workflows = new Map();
+    this.restoredScopes = new Set();
+  }
+
+  private scopeOf(node: WorkflowNode): string {
+    const cached = this.scopes.get(node);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let scope: string;
+    if (node === this.owner.node || node.parent === null) {
+      scope = node.name;
+    } else {
+      // Children are scoped under the step that first runs them, falling
+      // back to the parent's scope (e.g. children attached in constructors)
+      const enclosing = getExecutionContext()?.workflowNode;
+      const enclosingStep = enclosing ? this.stepKeys.get(enclosing) : undefined;
+      const base = enclosingStep?.key ?? this.scopeOf(node.parent);
+      scope = this.claim(`${base}/${node.name}`, '@');
+    }
+
+    this.scopes.set(node, scope);
+    return scope;
+  }
+
+  private claim(prefix: string, separator: string): string {
+    const occurrence = this.counters.get(prefix) ?? 0;
+    this.counters.set(prefix, occurrence + 1);
+    return `${prefix}${separator}${occurrence}`;
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Checkpoint module exports
+ */
+
+export { MemoryCheckpointStore, FileCheckpointStore } from './checkpoint-store.js';
+export { WorkflowCheckpointer } from './checkpointer.js';
@@ -0,0 +1,63 @@
+/**
+ * `groundswell cache stats|clear [--module <module>]`
+ *
+ * @module
+ */
+
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { defaultCache, type LLMCache } from '../../cache/cache.js';
+import { CliUsageError, writeJson, type CliIO } from '../io.js';
+import type { CommandArgs } from '../main.js';
+
+/**
+ * Show or clear the LLM response cache
+ *
+ * The cache lives in memory, so the command acts on the cache of the current
+ * process: the `cache` export of `--module` when it has one (the module is
+ * imported first, so it can set up or warm the cache), otherwise the shared
+ * `defaultCache`.
+ */
+export async function cacheCommand(args: CommandArgs, io: CliIO): Promise<number> {
+  const [action] = args.positionals;
+  if (action !== 'stats' && action !== 'clear') {
+    throw new CliUsageError(`cache: expected 'stats' or 'clear'${action ? `, got '${action}'` : ''}`);
+  }
+  const cache = await resolveCache(args.options.module, io.cwd);
+
+  if (action === 'clear') {
+    const cleared = cache.metrics().size;
+    await cache.clear();
+    if (args.options.json) {
+      writeJson(io, { cleared });
+    } else {
+      io.stdout(`Cleared ${cleared} cache entr${cleared === 1 ? 'y' : 'ies'}\n`);
+    }
+    return 0;
+  }
+
+  const metrics = cache.metrics();
+  if (args.options.json) {
+    writeJson(io, metrics);
+  } else {
+    io.stdout(
+      [
+        `entries:  ${metrics.size}`,
+        `size:     ${metrics.sizeBytes} bytes`,
+        `hits:     ${metrics.hits}`,
+        `misses:   ${metrics.misses}`,
+        `hit rate: ${metrics.hitRate.toFixed(1)}%`,
+      ].join('\n') + '\n'
+    );
+  }
+  return 0;
+}
+
+async function resolveCache(modulePath: string | undefined, cwd: string): Promise<LLMCache> {
+  if (!modulePath) {
+    return defaultCache;
+  }
+  const module = (await import(pathToFileURL(resolve(cwd, modulePath)).href)) as { cache?: unknown };
+  const cache = module.cache as LLMCache | undefined;
+  return cache && typeof cache.metrics === 'function' && typeof cache.clear === 'function' ? cache : defaultCache;
+}
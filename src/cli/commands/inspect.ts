@@ -0,0 +1,54 @@
+/**
+ * `groundswell inspect <events.json>`
+ *
+ * @module
+ */
+
+import { resolve } from 'node:path';
+import { WorkflowTreeDebugger } from '../../debugger/tree-debugger.js';
+import type { SavedWorkflowEvent } from '../../types/index.js';
+import { summarizeEventHistory } from '../event-history.js';
+import { CliUsageError, writeJson, type CliIO } from '../io.js';
+import type { CommandArgs } from '../main.js';
+
+/**
+ * Summarize a saved event history: event counts, steps, errors and agent usage
+ *
+ * @returns 0, or 1 when the history contains errors
+ */
+export async function inspectCommand(args: CommandArgs, io: CliIO): Promise<number> {
+  const [file] = args.positionals;
+  if (!file) {
+    throw new CliUsageError('inspect: missing <events.json>');
+  }
+
+  const events = (await WorkflowTreeDebugger.loadEventHistory(resolve(io.cwd, file))) as SavedWorkflowEvent[];
+  const summary = summarizeEventHistory(events);
+
+  if (args.options.json) {
+    writeJson(io, summary);
+  } else {
+    const lines = [
+      `${summary.events} events, ${Object.keys(summary.nodes).length} nodes`,
+      '',
+      'Events:',
+      ...Object.entries(summary.byType).map(([type, count]) => `  ${type.padEnd(20)} ${count}`),
+    ];
+    if (summary.steps.length > 0) {
+      lines.push('', 'Steps:', ...summary.steps.map((step) => `  ${step.step.padEnd(20)} ${step.durationMs}ms`));
+    }
+    if (summary.agentCalls.count > 0) {
+      const { count, inputTokens, outputTokens, costUsd } = summary.agentCalls;
+      lines.push(
+        '',
+        `Agent calls: ${count} (${inputTokens} input / ${outputTokens} output tokens, $${costUsd.toFixed(4)})`
+      );
+    }
+    if (summary.errors.length > 0) {
+      lines.push('', 'Errors:', ...summary.errors.map((error) => `  ${error.node}: ${error.message}`));
+    }
+    io.stdout(`${lines.join('\n')}\n`);
+  }
+
+  return summary.errors.length > 0 ? 1 : 0;
+}
@@ -0,0 +1,32 @@
+/**
+ * `groundswell replay <events.json>`
+ *
+ * @module
+ */
+
+import { resolve } from 'node:path';
+import { WorkflowTreeDebugger } from '../../debugger/tree-debugger.js';
+import { serializeWorkflowNode } from '../../utils/tree-serialization.js';
+import { CliUsageError, writeJson, type CliIO } from '../io.js';
+import type { CommandArgs } from '../main.js';
+
+/**
+ * Restore the workflow tree from a saved event history and print it
+ */
+export async function replayCommand(args: CommandArgs, io: CliIO): Promise<number> {
+  const [file] = args.positionals;
+  if (!file) {
+    throw new CliUsageError('replay: missing <events.json>');
+  }
+
+  const debug = await WorkflowTreeDebugger.fromEventHistoryFile(resolve(io.cwd, file));
+
+  if (args.options.json) {
+    writeJson(io, serializeWorkflowNode(debug.getTree()));
+    return 0;
+  }
+
+  const stats = debug.getStats();
+  io.stdout(`${debug.toTreeString()}\n${stats.totalNodes} nodes, ${debug.getEventHistory().length} events\n`);
+  return 0;
+}
@@ -0,0 +1,117 @@
+/**
+ * `groundswell run <module> [--input <json>] [--save-events <file>]`
+ *
+ * @module
+ */
+
+import { resolve } from 'node:path';
+import { WorkflowTreeDebugger } from '../../debugger/tree-debugger.js';
+import { defaultCache } from '../../cache/cache.js';
+import { getErrorCode } from '../../utils/workflow-error-utils.js';
+import { CliUsageError, writeJson, type CliIO } from '../io.js';
+import { loadWorkflowModule, resultData } from '../workflow-module.js';
+import type { CommandArgs } from '../main.js';
+
+/** Minimum time between two redraws of the live tree */
+const REDRAW_INTERVAL_MS = 100;
+
+/**
+ * Run a workflow module and print its tree
+ *
+ * On a terminal the tree is redrawn while the workflow runs; otherwise it is
+ * printed once at the end.
+ *
+ * @returns 0 when the run succeeds, 1 when it fails
+ */
+export async function runCommand(args: CommandArgs, io: CliIO): Promise<number> {
+  const [modulePath] = args.positionals;
+  if (!modulePath) {
+    throw new CliUsageError('run: missing <module>');
+  }
+  const input = args.options.input !== undefined ? parseInput(args.options.input) : undefined;
+
+  const workflow = await loadWorkflowModule(modulePath, io.cwd);
+  const debug = new WorkflowTreeDebugger(workflow, { persistEvents: args.options['save-events'] !== undefined });
+
+  const live = io.isTTY && !args.options.json;
+  let drawnLines = 0;
+  let redraw: ReturnType<typeof setTimeout> | undefined;
+  const draw = () => {
+    redraw = undefined;
+    const tree = debug.toTreeString();
+    // Move the cursor back over the previous frame and clear it
+    io.stdout(`${drawnLines > 0 ? `\x1b[${drawnLines}F\x1b[J` : ''}${tree}`);
+    drawnLines = tree.split('\n').length - 1;
+  };
+  const subscription = live
+    ? debug.events.subscribe({ next: () => (redraw ??= setTimeout(draw, REDRAW_INTERVAL_MS)) })
+    : undefined;
+
+  let result: unknown;
+  let failure: unknown;
+  try {
+    result = input !== undefined ? await workflow.run(input) : await workflow.run();
+  } catch (error) {
+    failure = error;
+  } finally {
+    subscription?.unsubscribe();
+    clearTimeout(redraw);
+  }
+
+  const savePath = args.options['save-events'];
+  if (savePath !== undefined) {
+    await debug.saveEventHistory(resolve(io.cwd, savePath));
+  }
+
+  const stats = debug.getStats();
+  const error = failure !== undefined ? describeFailure(failure) : undefined;
+
+  if (args.options.json) {
+    writeJson(io, {
+      workflow: workflow.getNode().name,
+      status: workflow.status,
+      data: failure === undefined ? resultData(workflow, result) : undefined,
+      error,
+      tree: debug.toTreeString(),
+      stats,
+      cache: defaultCache.metrics(),
+    });
+  } else {
+    if (live) {
+      draw();
+    } else {
+      io.stdout(debug.toTreeString());
+    }
+    io.stdout(`\n${stats.totalNodes} nodes, $${stats.totalCostUsd.toFixed(4)}\n`);
+    if (error) {
+      io.stderr(`error: ${error.message}${error.code ? ` (${error.code})` : ''}\n`);
+    } else {
+      io.stdout(`${formatData(resultData(workflow, result))}\n`);
+    }
+    if (savePath !== undefined) {
+      io.stdout(`events saved to ${savePath}\n`);
+    }
+  }
+
+  return failure === undefined ? 0 : 1;
+}
+
+function parseInput(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    throw new CliUsageError(`run: --input is not valid JSON (${(error as Error).message})`);
+  }
+}
+
+function describeFailure(failure: unknown): { message: string; code?: string } {
+  const message =
+    typeof failure === 'object' && failure !== null && 'message' in failure
+      ? String((failure as { message: unknown }).message)
+      : String(failure);
+  return { message, code: getErrorCode(failure) };
+}
+
+function formatData(data: unknown): string {
+  return typeof data === 'string' ? data : (JSON.stringify(data, null, 2) ?? 'undefined');
+}
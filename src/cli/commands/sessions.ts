@@ -0,0 +1,85 @@
+/**
+ * `groundswell sessions list|rm [--dir <directory>]`
+ *
+ * @module
+ */
+
+import { resolve } from 'node:path';
+import { FileSessionStore } from '../../harnesses/session-store.js';
+import { CliUsageError, writeJson, type CliIO } from '../io.js';
+import type { CommandArgs } from '../main.js';
+
+/** Directory FileSessionStore uses by default */
+const DEFAULT_SESSIONS_DIR = './sessions';
+
+/**
+ * List or remove sessions saved by a FileSessionStore
+ *
+ * `rm` takes session ids, or `--all` to remove every session.
+ *
+ * @returns 0, or 1 when a session to remove does not exist
+ */
+export async function sessionsCommand(args: CommandArgs, io: CliIO): Promise<number> {
+  const [action, ...ids] = args.positionals;
+  const store = new FileSessionStore(resolve(io.cwd, args.options.dir ?? DEFAULT_SESSIONS_DIR));
+
+  switch (action) {
+    case 'list': {
+      const sessions = await Promise.all(
+        (await store.list()).map(async (id) => {
+          const state = await store.load(id);
+          return {
+            id,
+            messages: state?.history?.length ?? 0,
+            createdAt: state?.createdAt,
+            lastAccessedAt: state?.lastAccessedAt,
+          };
+        })
+      );
+      if (args.options.json) {
+        writeJson(io, sessions);
+      } else if (sessions.length === 0) {
+        io.stdout('No sessions\n');
+      } else {
+        for (const session of sessions) {
+          const accessed = session.lastAccessedAt ? new Date(session.lastAccessedAt).toISOString() : '-';
+          io.stdout(`${session.id.padEnd(40)} ${String(session.messages).padStart(5)} messages  ${accessed}\n`);
+        }
+      }
+      return 0;
+    }
+
+    case 'rm': {
+      if (args.options.all) {
+        const removed = await store.list();
+        await store.clear();
+        report(io, args.options.json, removed, []);
+        return 0;
+      }
+      if (ids.length === 0) {
+        throw new CliUsageError('sessions rm: give session ids or --all');
+      }
+      const removed: string[] = [];
+      const missing: string[] = [];
+      for (const id of ids) {
+        (await store.delete(id) ? removed : missing).push(id);
+      }
+      report(io, args.options.json, removed, missing);
+      return missing.length > 0 ? 1 : 0;
+    }
+
+    default:
+      throw new CliUsageError(`sessions: expected 'list' or 'rm'${action ? `, got '${action}'` : ''}`);
+  }
+}
+
+function report(io: CliIO, json: boolean | undefined, removed: string[], missing: string[]): void {
+  if (json) {
+    writeJson(io, { removed, missing });
+    return;
+  }
+  io.stdout(`Removed ${removed.length} session${removed.length === 1 ? '' : 's'}\n`);
+  for (const id of missing) {
+    io.stderr(`No session '${id}'\n`);
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Saved event history summaries for `groundswell inspect`
+ *
+ * @module
+ * @remarks
+ * `WorkflowTreeDebugger.saveEventHistory()` writes events with node
+ * references flattened to `nodeId`/`nodeName` (and `childId`, `rootId`).
+ */
+
+import type { SavedWorkflowEvent } from '../types/index.js';
+
+/**
+ * Summary of a saved event history
+ */
+export interface EventHistorySummary {
+  /** Number of events */
+  events: number;
+  /** Event count per event type */
+  byType: Record<string, number>;
+  /** Nodes referenced by the events, keyed by node id */
+  nodes: Record<string, string>;
+  /** Completed steps with their durations, in completion order */
+  steps: Array<{ node: string; step: string; durationMs: number }>;
+  /** Errors, in the order they occurred */
+  errors: Array<{ node: string; message: string }>;
+  /** Agent calls and their total tokens and cost */
+  agentCalls: { count: number; inputTokens: number; outputTokens: number; costUsd: number };
+}
+
+/**
+ * Summarize a saved event history
+ *
+ * @param events - Events read with WorkflowTreeDebugger.loadEventHistory()
+ */
+export function summarizeEventHistory(events: SavedWorkflowEvent[]): EventHistorySummary {
+  const summary: EventHistorySummary = {
+    events: events.length,
+    byType: {},
+    nodes: {},
+    steps: [],
+    errors: [],
+    agentCalls: { count: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 },
+  };
+
+  for (const event of events) {
+    summary.byType[event.type] = (summary.byType[event.type] ?? 0) + 1;
+    for (const [idKey, nameKey] of [['nodeId', 'nodeName'], ['childId', 'childName'], ['rootId', 'rootName']]) {
+      if (typeof event[idKey] === 'string') {
+        summary.nodes[event[idKey] as string] = String(event[nameKey] ?? event[idKey]);
+      }
+    }
+
+    const node = String(event.nodeName ?? event.nodeId ?? '');
+    if (event.type === 'stepEnd') {
+      summary.steps.push({ node, step: String(event.step), durationMs: Number(event.duration ?? 0) });
+    } else if (event.type === 'error') {
+      const error = event.error as { message?: string } | undefined;
+      summary.errors.push({ node, message: error?.message ?? 'Unknown error' });
+    } else if (event.type === 'agentPromptEnd') {
+      const usage = event.tokenUsage as { input_tokens?: number; output_tokens?: number } | undefined;
+      summary.agentCalls.count++;
+      summary.agentCalls.inputTokens += usage?.input_tokens ?? 0;
+      summary.agentCalls.outputTokens += usage?.output_tokens ?? 0;
+      summary.agentCalls.costUsd += typeof event.costUsd === 'number' ? event.costUsd : 0;
+    }
+  }
+
+  return summary;
+}
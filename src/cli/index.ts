@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+/**
+ * groundswell bin entry point
+ */
+
+import { runCli } from './main.js';
+
+process.exitCode = await runCli(process.argv.slice(2));
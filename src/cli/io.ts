@@ -0,0 +1,51 @@
+/**
+ * CLI input/output
+ *
+ * @module
+ * @remarks
+ * Commands write through a CliIO instead of `process` so they can be run and
+ * tested in-process.
+ */
+
+/**
+ * Output streams and environment of a CLI invocation
+ */
+export interface CliIO {
+  /** Write to standard output */
+  stdout(text: string): void;
+  /** Write to standard error */
+  stderr(text: string): void;
+  /** Whether standard output is an interactive terminal (enables live output) */
+  isTTY: boolean;
+  /** Directory relative paths are resolved against */
+  cwd: string;
+}
+
+/**
+ * CliIO bound to the current process
+ */
+export function processIO(): CliIO {
+  return {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+    isTTY: Boolean(process.stdout.isTTY),
+    cwd: process.cwd(),
+  };
+}
+
+/**
+ * Write a value as indented JSON followed by a newline
+ */
+export function writeJson(io: CliIO, value: unknown): void {
+  io.stdout(`${JSON.stringify(value, null, 2)}\n`);
+}
+
+/**
+ * Error for invalid command lines (exit code 2)
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
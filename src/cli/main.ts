@@ -0,0 +1,106 @@
+/**
+ * groundswell command line
+ *
+ * @module
+ * @remarks
+ * `runCli()` parses the arguments, runs one command and returns its exit
+ * code: 0 on success, 1 when the command fails, 2 for invalid usage.
+ */
+
+import { parseArgs } from 'node:util';
+import { runCommand } from './commands/run.js';
+import { inspectCommand } from './commands/inspect.js';
+import { replayCommand } from './commands/replay.js';
+import { sessionsCommand } from './commands/sessions.js';
+import { cacheCommand } from './commands/cache.js';
+import { CliUsageError, processIO, type CliIO } from './io.js';
+
+/**
+ * Parsed arguments passed to a command
+ */
+export interface CommandArgs {
+  /** Arguments after the command name */
+  positionals: string[];
+  /** Options (every command accepts every option and ignores the ones it does not use) */
+  options: {
+    json?: boolean;
+    input?: string;
+    'save-events'?: string;
+    dir?: string;
+    module?: string;
+    all?: boolean;
+  };
+}
+
+const COMMANDS: Record<string, (args: CommandArgs, io: CliIO) => Promise<number>> = {
+  run: runCommand,
+  inspect: inspectCommand,
+  replay: replayCommand,
+  sessions: sessionsCommand,
+  cache: cacheCommand,
+};
+
+const USAGE = `Usage: groundswell <command> [options]
+
+Commands:
+  run <module> [--input <json>] [--save-events <file>]
+                              Run a workflow module or definition file and show its tree
+  inspect <events.json>       Summarize a saved event history
+  replay <events.json>        Rebuild the workflow tree from a saved event history
+  sessions list [--dir <dir>] List saved sessions (default dir: ./sessions)
+  sessions rm <id...>|--all [--dir <dir>]
+                              Remove saved sessions
+  cache stats|clear [--module <module>]
+                              Show or clear the LLM response cache
+
+Options:
+  --json                      Print machine-readable JSON
+  -h, --help                  Show this help
+`;
+
+/**
+ * Run the command line
+ *
+ * @param argv - Arguments without the node and script paths
+ * @param io - Output streams (default: the current process)
+ * @returns Exit code
+ *
+ * @example
+ * process.exitCode = await runCli(process.argv.slice(2));
+ */
+export async function runCli(argv: string[], io: CliIO = processIO()): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean' },
+        input: { type: 'string' },
+        'save-events': { type: 'string' },
+        dir: { type: 'string' },
+        module: { type: 'string' },
+        all: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+    const [name, ...rest] = positionals;
+
+    if (values.help || !name) {
+      (values.help ? io.stdout : io.stderr)(USAGE);
+      return values.help ? 0 : 2;
+    }
+
+    const command = COMMANDS[name];
+    if (!command) {
+      throw new CliUsageError(`Unknown command '${name}'`);
+    }
+    return await command({ positionals: rest, options: values }, io);
+  } catch (error) {
+    if (error instanceof CliUsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      io.stderr(`${(error as Error).message}\n\n${USAGE}`);
+      return 2;
+    }
+    io.stderr(`error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Loading workflows for `groundswell run`
+ *
+ * @module
+ */
+
+import { extname, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { Workflow } from '../core/workflow.js';
+import type { WorkflowResult } from '../types/workflow-context.js';
+import { loadWorkflowDefinitionFile } from '../definitions/index.js';
+import { CliUsageError } from './io.js';
+
+/** Definition files are loaded with loadWorkflowDefinitionFile() instead of import() */
+const DEFINITION_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * Load the workflow a module or definition file provides
+ *
+ * A JavaScript module provides its workflow as the default export or a
+ * `workflow` export. The export may be a workflow instance, a Workflow
+ * subclass (instantiated without arguments) or a function returning a
+ * workflow. JSON and YAML files are loaded as workflow definitions.
+ *
+ * @param path - Module or definition path
+ * @param cwd - Directory `path` is relative to
+ * @returns The workflow to run
+ * @throws {CliUsageError} If the module does not provide a workflow
+ */
+export async function loadWorkflowModule(path: string, cwd: string): Promise<Workflow> {
+  const absolute = resolve(cwd, path);
+  if (DEFINITION_EXTENSIONS.includes(extname(absolute).toLowerCase())) {
+    return loadWorkflowDefinitionFile(absolute);
+  }
+
+  const module = (await import(pathToFileURL(absolute).href)) as Record<string, unknown>;
+  const exported = module.default ?? module.workflow;
+
+  let candidate: unknown = exported;
+  if (typeof exported === 'function') {
+    // GOTCHA: Classes cannot be called, so tell subclasses and factories apart by prototype
+    const prototype = (exported as { prototype?: object }).prototype;
+    candidate = prototype && isWorkflow(prototype)
+      ? new (exported as new () => Workflow)()
+      : await (exported as () => unknown)();
+  }
+
+  if (!isWorkflow(candidate)) {
+    throw new CliUsageError(
+      `${path} does not export a workflow (expected a default or 'workflow' export: a Workflow, a Workflow subclass or a function returning one)`
+    );
+  }
+  return candidate;
+}
+
+/**
+ * Result data of a run
+ *
+ * Functional workflows resolve to a WorkflowResult, class workflows to the
+ * value returned by `run()`.
+ */
+export function resultData(workflow: Workflow, result: unknown): unknown {
+  const wrapped = result as Partial<WorkflowResult> | null;
+  return typeof wrapped === 'object' && wrapped !== null && wrapped.node === workflow.getNode() && 'data' in wrapped
+    ? wrapped.data
+    : result;
+}
+
+/**
+ * Duck-typed so modules that bundle their own copy of groundswell still work
+ */
+function isWorkflow(value: unknown): value is Workflow {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Workflow).run === 'function' &&
+    typeof (value as Workflow).getNode === 'function' &&
+    typeof (value as Workflow).addObserver === 'function'
+  );
+}
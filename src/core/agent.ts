@@ -45,6 +45,17 @@ import type { Harness, HarnessId, HarnessOptions, HarnessRequest, HarnessHookEve
 import { getGlobalHarnessConfig, resolveHarnessConfig } from '../utils/harness-config.js';
 import { parseModelSpec } from '../utils/model-spec.js';
 import type { AsyncStream, StreamEvent } from '../types/streaming.js';
+import {
+  getAbortCode,
+  isCancellationError,
+  raceWithSignal,
+  toAbortError,
+} from '../utils/cancellation.js';
+import { isTimeoutError } from '../utils/timeout.js';
+import { describeBudgetLimit } from '../utils/budget.js';
+import { defaultModelCatalog } from '../utils/model-catalog.js';
+import { runWithMiddleware } from '../utils/middleware.js';
+import { registerSecret, isRedactedKey } from '../utils/redaction.js';
 
 /**
  * Result from a prompt execution including metadata
@@ -109,6 +120,14 @@ export class Agent {
     this.harnessId = config.harness ?? (config.provider as HarnessId | undefined);
     this.harnessOptions = config.harnessOptions ?? config.providerOptions;
 
+    // Keep the API key and secret-looking env values out of logs, events and snapshots
+    registerSecret(this.harnessOptions?.apiKey);
+    for (const [name, value] of Object.entries(config.env ?? {})) {
+      if (isRedactedKey(name)) {
+        registerSecret(value);
+      }
+    }
+
     // Resolve the effective harness via the configuration cascade (PRD §7.7).
     // getGlobalHarnessConfig reads the correct singleton (default 'pi') written by configureHarnesses().
     const globalConfig = getGlobalHarnessConfig();
@@ -212,6 +231,50 @@ export class Agent {
     }
   }
 
+  /**
+   * Create a tool executor bound to an abort signal
+   *
+   * Once the signal aborts, tool calls are refused with an error result
+   * instead of being executed.
+   *
+   * @param signal - Abort signal for the current prompt (optional)
+   * @returns Tool executor to hand to the harness
+   * @private
+   */
+  private createToolExecutor(
+    signal?: AbortSignal
+  ): (req: ToolExecutionRequest) => Promise<ToolExecutionResult> {
+    return async (req: ToolExecutionRequest) => {
+      if (signal?.aborted) {
+        return {
+          content: `Tool '${req.name}' not executed: ${toAbortError(signal).message}`,
+          isError: true,
+        };
+      }
+      return this.toolExecutor(req);
+    };
+  }
+
+  /**
+   * Build the error response for a prompt whose signal aborted
+   *
+   * Timeouts are reported as TIMEOUT (recoverable unless the workflow
+   * deadline has passed), anything else as non-recoverable CANCELLED.
+   *
+   * @param error - Abort error (see toAbortError)
+   * @param details - Response error details
+   * @private
+   */
+  private createAbortedResponse<T>(error: unknown, details: Record<string, unknown>): AgentResponse<T> {
+    const timedOut = isTimeoutError(error);
+    return createErrorResponse(
+      timedOut ? 'TIMEOUT' : 'CANCELLED',
+      error instanceof Error ? error.message : 'Unknown error',
+      details,
+      timedOut && (error as { recoverable?: unknown }).recoverable === true
+    ) as AgentResponse<T>;
+  }
+
   /**
    * Convert MCPHandler ToolResult to ToolExecutionResult
    *
@@ -262,7 +325,7 @@ export class Agent {
     prompt: Prompt<T>,
     overrides?: PromptOverrides
   ): Promise<AgentResponse<T>> {
-    return this.executePrompt(prompt, overrides);
+    return this.interceptPrompt(prompt, overrides);
   }
 
   /**
@@ -276,7 +339,7 @@ export class Agent {
     prompt: Prompt<T>,
     overrides?: PromptOverrides
   ): Promise<PromptResult<T>> {
-    const response = await this.executePrompt(prompt, overrides);
+    const response = await this.interceptPrompt(prompt, overrides);
     // Convert AgentResponse back to PromptResult for backward compatibility
     if (response.status === 'error') {
       throw new Error(response.error?.message ?? 'Unknown error');
@@ -319,7 +382,7 @@ export class Agent {
         (prompt.systemOverride ?? overrides?.system ?? this.config.system ?? ''),
     };
 
-    return this.executePrompt(prompt, effectiveOverrides);
+    return this.interceptPrompt(prompt, effectiveOverrides);
   }
 
   /**
@@ -476,8 +539,16 @@ export class Agent {
       };
     }
 
-    // Create AbortController for cancellation support
+    // Create AbortController for cancellation support, linked to the prompt/workflow signal
+    // GOTCHA: The listener is removed when the stream settles; the workflow signal outlives many prompts
     const controller = new AbortController();
+    const parentSignal = overrides?.signal ?? getExecutionContext()?.signal;
+    const onParentAbort = () => controller.abort(parentSignal?.reason);
+    if (parentSignal?.aborted) {
+      controller.abort(parentSignal.reason);
+    } else {
+      parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+    }
 
     // Build HarnessRequest with streaming enabled (PRD §7.3, §7.4). Identical shape to the legacy
     // ProviderRequest — the swap is a type rename (ProviderRequest = HarnessRequest alias).
@@ -491,6 +562,7 @@ export class Agent {
         sessionId: resolvedHarnessOptions.sessionId,
         hooks: harnessHooks,
         streaming: true, // CRITICAL: Enable streaming mode
+        signal: controller.signal,
       },
     };
 
@@ -502,7 +574,7 @@ export class Agent {
         // Harness returns: Promise<AgentResponse<T>> | AsyncGenerator<StreamEvent, AgentResponse<T>>
         const harnessResult = harness.execute<T>(
           harnessRequest,
-          self.toolExecutor.bind(self),
+          self.createToolExecutor(controller.signal),
           harnessHooks
         );
 
@@ -518,12 +590,12 @@ export class Agent {
               yield {
                 type: 'error',
                 error: new Error('Stream cancelled'),
-                code: 'CANCELLED',
+                code: getAbortCode(controller.signal),
                 retryable: false,
               };
               // Cancellation: return error response
               return createErrorResponse(
-                'CANCELLED',
+                getAbortCode(controller.signal),
                 'Stream cancelled by user',
                 {},
                 false
@@ -568,6 +640,8 @@ export class Agent {
           {},
           false
         ) as AgentResponse<T>;
+      } finally {
+        parentSignal?.removeEventListener('abort', onParentAbort);
       }
     }
 
@@ -584,6 +658,29 @@ export class Agent {
     return this.mcpHandler;
   }
 
+  /**
+   * Model and catalog cost reported on agentPromptEnd
+   *
+   * @remarks
+   * Cost accounting never fails a call: a model string that cannot be parsed
+   * is reported as-is, without a cost.
+   */
+  private describeUsage(
+    model: string,
+    usage: TokenUsage | undefined
+  ): { model: string; costUsd?: number } {
+    let spec;
+    try {
+      spec = parseModelSpec(model, getGlobalHarnessConfig().defaultModelProvider);
+    } catch {
+      return { model };
+    }
+    return {
+      model: `${spec.provider}/${spec.model}`,
+      costUsd: usage ? defaultModelCatalog.computeCost(spec, usage) : undefined,
+    };
+  }
+
   /**
    * Emit an event if within workflow context
    */
@@ -594,6 +691,33 @@ export class Agent {
     }
   }
 
+  /**
+   * Run a prompt through the middleware of the workflow it executes in
+   *
+   * Middleware receives `[prompt, overrides]` as arguments and the
+   * AgentResponse as result. Outside a workflow the prompt runs directly.
+   */
+  private interceptPrompt<T>(
+    prompt: Prompt<T>,
+    overrides?: PromptOverrides
+  ): Promise<AgentResponse<T>> {
+    const ctx = getExecutionContext();
+    if (!ctx?.middleware?.length) {
+      return this.executePrompt(prompt, overrides);
+    }
+    return runWithMiddleware(
+      ctx.middleware,
+      {
+        kind: 'prompt',
+        name: this.name,
+        args: [prompt, overrides],
+        workflowId: ctx.workflowId,
+        node: ctx.workflowNode,
+      },
+      (p, o) => this.executePrompt(p as Prompt<T>, o as PromptOverrides | undefined)
+    );
+  }
+
   /**
    * Internal prompt execution with full flow using provider abstraction
    * @side effects May emit workflow events, may read from/write to cache if enabled,
@@ -653,6 +777,13 @@ export class Agent {
     // Capture non-null harness instance for use in closure (TypeScript strict mode requirement)
     const harness = harnessInstance;
 
+    // Cancellation: prompt-level signal wins over the enclosing workflow step's signal
+    // (which also fires when the step times out or the workflow deadline passes)
+    const signal = overrides?.signal ?? ctx?.signal;
+    if (signal?.aborted) {
+      return this.createAbortedResponse<T>(toAbortError(signal), { harnessId: resolvedHarness });
+    }
+
     // Merge configuration: Prompt > Overrides > Config
     const effectiveSystem =
       prompt.systemOverride ?? overrides?.system ?? this.config.system;
@@ -719,6 +850,20 @@ export class Agent {
       }
     }
 
+    // Refuse new calls once a budget of the enclosing workflow tree is spent
+    // (cache hits above cost nothing and are still served)
+    const exhausted = ctx?.budgets
+      ?.map((budget) => budget.exceeded())
+      .find((status) => status !== undefined);
+    if (exhausted) {
+      return createErrorResponse(
+        'BUDGET_EXCEEDED',
+        `Agent call refused: ${describeBudgetLimit(exhausted)}`,
+        { ...exhausted, harnessId: resolvedHarness },
+        false
+      ) as AgentResponse<T>;
+    }
+
     // Emit prompt start event if in workflow context
     if (ctx) {
       this.emitWorkflowEvent({
@@ -809,6 +954,7 @@ export class Agent {
           tools: effectiveTools,
           sessionId: resolvedHarnessOptions.sessionId,
           hooks: harnessHooks,
+          signal,
         },
       };
 
@@ -817,13 +963,13 @@ export class Agent {
       // For non-streaming mode, it returns Promise<AgentResponse<T>>.
       const harnessResult = harness.execute<T>(
         harnessRequest,
-        this.toolExecutor.bind(this),
+        this.createToolExecutor(signal),
         harnessHooks
       );
 
-      // Handle the union return type
+      // Handle the union return type; stop waiting as soon as the signal aborts
       const response: AgentResponse<T> = Symbol.asyncIterator in harnessResult
-        ? (await (async () => {
+        ? (await raceWithSignal((async () => {
             // Harness returned AsyncGenerator (shouldn't happen without streaming: true, but handle gracefully)
             const generator = harnessResult as AsyncGenerator<StreamEvent, AgentResponse<T>, unknown>;
             // Consume all events
@@ -833,8 +979,8 @@ export class Agent {
             const finalResult = await generator.next();
             // The value should be AgentResponse<T> when done=true
             return finalResult.value as AgentResponse<T>;
-          })())
-        : await (harnessResult as Promise<AgentResponse<T>>);
+          })(), signal))
+        : await raceWithSignal(harnessResult as Promise<AgentResponse<T>>, signal);
 
       const duration = Date.now() - startTime;
 
@@ -849,6 +995,7 @@ export class Agent {
             promptId: prompt.id,
             node: ctx.workflowNode,
             duration,
+            harness: resolvedHarness,
           });
         }
         return response;
@@ -907,7 +1054,9 @@ export class Agent {
           promptId: prompt.id,
           node: ctx.workflowNode,
           duration,
+          harness: resolvedHarness,
           tokenUsage: validatedResponse.metadata.usage,
+          ...this.describeUsage(effectiveModel, validatedResponse.metadata.usage),
         });
       }
 
@@ -924,6 +1073,21 @@ export class Agent {
       const duration = Date.now() - startTime;
       const message = error instanceof Error ? error.message : 'Unknown error';
 
+      if (isCancellationError(error) || isTimeoutError(error)) {
+        if (ctx) {
+          this.emitWorkflowEvent({
+            type: 'agentPromptEnd',
+            agentId: this.id,
+            agentName: this.name,
+            promptId: prompt.id,
+            node: ctx.workflowNode,
+            duration,
+            harness: resolvedHarness,
+          });
+        }
+        return this.createAbortedResponse<T>(error, { duration, harnessId: resolvedHarness });
+      }
+
       return createErrorResponse(
         'PROVIDER_EXECUTION_FAILED',
         `Harness execution error: ${message}`,
@@ -7,6 +7,8 @@
 
 import { AsyncLocalStorage } from 'node:async_hooks';
 import type { WorkflowNode, WorkflowEvent } from '../types/index.js';
+import type { BudgetTracker } from '../utils/budget.js';
+import type { WorkflowMiddleware } from '../types/middleware.js';
 
 /**
  * Context available during agent/prompt execution
@@ -23,6 +25,18 @@ export interface AgentExecutionContext {
 
   /** Parent workflow ID if nested */
   parentWorkflowId?: string;
+
+  /** Abort signal of the executing step (fires on workflow.cancel() or timeout) */
+  signal?: AbortSignal;
+
+  /** Absolute deadline (epoch ms) of the executing step, inherited by nested work */
+  deadline?: number;
+
+  /** Budgets of the executing workflow and its ancestors, checked before agent calls */
+  budgets?: readonly BudgetTracker[];
+
+  /** Middleware of the executing workflow, applied to agent prompts */
+  middleware?: readonly WorkflowMiddleware[];
 }
 
 /**
@@ -94,6 +108,9 @@ export function hasExecutionContext(): boolean {
 
 /**
  * Create a child context with updated node
+ *
+ * The child keeps the parent's abort signal, deadline, budgets and middleware.
+ *
  * @param childNode The new workflow node for the child context
  * @returns New context with child node
  */
@@ -110,6 +127,10 @@ export function createChildContext(
     emitEvent: parent.emitEvent,
     workflowId: parent.workflowId,
     parentWorkflowId: parent.parentWorkflowId,
+    signal: parent.signal,
+    deadline: parent.deadline,
+    budgets: parent.budgets,
+    middleware: parent.middleware,
   };
 }
 
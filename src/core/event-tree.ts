@@ -11,6 +11,7 @@ import type {
   EventMetrics,
 } from '../types/workflow-context.js';
 import type { WorkflowNode, WorkflowEvent } from '../types/index.js';
+import { collectSubtreeCosts } from '../utils/model-catalog.js';
 
 /**
  * Implementation of EventTreeHandle
@@ -27,7 +28,7 @@ export class EventTreeHandleImpl implements EventTreeHandle {
    * @param workflowNode Root workflow node
    */
   constructor(workflowNode: WorkflowNode) {
-    this.root = this.buildEventNode(workflowNode);
+    this.root = this.buildEventNode(workflowNode, collectSubtreeCosts(workflowNode));
     this.buildIndex(this.root);
   }
 
@@ -83,7 +84,7 @@ export class EventTreeHandleImpl implements EventTreeHandle {
    * @param workflowNode Updated workflow node
    */
   public rebuild(workflowNode: WorkflowNode): void {
-    const newRoot = this.buildEventNode(workflowNode);
+    const newRoot = this.buildEventNode(workflowNode, collectSubtreeCosts(workflowNode));
     (this.root as { children: EventNode[] }).children = newRoot.children;
     Object.assign(this.root, {
       type: newRoot.type,
@@ -101,6 +102,7 @@ export class EventTreeHandleImpl implements EventTreeHandle {
    */
   private buildEventNode(
     wfNode: WorkflowNode,
+    costs: Map<string, number>,
     parentId?: string
   ): EventNode {
     const eventNode: EventNode = {
@@ -110,7 +112,7 @@ export class EventTreeHandleImpl implements EventTreeHandle {
       name: wfNode.name,
       parentId,
       children: [],
-      metrics: this.extractMetrics(wfNode),
+      metrics: this.extractMetrics(wfNode, costs.get(wfNode.id) ?? 0),
     };
 
     // Add event nodes from workflow events
@@ -123,7 +125,7 @@ export class EventTreeHandleImpl implements EventTreeHandle {
 
     // Add child workflow nodes
     for (const child of wfNode.children) {
-      eventNode.children.push(this.buildEventNode(child, wfNode.id));
+      eventNode.children.push(this.buildEventNode(child, costs, wfNode.id));
     }
 
     return eventNode;
@@ -182,6 +184,7 @@ export class EventTreeHandleImpl implements EventTreeHandle {
                   output: event.tokenUsage.output_tokens,
                 }
               : undefined,
+            costUsd: event.costUsd,
           },
         };
 
@@ -209,15 +212,16 @@ export class EventTreeHandleImpl implements EventTreeHandle {
 
   /**
    * Extract metrics from a workflow node
+   * @param costUsd Cost of all agent calls in the node's subtree
    */
-  private extractMetrics(wfNode: WorkflowNode): EventMetrics | undefined {
+  private extractMetrics(wfNode: WorkflowNode, costUsd: number): EventMetrics | undefined {
     // Calculate total duration from step events
     const stepEndEvents = wfNode.events.filter(
       (e) => e.type === 'stepEnd'
     ) as Array<{ type: 'stepEnd'; duration: number }>;
 
     if (stepEndEvents.length === 0) {
-      return undefined;
+      return costUsd > 0 ? { costUsd } : undefined;
     }
 
     const totalDuration = stepEndEvents.reduce(
@@ -225,7 +229,7 @@ export class EventTreeHandleImpl implements EventTreeHandle {
       0
     );
 
-    return { duration: totalDuration };
+    return costUsd > 0 ? { duration: totalDuration, costUsd } : { duration: totalDuration };
   }
 
   /**
@@ -5,7 +5,8 @@
  * at runtime, useful for metaprogramming and agent-driven workflow construction.
  */
 
-import { Workflow, type WorkflowExecutor } from './workflow.js';
+import type { z } from 'zod';
+import { Workflow, type TypedWorkflow, type WorkflowExecutor } from './workflow.js';
 import { Agent } from './agent.js';
 import { Prompt } from './prompt.js';
 import type { WorkflowConfig } from '../types/workflow-context.js';
@@ -14,8 +15,14 @@ import type { AgentConfig, PromptConfig } from '../types/index.js';
 /**
  * Create a new Workflow instance
  *
- * @param config Workflow configuration
- * @param executor Executor function that receives WorkflowContext
+ * With an `input` schema the workflow is run as `run(input, options?)`; the
+ * input is validated and passed, parsed, to the executor. With an `output`
+ * schema the executor's result is validated before it becomes
+ * `WorkflowResult.data`. Schema failures fail the run with a WorkflowError
+ * whose code is 'INVALID_INPUT' or 'INVALID_OUTPUT'.
+ *
+ * @param config Workflow configuration, optionally with `input`/`output` Zod schemas
+ * @param executor Executor function that receives WorkflowContext (and the parsed input)
  * @returns Configured Workflow instance
  *
  * @example
@@ -31,10 +38,41 @@ import type { AgentConfig, PromptConfig } from '../types/index.js';
  *
  * const result = await workflow.run();
  * ```
+ *
+ * @example Typed input and output
+ * ```ts
+ * const summarize = createWorkflow(
+ *   {
+ *     name: 'Summarize',
+ *     input: z.object({ url: z.string().url() }),
+ *     output: z.object({ summary: z.string() }),
+ *   },
+ *   async (ctx, { url }) => ({ summary: await ctx.step('summarize', () => summarizePage(url)) })
+ * );
+ *
+ * const result = await summarize.run({ url: 'https://example.com' });
+ * result.data.summary;
+ * ```
  */
+export function createWorkflow<I extends z.ZodTypeAny, O extends z.ZodTypeAny>(
+  config: Omit<WorkflowConfig, 'input' | 'output'> & { input: I; output: O },
+  executor: WorkflowExecutor<z.input<O>, z.output<I>>
+): TypedWorkflow<z.input<I>, z.output<O>>;
+export function createWorkflow<I extends z.ZodTypeAny, T>(
+  config: Omit<WorkflowConfig, 'input' | 'output'> & { input: I; output?: undefined },
+  executor: WorkflowExecutor<T, z.output<I>>
+): TypedWorkflow<z.input<I>, T>;
+export function createWorkflow<O extends z.ZodTypeAny>(
+  config: Omit<WorkflowConfig, 'input' | 'output'> & { input?: undefined; output: O },
+  executor: WorkflowExecutor<z.input<O>>
+): Workflow<z.output<O>>;
 export function createWorkflow<T>(
-  config: WorkflowConfig,
+  config: WorkflowConfig & { output?: z.ZodType<unknown, z.ZodTypeDef, T> },
   executor: WorkflowExecutor<T>
+): Workflow<T>;
+export function createWorkflow<T>(
+  config: WorkflowConfig,
+  executor: WorkflowExecutor<T, never>
 ): Workflow<T> {
   return new Workflow(config, executor);
 }
@@ -0,0 +1,227 @@
+/**
+ * Declarative DAG workflows
+ *
+ * @module
+ * @remarks
+ * A graph declares steps and their `dependsOn` edges instead of ordering
+ * `await`s by hand. Each node runs as a regular `ctx.step()` as soon as its
+ * dependencies have completed, so independent branches run in parallel and
+ * every node appears as a normal step in the workflow tree, event stream,
+ * checkpoints and tree debugger.
+ */
+
+import type { WorkflowConfig, WorkflowContext } from '../types/workflow-context.js';
+import type { AnyGraphNode, GraphDefinition } from '../types/graph.js';
+import type { WorkflowNode } from '../types/workflow.js';
+import { Workflow } from './workflow.js';
+import { getExecutionContext } from './context.js';
+
+/**
+ * Error thrown when a graph definition is invalid
+ *
+ * @remarks
+ * Raised by defineGraph() for dependency cycles (`cycle` lists the nodes
+ * on the cycle, first node repeated at the end) and for dependencies on
+ * nodes that do not exist.
+ *
+ * @public
+ */
+export class GraphDefinitionError extends Error {
+  /** Stable error code */
+  public readonly code = 'INVALID_GRAPH' as const;
+
+  /** An invalid graph never becomes valid by retrying */
+  public readonly recoverable = false;
+
+  /**
+   * @param message - Human-readable description
+   * @param cycle - Node names on the detected cycle, if any
+   */
+  constructor(message: string, public readonly cycle?: string[]) {
+    super(message);
+    this.name = 'GraphDefinitionError';
+  }
+}
+
+/**
+ * Validated workflow graph
+ *
+ * @template R - Output of each node, keyed by node name
+ */
+export class WorkflowGraph<R> {
+  /** Node names in a valid execution order (dependencies first) */
+  public readonly order: readonly string[];
+
+  /** Node definitions keyed by name */
+  private readonly nodes: Readonly<Record<string, AnyGraphNode>>;
+
+  /**
+   * @param nodes - Node definitions; use defineGraph() to get typed inputs
+   * @throws {GraphDefinitionError} If a dependency is unknown or the graph has a cycle
+   */
+  constructor(nodes: Record<string, AnyGraphNode>) {
+    this.nodes = nodes;
+    this.order = topologicalOrder(nodes);
+  }
+
+  /**
+   * Names of the nodes a node depends on
+   */
+  public dependenciesOf(name: keyof R & string): readonly string[] {
+    return this.nodes[name]?.dependsOn ?? [];
+  }
+
+  /**
+   * Run the graph inside a workflow
+   *
+   * Every node starts as soon as all of its dependencies have completed.
+   * When a node fails, nodes that have not started yet are skipped, nodes
+   * already running are awaited, and the first failure is thrown.
+   *
+   * With `errorMergeStrategy`, a failed node does not throw: its dependents
+   * (and theirs) are skipped and left out of the outputs, independent nodes
+   * keep running, and the workflow reports the merged error.
+   *
+   * @param ctx - Context of the running workflow
+   * @returns Output of every node, keyed by node name
+   */
+  public async execute(ctx: WorkflowContext): Promise<R> {
+    const outputs: Record<string, unknown> = {};
+    const running = new Map<string, Promise<void>>();
+    const failed = new Set<string>();
+    let firstFailure: { error: unknown } | undefined;
+
+    const start = (name: string): Promise<void> => {
+      let promise = running.get(name);
+      if (!promise) {
+        promise = (async () => {
+          const node = this.nodes[name];
+          const dependsOn = node.dependsOn ?? [];
+          await Promise.all(dependsOn.map(start));
+
+          // GOTCHA: Do not start new work once any node has failed
+          if (firstFailure) {
+            return;
+          }
+
+          // GOTCHA: A node collected by errorMergeStrategy resolves without an output; never run on it
+          if (dependsOn.some((dep) => failed.has(dep))) {
+            failed.add(name);
+            return;
+          }
+
+          const inputs = Object.fromEntries(dependsOn.map((dep) => [dep, outputs[dep]]));
+          // Node of the last attempt that ran, to tell a collected failure from an undefined output
+          let attemptNode: WorkflowNode | undefined;
+          try {
+            const output = await ctx.step(
+              name,
+              () => {
+                attemptNode = getExecutionContext()?.workflowNode;
+                return node.run(inputs as never, ctx);
+              },
+              node.options
+            );
+            if (attemptNode?.status === 'failed') {
+              failed.add(name);
+            } else {
+              outputs[name] = output;
+            }
+          } catch (error) {
+            firstFailure ??= { error };
+            throw error;
+          }
+        })();
+        running.set(name, promise);
+      }
+      return promise;
+    };
+
+    await Promise.allSettled(this.order.map(start));
+
+    if (firstFailure) {
+      throw firstFailure.error;
+    }
+    return outputs as R;
+  }
+
+  /**
+   * Create a functional workflow that runs this graph
+   *
+   * @param config - Workflow configuration
+   * @returns Workflow whose result data is the output of every node
+   */
+  public toWorkflow(config: WorkflowConfig): Workflow<R> {
+    return new Workflow<R>(config, (ctx) => this.execute(ctx));
+  }
+}
+
+/**
+ * Define a DAG workflow
+ *
+ * Each node declares the nodes it depends on and receives their outputs as
+ * typed `inputs`. The graph is validated immediately: unknown dependencies
+ * and cycles throw a GraphDefinitionError.
+ *
+ * @param nodes - Node definitions keyed by node name
+ * @returns Validated graph; run it with `toWorkflow()` or `execute(ctx)`
+ * @throws {GraphDefinitionError} If a dependency is unknown or the graph has a cycle
+ *
+ * @example
+ * ```ts
+ * const graph = defineGraph({
+ *   fetch: { run: async () => loadRows() },
+ *   schema: { run: async () => loadSchema() },
+ *   analyze: {
+ *     dependsOn: ['fetch', 'schema'],
+ *     run: async ({ fetch, schema }) => analyze(fetch, schema),
+ *   },
+ * });
+ *
+ * const result = await graph.toWorkflow({ name: 'Pipeline' }).run();
+ * result.data.analyze;
+ * ```
+ */
+export function defineGraph<R, const D extends { [K in keyof R]: keyof R }>(
+  nodes: GraphDefinition<R, D>
+): WorkflowGraph<R> {
+  return new WorkflowGraph<R>(nodes as Record<string, AnyGraphNode>);
+}
+
+/**
+ * Order nodes so that every node comes after its dependencies
+ * Depth-first search; a node met again while still on the stack closes a cycle.
+ */
+function topologicalOrder(nodes: Record<string, AnyGraphNode>): string[] {
+  const order: string[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (name: string): void => {
+    const current = state.get(name);
+    if (current === 'done') {
+      return;
+    }
+    if (current === 'visiting') {
+      const cycle = [...stack.slice(stack.indexOf(name)), name];
+      throw new GraphDefinitionError(`Graph has a dependency cycle: ${cycle.join(' -> ')}`, cycle);
+    }
+
+    state.set(name, 'visiting');
+    stack.push(name);
+    for (const dep of nodes[name].dependsOn ?? []) {
+      if (!Object.prototype.hasOwnProperty.call(nodes, dep)) {
+        throw new GraphDefinitionError(`Graph node '${name}' depends on unknown node '${dep}'`);
+      }
+      visit(dep);
+    }
+    stack.pop();
+    state.set(name, 'done');
+    order.push(name);
+  };
+
+  for (const name of Object.keys(nodes)) {
+    visit(name);
+  }
+  return order;
+}
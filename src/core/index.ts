@@ -1,5 +1,6 @@
 export { WorkflowLogger } from './logger.js';
-export { Workflow, type WorkflowExecutor } from './workflow.js';
+export { Workflow, type WorkflowExecutor, type TypedWorkflow } from './workflow.js';
+export { defineGraph, WorkflowGraph, GraphDefinitionError } from './graph.js';
 export { Agent, type PromptResult } from './agent.js';
 export { Prompt } from './prompt.js';
 export { MCPHandler, type ToolExecutor } from './mcp-handler.js';
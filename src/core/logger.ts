@@ -1,8 +1,29 @@
-import type { WorkflowNode, LogEntry, LogLevel, WorkflowObserver } from '../types/index.js';
+import type { WorkflowNode, LogEntry, LogLevel, LogRecord, LogSink, WorkflowObserver } from '../types/index.js';
 import { generateId } from '../utils/id.js';
+import { getExecutionContext } from './context.js';
+import { redact, redactString } from '../utils/redaction.js';
+
+/** Severity order of log levels */
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/**
+ * Settings a logger reads from its workflow on every entry
+ *
+ * @remarks
+ * Functions rather than values: the level, the sinks of the root workflow
+ * and the run id change when a workflow is attached to a parent or resumed.
+ */
+export interface WorkflowLoggerBindings {
+  /** Minimum level to record (default: 'debug') */
+  level?: () => LogLevel;
+  /** Sinks to write records to (default: none) */
+  sinks?: () => readonly LogSink[];
+  /** Run id of the root workflow (default: the root node's id) */
+  runId?: () => string;
+}
 
 /**
- * Logger that emits log entries to workflow node and observers
+ * Logger that emits log entries to workflow node, observers and log sinks
  */
 export class WorkflowLogger {
   private readonly parentLogId?: string;
@@ -10,7 +31,8 @@ export class WorkflowLogger {
   constructor(
     private readonly node: WorkflowNode,
     private readonly observers: WorkflowObserver[],
-    parentLogId?: string
+    parentLogId?: string,
+    private readonly bindings: WorkflowLoggerBindings = {}
   ) {
     this.parentLogId = parentLogId;
   }
@@ -39,24 +61,76 @@ export class WorkflowLogger {
           timestamp: Date.now(),
           level: 'error',
           message: 'Observer onLog error',
-          data: { error: err },
+          data: redact({ error: err }),
         };
         this.emitWithoutObserverNotification(errorEntry);
       }
     }
+    this.writeToSinks(entry);
+  }
+
+  /**
+   * Write an entry to the log sinks
+   *
+   * GOTCHA: Sink errors are recorded on the node only, like observer errors,
+   * so a failing sink cannot recurse into itself.
+   */
+  private writeToSinks(entry: LogEntry): void {
+    const sinks = this.bindings.sinks?.() ?? [];
+    if (sinks.length === 0) {
+      return;
+    }
+
+    let depth = 0;
+    let root = this.node;
+    while (root.parent) {
+      root = root.parent;
+      depth++;
+    }
+    // Steps run in an execution context whose node is the step's node
+    const context = getExecutionContext();
+    const step =
+      context?.workflowId === this.node.id && context.workflowNode !== this.node ? context.workflowNode.name : undefined;
+
+    const record: LogRecord = {
+      ...entry,
+      runId: this.bindings.runId?.() ?? root.id,
+      workflowName: this.node.name,
+      depth,
+      ...(step !== undefined && { step }),
+    };
+    for (const sink of sinks) {
+      try {
+        sink.write(record);
+      } catch (err) {
+        this.emitWithoutObserverNotification({
+          id: generateId(),
+          workflowId: this.node.id,
+          timestamp: Date.now(),
+          level: 'error',
+          message: 'Log sink error',
+          data: redact({ error: err }),
+        });
+      }
+    }
   }
 
   /**
    * Create a log entry with the given level
    */
   private log(level: LogLevel, message: string, data?: unknown): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.bindings.level?.() ?? 'debug']) {
+      return;
+    }
+
     const entry: LogEntry = {
       id: generateId(),
       workflowId: this.node.id,
       timestamp: Date.now(),
       level,
-      message,
-      data,
+      // Redacted here so secrets reach neither the node nor observers and sinks
+      message: redactString(message),
+      data: redact(data),
     };
 
     // Add parent log ID if this is a child logger
@@ -107,6 +181,6 @@ export class WorkflowLogger {
   child(meta: Partial<LogEntry>): WorkflowLogger;
   child(input: string | Partial<LogEntry>): WorkflowLogger {
     const parentLogId = typeof input === 'string' ? input : input.parentLogId;
-    return new WorkflowLogger(this.node, this.observers, parentLogId);
+    return new WorkflowLogger(this.node, this.observers, parentLogId, this.bindings);
   }
 }
@@ -11,6 +11,12 @@ import type {
   ReflectionAPI,
   AgentLike,
   PromptLike,
+  ControlFlowOptions,
+  MapOptions,
+  LoopOptions,
+  WaitForSignalOptions,
+  ApprovalOptions,
+  ApprovalDecision,
 } from '../types/workflow-context.js';
 import type {
   WorkflowNode,
@@ -21,11 +27,13 @@ import type {
   WorkflowError,
 } from '../types/index.js';
 import type { ErrorMergeStrategy } from '../types/error-strategy.js';
+import type { StepOptions } from '../types/decorators.js';
 import type { AgentResponse } from '../types/agent.js';
-import type { ZodError } from 'zod';
+import type { ZodError, z } from 'zod';
 import { validateAgentResponse } from '../utils/agent-validation.js';
 import { EventTreeHandleImpl, createEventTreeHandle } from './event-tree.js';
 import {
+  getExecutionContext,
   runInContext,
   type AgentExecutionContext,
 } from './context.js';
@@ -33,6 +41,23 @@ import { generateId } from '../utils/id.js';
 import { ReflectionManager } from '../reflection/reflection.js';
 import { createReflectionConfig } from '../types/index.js';
 import { getObservedState } from '../decorators/observed-state.js';
+import type { WorkflowCheckpointer } from '../checkpoint/checkpointer.js';
+import {
+  WorkflowCancelledError,
+  isCancellationError,
+  raceWithSignal,
+  throwIfAborted,
+  toCancellationError,
+} from '../utils/cancellation.js';
+import { WorkflowTimeoutError, isTimeoutError, startTimeLimit } from '../utils/timeout.js';
+import { getErrorCode } from '../utils/workflow-error-utils.js';
+import { matchesCriterion } from '../utils/restart-analysis.js';
+import { runWithConcurrency } from '../utils/concurrency.js';
+import { delay } from '../utils/delay.js';
+import { computeRetryDelay } from '../utils/retry-policy.js';
+import type { BudgetTracker } from '../utils/budget.js';
+import type { WorkflowMiddleware } from '../types/middleware.js';
+import { runWithMiddleware } from '../utils/middleware.js';
 
 /**
  * Interface for workflow-like objects that can emit events
@@ -40,9 +65,23 @@ import { getObservedState } from '../decorators/observed-state.js';
 interface WorkflowLike {
   id: string;
   node: WorkflowNode;
-  emitEvent(event: WorkflowEvent): void;
-  setStatus(status: 'idle' | 'running' | 'completed' | 'failed' | 'cancelled'): void;
+  emitEvent(event: WorkflowEvent): WorkflowEvent;
+  setStatus(status: 'idle' | 'running' | 'completed' | 'failed' | 'cancelled' | 'waiting'): void;
   attachChild(child: WorkflowLike): void;
+  getCheckpointer?(): WorkflowCheckpointer | undefined;
+  signal?: AbortSignal;
+  getDeadline?(): number | undefined;
+  getBudgets?(): BudgetTracker[];
+  getMiddleware?(): WorkflowMiddleware[];
+  logger?: { info(message: string, data?: unknown): void };
+  snapshotState?(): void;
+  registerCompensation?(stepName: string, undo: () => unknown, node?: WorkflowNode): void;
+  waitForSignal?<S extends z.ZodTypeAny>(
+    name: string,
+    schema: S,
+    options?: WaitForSignalOptions
+  ): Promise<z.infer<S>>;
+  requestApproval?(prompt: string, options?: ApprovalOptions): Promise<ApprovalDecision>;
 }
 
 /**
@@ -106,23 +145,79 @@ export class WorkflowContextImpl implements WorkflowContext {
   }
 
   /**
-   * Execute a named step with automatic context propagation and reflection support
+   * Abort signal of the workflow (undefined for workflow-like objects without one)
+   */
+  get signal(): AbortSignal | undefined {
+    return this.workflow.signal;
+  }
+
+  /**
+   * Execute a named step with automatic context propagation, retries and reflection support
+   *
+   * Accepts the same options as @Step (except `name`): `restartable`,
+   * `maxRetries`, `retryDelayMs`, `retryPolicy` and `retryOn` retry failed attempts, each in
+   * a new `<name> (retry n)` node; `snapshotState`, `trackTiming`,
+   * `logStart`/`logFinish` and `timeoutMs` behave as they do for @Step.
+   *
+   * @throws {WorkflowCancelledError} If the workflow is cancelled before or during the step
+   * @throws {WorkflowError} With code 'TIMEOUT' if the step exceeds `timeoutMs` or the workflow deadline
    */
-  async step<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  async step<T>(
+    name: string,
+    fn: () => Promise<T>,
+    options?: Omit<StepOptions<T>, 'name'>
+  ): Promise<T> {
+    return this.runStep(name, fn, options ?? {}, this.workflow.node, this.workflow.signal);
+  }
+
+  /**
+   * Run a step below a parent node
+   *
+   * @param parentNode - Node the step nodes are attached to (the workflow node or a control-flow group)
+   * @param signal - Signal the step observes (the workflow signal or a control-flow group signal)
+   */
+  private async runStep<T>(
+    name: string,
+    fn: () => Promise<T>,
+    options: Omit<StepOptions<T>, 'name'>,
+    parentNode: WorkflowNode,
+    signal: AbortSignal | undefined
+  ): Promise<T> {
+    throwIfAborted(signal);
+
+    // Steps completed in a checkpointed run return their recorded result
+    const checkpointer = this.workflow.getCheckpointer?.();
+    const checkpointKey = checkpointer?.nextStepKey(this.workflow, name);
+    const completed = checkpointKey !== undefined
+      ? checkpointer!.getCompletedStep(checkpointKey)
+      : undefined;
+
+    if (completed) {
+      return this.restoreStep(name, completed.result as T, parentNode, options);
+    }
+
+    if (options.logStart) {
+      this.workflow.logger?.info(`STEP START: ${name}`);
+    }
+
     const maxAttempts = this.reflectionManager.isEnabled()
       ? this.reflectionManager.getMaxAttempts()
       : 1;
+    const maxRetries = options.maxRetries ?? 3;
 
     let lastError: Error | null = null;
+    let attempt = 1;
+    let retryCount = 0;
 
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    while (attempt <= maxAttempts) {
       const startTime = Date.now();
+      const previousTries = attempt - 1 + retryCount;
 
       // Create step node
       const stepNode: WorkflowNode = {
         id: generateId(),
-        name: attempt > 1 ? `${name} (retry ${attempt - 1})` : name,
-        parent: this.workflow.node,
+        name: previousTries > 0 ? `${name} (retry ${previousTries})` : name,
+        parent: parentNode,
         children: [],
         status: 'running',
         logs: [],
@@ -131,7 +226,11 @@ export class WorkflowContextImpl implements WorkflowContext {
       };
 
       // Attach to parent
-      this.workflow.node.children.push(stepNode);
+      parentNode.children.push(stepNode);
+
+      if (checkpointKey !== undefined) {
+        checkpointer!.bindStepNode(stepNode, checkpointKey, this.workflow);
+      }
 
       // Emit step start
       this.workflow.emitEvent({
@@ -140,20 +239,43 @@ export class WorkflowContextImpl implements WorkflowContext {
         step: name,
       });
 
+      // Each attempt gets its own time limit (step timeout or workflow deadline)
+      const limit = startTimeLimit(`Step '${name}'`, {
+        signal,
+        timeoutMs: options.timeoutMs,
+        deadline: this.workflow.getDeadline?.(),
+      });
+
       // Create execution context for this step
       const executionContext: AgentExecutionContext = {
         workflowNode: stepNode,
         emitEvent: (event: WorkflowEvent) => {
-          stepNode.events.push(event);
-          this.workflow.emitEvent(event);
+          // Workflow.emitEvent() redacts; the step node keeps the same (redacted) event
+          stepNode.events.push(this.workflow.emitEvent(event));
         },
         workflowId: this.workflowId,
         parentWorkflowId: this.parentWorkflowId,
+        signal: limit.signal,
+        deadline: limit.deadline,
+        budgets: this.workflow.getBudgets?.(),
+        middleware: this.workflow.getMiddleware?.(),
       };
 
       try {
-        // Execute function in context
-        const result = await runInContext(executionContext, fn);
+        // An exhausted deadline fails the step before it starts
+        throwIfAborted(limit.signal);
+
+        // Execute function in context; stop waiting as soon as the workflow is cancelled or time runs out
+        const result = await raceWithSignal(
+          runInContext(executionContext, () =>
+            runWithMiddleware(
+              executionContext.middleware ?? [],
+              { kind: 'step', name, args: [], workflowId: this.workflowId, node: stepNode },
+              () => fn()
+            )
+          ),
+          limit.signal
+        );
 
         // Automatic validation for AgentResponse results
         if (this.autoValidateResponses && isAgentResponse(result)) {
@@ -190,14 +312,35 @@ export class WorkflowContextImpl implements WorkflowContext {
         // Update step node status
         stepNode.status = 'completed';
 
+        // Register the undo function now that the side effects happened
+        if (options.compensate) {
+          this.workflow.registerCompensation?.(name, () => options.compensate!(result), stepNode);
+        }
+
+        // Snapshot state if requested
+        if (options.snapshotState) {
+          this.workflow.snapshotState?.();
+        }
+
+        // Record the result before announcing completion
+        if (checkpointKey !== undefined) {
+          await checkpointer!.completeStep(checkpointKey, name, result);
+        }
+
         // Emit step end
         const duration = Date.now() - startTime;
-        this.workflow.emitEvent({
-          type: 'stepEnd',
-          node: stepNode,
-          step: name,
-          duration,
-        });
+        if (options.trackTiming !== false) {
+          this.workflow.emitEvent({
+            type: 'stepEnd',
+            node: stepNode,
+            step: name,
+            duration,
+          });
+        }
+
+        if (options.logFinish) {
+          this.workflow.logger?.info(`STEP END: ${name} (${duration}ms)`);
+        }
 
         // Rebuild event tree
         this.eventTreeImpl.rebuild(this.workflow.node);
@@ -208,24 +351,89 @@ export class WorkflowContextImpl implements WorkflowContext {
         }
 
         return result;
-      } catch (error) {
+      } catch (caught) {
+        // Timeouts surface as WorkflowErrors carrying code 'TIMEOUT'
+        const error = caught instanceof WorkflowTimeoutError ? this.createTimeoutError(caught) : caught;
         lastError = error as Error;
 
+        // Cancelled steps are never collected, reflected on or retried
+        if (isCancellationError(error)) {
+          stepNode.status = 'cancelled';
+          this.workflow.emitEvent({
+            type: 'cancelled',
+            node: stepNode,
+            step: name,
+            reason: error instanceof WorkflowCancelledError ? error.reason : undefined,
+            timestamp: Date.now(),
+          });
+          this.eventTreeImpl.rebuild(this.workflow.node);
+          throw error;
+        }
+
         // Update step node status
         stepNode.status = 'failed';
 
+        const workflowError = this.toWorkflowError(error);
+
+        // Retry restartable steps before collecting, reporting or reflecting on the error
+        // GOTCHA: Retrying cannot succeed once the workflow deadline has passed,
+        // nor when the back-off itself would run past it
+        const deadlineExceeded = caught instanceof WorkflowTimeoutError && caught.deadlineExceeded;
+        const retryDelay = computeRetryDelay(options, retryCount + 1, workflowError);
+        const deadline = this.workflow.getDeadline?.();
+        const outlastsDeadline = deadline !== undefined && Date.now() + retryDelay.delayMs >= deadline;
+        const shouldRetry =
+          options.restartable &&
+          retryCount < maxRetries &&
+          !deadlineExceeded &&
+          !outlastsDeadline &&
+          (options.retryOn?.some((criterion) => matchesCriterion(workflowError, criterion)) ?? true);
+
+        if (shouldRetry) {
+          retryCount++;
+
+          this.workflow.emitEvent({
+            type: 'stepRetry',
+            node: stepNode,
+            stepName: name,
+            retryCount,
+            analysis: {
+              shouldRestart: true,
+              reason: `Error matches retry criteria (attempt ${retryCount}/${maxRetries})`,
+              suggestedAction: 'retry',
+              estimatedSuccessProbability: 0.7,
+            },
+            error: workflowError,
+            timestamp: Date.now(),
+            delayMs: retryDelay.delayMs,
+            delayReason: retryDelay.reason,
+          });
+          this.eventTreeImpl.rebuild(this.workflow.node);
+
+          if (options.logStart || options.logFinish) {
+            this.workflow.logger?.info(
+              `STEP RETRY: ${name} (attempt ${retryCount}/${maxRetries}, waiting ${retryDelay.delayMs}ms)`
+            );
+          }
+
+          // GOTCHA: A cancellation during the back-off ends the step before the next attempt's node is created
+          await raceWithSignal(delay(retryDelay.delayMs), signal).catch((cancelled: unknown) => {
+            stepNode.status = 'cancelled';
+            this.workflow.emitEvent({
+              type: 'cancelled',
+              node: stepNode,
+              step: name,
+              reason: cancelled instanceof WorkflowCancelledError ? cancelled.reason : undefined,
+              timestamp: Date.now(),
+            });
+            this.eventTreeImpl.rebuild(this.workflow.node);
+            throw cancelled;
+          });
+          continue;
+        }
+
         // Check if we should collect this error
         if (this.errorMergeStrategy?.enabled) {
-          // Create WorkflowError
-          const workflowError: WorkflowError = {
-            message: error instanceof Error ? error.message : 'Unknown error',
-            original: error,
-            workflowId: this.workflowId,
-            stack: error instanceof Error ? error.stack : undefined,
-            state: getObservedState(this.workflow),
-            logs: [...this.workflow.node.logs] as LogEntry[],
-          };
-
           // Collect error instead of throwing
           (this.workflow as any).collectedErrors?.push(workflowError);
           (this.workflow as any).operationCounter++;
@@ -248,14 +456,7 @@ export class WorkflowContextImpl implements WorkflowContext {
         this.workflow.emitEvent({
           type: 'error',
           node: stepNode,
-          error: {
-            message: error instanceof Error ? error.message : 'Unknown error',
-            original: error,
-            workflowId: this.workflowId,
-            stack: error instanceof Error ? error.stack : undefined,
-            state: getObservedState(this.workflow),
-            logs: [...this.workflow.node.logs] as LogEntry[],
-          },
+          error: workflowError,
         });
 
         // Rebuild event tree
@@ -274,8 +475,8 @@ export class WorkflowContextImpl implements WorkflowContext {
           throw error;
         }
 
-        // Check if we should try reflection
-        if (!this.reflectionManager.isEnabled() || attempt === maxAttempts) {
+        // Check if we should try reflection (never once the workflow deadline has passed)
+        if (!this.reflectionManager.isEnabled() || attempt === maxAttempts || deadlineExceeded) {
           throw error;
         }
 
@@ -295,16 +496,291 @@ export class WorkflowContextImpl implements WorkflowContext {
         }
 
         // Continue to next iteration for retry
+        attempt++;
+      } finally {
+        limit.dispose();
       }
     }
 
     throw lastError ?? new Error('Max reflection attempts exceeded');
   }
 
+  /**
+   * Build the WorkflowError reported for a failed step attempt
+   * Timeouts are already wrapped by createTimeoutError() and are reported as-is
+   */
+  private toWorkflowError(error: unknown): WorkflowError {
+    if (isTimeoutError(error) && !(error instanceof Error)) {
+      return error as WorkflowError;
+    }
+    return {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: getErrorCode(error),
+      original: error,
+      workflowId: this.workflowId,
+      stack: error instanceof Error ? error.stack : undefined,
+      state: getObservedState(this.workflow),
+      logs: [...this.workflow.node.logs] as LogEntry[],
+    };
+  }
+
+  /**
+   * Wrap a step timeout in a WorkflowError carrying code 'TIMEOUT'
+   */
+  private createTimeoutError(error: WorkflowTimeoutError): WorkflowError {
+    return {
+      message: error.message,
+      code: error.code,
+      original: error,
+      workflowId: this.workflowId,
+      stack: error.stack,
+      state: getObservedState(this.workflow),
+      logs: [...this.workflow.node.logs] as LogEntry[],
+    };
+  }
+
+  /**
+   * Materialize a step restored from a checkpoint
+   * Creates a completed step node and emits stepStart/stepEnd without running the step
+   */
+  private restoreStep<T>(
+    name: string,
+    result: T,
+    parentNode: WorkflowNode,
+    options: Omit<StepOptions<T>, 'name'>
+  ): T {
+    const stepNode: WorkflowNode = {
+      id: generateId(),
+      name,
+      parent: parentNode,
+      children: [],
+      status: 'completed',
+      logs: [],
+      events: [],
+      stateSnapshot: null,
+    };
+
+    parentNode.children.push(stepNode);
+
+    // The restored step's side effects still need undoing if the resumed run fails
+    if (options.compensate) {
+      this.workflow.registerCompensation?.(name, () => options.compensate!(result), stepNode);
+    }
+
+    this.workflow.emitEvent({ type: 'stepStart', node: stepNode, step: name });
+    this.workflow.emitEvent({ type: 'stepEnd', node: stepNode, step: name, duration: 0 });
+
+    this.eventTreeImpl.rebuild(this.workflow.node);
+
+    return result;
+  }
+
+  /**
+   * Run branches concurrently and wait for all of them
+   * A failing branch cancels its siblings
+   */
+  async parallel<T extends unknown[]>(
+    branches: [...{ [K in keyof T]: () => Promise<T[K]> }],
+    options?: ControlFlowOptions
+  ): Promise<T> {
+    const name = options?.name ?? 'parallel';
+    const fns = branches as ReadonlyArray<() => Promise<unknown>>;
+
+    return this.runGroup(name, (group) =>
+      Promise.all(
+        fns.map((fn, i) =>
+          this.runStep(`${name}[${i}]`, fn, options?.stepOptions ?? {}, group.node, group.signal)
+            .catch((error: unknown) => {
+              if (!isCancellationError(error)) {
+                group.stop(`branch '${name}[${i}]' failed`);
+              }
+              throw error;
+            })
+        )
+      ) as Promise<T>
+    );
+  }
+
+  /**
+   * Run branches concurrently and settle with the first one to settle
+   * Losing branches are cancelled
+   */
+  async race<T>(branches: ReadonlyArray<() => Promise<T>>, options?: ControlFlowOptions): Promise<T> {
+    const name = options?.name ?? 'race';
+    if (branches.length === 0) {
+      throw new Error(`ctx.race('${name}') requires at least one branch`);
+    }
+
+    return this.runGroup(name, async (group) => {
+      try {
+        return await Promise.race(
+          branches.map((fn, i) =>
+            this.runStep<T>(`${name}[${i}]`, fn, options?.stepOptions ?? {}, group.node, group.signal)
+          )
+        );
+      } finally {
+        group.stop(`lost race '${name}'`);
+      }
+    });
+  }
+
+  /**
+   * Run a step for each item with optional bounded concurrency
+   * A failing item skips queued items and cancels running ones
+   */
+  async map<I, R>(
+    items: readonly I[],
+    fn: (item: I, index: number) => Promise<R>,
+    options?: MapOptions
+  ): Promise<R[]> {
+    const name = options?.name ?? 'map';
+
+    return this.runGroup(name, async (group) => {
+      let failure: { reason: unknown } | undefined;
+
+      const results = await runWithConcurrency(
+        items.map((item, i) => () =>
+          this.runStep(`${name}[${i}]`, () => fn(item, i), options?.stepOptions ?? {}, group.node, group.signal)
+        ),
+        {
+          maxConcurrency: options?.concurrency,
+          failFast: true,
+          signal: group.signal,
+          onReject: (reason, i) => {
+            if (!failure && !isCancellationError(reason)) {
+              failure = { reason };
+              group.stop(`item '${name}[${i}]' failed`);
+            }
+          },
+        }
+      );
+
+      if (failure) {
+        throw failure.reason;
+      }
+      const rejected = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+      if (rejected) {
+        throw rejected.reason;
+      }
+      return results.map((r) => (r as PromiseFulfilledResult<R>).value);
+    });
+  }
+
+  /**
+   * Run a step repeatedly while a condition holds
+   */
+  async loop<T>(
+    condition: (iteration: number) => boolean | Promise<boolean>,
+    fn: (iteration: number) => Promise<T>,
+    options?: LoopOptions
+  ): Promise<T[]> {
+    const name = options?.name ?? 'loop';
+    const maxIterations = options?.maxIterations ?? Infinity;
+
+    return this.runGroup(name, async (group) => {
+      const results: T[] = [];
+      for (let i = 0; i < maxIterations && (await condition(i)); i++) {
+        results.push(
+          await this.runStep<T>(`${name}[${i}]`, () => fn(i), options?.stepOptions ?? {}, group.node, group.signal)
+        );
+      }
+      return results;
+    });
+  }
+
+  /**
+   * Run a control-flow group
+   *
+   * Creates a group node below the workflow node (emitting stepStart/stepEnd
+   * like a step) whose children are the group's steps. The group has its own
+   * signal, linked to the workflow's and to that of the step it runs in, so
+   * that losing race branches and siblings of a failed branch can be
+   * cancelled via `stop()`, including groups nested inside them.
+   */
+  private async runGroup<T>(
+    name: string,
+    body: (group: { node: WorkflowNode; signal: AbortSignal; stop(reason: string): void }) => Promise<T>
+  ): Promise<T> {
+    // GOTCHA: A group nested in another group's branch must stop with that branch
+    const enclosingSignal = getExecutionContext()?.signal;
+    const parentSignals = [this.workflow.signal, enclosingSignal].filter(
+      (signal, i, all): signal is AbortSignal => signal !== undefined && all.indexOf(signal) === i
+    );
+    for (const signal of parentSignals) {
+      throwIfAborted(signal);
+    }
+
+    const startTime = Date.now();
+    const node: WorkflowNode = {
+      id: generateId(),
+      name,
+      parent: this.workflow.node,
+      children: [],
+      status: 'running',
+      logs: [],
+      events: [],
+      stateSnapshot: null,
+    };
+
+    this.workflow.node.children.push(node);
+    this.workflow.emitEvent({ type: 'stepStart', node, step: name });
+
+    const controller = new AbortController();
+    const onAbort = (event: Event) => controller.abort((event.target as AbortSignal).reason);
+    parentSignals.forEach((signal) => signal.addEventListener('abort', onAbort, { once: true }));
+
+    try {
+      const result = await body({
+        node,
+        signal: controller.signal,
+        stop: (reason) => {
+          if (!controller.signal.aborted) {
+            controller.abort(new WorkflowCancelledError(reason));
+          }
+        },
+      });
+
+      node.status = 'completed';
+      this.workflow.emitEvent({
+        type: 'stepEnd',
+        node,
+        step: name,
+        duration: Date.now() - startTime,
+      });
+
+      return result;
+    } catch (error) {
+      node.status = isCancellationError(error) ? 'cancelled' : 'failed';
+      throw error;
+    } finally {
+      parentSignals.forEach((signal) => signal.removeEventListener('abort', onAbort));
+      this.eventTreeImpl.rebuild(this.workflow.node);
+    }
+  }
+
   /**
    * Spawn a child workflow
+   * Cancelling this workflow cancels the child when it exposes cancel(), and
+   * the child inherits this workflow's deadline when it exposes bindDeadline()
+   * receives this workflow's signals when it exposes bindSignalParent(),
+   * counts against this workflow's budgets when it exposes bindBudgets() and
+   * runs its calls through this workflow's middleware when it exposes
+   * bindMiddleware().
+   * `args` are passed to the child's run() (the input of a typed workflow).
    */
-  async spawnWorkflow<T>(workflow: { run(): Promise<T>; id?: string; node?: WorkflowNode }): Promise<T> {
+  async spawnWorkflow<T, A extends unknown[] = []>(workflow: {
+    run(...args: A): Promise<T>;
+    id?: string;
+    node?: WorkflowNode;
+    cancel?(reason?: string): void;
+    bindDeadline?(deadline: number | undefined): () => void;
+    bindSignalParent?(parent: unknown): () => void;
+    bindBudgets?(budgets: readonly BudgetTracker[]): () => void;
+    bindMiddleware?(middleware: readonly WorkflowMiddleware[]): () => void;
+  }, ...args: A): Promise<T> {
+    const signal = this.workflow.signal;
+    throwIfAborted(signal);
+
     // If workflow has attachChild-like capability, use it
     if ('node' in workflow && workflow.node) {
       // Set parent reference
@@ -321,8 +797,25 @@ export class WorkflowContextImpl implements WorkflowContext {
       });
     }
 
+    // Link the child to this workflow's cancellation and deadline
+    const onAbort = () => workflow.cancel?.(toCancellationError(signal!).reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const unbindDeadline = workflow.bindDeadline?.(this.workflow.getDeadline?.());
+    const unbindSignals = workflow.bindSignalParent?.(this.workflow);
+    const unbindBudgets = workflow.bindBudgets?.(this.workflow.getBudgets?.() ?? []);
+    const unbindMiddleware = workflow.bindMiddleware?.(this.workflow.getMiddleware?.() ?? []);
+
     // Run the child workflow
-    const result = await workflow.run();
+    let result: T;
+    try {
+      result = await raceWithSignal(workflow.run(...args), signal);
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      unbindDeadline?.();
+      unbindSignals?.();
+      unbindBudgets?.();
+      unbindMiddleware?.();
+    }
 
     // Rebuild event tree
     this.eventTreeImpl.rebuild(this.workflow.node);
@@ -330,6 +823,34 @@ export class WorkflowContextImpl implements WorkflowContext {
     return result;
   }
 
+  /**
+   * Suspend until an external signal arrives (see Workflow.waitForSignal())
+   */
+  async waitForSignal<S extends z.ZodTypeAny>(
+    name: string,
+    schema: S,
+    options?: WaitForSignalOptions
+  ): Promise<z.infer<S>> {
+    if (!this.workflow.waitForSignal) {
+      throw new Error(`Workflow '${this.workflow.node.name}' does not support signals`);
+    }
+    const payload = await this.workflow.waitForSignal(name, schema, options);
+    this.eventTreeImpl.rebuild(this.workflow.node);
+    return payload;
+  }
+
+  /**
+   * Suspend until a person approves or rejects (see Workflow.requestApproval())
+   */
+  async requestApproval(prompt: string, options?: ApprovalOptions): Promise<ApprovalDecision> {
+    if (!this.workflow.requestApproval) {
+      throw new Error(`Workflow '${this.workflow.node.name}' does not support signals`);
+    }
+    const decision = await this.workflow.requestApproval(prompt, options);
+    this.eventTreeImpl.rebuild(this.workflow.node);
+    return decision;
+  }
+
   /**
    * Replace the last prompt result with a new one (context revision)
    * The previous prompt node is marked as 'revised' and the new result is attached as sibling
@@ -389,11 +910,14 @@ export class WorkflowContextImpl implements WorkflowContext {
     const executionContext: AgentExecutionContext = {
       workflowNode: revisionNode,
       emitEvent: (event: WorkflowEvent) => {
-        revisionNode.events.push(event);
-        this.workflow.emitEvent(event);
+        revisionNode.events.push(this.workflow.emitEvent(event));
       },
       workflowId: this.workflowId,
       parentWorkflowId: this.parentWorkflowId,
+      signal: this.workflow.signal,
+      deadline: this.workflow.getDeadline?.(),
+      budgets: this.workflow.getBudgets?.(),
+      middleware: this.workflow.getMiddleware?.(),
     };
 
     try {
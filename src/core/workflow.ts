@@ -4,24 +4,78 @@ import type {
   WorkflowEvent,
   WorkflowObserver,
   LogEntry,
+  LogLevel,
+  LogSink,
   SerializedWorkflowState,
   WorkflowError,
+  RetryPolicy,
+  TokenUsage,
+  BudgetUsage,
+  WorkflowMiddleware,
+  EventStore,
+  StoredEvent,
 } from '../types/index.js';
-import type { WorkflowContext, WorkflowConfig, WorkflowResult, EventHistoryConfig } from '../types/workflow-context.js';
+import type {
+  WorkflowContext,
+  WorkflowConfig,
+  WorkflowResult,
+  WorkflowRunOptions,
+  EventHistoryConfig,
+  WaitForSignalOptions,
+  ApprovalOptions,
+  ApprovalDecision,
+} from '../types/workflow-context.js';
 import type { AgentResponse } from '../types/agent.js';
 import { z } from 'zod';
 import { generateId } from '../utils/id.js';
+import { redact } from '../utils/redaction.js';
 import { validateAgentResponse } from '../utils/agent-validation.js';
 import { analyzeErrorForRestart } from '../utils/restart-analysis.js';
-import { mergeWorkflowErrors } from '../utils/workflow-error-utils.js';
+import { mergeWorkflowErrors, getErrorCode } from '../utils/workflow-error-utils.js';
 import { WorkflowLogger } from './logger.js';
+import { getExecutionContext } from './context.js';
 import { getObservedState } from '../decorators/observed-state.js';
 import { createWorkflowContext } from './workflow-context.js';
+import { WorkflowCheckpointer } from '../checkpoint/checkpointer.js';
+import { serializeWorkflowEvent } from '../debugger/event-history.js';
+import {
+  WorkflowCancelledError,
+  isCancellationError,
+  raceWithSignal,
+  throwIfAborted,
+  toCancellationError,
+} from '../utils/cancellation.js';
+import { resolveDeadline, startTimeLimit } from '../utils/timeout.js';
+import { ApprovalDecisionSchema, SignalValidationError } from '../utils/signals.js';
+import { computeRetryDelay } from '../utils/retry-policy.js';
+import { BudgetTracker } from '../utils/budget.js';
+import { delay } from '../utils/delay.js';
 
 /**
  * Executor function type for functional workflows
+ *
+ * @template T - Result of the workflow
+ * @template I - Parsed input, for workflows configured with an `input` schema
+ */
+export type WorkflowExecutor<T = unknown, I = unknown> = (ctx: WorkflowContext, input: I) => Promise<T>;
+
+/**
+ * Functional workflow with a typed, validated input
+ *
+ * Returned by createWorkflow() when the config has an `input` schema.
+ *
+ * @template I - Input accepted by run() (before parsing)
+ * @template O - Result data
  */
-export type WorkflowExecutor<T = unknown> = (ctx: WorkflowContext) => Promise<T>;
+export interface TypedWorkflow<I, O> extends Workflow<O> {
+  /**
+   * Validate `input`, then run the workflow
+   * @throws {WorkflowError} With code 'INVALID_INPUT' or 'INVALID_OUTPUT' when a schema rejects a value
+   */
+  run(input: I, options?: WorkflowRunOptions): Promise<WorkflowResult<O>>;
+  /** Resume a checkpointed run with the same input */
+  resume(runId: string, input: I, options?: WorkflowRunOptions): Promise<WorkflowResult<O>>;
+}
 
 /**
  * Options for restarting a step
@@ -33,6 +87,17 @@ export interface RestartStepOptions {
   maxRetries?: number;
   /** Override state to restore (defaults to current snapshot) */
   stateOverride?: SerializedWorkflowState;
+  /**
+   * Backoff policy applied before re-executing the step (default: no delay)
+   * `retryCount` selects the backoff step.
+   */
+  retryPolicy?: RetryPolicy;
+  /**
+   * The failure being retried
+   * A retry-after hint on the error (e.g. from a rate-limited agent call)
+   * delays the restart, unless `retryPolicy.respectRetryAfter` is false.
+   */
+  error?: WorkflowError;
 }
 
 /**
@@ -49,6 +114,28 @@ interface EventHistoryEntry {
   insertedAt: number;
 }
 
+/**
+ * Undo function registered by a completed step (see registerCompensation())
+ */
+interface CompensationEntry {
+  /** Name of the step that registered the compensation */
+  stepName: string;
+  /** Node the step ran on */
+  node: WorkflowNode;
+  /** Undo function */
+  undo: () => unknown;
+}
+
+/**
+ * Step suspended in waitForSignal()
+ */
+interface SignalWaiter {
+  /** Schema the payload must satisfy */
+  schema: z.ZodTypeAny;
+  /** Resolve the wait with a validated payload */
+  resolve(payload: unknown): void;
+}
+
 /**
  * Options for replaying historical events
  */
@@ -107,7 +194,7 @@ export class Workflow<T = unknown> {
   private observers: WorkflowObserver[] = [];
 
   /** Optional executor function for functional workflows */
-  private executor?: WorkflowExecutor<T>;
+  private executor?: WorkflowExecutor<T, never>;
 
   /** Workflow configuration */
   private config: WorkflowConfig;
@@ -124,6 +211,55 @@ export class Workflow<T = unknown> {
   /** Operation counter for error merge context */
   private operationCounter: number = 0;
 
+  /** Checkpoint bookkeeping (only set when config.checkpoint is provided) */
+  private checkpointer?: WorkflowCheckpointer;
+
+  /** Backs this workflow's abort signal (aborted by cancel()) */
+  private abortController: AbortController = new AbortController();
+
+  /** Deadlines inherited from the caller (see bindDeadline()) */
+  private boundDeadlines: number[] = [];
+
+  /** Compensations registered by completed steps, in completion order */
+  private compensations: CompensationEntry[] = [];
+
+  /** Steps waiting for an external signal, by signal name (oldest first) */
+  private signalWaiters = new Map<string, SignalWaiter[]>();
+
+  /**
+   * Signals sent while nothing was waiting for them, by signal name
+   * GOTCHA: Cleared when a run ends, not when it starts, so signals sent
+   * before run() still reach it but never leak into the next run
+   */
+  private bufferedSignals = new Map<string, unknown[]>();
+
+  /** Number of waitForSignal() calls currently suspended */
+  private waitingCount = 0;
+
+  /** Workflow that spawned this one via ctx.spawnWorkflow() (see bindSignalParent()) */
+  private signalParent: Workflow | null = null;
+
+  /** Workflows spawned by this one that receive its signals */
+  private signalChildren = new Set<Workflow>();
+
+  /** Usage against config.budget (only set when a budget is configured) */
+  private budget?: BudgetTracker;
+
+  /** Budgets inherited from the caller (see bindBudgets()) */
+  private boundBudgets: BudgetTracker[] = [];
+
+  /** Middleware registered with config.middleware and use(), in order */
+  private middleware: WorkflowMiddleware[] = [];
+
+  /** Middleware inherited from the caller (see bindMiddleware()) */
+  private boundMiddleware: readonly WorkflowMiddleware[] = [];
+
+  /** Log sinks (only used on root workflow) */
+  private logSinks: LogSink[] = [];
+
+  /** Minimum log level set on this workflow (see getLogLevel()) */
+  private logLevel?: LogLevel;
+
   /**
    * Create a new workflow instance
    *
@@ -136,14 +272,14 @@ export class Workflow<T = unknown> {
    *
    * @remarks Security validation rejects names containing control characters, HTML tags, JavaScript patterns, path traversal sequences (..), and file system special characters (/ \ : * ? " < > |). This prevents XSS attacks, injection attacks, and path traversal vulnerabilities.
    */
-  constructor(name?: string | WorkflowConfig, parentOrExecutor?: Workflow | WorkflowExecutor<T>) {
+  constructor(name?: string | WorkflowConfig, parentOrExecutor?: Workflow | WorkflowExecutor<T, never>) {
     this.id = generateId();
 
     // Parse overloaded arguments
     if (typeof name === 'object' && name !== null) {
       // Functional pattern: constructor(config, executor)
       this.config = name;
-      this.executor = parentOrExecutor as WorkflowExecutor<T>;
+      this.executor = parentOrExecutor as WorkflowExecutor<T, never>;
       this.parent = null;
     } else {
       // Class-based pattern: constructor(name, parent)
@@ -207,8 +343,42 @@ export class Workflow<T = unknown> {
       stateSnapshot: null,
     };
 
+    this.logSinks = [...(this.config.logging?.sinks ?? [])];
+    this.logLevel = this.config.logging?.level;
+
     // Create logger with root observers
-    this.logger = new WorkflowLogger(this.node, this.getRootObservers());
+    this.logger = new WorkflowLogger(this.node, this.getRootObservers(), undefined, {
+      level: () => this.getLogLevel(),
+      sinks: () => this.getRoot().logSinks,
+      runId: () => {
+        const root = this.getRoot();
+        return root.checkpointer?.runId ?? root.id;
+      },
+    });
+
+    // Set up checkpointing if a store is configured
+    if (this.config.checkpoint) {
+      this.checkpointer = new WorkflowCheckpointer(
+        this.config.checkpoint.store,
+        this,
+        this.config.checkpoint.runId ?? this.id,
+        (error) => this.logger.error('Checkpoint write failed', { error })
+      );
+    }
+
+    if (this.config.budget) {
+      this.budget = new BudgetTracker(this.config.budget, this.node);
+    }
+
+    this.middleware = [...(this.config.middleware ?? [])];
+
+    // Class-based pattern: wrap the subclass's run() with per-run bookkeeping
+    // GOTCHA: The subclass prototype is already in place here; a run() declared
+    // as an arrow-function class field is assigned later and is not wrapped
+    if (!this.executor && this.run !== Workflow.prototype.run) {
+      const run = this.run;
+      this.run = (...args: unknown[]) => this.runClassBased(run, args);
+    }
 
     // Attach to parent if provided
     if (this.parent) {
@@ -252,7 +422,7 @@ export class Workflow<T = unknown> {
    *
    * @returns Configuration object with all required fields populated
    */
-  private getEventHistoryConfig(): Required<EventHistoryConfig> {
+  private getEventHistoryConfig(): Required<Omit<EventHistoryConfig, 'store'>> {
     return {
       enabled: this.config.eventHistory?.enabled ?? false,
       maxEvents: this.config.eventHistory?.maxEvents ?? 1000,
@@ -417,6 +587,62 @@ export class Workflow<T = unknown> {
     }
   }
 
+  /**
+   * Add a log sink to this workflow (must be root)
+   *
+   * The sink receives the log records of every workflow in the tree.
+   *
+   * @throws Error if called on non-root workflow
+   *
+   * @example
+   * ```ts
+   * workflow.addLogSink(new JsonLinesFileSink('./logs/run.jsonl', { maxBytes: 10_000_000 }));
+   * await workflow.run();
+   * await workflow.flushLogs();
+   * ```
+   */
+  public addLogSink(sink: LogSink): void {
+    if (this.parent) {
+      throw new Error('Log sinks can only be added to root workflows');
+    }
+    this.logSinks.push(sink);
+  }
+
+  /**
+   * Remove a log sink from this workflow
+   */
+  public removeLogSink(sink: LogSink): void {
+    const index = this.logSinks.indexOf(sink);
+    if (index !== -1) {
+      this.logSinks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Wait for the log sinks of the tree to finish their writes
+   *
+   * @throws The first write error of a sink since its last flush
+   */
+  public async flushLogs(): Promise<void> {
+    await Promise.all(this.getRoot().logSinks.map((sink) => sink.flush?.()));
+  }
+
+  /**
+   * Set the minimum log level of this workflow
+   *
+   * @param level - Level to record from, or undefined to use the parent's level
+   */
+  public setLogLevel(level: LogLevel | undefined): void {
+    this.logLevel = level;
+  }
+
+  /**
+   * Minimum log level of this workflow: its own, else its nearest ancestor's, else 'debug'
+   */
+  public getLogLevel(): LogLevel {
+    return this.logLevel ?? this.parent?.getLogLevel() ?? 'debug';
+  }
+
   /**
    * Attach a child workflow to this parent workflow.
    *
@@ -512,6 +738,11 @@ export class Workflow<T = unknown> {
       parentId: this.id,
       child: child.node,
     });
+
+    // Children attached to a cancelled workflow never start
+    if (this.signal.aborted) {
+      child.cancel(toCancellationError(this.signal).reason);
+    }
   }
 
   /**
@@ -575,13 +806,19 @@ export class Workflow<T = unknown> {
    * Emit an event to all root observers
    * @side effects Pushes event to node.events array and notifies all registered observers.
    * May trigger treeUpdated notifications for specific event types.
+   * @returns The event as stored and delivered (a redacted copy when redaction changed it)
    */
-  public emitEvent(event: WorkflowEvent): void {
+  public emitEvent(event: WorkflowEvent): WorkflowEvent {
+    // Redact payloads before they are stored or reach observers (a no-op for already redacted events)
+    event = redact(event);
+
     // Store event in history FIRST (for replay functionality) - only if enabled
     if (this.isEventHistoryEnabled()) {
       this.#eventHistory.push({ event, insertedAt: Date.now() });
       this.trimEventHistory();
     }
+    // The event store ignores `enabled`; it only controls the in-memory history
+    this.appendToEventStore(event);
 
     this.node.events.push(event);
 
@@ -598,6 +835,83 @@ export class Workflow<T = unknown> {
         this.logger.error('Observer onEvent error', { error: err, eventType: event.type });
       }
     }
+
+    if (event.type === 'agentPromptEnd' && event.tokenUsage) {
+      this.recordBudgetUsage(event.tokenUsage, event.costUsd);
+    }
+    return event;
+  }
+
+  /**
+   * Event store of this workflow: its own, else its nearest ancestor's
+   */
+  private getEventStore(): EventStore | undefined {
+    // GOTCHA: attachChild() emits before getRootObservers() rejects a cycle (e.g. attaching a workflow to itself)
+    const visited = new Set<Workflow>();
+    for (let current: Workflow | null = this; current && !visited.has(current); current = current.parent) {
+      visited.add(current);
+      if (current.config.eventHistory?.store) {
+        return current.config.eventHistory.store;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Append an event to the event store, if there is one
+   *
+   * GOTCHA: Store errors are logged, not thrown, so a failing store never
+   * breaks the step that emitted the event.
+   */
+  private appendToEventStore(event: WorkflowEvent): void {
+    const store = this.getEventStore();
+    if (!store) {
+      return;
+    }
+
+    const node = 'node' in event ? event.node : event.type === 'childAttached' ? event.child : this.node;
+    const path: string[] = [];
+    for (let current: WorkflowNode | null = node; current && !path.includes(current.id); current = current.parent) {
+      path.unshift(current.id);
+    }
+    const own = event as { timestamp?: number; step?: string; stepName?: string; agentId?: string };
+    // Events emitted inside a step run in an execution context whose node is the step's node
+    const context = getExecutionContext();
+    const runningStep =
+      context?.workflowId === this.id && context.workflowNode !== this.node ? context.workflowNode.name : undefined;
+    const timestamp = own.timestamp ?? Date.now();
+    const root = this.getRoot();
+
+    const stored: StoredEvent = {
+      runId: root.checkpointer?.runId ?? root.id,
+      workflowId: this.id,
+      nodeId: node.id,
+      path,
+      timestamp,
+      event: serializeWorkflowEvent(event, timestamp),
+    };
+    const step = own.step ?? own.stepName ?? runningStep;
+    if (step !== undefined) {
+      stored.step = step;
+    }
+    if (own.agentId !== undefined) {
+      stored.agentId = own.agentId;
+    }
+
+    try {
+      store.append(stored);
+    } catch (err) {
+      this.logger.error('Event store error', { error: err, eventType: event.type });
+    }
+  }
+
+  /**
+   * Wait for the event store of this workflow to finish its writes
+   *
+   * @throws The first write error of the store since its last flush
+   */
+  public async flushEvents(): Promise<void> {
+    await this.getEventStore()?.flush?.();
   }
 
   /**
@@ -613,7 +927,9 @@ export class Workflow<T = unknown> {
    * **Performance:** O(n) where n = number of events in history
    *
    * **Timestamp Handling:**
-   * - Events with timestamps: stepRetry, stepRestarted, invalidResponse
+   * - Events with timestamps: stepRetry, stepRestarted, invalidResponse, cancelled,
+   *   compensationStart, compensationEnd, signalWaiting, signalReceived,
+   *   budgetWarning, paused
    * - Events without timestamps: Always included (considered timeless)
    * - Filter applies only to events with timestamp field
    *
@@ -666,6 +982,13 @@ export class Workflow<T = unknown> {
           event.type === 'stepRetry' ? event.timestamp :
           event.type === 'stepRestarted' ? event.timestamp :
           event.type === 'invalidResponse' ? event.timestamp :
+          event.type === 'cancelled' ? event.timestamp :
+          event.type === 'compensationStart' ? event.timestamp :
+          event.type === 'compensationEnd' ? event.timestamp :
+          event.type === 'signalWaiting' ? event.timestamp :
+          event.type === 'signalReceived' ? event.timestamp :
+          event.type === 'budgetWarning' ? event.timestamp :
+          event.type === 'paused' ? event.timestamp :
           undefined;
 
         // Include events without timestamp or events after since
@@ -722,7 +1045,8 @@ export class Workflow<T = unknown> {
    * emits snapshot event, and triggers treeUpdated event for debugger.
    */
   public snapshotState(): void {
-    const snapshot = getObservedState(this);
+    // Checkpoints keep the raw state; what is shown and emitted is redacted
+    const snapshot = redact(getObservedState(this));
     this.node.stateSnapshot = snapshot;
 
     // Notify observers
@@ -777,6 +1101,15 @@ export class Workflow<T = unknown> {
    *   stateOverride: { counter: 5 }
    * });
    * ```
+   *
+   * @example Back off before restarting a rate-limited step
+   * ```ts
+   * await this.restartStep('callModel', {
+   *   retryCount: attempt,
+   *   error,  // honors a retry-after hint on the error
+   *   retryPolicy: { backoff: 'exponential', initialDelayMs: 500, jitter: 'full' },
+   * });
+   * ```
    */
   public async restartStep(stepName: string, options?: RestartStepOptions): Promise<unknown> {
     // Calculate the retry count for this attempt
@@ -821,6 +1154,16 @@ export class Workflow<T = unknown> {
       restoredState = this.node.stateSnapshot ?? {};
     }
 
+    // Back off before re-executing; without a policy or hint there is no delay
+    const retryDelay = computeRetryDelay(
+      { retryPolicy: options?.retryPolicy, retryDelayMs: 0 },
+      retryCount,
+      options?.error
+    );
+    if (retryDelay.delayMs > 0) {
+      await raceWithSignal(delay(retryDelay.delayMs), this.signal);
+    }
+
     // Execute the step method
     const result = await (method as () => unknown).call(this);
 
@@ -1043,11 +1386,681 @@ export class Workflow<T = unknown> {
 
   /**
    * Update workflow status and sync with node
+   * @side effects Emits treeUpdated and, when checkpointing is enabled,
+   * queues a checkpoint write (the owning workflow starts/finishes the run).
+   * Once cancelled, a workflow stays 'cancelled' (e.g. when a subclass's
+   * catch block sets 'failed' after a step was cancelled).
    */
   public setStatus(status: WorkflowStatus): void {
+    if (this.signal.aborted && this.status === 'cancelled' && status !== 'cancelled') {
+      return;
+    }
+
     this.status = status;
     this.node.status = status;
     this.emitEvent({ type: 'treeUpdated', root: this.getRoot().node });
+
+    if (this.checkpointer) {
+      if (status === 'running') {
+        this.checkpointer.begin();
+        void this.checkpointer.persist();
+      } else if (status === 'completed' || status === 'failed' || status === 'cancelled') {
+        void this.checkpointer.finish();
+      } else {
+        void this.checkpointer.persist();
+      }
+    } else {
+      void this.getCheckpointer()?.persist();
+    }
+  }
+
+  /**
+   * Get the checkpointer for this workflow's run
+   *
+   * Returns this workflow's own checkpointer, or the nearest ancestor's when
+   * this workflow is attached below a checkpointed workflow.
+   *
+   * @returns The checkpointer, or undefined when checkpointing is not configured
+   */
+  public getCheckpointer(): WorkflowCheckpointer | undefined {
+    const visited = new Set<Workflow>();
+    let current: Workflow | null = this;
+
+    while (current) {
+      if (visited.has(current)) {
+        throw new Error('Circular parent-child relationship detected');
+      }
+      visited.add(current);
+      if (current.checkpointer) {
+        return current.checkpointer;
+      }
+      current = current.parent;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resume a checkpointed run
+   *
+   * Loads the checkpoint for `runId`, restores the observed state of this
+   * workflow (redacted fields are left untouched) and runs the workflow
+   * again. Every `ctx.step()`/`@Step` that completed in the stored run
+   * returns its recorded result without executing, so execution effectively
+   * continues from the first incomplete step.
+   *
+   * @param runId - Run identifier of the checkpoint to resume
+   * @param args - Arguments forwarded to run()
+   * @returns The result of run()
+   * @throws {Error} If checkpointing is not configured or no checkpoint exists for `runId`
+   *
+   * @example
+   * ```ts
+   * const store = new FileCheckpointStore('./checkpoints');
+   * const workflow = new Workflow({ name: 'Ingest', checkpoint: { store, runId: 'ingest-42' } }, executor);
+   *
+   * // After a crash, in a new process:
+   * await workflow.resume('ingest-42');
+   * ```
+   */
+  public async resume(runId: string, ...args: unknown[]): Promise<T | WorkflowResult<T>> {
+    if (!this.checkpointer) {
+      throw new Error(
+        `Cannot resume workflow '${this.node.name}': no checkpoint store configured`
+      );
+    }
+
+    await this.checkpointer.load(runId);
+    this.checkpointer.begin();
+    this.checkpointer.enterWorkflow(this);
+
+    return this.run(...args);
+  }
+
+  /**
+   * Abort signal for this workflow
+   *
+   * Fires when cancel() is called on this workflow or one of its ancestors.
+   * Steps, agents and harnesses running inside the workflow observe it
+   * automatically; pass it to other abortable APIs (e.g. fetch) yourself.
+   */
+  public get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  /**
+   * Get the effective deadline for this workflow
+   *
+   * The earliest of `config.deadline`, the parent workflow's deadline and the
+   * deadline of the step this workflow is running inside. Steps, child
+   * workflows and agent calls never run past it.
+   *
+   * @returns Deadline in epoch milliseconds, or undefined when none applies
+   */
+  public getDeadline(): number | undefined {
+    return resolveDeadline(
+      this.config.deadline,
+      this.parent?.getDeadline(),
+      getExecutionContext()?.deadline,
+      ...this.boundDeadlines
+    );
+  }
+
+  /**
+   * Get the budgets this workflow's agent calls count against
+   *
+   * Its own `config.budget` followed by the budgets of its ancestors and of
+   * the workflow that spawned it.
+   *
+   * @returns Budget trackers, nearest first
+   */
+  public getBudgets(): BudgetTracker[] {
+    const budgets = new Set<BudgetTracker>();
+    const visited = new Set<Workflow>();
+    const collect = (workflow: Workflow | null): void => {
+      if (!workflow || visited.has(workflow)) {
+        return;
+      }
+      visited.add(workflow);
+      if (workflow.budget) {
+        budgets.add(workflow.budget);
+      }
+      workflow.boundBudgets.forEach((budget) => budgets.add(budget));
+      collect(workflow.parent);
+    };
+    collect(this);
+    return [...budgets];
+  }
+
+  /**
+   * Usage counted against this workflow's own budget in the current run
+   *
+   * @returns Usage, or undefined when `config.budget` is not set
+   */
+  public getBudgetUsage(): BudgetUsage | undefined {
+    return this.budget?.usage;
+  }
+
+  /**
+   * Count this workflow's agent usage against external budgets
+   *
+   * Used by ctx.spawnWorkflow() so that a child that is not attached via its
+   * constructor still counts against (and is limited by) the parent's budgets.
+   *
+   * @param budgets - Budget trackers of the spawning workflow
+   * @returns Function that removes the budgets
+   */
+  public bindBudgets(budgets: readonly BudgetTracker[]): () => void {
+    const added = budgets.filter((budget) => !this.boundBudgets.includes(budget));
+    this.boundBudgets.push(...added);
+    return () => {
+      this.boundBudgets = this.boundBudgets.filter((budget) => !added.includes(budget));
+    };
+  }
+
+  /**
+   * Add middleware around every step, task and agent prompt of this workflow
+   *
+   * Middleware runs in registration order (the first is outermost) and can
+   * change the arguments, result and error of each call. Attached child
+   * workflows run their calls through this workflow's middleware first.
+   *
+   * @param middleware - Middleware to add after the existing ones
+   * @returns This workflow, for chaining
+   *
+   * @example
+   * ```typescript
+   * workflow.use(async (call, next) => {
+   *   try {
+   *     return await next();
+   *   } catch (error) {
+   *     throw new Error(`${call.kind} '${call.name}' failed: ${(error as Error).message}`);
+   *   }
+   * });
+   * ```
+   */
+  public use(middleware: WorkflowMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Get the middleware applied to this workflow's calls
+   *
+   * The parent's middleware (or the spawning workflow's) comes first,
+   * followed by this workflow's own.
+   *
+   * @returns Middleware, outermost first
+   */
+  public getMiddleware(): WorkflowMiddleware[] {
+    const inherited = this.parent ? this.parent.getMiddleware() : [...this.boundMiddleware];
+    return [...inherited, ...this.middleware];
+  }
+
+  /**
+   * Run this workflow's calls through external middleware
+   *
+   * Used by ctx.spawnWorkflow() so that a child that is not attached via its
+   * constructor inherits the parent's middleware.
+   *
+   * @param middleware - Middleware of the spawning workflow
+   * @returns Function that removes the middleware
+   */
+  public bindMiddleware(middleware: readonly WorkflowMiddleware[]): () => void {
+    const previous = this.boundMiddleware;
+    this.boundMiddleware = middleware;
+    return () => {
+      this.boundMiddleware = previous;
+    };
+  }
+
+  /**
+   * Add the token usage of a finished agent call to every applicable budget
+   * and emit `budgetWarning` for each threshold it crosses
+   */
+  private recordBudgetUsage(usage: TokenUsage, costUsd: number | undefined): void {
+    for (const budget of this.getBudgets()) {
+      for (const crossing of budget.record(usage, costUsd)) {
+        this.emitEvent({
+          type: 'budgetWarning',
+          node: budget.node,
+          metric: crossing.metric,
+          threshold: crossing.threshold,
+          used: crossing.used,
+          limit: crossing.limit,
+          usage: budget.usage,
+          timestamp: Date.now(),
+        });
+      }
+    }
+  }
+
+  /**
+   * Limit this workflow by an external deadline
+   *
+   * Used by ctx.spawnWorkflow() to pass the parent's remaining time down to
+   * a child that is not attached via its constructor.
+   *
+   * @param deadline - Deadline in epoch milliseconds (no-op when undefined)
+   * @returns Function that removes the deadline
+   */
+  public bindDeadline(deadline: number | undefined): () => void {
+    if (deadline === undefined) {
+      return () => {};
+    }
+    this.boundDeadlines.push(deadline);
+    return () => {
+      const index = this.boundDeadlines.indexOf(deadline);
+      if (index !== -1) {
+        this.boundDeadlines.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Cancel this workflow and all of its children
+   *
+   * Aborts the workflow's signal, marks the workflow as 'cancelled' and
+   * emits a `cancelled` event. In-flight steps stop waiting immediately and
+   * are marked 'cancelled'; agent prompts abort their harness call and tool
+   * executions. Cancellation is cooperative: code that ignores the signal
+   * keeps running in the background, but its result is discarded.
+   *
+   * No-op if the workflow has already completed, failed or been cancelled.
+   *
+   * @param reason - Optional human-readable reason (included in the error and event)
+   * @side effects Aborts signal, sets status, emits cancelled event, cancels children
+   *
+   * @example
+   * ```ts
+   * const pending = workflow.run();
+   * setTimeout(() => workflow.cancel('took too long'), 5000);
+   * await pending; // rejects with WorkflowCancelledError
+   * ```
+   */
+  public cancel(reason?: string): void {
+    if (
+      this.signal.aborted ||
+      this.status === 'completed' ||
+      this.status === 'failed' ||
+      this.status === 'cancelled'
+    ) {
+      return;
+    }
+
+    this.abortController.abort(new WorkflowCancelledError(reason));
+    this.setStatus('cancelled');
+
+    this.emitEvent({
+      type: 'cancelled',
+      node: this.node,
+      reason,
+      timestamp: Date.now(),
+    });
+
+    for (const child of [...this.children]) {
+      child.cancel(reason);
+    }
+  }
+
+  /**
+   * Cancel this workflow when an external signal aborts
+   *
+   * @param signal - External signal (e.g. from an AbortController owned by the caller)
+   * @returns Function that removes the link
+   */
+  public bindAbortSignal(signal: AbortSignal): () => void {
+    const onAbort = () => this.cancel(toCancellationError(signal).reason);
+
+    if (signal.aborted) {
+      onAbort();
+      return () => {};
+    }
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    return () => signal.removeEventListener('abort', onAbort);
+  }
+
+  /**
+   * Register an undo function for a completed step
+   *
+   * Called by `@Step` and `ctx.step()` when a step with a `compensate` option
+   * succeeds. Registered compensations run in reverse order when the workflow
+   * fails (see compensate()).
+   *
+   * @param stepName - Name of the completed step
+   * @param undo - Function that reverts the step's side effects
+   * @param node - Node the step ran on (defaults to the workflow node)
+   */
+  public registerCompensation(stepName: string, undo: () => unknown, node: WorkflowNode = this.node): void {
+    this.compensations.push({ stepName, node, undo });
+  }
+
+  /**
+   * Run registered compensations in reverse order
+   *
+   * Each compensation emits `compensationStart` and `compensationEnd`. A
+   * failing compensation does not stop the others; its failure is returned
+   * and, when `error` is given, appended to `error.compensationErrors`.
+   * Compensations run at most once: the list is cleared before they start.
+   *
+   * Workflows call this automatically when run() fails; calling it directly
+   * rolls back earlier, e.g. from a class-based run() that handles the error.
+   *
+   * @param error - The workflow's final error, receives compensation failures
+   * @returns Failures of the compensations that threw
+   *
+   * @example
+   * ```ts
+   * class ProvisionWorkflow extends Workflow {
+   *   @Step({ compensate: (ticket) => tracker.close(ticket.id) })
+   *   async openTicket() { return tracker.create(); }
+   *
+   *   async run() {
+   *     await this.openTicket();
+   *     await this.deploy();  // if this fails: the ticket is closed, then the error is rethrown
+   *   }
+   * }
+   * ```
+   */
+  public async compensate(error?: WorkflowError): Promise<WorkflowError[]> {
+    const entries = this.compensations.reverse();
+    this.compensations = [];
+
+    const failures: WorkflowError[] = [];
+    for (const { stepName, node, undo } of entries) {
+      const startTime = Date.now();
+      this.emitEvent({ type: 'compensationStart', node, step: stepName, timestamp: startTime });
+
+      let failure: WorkflowError | undefined;
+      try {
+        await undo();
+      } catch (caught) {
+        failure = {
+          message: `Compensation for step '${stepName}' failed: ${
+            caught instanceof Error ? caught.message : String(caught)
+          }`,
+          code: getErrorCode(caught),
+          original: caught,
+          workflowId: this.id,
+          stack: caught instanceof Error ? caught.stack : undefined,
+          state: getObservedState(this),
+          logs: [...this.node.logs] as LogEntry[],
+        };
+        failures.push(failure);
+      }
+
+      this.emitEvent({
+        type: 'compensationEnd',
+        node,
+        step: stepName,
+        duration: Date.now() - startTime,
+        error: failure,
+        timestamp: Date.now(),
+      });
+    }
+
+    if (error && failures.length > 0) {
+      error.compensationErrors = [...(error.compensationErrors ?? []), ...failures];
+    }
+    return failures;
+  }
+
+  /**
+   * Route signals sent to another workflow to this one
+   *
+   * Used by ctx.spawnWorkflow() so that `parent.sendSignal()` reaches a
+   * child that is not attached via its constructor.
+   *
+   * @param parent - The spawning workflow (ignored unless it is a Workflow)
+   * @returns Function that removes the link
+   */
+  public bindSignalParent(parent: unknown): () => void {
+    if (!(parent instanceof Workflow) || parent === this) {
+      return () => {};
+    }
+    this.signalParent = parent;
+    parent.signalChildren.add(this);
+    return () => {
+      parent.signalChildren.delete(this);
+      if (this.signalParent === parent) {
+        this.signalParent = null;
+      }
+    };
+  }
+
+  /**
+   * Suspend until an external signal arrives
+   *
+   * Creates a `signal:<name>` node (below the current step, if any) with
+   * status 'waiting', sets the workflow's status to 'waiting' and emits
+   * `signalWaiting`. Resolves once `sendSignal(name, payload)` is called on
+   * this workflow or an ancestor, with the payload validated by `schema`,
+   * and emits `signalReceived`. A signal sent before anything waits for it
+   * is buffered and consumed by the next wait.
+   *
+   * In a checkpointed run the received payload is recorded, so a resumed
+   * run does not wait for the same signal again.
+   *
+   * @param name - Signal name
+   * @param schema - Zod schema the payload must satisfy
+   * @param options - Optional timeout and prompt
+   * @returns The validated payload
+   * @throws {SignalValidationError} If a buffered payload does not match `schema`
+   * @throws {WorkflowCancelledError} If the workflow is cancelled while waiting
+   * @throws {WorkflowTimeoutError} If `timeoutMs` or the workflow deadline passes first
+   */
+  public async waitForSignal<S extends z.ZodTypeAny>(
+    name: string,
+    schema: S,
+    options?: WaitForSignalOptions
+  ): Promise<z.infer<S>> {
+    const executionContext = getExecutionContext();
+    const signal = executionContext?.signal ?? this.signal;
+    throwIfAborted(signal);
+
+    const nodeName = `signal:${name}`;
+    const parentNode = executionContext?.workflowNode ?? this.node;
+    const node: WorkflowNode = {
+      id: generateId(),
+      name: nodeName,
+      parent: parentNode,
+      children: [],
+      status: 'waiting',
+      logs: [],
+      events: [],
+      stateSnapshot: null,
+    };
+
+    // Signals received in a checkpointed run are not awaited again
+    const checkpointer = this.getCheckpointer();
+    const checkpointKey = checkpointer?.nextStepKey(this, nodeName);
+    const completed = checkpointKey !== undefined
+      ? checkpointer!.getCompletedStep(checkpointKey)
+      : undefined;
+    if (completed) {
+      node.status = 'completed';
+      parentNode.children.push(node);
+      this.emitEvent({ type: 'signalReceived', node, signal: name, payload: completed.result, timestamp: Date.now() });
+      return completed.result as z.infer<S>;
+    }
+
+    parentNode.children.push(node);
+    if (checkpointKey !== undefined) {
+      checkpointer!.bindStepNode(node, checkpointKey, this);
+    }
+
+    const limit = startTimeLimit(`Signal '${name}'`, {
+      signal,
+      timeoutMs: options?.timeoutMs,
+      deadline: this.getDeadline(),
+    });
+
+    let waiter: SignalWaiter | undefined;
+    this.emitEvent({ type: 'signalWaiting', node, signal: name, prompt: options?.prompt, timestamp: Date.now() });
+    this.enterWaiting();
+
+    try {
+      throwIfAborted(limit.signal);
+
+      let payload: unknown;
+      const buffered = this.takeBufferedSignal(name);
+      if (buffered) {
+        const parsed = schema.safeParse(buffered.payload);
+        if (!parsed.success) {
+          throw new SignalValidationError(name, parsed.error);
+        }
+        payload = parsed.data;
+      } else {
+        payload = await raceWithSignal(
+          new Promise<unknown>((resolve) => {
+            waiter = { schema, resolve };
+            const waiters = this.signalWaiters.get(name) ?? [];
+            waiters.push(waiter);
+            this.signalWaiters.set(name, waiters);
+          }),
+          limit.signal
+        );
+      }
+
+      node.status = 'completed';
+      this.emitEvent({ type: 'signalReceived', node, signal: name, payload, timestamp: Date.now() });
+      if (checkpointKey !== undefined) {
+        await checkpointer!.completeStep(checkpointKey, nodeName, payload);
+      }
+      return payload as z.infer<S>;
+    } catch (error) {
+      node.status = isCancellationError(error) ? 'cancelled' : 'failed';
+      throw error;
+    } finally {
+      if (waiter) {
+        this.removeSignalWaiter(name, waiter);
+      }
+      limit.dispose();
+      this.leaveWaiting();
+    }
+  }
+
+  /**
+   * Suspend until a person approves or rejects
+   *
+   * Waits for an {@link ApprovalDecision} on the 'approval' signal (or
+   * `options.name`); the prompt is reported on the `signalWaiting` event.
+   * A rejection is returned, not thrown.
+   *
+   * @param prompt - What the reviewer is asked to approve
+   * @param options - Optional signal name and timeout
+   * @returns The reviewer's decision
+   */
+  public requestApproval(prompt: string, options?: ApprovalOptions): Promise<ApprovalDecision> {
+    return this.waitForSignal(options?.name ?? 'approval', ApprovalDecisionSchema, {
+      timeoutMs: options?.timeoutMs,
+      prompt,
+    });
+  }
+
+  /**
+   * Deliver an external signal
+   *
+   * Resumes the oldest step waiting for `name` in this workflow or its
+   * descendants. When nothing is waiting yet, the payload is buffered for
+   * the next waitForSignal(name) in this workflow or its descendants, until
+   * the current (or next) run ends.
+   *
+   * Named `sendSignal` rather than `signal` because `workflow.signal` is
+   * the workflow's AbortSignal.
+   *
+   * @param name - Signal name
+   * @param payload - Payload, validated against the waiting step's schema
+   * @returns True if a waiting step received the signal, false if it was buffered
+   * @throws {SignalValidationError} If a step is waiting and the payload does not
+   *   match its schema (the step keeps waiting)
+   *
+   * @example
+   * ```ts
+   * workflow.sendSignal('approval', { approved: true, approver: 'alice' });
+   * ```
+   */
+  public sendSignal(name: string, payload: unknown): boolean {
+    const owner = this.findSignalWaiter(name, new Set());
+    if (!owner) {
+      const buffered = this.bufferedSignals.get(name) ?? [];
+      buffered.push(payload);
+      this.bufferedSignals.set(name, buffered);
+      return false;
+    }
+
+    const waiter = owner.signalWaiters.get(name)![0];
+    const parsed = waiter.schema.safeParse(payload);
+    if (!parsed.success) {
+      throw new SignalValidationError(name, parsed.error);
+    }
+    owner.removeSignalWaiter(name, waiter);
+    waiter.resolve(parsed.data);
+    return true;
+  }
+
+  /**
+   * Find the workflow (this one or a descendant) with a step waiting for `name`
+   */
+  private findSignalWaiter(name: string, visited: Set<Workflow>): Workflow | undefined {
+    if (visited.has(this)) {
+      return undefined;
+    }
+    visited.add(this);
+    if (this.signalWaiters.get(name)?.length) {
+      return this;
+    }
+    for (const child of [...this.children, ...this.signalChildren]) {
+      const owner = child.findSignalWaiter(name, visited);
+      if (owner) {
+        return owner;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Take the oldest buffered payload for `name` from this workflow or the nearest ancestor
+   */
+  private takeBufferedSignal(name: string): { payload: unknown } | undefined {
+    const visited = new Set<Workflow>();
+    let current: Workflow | null = this;
+    while (current && !visited.has(current)) {
+      visited.add(current);
+      const buffered = current.bufferedSignals.get(name);
+      if (buffered?.length) {
+        return { payload: buffered.shift() };
+      }
+      current = current.parent ?? current.signalParent;
+    }
+    return undefined;
+  }
+
+  private removeSignalWaiter(name: string, waiter: SignalWaiter): void {
+    const waiters = this.signalWaiters.get(name)?.filter((w) => w !== waiter) ?? [];
+    if (waiters.length > 0) {
+      this.signalWaiters.set(name, waiters);
+    } else {
+      this.signalWaiters.delete(name);
+    }
+  }
+
+  /**
+   * Mark the workflow as waiting while at least one signal wait is suspended
+   */
+  private enterWaiting(): void {
+    this.waitingCount++;
+    if (this.status === 'running') {
+      this.setStatus('waiting');
+    }
+  }
+
+  private leaveWaiting(): void {
+    this.waitingCount--;
+    if (this.waitingCount === 0 && this.status === 'waiting') {
+      this.setStatus('running');
+    }
   }
 
   /**
@@ -1061,13 +2074,20 @@ export class Workflow<T = unknown> {
    * Run the workflow
    *
    * For functional workflows (created with executor), runs the executor function.
+   * Functional workflows accept {@link WorkflowRunOptions} as the first argument,
+   * or as the second when the config has an `input` schema (the input comes first).
    * For class-based workflows (subclasses), this should be overridden.
    *
    * @returns Workflow result
+   * @throws {WorkflowCancelledError} If the workflow is cancelled
+   * @throws {WorkflowError} With code 'INVALID_INPUT' or 'INVALID_OUTPUT' when
+   *   the config's `input` or `output` schema rejects a value
    */
-  public async run(..._args: unknown[]): Promise<T | WorkflowResult<T>> {
+  public async run(...args: unknown[]): Promise<T | WorkflowResult<T>> {
     if (this.executor) {
-      return this.runFunctional();
+      return this.config.input
+        ? this.runFunctional(args[1] as WorkflowRunOptions | undefined, args[0])
+        : this.runFunctional(args[0] as WorkflowRunOptions | undefined);
     }
 
     // Class-based workflows must override this method
@@ -1076,20 +2096,93 @@ export class Workflow<T = unknown> {
     );
   }
 
+  /**
+   * Run a class-based workflow's own run()
+   *
+   * Resets the compensation list and, when run() fails, runs the registered
+   * compensations before rethrowing (cancelled runs are not compensated).
+   * Signals buffered but never consumed are dropped when the run ends.
+   */
+  private async runClassBased(
+    run: (...args: unknown[]) => Promise<T | WorkflowResult<T>>,
+    args: unknown[]
+  ): Promise<T | WorkflowResult<T>> {
+    this.compensations = [];
+
+    try {
+      return await run.apply(this, args);
+    } catch (error) {
+      if (!(isCancellationError(error) && this.signal.aborted)) {
+        // GOTCHA: Compensation failures ride on the thrown error rather than replacing it
+        const compensationErrors = await this.compensate();
+        if (compensationErrors.length > 0 && typeof error === 'object' && error !== null) {
+          const failed = error as Partial<WorkflowError>;
+          failed.compensationErrors = [...(failed.compensationErrors ?? []), ...compensationErrors];
+        }
+      }
+      throw error;
+    } finally {
+      this.bufferedSignals.clear();
+    }
+  }
+
+  /**
+   * Validate a functional workflow's input or result against its schema
+   *
+   * @returns The parsed value, or `value` unchanged when there is no schema
+   * @throws {WorkflowError} With code 'INVALID_INPUT' or 'INVALID_OUTPUT'
+   */
+  private parseWithSchema(kind: 'input' | 'output', schema: z.ZodTypeAny | undefined, value: unknown): unknown {
+    if (!schema) {
+      return value;
+    }
+
+    const parsed = schema.safeParse(value);
+    if (parsed.success) {
+      return parsed.data;
+    }
+
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+      .join('; ');
+    const error: WorkflowError = {
+      message: `Workflow '${this.config.name ?? this.id}' ${kind === 'input' ? 'received invalid input' : 'returned invalid output'}: ${issues}`,
+      code: kind === 'input' ? 'INVALID_INPUT' : 'INVALID_OUTPUT',
+      original: parsed.error,
+      workflowId: this.id,
+      stack: parsed.error.stack,
+      state: getObservedState(this),
+      logs: [...this.node.logs] as LogEntry[],
+    };
+    throw error;
+  }
+
   /**
    * Run a functional workflow with context
    */
-  private async runFunctional(): Promise<WorkflowResult<T>> {
+  private async runFunctional(options?: WorkflowRunOptions, input?: unknown): Promise<WorkflowResult<T>> {
     if (!this.executor) {
       throw new Error('No executor provided');
     }
 
+    const unbindSignal = options?.signal ? this.bindAbortSignal(options.signal) : undefined;
+    const unbindDeadline = this.bindDeadline(options?.deadline);
+    try {
+      throwIfAborted(this.signal);
+    } catch (error) {
+      unbindSignal?.();
+      unbindDeadline();
+      throw error;
+    }
+
     const startTime = Date.now();
     this.setStatus('running');
 
     // Reset error collection state
     this.collectedErrors = [];
     this.operationCounter = 0;
+    this.compensations = [];
+    this.budget?.reset();
 
     // Create workflow context with error merge strategy
     const ctx = createWorkflowContext(
@@ -1101,7 +2194,11 @@ export class Workflow<T = unknown> {
     );
 
     try {
-      const result = await this.executor(ctx);
+      const parsedInput = this.parseWithSchema('input', this.config.input, input);
+      const result = await this.executor(ctx, parsedInput as never);
+
+      // Executors that ignore the signal may finish after cancel(); discard the result
+      throwIfAborted(this.signal);
 
       // Check if we should merge collected errors
       if (this.collectedErrors.length > 0) {
@@ -1131,14 +2228,33 @@ export class Workflow<T = unknown> {
         }
       }
 
+      const data = this.parseWithSchema('output', this.config.output, result) as T;
+
       this.setStatus('completed');
+      await this.checkpointer?.flush();
 
       return {
-        data: result,
+        data,
         node: this.node,
         duration: Date.now() - startTime,
       };
     } catch (error) {
+      // Cancellation is not a failure: status is already 'cancelled' and the
+      // cancelled event has been emitted by cancel()
+      if (isCancellationError(error) && this.signal.aborted) {
+        await this.checkpointer?.flush();
+        throw error;
+      }
+
+      // Roll back completed steps before reporting the failure
+      // GOTCHA: Compensation failures ride on the thrown error (a WorkflowError
+      // from ctx.step, or whatever the executor threw) rather than replacing it
+      const compensationErrors = await this.compensate();
+      if (compensationErrors.length > 0 && typeof error === 'object' && error !== null) {
+        const failed = error as Partial<WorkflowError>;
+        failed.compensationErrors = [...(failed.compensationErrors ?? []), ...compensationErrors];
+      }
+
       // Handle errors thrown directly (not collected)
       if (!this.config.errorMergeStrategy?.enabled) {
         this.setStatus('failed');
@@ -1146,15 +2262,20 @@ export class Workflow<T = unknown> {
         this.emitEvent({
           type: 'error',
           node: this.node,
-          error: {
-            message: error instanceof Error ? error.message : 'Unknown error',
-            original: error,
-            workflowId: this.id,
-            stack: error instanceof Error ? error.stack : undefined,
-            state: getObservedState(this),
-            logs: [...this.node.logs] as LogEntry[],
-          },
+          error: isSchemaError(error)
+            ? error
+            : {
+                message: error instanceof Error ? error.message : 'Unknown error',
+                code: getErrorCode(error),
+                original: error,
+                workflowId: this.id,
+                stack: error instanceof Error ? error.stack : undefined,
+                state: getObservedState(this),
+                logs: [...this.node.logs] as LogEntry[],
+                compensationErrors: compensationErrors.length > 0 ? compensationErrors : undefined,
+              },
         });
+        await this.checkpointer?.flush();
 
         throw error;
       }
@@ -1162,6 +2283,21 @@ export class Workflow<T = unknown> {
       // If in collection mode, error should have been collected already
       // Re-throw if it somehow escaped collection
       throw error;
+    } finally {
+      unbindSignal?.();
+      unbindDeadline();
+      this.bufferedSignals.clear();
     }
   }
 }
+
+/**
+ * Whether a thrown value is the WorkflowError produced by a failed input/output schema check
+ */
+function isSchemaError(error: unknown): error is WorkflowError {
+  const code = getErrorCode(error);
+  return (
+    (code === 'INVALID_INPUT' || code === 'INVALID_OUTPUT') &&
+    (error as Partial<WorkflowError>).original instanceof z.ZodError
+  );
+}
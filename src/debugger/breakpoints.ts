@@ -0,0 +1,253 @@
+/**
+ * Breakpoints for live workflows
+ *
+ * @module
+ * @remarks
+ * Used by WorkflowTreeDebugger. The controller adds step middleware to the
+ * root workflow (children inherit it) and holds matching steps before their
+ * body runs until they are resumed.
+ */
+
+import type {
+  Breakpoint,
+  PausedStep,
+  SerializedWorkflowState,
+  MiddlewareContext,
+  WorkflowMiddleware,
+} from '../types/index.js';
+import type { Workflow } from '../core/workflow.js';
+import { getExecutionContext } from '../core/context.js';
+import { getObservedState, isFieldObserved } from '../decorators/observed-state.js';
+
+/**
+ * The parts of a workflow breakpoints need
+ */
+export type BreakpointTarget = Pick<Workflow, 'getNode'> &
+  Partial<Pick<Workflow, 'use' | 'emitEvent' | 'children' | 'id' | 'snapshotState'>>;
+
+/**
+ * A step waiting to be resumed
+ */
+interface PendingPause {
+  step: PausedStep;
+  /** Workflow the step belongs to, when it is part of the debugged tree */
+  workflow?: BreakpointTarget;
+  resolve: () => void;
+}
+
+/**
+ * Pauses steps of a workflow tree at breakpoints
+ *
+ * Steps that hit a breakpoint while another step is paused wait in line;
+ * resuming the current step pauses the next one.
+ *
+ * GOTCHA: The pause runs as step middleware, so it happens inside the
+ * attempt's time limit. A step with `timeoutMs` (or under a workflow
+ * deadline) keeps its clock running while paused and fails with `TIMEOUT`,
+ * without running its body, if the limit passes before resume().
+ */
+export class BreakpointController {
+  private breakpoints = new Map<string, Breakpoint>();
+
+  /** Paused steps, the first is the current one */
+  private queue: PendingPause[] = [];
+
+  /** Pause at the next step, whether or not it has a breakpoint (set by stepOver()) */
+  private pauseAtNextStep = false;
+
+  private installed = false;
+
+  private nextId = 1;
+
+  constructor(private readonly root: BreakpointTarget) {}
+
+  /**
+   * Add a breakpoint
+   * @returns Breakpoint ID (for remove())
+   * @throws {Error} If the root cannot run middleware (e.g. a restored event history)
+   */
+  add(breakpoint: Breakpoint): string {
+    this.install();
+    const id = `bp-${this.nextId++}`;
+    this.breakpoints.set(id, breakpoint);
+    return id;
+  }
+
+  /**
+   * Remove a breakpoint; a step it already paused stays paused
+   * @returns Whether the breakpoint existed
+   */
+  remove(id: string): boolean {
+    return this.breakpoints.delete(id);
+  }
+
+  /** Remove all breakpoints */
+  clear(): void {
+    this.breakpoints.clear();
+  }
+
+  /** The current paused step, if any */
+  current(): PausedStep | undefined {
+    return this.queue[0]?.step;
+  }
+
+  /**
+   * Let the current step run
+   * @param pauseAtNextStep - Pause again at the next step that starts
+   * @throws {Error} If no step is paused
+   */
+  resume(pauseAtNextStep = false): void {
+    const pause = this.queue.shift();
+    if (!pause) {
+      throw new Error('Workflow is not paused');
+    }
+    this.pauseAtNextStep = pauseAtNextStep;
+    pause.resolve();
+    if (this.queue.length > 0) {
+      this.announce(this.queue[0]);
+    }
+  }
+
+  /**
+   * `@ObservedState` fields of the paused step's workflow
+   * @throws {Error} If no step is paused
+   */
+  getState(): SerializedWorkflowState {
+    return getObservedState(this.pausedWorkflow());
+  }
+
+  /**
+   * Change `@ObservedState` fields of the paused step's workflow
+   *
+   * Takes a state snapshot afterwards so observers see the change.
+   *
+   * @throws {Error} If no step is paused or a field is not observed
+   */
+  setState(fields: Record<string, unknown>): void {
+    const workflow = this.pausedWorkflow();
+    for (const field of Object.keys(fields)) {
+      if (!isFieldObserved(workflow, field)) {
+        throw new Error(`'${field}' is not an @ObservedState field of ${workflow.getNode().name}`);
+      }
+    }
+    Object.assign(workflow, fields);
+    workflow.snapshotState?.();
+  }
+
+  private pausedWorkflow(): BreakpointTarget {
+    const pause = this.queue[0];
+    if (!pause) {
+      throw new Error('Workflow is not paused');
+    }
+    if (!pause.workflow) {
+      throw new Error(`Workflow ${pause.step.workflowId} of the paused step is not part of the debugged tree`);
+    }
+    return pause.workflow;
+  }
+
+  private install(): void {
+    if (this.installed) {
+      return;
+    }
+    if (!this.root.use) {
+      throw new Error('Breakpoints need a live workflow; this debugger was not created from one');
+    }
+    const middleware: WorkflowMiddleware = async (context, next) => {
+      if (context.kind === 'step') {
+        await this.check(context);
+      }
+      return next();
+    };
+    this.root.use(middleware);
+    this.installed = true;
+  }
+
+  /**
+   * Wait at a step boundary when a breakpoint matches (or after stepOver())
+   */
+  private async check(context: MiddlewareContext): Promise<void> {
+    const workflow = this.findWorkflow(context.workflowId);
+    // GOTCHA: @Step nodes are not part of the tree; their events use the workflow node
+    const detached = context.node.parent !== null && !context.node.parent.children.includes(context.node);
+    const step: PausedStep = {
+      step: context.name,
+      args: context.args,
+      node: detached ? context.node.parent! : context.node,
+      workflowId: context.workflowId,
+    };
+
+    if (this.pauseAtNextStep) {
+      this.pauseAtNextStep = false;
+    } else {
+      step.breakpointId = await this.match(step, workflow);
+      if (step.breakpointId === undefined) {
+        return;
+      }
+    }
+
+    const signal = getExecutionContext()?.signal;
+    await new Promise<void>((resolve, reject) => {
+      const pause: PendingPause = { step, workflow, resolve };
+
+      // GOTCHA: A cancelled or timed-out step must not stay in line (or run its body)
+      const onAbort = () => {
+        const index = this.queue.indexOf(pause);
+        if (index === -1) return;
+        this.queue.splice(index, 1);
+        if (index === 0 && this.queue.length > 0) {
+          this.announce(this.queue[0]);
+        }
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      pause.resolve = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+
+      this.queue.push(pause);
+      if (this.queue.length === 1) {
+        this.announce(pause);
+      }
+    });
+  }
+
+  private async match(step: PausedStep, workflow: BreakpointTarget | undefined): Promise<string | undefined> {
+    for (const [id, breakpoint] of this.breakpoints) {
+      const matches =
+        typeof breakpoint.step === 'string' ? breakpoint.step === step.step : breakpoint.step.test(step.step);
+      if (!matches) continue;
+      if (
+        breakpoint.when &&
+        !(await breakpoint.when({ ...step, state: workflow ? getObservedState(workflow) : {} }))
+      ) {
+        continue;
+      }
+      return id;
+    }
+    return undefined;
+  }
+
+  /** Emit `paused` through the step's workflow (or the root) */
+  private announce(pause: PendingPause): void {
+    (pause.workflow ?? this.root).emitEvent?.({
+      type: 'paused',
+      node: pause.step.node,
+      step: pause.step.step,
+      breakpointId: pause.step.breakpointId,
+      timestamp: Date.now(),
+    });
+  }
+
+  private findWorkflow(id: string): BreakpointTarget | undefined {
+    const stack: BreakpointTarget[] = [this.root];
+    while (stack.length > 0) {
+      const workflow = stack.pop()!;
+      if ((workflow.id ?? workflow.getNode().id) === id) {
+        return workflow;
+      }
+      stack.push(...(workflow.children ?? []));
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Chrome Trace Event Format export
+ *
+ * @module
+ * @remarks
+ * Used by `WorkflowTreeDebugger.exportChromeTrace()`. Turns the events of a
+ * run into spans on one track per workflow, so overlapping steps, tasks and
+ * agent calls can be inspected in Perfetto or chrome://tracing.
+ */
+
+import type { WorkflowNode, WorkflowEvent, ChromeTrace, ChromeTraceEvent } from '../types/index.js';
+import { isStepNodeStart } from '../utils/step-node.js';
+
+/**
+ * A span before it is placed on a track
+ */
+interface Span {
+  name: string;
+  cat: string;
+  /** Workflow node whose track the span belongs to */
+  track: WorkflowNode;
+  /** Node the span was opened on (to close steps and tasks on error) */
+  nodeId: string;
+  key: string;
+  start: number;
+  end: number;
+  args: Record<string, unknown>;
+}
+
+/** Process id of every trace event (a run is one process) */
+const PID = 1;
+
+/**
+ * Build a Chrome trace from the events of a run
+ *
+ * Spans come from `stepStart`/`stepEnd`, `taskStart`/`taskEnd`,
+ * `agentPromptStart`/`agentPromptEnd` and `toolInvocation` (which carries its
+ * duration). Cache hits and misses, retries and errors are instant events.
+ * Steps and tasks that end with an `error` event (or not at all) are closed
+ * there (or at the last event).
+ *
+ * GOTCHA: A track only holds properly nested spans. Spans that overlap
+ * without nesting (parallel `ctx.step()` calls of one workflow) are moved to
+ * extra tracks named after the workflow.
+ *
+ * @param root - Root of the workflow tree (names the process)
+ * @param events - Events in the order they happened, with the time each was received;
+ *   events without a time are left out
+ * @returns Trace in the JSON Object Format
+ */
+export function buildChromeTrace(
+  root: WorkflowNode,
+  events: ReadonlyArray<{ event: WorkflowEvent; timestamp?: number }>
+): ChromeTrace {
+  const timed = events.filter(
+    (entry): entry is { event: WorkflowEvent; timestamp: number } => entry.timestamp !== undefined
+  );
+  if (timed.length === 0) {
+    return { traceEvents: [processName(root)], displayTimeUnit: 'ms' };
+  }
+
+  // ctx.step() spans go on the workflow's track
+  const stepNodeIds = new Set<string>();
+  for (const { event } of timed) {
+    if (event.type === 'stepStart' && isStepNodeStart(event)) {
+      stepNodeIds.add(event.node.id);
+    }
+  }
+  const trackOf = (node: WorkflowNode): WorkflowNode =>
+    stepNodeIds.has(node.id) && node.parent ? trackOf(node.parent) : node;
+
+  const origin = Math.min(...timed.map((entry) => entry.timestamp));
+  const last = Math.max(...timed.map((entry) => entry.timestamp));
+  const spans: Span[] = [];
+  const open: Span[] = [];
+  const instants: Array<{ name: string; cat: string; track: WorkflowNode; at: number; args: Record<string, unknown> }> = [];
+
+  const openSpan = (span: Omit<Span, 'end'>): void => {
+    open.push({ ...span, end: span.start });
+  };
+  const closeSpan = (index: number, end: number, args: Record<string, unknown>, duration?: number): void => {
+    const [span] = open.splice(index, 1);
+    spans.push({
+      ...span,
+      // Durations measured by the step are more precise than event receive times
+      start: duration !== undefined ? end - duration : span.start,
+      end,
+      args: { ...span.args, ...args },
+    });
+  };
+  const findOpen = (key: string): number => open.map((span) => span.key).lastIndexOf(key);
+
+  for (const { event, timestamp } of timed) {
+    switch (event.type) {
+      case 'stepStart':
+      case 'taskStart': {
+        const name = event.type === 'stepStart' ? event.step : event.task;
+        const cat = event.type === 'stepStart' ? 'step' : 'task';
+        openSpan({
+          name,
+          cat,
+          track: trackOf(event.node),
+          nodeId: event.node.id,
+          key: `${cat}:${event.node.id}:${name}`,
+          start: timestamp,
+          args: { node: event.node.name },
+        });
+        break;
+      }
+
+      case 'stepEnd':
+      case 'taskEnd': {
+        const name = event.type === 'stepEnd' ? event.step : event.task;
+        const cat = event.type === 'stepEnd' ? 'step' : 'task';
+        const index = findOpen(`${cat}:${event.node.id}:${name}`);
+        const duration = event.type === 'stepEnd' ? event.duration : undefined;
+        if (index !== -1) {
+          closeSpan(index, timestamp, {}, duration);
+        } else if (duration !== undefined) {
+          // Started before the debugger was attached (or evicted from the history)
+          spans.push({
+            name,
+            cat,
+            track: trackOf(event.node),
+            nodeId: event.node.id,
+            key: '',
+            start: timestamp - duration,
+            end: timestamp,
+            args: { node: event.node.name },
+          });
+        }
+        break;
+      }
+
+      case 'agentPromptStart':
+        openSpan({
+          name: event.agentName,
+          cat: 'agent',
+          track: trackOf(event.node),
+          nodeId: event.node.id,
+          key: `agent:${event.promptId}`,
+          start: timestamp,
+          args: { agentId: event.agentId, promptId: event.promptId },
+        });
+        break;
+
+      case 'agentPromptEnd': {
+        const args = {
+          agentId: event.agentId,
+          promptId: event.promptId,
+          model: event.model,
+          tokenUsage: event.tokenUsage,
+          costUsd: event.costUsd,
+        };
+        const index = findOpen(`agent:${event.promptId}`);
+        if (index !== -1) {
+          closeSpan(index, timestamp, args, event.duration);
+        } else {
+          spans.push({
+            name: event.agentName,
+            cat: 'agent',
+            track: trackOf(event.node),
+            nodeId: event.node.id,
+            key: '',
+            start: timestamp - event.duration,
+            end: timestamp,
+            args,
+          });
+        }
+        break;
+      }
+
+      case 'toolInvocation':
+        spans.push({
+          name: event.toolName,
+          cat: 'tool',
+          track: trackOf(event.node),
+          nodeId: event.node.id,
+          key: '',
+          start: timestamp - event.duration,
+          end: timestamp,
+          args: { input: event.input, output: event.output },
+        });
+        break;
+
+      case 'cacheHit':
+      case 'cacheMiss':
+        instants.push({ name: event.type, cat: 'cache', track: trackOf(event.node), at: timestamp, args: { key: event.key } });
+        break;
+
+      case 'stepRetry':
+        instants.push({
+          name: `retry ${event.stepName}`,
+          cat: 'retry',
+          track: trackOf(event.node),
+          at: timestamp,
+          args: { retryCount: event.retryCount, error: event.error.message },
+        });
+        break;
+
+      case 'error': {
+        instants.push({ name: 'error', cat: 'error', track: trackOf(event.node), at: timestamp, args: { message: event.error.message } });
+        // A failed step or task emits no end event
+        const index = open.map((span) => span.nodeId === event.node.id && (span.cat === 'step' || span.cat === 'task')).lastIndexOf(true);
+        if (index !== -1) {
+          closeSpan(index, timestamp, { error: event.error.message });
+        }
+        break;
+      }
+    }
+  }
+  while (open.length > 0) {
+    closeSpan(open.length - 1, last, { unfinished: true });
+  }
+
+  return {
+    traceEvents: placeOnTracks(root, spans, instants, origin),
+    displayTimeUnit: 'ms',
+  };
+}
+
+/**
+ * Assign track ids, moving spans that do not nest to extra tracks
+ */
+function placeOnTracks(
+  root: WorkflowNode,
+  spans: Span[],
+  instants: Array<{ name: string; cat: string; track: WorkflowNode; at: number; args: Record<string, unknown> }>,
+  origin: number
+): ChromeTraceEvent[] {
+  const micros = (ms: number): number => Math.round((ms - origin) * 1000);
+  /** Open spans of each track (innermost last), by workflow node id */
+  const lanes = new Map<string, Array<Array<{ start: number; end: number }>>>();
+  const tids = new Map<string, number>();
+  const metadata: ChromeTraceEvent[] = [processName(root)];
+
+  const tidFor = (track: WorkflowNode, lane: number): number => {
+    const key = `${track.id}#${lane}`;
+    let tid = tids.get(key);
+    if (tid === undefined) {
+      tid = tids.size + 1;
+      tids.set(key, tid);
+      const name = lane === 0 ? track.name : `${track.name} (${lane + 1})`;
+      metadata.push(
+        { name: 'thread_name', cat: '__metadata', ph: 'M', ts: 0, pid: PID, tid, args: { name } },
+        { name: 'thread_sort_index', cat: '__metadata', ph: 'M', ts: 0, pid: PID, tid, args: { sort_index: tid } }
+      );
+    }
+    return tid;
+  };
+  // The root workflow is always the first track
+  tidFor(root, 0);
+
+  const sorted = [...spans].sort((a, b) => a.start - b.start || b.end - a.end);
+  const traceEvents: ChromeTraceEvent[] = [];
+  for (const span of sorted) {
+    const trackLanes = lanes.get(span.track.id) ?? [];
+    lanes.set(span.track.id, trackLanes);
+
+    let lane = 0;
+    for (; lane < trackLanes.length; lane++) {
+      const stack = trackLanes[lane];
+      while (stack.length > 0 && stack[stack.length - 1].end <= span.start) {
+        stack.pop();
+      }
+      const parent = stack[stack.length - 1];
+      // GOTCHA: Allow 1ms of clock skew between a span and the span it runs in
+      if (!parent || span.end <= parent.end + 1) {
+        if (parent) {
+          span.end = Math.min(span.end, parent.end);
+        }
+        break;
+      }
+    }
+    if (lane === trackLanes.length) {
+      trackLanes.push([]);
+    }
+    trackLanes[lane].push({ start: span.start, end: span.end });
+
+    traceEvents.push({
+      name: span.name,
+      cat: span.cat,
+      ph: 'X',
+      ts: micros(span.start),
+      dur: Math.max(micros(span.end) - micros(span.start), 0),
+      pid: PID,
+      tid: tidFor(span.track, lane),
+      args: span.args,
+    });
+  }
+
+  for (const instant of instants) {
+    traceEvents.push({
+      name: instant.name,
+      cat: instant.cat,
+      ph: 'i',
+      s: 't',
+      ts: micros(instant.at),
+      pid: PID,
+      tid: tidFor(instant.track, 0),
+      args: instant.args,
+    });
+  }
+
+  traceEvents.sort((a, b) => a.ts - b.ts);
+  return [...metadata, ...traceEvents];
+}
+
+function processName(root: WorkflowNode): ChromeTraceEvent {
+  return { name: 'process_name', cat: '__metadata', ph: 'M', ts: 0, pid: PID, tid: 0, args: { name: root.name } };
+}
@@ -0,0 +1,483 @@
+/**
+ * Reading saved event histories
+ *
+ * @module
+ * @remarks
+ * `WorkflowTreeDebugger.saveEventHistory()` writes a SavedEventHistory.
+ * These helpers serialize events for such files, validate them (and the
+ * unversioned event arrays written by earlier releases) and rebuild the
+ * node tree and events they describe.
+ */
+
+import type {
+  WorkflowNode,
+  WorkflowEvent,
+  SavedEventHistory,
+  SavedWorkflowEvent,
+  SavedWorkflowNode,
+} from '../types/index.js';
+import { WorkflowEventReplayer } from './event-replayer.js';
+
+/** Current event history format version */
+export const EVENT_HISTORY_VERSION = 1;
+
+/**
+ * Validate parsed event history file contents
+ *
+ * An unversioned event array is accepted as a history without a tree.
+ *
+ * @param parsed - Parsed JSON
+ * @returns The event history
+ * @throws {Error} If the value is not an event history or has an unsupported version
+ */
+export function parseEventHistory(parsed: unknown): SavedEventHistory {
+  if (Array.isArray(parsed)) {
+    return { version: EVENT_HISTORY_VERSION, savedAt: 0, tree: null, events: parsed as SavedWorkflowEvent[] };
+  }
+
+  const history = parsed as Partial<SavedEventHistory> | null;
+  if (typeof history !== 'object' || history === null || history.version === undefined) {
+    throw new Error(
+      `Invalid event history file: Expected array or versioned event history, got ${typeof parsed}`
+    );
+  }
+  if (history.version !== EVENT_HISTORY_VERSION) {
+    throw new Error(
+      `Unsupported event history version ${String(history.version)} (supported: ${EVENT_HISTORY_VERSION})`
+    );
+  }
+  if (!Array.isArray(history.events)) {
+    throw new Error('Invalid event history file: events must be an array');
+  }
+
+  return {
+    version: EVENT_HISTORY_VERSION,
+    savedAt: history.savedAt ?? 0,
+    tree: history.tree ?? null,
+    events: history.events,
+  };
+}
+
+/**
+ * Rebuild the node tree and events of a saved event history
+ *
+ * Restored nodes get their `parent` links back, and events refer to the
+ * restored nodes again. Nodes that only appear in events (detached
+ * children, or every node of an unversioned history) are created from the
+ * saved id, name and status. Without a saved tree, the tree is rebuilt by
+ * replaying the events with WorkflowEventReplayer.
+ *
+ * GOTCHA: `childAttached` and `treeUpdated` events get nodes as they were
+ * when the event happened (no children), not the restored tree, so the
+ * events can still be replayed step by step.
+ *
+ * @param history - Event history read from a file
+ * @returns Root node and events, in saved order
+ * @throws {Error} If the history has neither a tree nor events
+ */
+export function restoreEventHistory(history: SavedEventHistory): { root: WorkflowNode; events: WorkflowEvent[] } {
+  const nodes = new Map<string, WorkflowNode>();
+  const restored: Array<[WorkflowNode, SavedWorkflowNode]> = [];
+
+  const restoreNode = (saved: SavedWorkflowNode, parent: WorkflowNode | null): WorkflowNode => {
+    const node: WorkflowNode = {
+      id: saved.id,
+      name: saved.name,
+      parent,
+      children: [],
+      status: saved.status,
+      logs: [...saved.logs],
+      events: [],
+      stateSnapshot: saved.stateSnapshot,
+    };
+    nodes.set(node.id, node);
+    restored.push([node, saved]);
+    node.children = saved.children.map((child) => restoreNode(child, node));
+    return node;
+  };
+  const tree = history.tree ? restoreNode(history.tree, null) : null;
+
+  const stubs = new Map<string, WorkflowNode>();
+  const stubFor = (id: unknown, name: unknown, status?: unknown): WorkflowNode => {
+    let node = stubs.get(String(id));
+    if (!node) {
+      node = {
+        id: String(id),
+        name: String(name ?? id),
+        parent: null,
+        children: [],
+        status: (status as WorkflowNode['status'] | undefined) ?? 'idle',
+        logs: [],
+        events: [],
+        stateSnapshot: null,
+      };
+      stubs.set(node.id, node);
+    }
+    return node;
+  };
+  const nodeFor = (id: unknown, name: unknown): WorkflowNode => nodes.get(String(id)) ?? stubFor(id, name);
+  const events = history.events.map((event) => hydrateEvent(event, nodeFor, stubFor));
+
+  for (const [node, saved] of restored) {
+    node.events = saved.events.filter((index) => index in events).map((index) => events[index]);
+  }
+
+  if (tree) {
+    return { root: tree, events };
+  }
+  return { root: new WorkflowEventReplayer().replay(events), events };
+}
+
+/**
+ * Turn a saved event back into a workflow event
+ *
+ * Events that still carry node objects (written by hand, or by releases
+ * that stored raw events) are passed through unchanged.
+ */
+function hydrateEvent(
+  event: SavedWorkflowEvent,
+  nodeFor: (id: unknown, name: unknown) => WorkflowNode,
+  stubFor: (id: unknown, name: unknown, status?: unknown) => WorkflowNode
+): WorkflowEvent {
+  const { nodeId, nodeName, childId, childName, childStatus, rootId, rootName, ...rest } = event;
+  if (event.type === 'childAttached' && childId !== undefined) {
+    return { ...rest, child: stubFor(childId, childName, childStatus) } as unknown as WorkflowEvent;
+  }
+  if (event.type === 'treeUpdated' && rootId !== undefined) {
+    return { ...rest, root: stubFor(rootId, rootName) } as unknown as WorkflowEvent;
+  }
+  if (nodeId !== undefined) {
+    const node = nodeFor(nodeId, nodeName);
+    if (event.type === 'stepStart' && event.parentId !== undefined && node.parent === null && node.id !== event.parentId) {
+      // GOTCHA: Lets the replayer attach ctx.step nodes, which have no childAttached event
+      node.parent = nodeFor(event.parentId, event.parentId);
+    }
+    // GOTCHA: A snapshot belongs to its event, so don't write it to the shared node
+    return (
+      event.type === 'stateSnapshot'
+        ? { ...rest, node: { ...node, stateSnapshot: event.stateSnapshot ?? null } }
+        : { ...rest, node }
+    ) as unknown as WorkflowEvent;
+  }
+  return event as unknown as WorkflowEvent;
+}
+
+/**
+ * Serialize a WorkflowEvent to JSON-safe format
+ * Extracts only primitive fields to avoid circular references in WorkflowNode objects
+ *
+ * **Strategy:**
+ * - Extract nodeId and nodeName from WorkflowNode references
+ * - Skip WorkflowNode.parent, WorkflowNode.children (circular refs)
+ * - Skip WorkflowError.original (could be circular)
+ * - Add timestamp for chronological ordering (`timestamp`, for events
+ *   without their own timestamp)
+ *
+ * **Circular Reference Handling:**
+ * - WorkflowNode has bidirectional links (parent ↔ children)
+ * - WorkflowNode.events[] contains WorkflowEvents that reference WorkflowNodes
+ * - JSON.stringify would throw TypeError without selective extraction
+ *
+ * @param event - The workflow event to serialize
+ * @param timestamp - Timestamp for events that have none of their own
+ * @returns JSON-safe object with primitive fields only
+ *
+ * @example
+ * ```typescript
+ * const event: WorkflowEvent = {
+ *   type: 'stateSnapshot',
+ *   node: { id: 'wf-123', name: 'MyWorkflow', ... }
+ * };
+ * const serialized = serializeWorkflowEvent(event, Date.now());
+ * // { type: 'stateSnapshot', timestamp: 1234567890, nodeId: 'wf-123', nodeName: 'MyWorkflow', stateSnapshot: {...} }
+ * ```
+ */
+export function serializeWorkflowEvent(event: WorkflowEvent, timestamp: number): SavedWorkflowEvent {
+
+  switch (event.type) {
+    // Core events
+    case 'childAttached':
+      return {
+        type: event.type,
+        timestamp,
+        parentId: event.parentId,
+        childId: event.child.id,
+        childName: event.child.name,
+        childStatus: event.child.status,
+      };
+
+    case 'childDetached':
+      return {
+        type: event.type,
+        timestamp,
+        parentId: event.parentId,
+        childId: event.childId,
+      };
+
+    case 'stateSnapshot':
+      return {
+        type: event.type,
+        timestamp,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+        stateSnapshot: event.node.stateSnapshot,
+      };
+
+    case 'stepStart':
+      return {
+        type: event.type,
+        timestamp,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+        // ctx.step nodes have no childAttached event, so keep where they belong
+        parentId: event.node.parent?.id,
+        step: event.step,
+      };
+
+    case 'stepRetry':
+      return {
+        type: event.type,
+        timestamp: event.timestamp,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+        stepName: event.stepName,
+        retryCount: event.retryCount,
+        analysis: event.analysis,
+        error: { message: event.error.message, workflowId: event.error.workflowId, stack: event.error.stack },
+        delayMs: event.delayMs,
+        delayReason: event.delayReason,
+      };
+
+    case 'stepRestarted':
+      return {
+        type: event.type,
+        timestamp: event.timestamp,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+        stepName: event.stepName,
+        retryCount: event.retryCount,
+        restoredState: event.restoredState,
+      };
+
+    case 'invalidResponse':
+      return {
+        type: event.type,
+        timestamp: event.timestamp,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+        agentId: event.agentId,
+        response: event.response,
+        errors: { issues: event.errors.issues },
+      };
+
+    case 'stepEnd':
+      return {
+        type: event.type,
+        timestamp,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+        step: event.step,
+        duration: event.duration,
+      };
+
+    case 'error':
+      return {
+        type: event.type,
+        timestamp,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+        error: {
+          message: event.error.message,
+          workflowId: event.error.workflowId,
+          code: event.error.code,
+          state: event.error.state,
+          logs: event.error.logs,
+          stack: event.error.stack,
+          // Skip 'original' field - could be circular
+        },
+      };
+
+    case 'taskStart':
+    case 'taskEnd':
+      return {
+        type: event.type,
+        timestamp,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+        task: event.task,
+      };
+
+    case 'treeUpdated':
+      return {
+        type: event.type,
+        timestamp,
+        rootId: event.root.id,
+        rootName: event.root.name,
+      };
+
+    case 'cancelled':
+      return {
+        type: event.type,
+        timestamp: event.timestamp,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+        reason: event.reason,
+        step: event.step,
+      };
+
+    case 'signalWaiting':
+      return {
+        type: event.type,
+        timestamp: event.timestamp,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+        signal: event.signal,
+        prompt: event.prompt,
+      };
+
+    case 'signalReceived':
+      return {
+        type: event.type,
+        timestamp: event.timestamp,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+        signal: event.signal,
+        payload: event.payload,
+      };
+
+    case 'budgetWarning':
+      return {
+        type: event.type,
+        timestamp: event.timestamp,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+        metric: event.metric,
+        threshold: event.threshold,
+        used: event.used,
+        limit: event.limit,
+      };
+
+    case 'paused':
+      return {
+        type: event.type,
+        timestamp: event.timestamp,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+        step: event.step,
+        breakpointId: event.breakpointId,
+      };
+
+    case 'compensationStart':
+      return {
+        type: event.type,
+        timestamp: event.timestamp,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+        step: event.step,
+      };
+
+    case 'compensationEnd':
+      return {
+        type: event.type,
+        timestamp: event.timestamp,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+        step: event.step,
+        duration: event.duration,
+        error: event.error ? { message: event.error.message, code: event.error.code } : undefined,
+      };
+
+    // Agent/Prompt events
+    case 'agentPromptStart':
+      return {
+        type: event.type,
+        timestamp,
+        agentId: event.agentId,
+        agentName: event.agentName,
+        promptId: event.promptId,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+      };
+
+    case 'agentPromptEnd':
+      return {
+        type: event.type,
+        timestamp,
+        agentId: event.agentId,
+        agentName: event.agentName,
+        promptId: event.promptId,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+        duration: event.duration,
+        tokenUsage: event.tokenUsage,
+        model: event.model,
+        harness: event.harness,
+        costUsd: event.costUsd,
+      };
+
+    // Tool events
+    case 'toolInvocation':
+      return {
+        type: event.type,
+        timestamp,
+        toolName: event.toolName,
+        input: event.input,
+        output: event.output,
+        duration: event.duration,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+      };
+
+    // MCP events
+    case 'mcpEvent':
+      return {
+        type: event.type,
+        timestamp,
+        serverName: event.serverName,
+        event: event.event,
+        payload: event.payload,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+      };
+
+    // Reflection events
+    case 'reflectionStart':
+      return {
+        type: event.type,
+        timestamp,
+        level: event.level,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+      };
+
+    case 'reflectionEnd':
+      return {
+        type: event.type,
+        timestamp,
+        level: event.level,
+        success: event.success,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+      };
+
+    // Cache events
+    case 'cacheHit':
+    case 'cacheMiss':
+      return {
+        type: event.type,
+        timestamp,
+        key: event.key,
+        nodeId: event.node.id,
+        nodeName: event.node.name,
+      };
+
+    default:
+      // Should not happen with TypeScript discriminated union
+      // But handle gracefully for unknown event types
+      return {
+        type: (event as { type: string }).type,
+        timestamp,
+        rawData: JSON.stringify(event),
+      };
+  }
+}
@@ -6,6 +6,7 @@ import type {
 } from '../types/index.js';
 import type { SerializedWorkflowState } from '../types/snapshot.js';
 import type { WorkflowError } from '../types/error.js';
+import type { ReplayNodeHistory } from '../types/replay.js';
 
 /**
  * WorkflowEventReplayer - Reconstruct workflow tree from event history
@@ -23,14 +24,25 @@ import type { WorkflowError } from '../types/error.js';
  *
  * **Event Categorization**:
  * - **Structural Events** (modify tree structure): childAttached, childDetached, treeUpdated
- * - **State Events** (update node properties): stateSnapshot, error
- * - **Metadata Events** (logged but don't modify tree): agentPrompt*, toolInvocation, mcpEvent, reflection*, cache*, task*, step*
+ * - **State Events** (update node properties): stateSnapshot, error, cancelled, step*, stepRetry, stepRestarted
+ * - **History Events** (recorded per node): agentPrompt*, toolInvocation, invalidResponse, cache*, reflection*
+ * - **Metadata Events** (appended to node.events): mcpEvent, task*, compensation*, budgetWarning, paused
+ *
+ * **Time Travel**: After replay(), seek() moves to any event index, and
+ * stepForward()/stepBackward() move one event at a time. The tree and the
+ * per-node history (getNodeHistory()) always reflect the events before the
+ * current position.
  *
  * @example
  * ```typescript
  * const replayer = new WorkflowEventReplayer();
  * const tree = replayer.replay(eventStream);
  * console.log(`Tree has ${tree.children.length} root children`);
+ *
+ * // Go back to the first error
+ * const index = eventStream.findIndex((event) => event.type === 'error');
+ * replayer.seek(index + 1);
+ * console.log(replayer.getCurrentEvent());
  * ```
  */
 export class WorkflowEventReplayer {
@@ -40,6 +52,18 @@ export class WorkflowEventReplayer {
   /** Root node of reconstructed tree */
   private root: WorkflowNode | null = null;
 
+  /** Events passed to replay() */
+  private events: WorkflowEvent[] = [];
+
+  /** Number of events applied to the tree */
+  private position = 0;
+
+  /** Agent calls, tool calls, retries and metrics by node ID */
+  private histories: Map<string, ReplayNodeHistory> = new Map();
+
+  /** Step nodes created from stepStart events (ctx.step emits no childAttached) */
+  private stepNodeIds: Set<string> = new Set();
+
   /**
    * Replay a sequence of workflow events to reconstruct the workflow tree.
    *
@@ -61,9 +85,18 @@ export class WorkflowEventReplayer {
    * - `stepEnd`: Track step execution completion with duration
    * - `taskStart`: Track task execution start
    * - `taskEnd`: Track task execution completion
+   * - `cancelled`: Mark node as cancelled
+   *
+   * **Phase 3 - History Events** (recorded in getNodeHistory()):
+   * - `agentPromptStart/End`: Agent calls with tokens and cost
+   * - `toolInvocation`: Tool calls with input and output
+   * - `stepRetry`/`stepRestarted`: Retries (restarts also restore the snapshot)
+   * - `invalidResponse`, `cacheHit/Miss`, `reflectionStart/End`: Counted in metrics
    *
-   * **Phase 3 - Metadata Events** (logged but don't modify tree):
-   * - `agentPromptStart/End`, `toolInvocation`, `mcpEvent`, etc.
+   * The events are also appended to node.events, like `mcpEvent`,
+   * `compensationStart/End`, `budgetWarning` and `paused`.
+   *
+   * After replay(), the position is at the end of the events (see seek()).
    *
    * **Tree Invariants Maintained:**
    * - Single-parent rule: Each node has at most one parent
@@ -88,68 +121,232 @@ export class WorkflowEventReplayer {
       throw new Error('Events array is empty or null');
     }
 
-    // Initialize state
+    this.events = [...events];
+    this.reset();
+    this.advanceTo(this.events.length);
+
+    // Verify root was established
+    if (!this.root) {
+      throw new Error('No root node established from event stream');
+    }
+
+    return this.root;
+  }
+
+  /**
+   * Move to an event index of the replayed events.
+   *
+   * The tree afterwards reflects the first `index` events: `seek(0)` is the
+   * state before any event, `seek(events.length)` the state after the last.
+   * Moving forward applies the missing events; moving backward replays from
+   * the start, since events cannot be undone.
+   *
+   * @param index - Number of events to apply (0 to events.length)
+   * @returns Root node at that position (null until an event established it)
+   * @throws {Error} If replay() has not been called
+   * @throws {RangeError} If the index is outside the event list
+   *
+   * @example
+   * ```typescript
+   * replayer.replay(events);
+   * const before = replayer.seek(10); // tree after the first 10 events
+   * ```
+   */
+  seek(index: number): WorkflowNode | null {
+    if (this.events.length === 0) {
+      throw new Error('No events to seek through; call replay() first');
+    }
+    if (!Number.isInteger(index) || index < 0 || index > this.events.length) {
+      throw new RangeError(`Event index ${index} is out of range (0-${this.events.length})`);
+    }
+
+    if (index < this.position) {
+      this.reset();
+    }
+    this.advanceTo(index);
+    return this.root;
+  }
+
+  /**
+   * Apply the next event.
+   *
+   * @returns Root node after the event (unchanged at the end of the events)
+   * @throws {Error} If replay() has not been called
+   */
+  stepForward(): WorkflowNode | null {
+    return this.seek(Math.min(this.position + 1, this.events.length));
+  }
+
+  /**
+   * Undo the last applied event.
+   *
+   * @returns Root node before the event (unchanged at the start of the events)
+   * @throws {Error} If replay() has not been called
+   */
+  stepBackward(): WorkflowNode | null {
+    return this.seek(Math.max(this.position - 1, 0));
+  }
+
+  /**
+   * Number of events applied to the tree (the current event index).
+   */
+  getPosition(): number {
+    return this.position;
+  }
+
+  /**
+   * Events passed to the last replay() call.
+   */
+  getEvents(): WorkflowEvent[] {
+    return [...this.events];
+  }
+
+  /**
+   * The last applied event, or undefined at position 0.
+   */
+  getCurrentEvent(): WorkflowEvent | undefined {
+    return this.position > 0 ? this.events[this.position - 1] : undefined;
+  }
+
+  /**
+   * Root node at the current position.
+   */
+  getTree(): WorkflowNode | null {
+    return this.root;
+  }
+
+  /**
+   * Agent calls, tool calls, retries and metrics of a node at the current position.
+   *
+   * @param nodeId - Node ID
+   * @returns The node's history, or undefined if no history event referenced it yet
+   *
+   * @example
+   * ```typescript
+   * replayer.replay(events);
+   * const history = replayer.getNodeHistory(stepNode.id);
+   * console.log(`${history?.metrics.retries} retries, $${history?.metrics.costUsd}`);
+   * ```
+   */
+  getNodeHistory(nodeId: string): ReplayNodeHistory | undefined {
+    return this.histories.get(nodeId);
+  }
+
+  /**
+   * Clear the reconstructed state (the event list is kept).
+   */
+  private reset(): void {
     this.nodeMap.clear();
+    this.histories.clear();
+    this.stepNodeIds.clear();
     this.root = null;
+    this.position = 0;
+  }
 
-    // Process events sequentially
-    for (const event of events) {
+  /**
+   * Apply events from the current position up to (excluding) `index`.
+   */
+  private advanceTo(index: number): void {
+    while (this.position < index) {
+      const event = this.events[this.position];
       try {
-        switch (event.type) {
-          // Structural events (P2.M1.T1.S2)
-          case 'childAttached':
-            this.handleChildAttached(event);
-            break;
-
-          case 'childDetached':
-            this.handleChildDetached(event);
-            break;
-
-          case 'treeUpdated':
-            this.handleTreeUpdated(event);
-            break;
-
-          // State events (P2.M1.T1.S3)
-          case 'stateSnapshot':
-            this.handleStateSnapshot(event);
-            break;
-
-          case 'error':
-            this.handleErrorEvent(event);
-            break;
-
-          case 'stepStart':
-            this.handleStepStart(event);
-            break;
-
-          case 'stepEnd':
-            this.handleStepEnd(event);
-            break;
-
-          case 'taskStart':
-            this.handleTaskStart(event);
-            break;
-
-          case 'taskEnd':
-            this.handleTaskEnd(event);
-            break;
-
-          default:
-            // Other metadata events - skip for now
-            break;
-        }
+        this.applyEvent(event, this.position);
       } catch (error) {
         // Log error but continue processing subsequent events
         console.error(`Error processing event type '${event.type}':`, error);
       }
+      this.position++;
     }
+  }
 
-    // Verify root was established
-    if (!this.root) {
-      throw new Error('No root node established from event stream');
-    }
+  /**
+   * Apply one event to the tree.
+   *
+   * @param event - Event to apply
+   * @param index - Index of the event in the replayed events
+   */
+  private applyEvent(event: WorkflowEvent, index: number): void {
+    switch (event.type) {
+      // Structural events (P2.M1.T1.S2)
+      case 'childAttached':
+        this.handleChildAttached(event);
+        break;
 
-    return this.root;
+      case 'childDetached':
+        this.handleChildDetached(event);
+        break;
+
+      case 'treeUpdated':
+        this.handleTreeUpdated(event);
+        break;
+
+      // State events (P2.M1.T1.S3)
+      case 'stateSnapshot':
+        this.handleStateSnapshot(event);
+        break;
+
+      case 'error':
+        this.handleErrorEvent(event);
+        break;
+
+      case 'stepStart':
+        this.handleStepStart(event);
+        break;
+
+      case 'stepEnd':
+        this.handleStepEnd(event);
+        break;
+
+      case 'stepRetry':
+      case 'stepRestarted':
+        this.handleStepRetry(event, index);
+        break;
+
+      case 'taskStart':
+        this.handleTaskStart(event);
+        break;
+
+      case 'taskEnd':
+        this.handleTaskEnd(event);
+        break;
+
+      case 'cancelled':
+        this.handleCancelled(event);
+        break;
+
+      case 'signalWaiting':
+      case 'signalReceived':
+        this.handleSignal(event);
+        break;
+
+      // History events
+      case 'agentPromptStart':
+      case 'agentPromptEnd':
+        this.handleAgentPrompt(event, index);
+        break;
+
+      case 'toolInvocation':
+        this.handleToolInvocation(event, index);
+        break;
+
+      case 'invalidResponse':
+      case 'cacheHit':
+      case 'cacheMiss':
+      case 'reflectionStart':
+      case 'reflectionEnd':
+        this.handleCountedEvent(event);
+        break;
+
+      // Metadata events
+      case 'mcpEvent':
+      case 'compensationStart':
+      case 'compensationEnd':
+      case 'budgetWarning':
+      case 'paused': {
+        this.nodeMap.get(event.node.id)?.events.push(event);
+        break;
+      }
+    }
   }
 
   /**
@@ -195,7 +392,8 @@ export class WorkflowEventReplayer {
     }
 
     // Validation 1: Check if child already has a different parent (single-parent rule)
-    if (child.parent !== null && child.parent !== parent) {
+    // GOTCHA: Compare ids - the clone carries a copy of the live parent
+    if (child.parent !== null && child.parent.id !== parent.id) {
       throw new Error(
         `Child '${child.name}' already has a parent. A node can only have one parent.`
       );
@@ -295,6 +493,7 @@ export class WorkflowEventReplayer {
    * **Use Case:**
    * - Represents a complete tree replacement (not incremental update)
    * - Rare in practice; most updates use childAttached/childDetached
+   * - Ignored when the root is already the replayed root (status changes)
    *
    * @param event - TreeUpdatedEvent with new root node
    * @throws {Error} If event.root is null or undefined
@@ -311,11 +510,18 @@ export class WorkflowEventReplayer {
       throw new Error('treeUpdated event has null or undefined root');
     }
 
-    this.root = event.root;
+    // GOTCHA: Workflows emit treeUpdated for every status change. The replayed
+    // tree already holds that root, so replacing it would drop replayed state.
+    if (this.root?.id === event.root.id) {
+      return;
+    }
+
+    // Deep clone so seek() can replay from the original events
+    this.root = structuredClone(event.root);
 
     // Clear and rebuild nodeMap from new root
     this.nodeMap.clear();
-    this.buildNodeMap(event.root);
+    this.buildNodeMap(this.root);
   }
 
   /**
@@ -372,7 +578,8 @@ export class WorkflowEventReplayer {
    *
    * **Strategy:**
    * 1. Find node via nodeMap.get(event.node.id)
-   * 2. Append event to node.events array (accumulation pattern)
+   * 2. Mark step nodes created by handleStepStart() as failed
+   * 3. Append event to node.events array (accumulation pattern)
    *
    * **Invariants:**
    * - Node must exist in nodeMap
@@ -413,6 +620,62 @@ export class WorkflowEventReplayer {
 
     // Accumulate error in events array (append-only pattern)
     // Gotcha: No dedicated errors[] field - use node.events[]
+    // GOTCHA: @Step reports on the workflow node, which may still recover
+    if (this.stepNodeIds.has(node.id)) {
+      node.status = 'failed';
+    }
+    node.events.push(event);
+  }
+
+  /**
+   * Handle cancelled event - mark node as cancelled.
+   *
+   * **Strategy:**
+   * 1. Find node via nodeMap.get(event.node.id)
+   * 2. Set node.status = 'cancelled'
+   * 3. Append event to node.events array
+   *
+   * **Error Handling:**
+   * - Logs warning if node not found (graceful degradation)
+   *
+   * @param event - CancelledEvent with optional reason
+   */
+  private handleCancelled(event: Extract<WorkflowEvent, { type: 'cancelled' }>): void {
+    const node = this.nodeMap.get(event.node.id);
+    if (!node) {
+      console.warn(
+        `Node '${event.node.id}' not found in nodeMap during cancelled event. ` +
+        `This may indicate out-of-order events or missing structural events.`
+      );
+      return;
+    }
+
+    node.status = 'cancelled';
+    node.events.push(event);
+  }
+
+  /**
+   * Handle signalWaiting/signalReceived events - track suspended signal waits.
+   *
+   * **Strategy:**
+   * 1. Find node via nodeMap.get(event.node.id)
+   * 2. Set node.status = 'waiting' (signalWaiting) or 'completed' (signalReceived)
+   * 3. Append event to node.events array
+   *
+   * **Error Handling:**
+   * - Returns silently if the signal node is not in the tree yet (like step nodes)
+   *
+   * @param event - SignalWaitingEvent or SignalReceivedEvent
+   */
+  private handleSignal(
+    event: Extract<WorkflowEvent, { type: 'signalWaiting' | 'signalReceived' }>
+  ): void {
+    const node = this.nodeMap.get(event.node.id);
+    if (!node) {
+      return;
+    }
+
+    node.status = event.type === 'signalWaiting' ? 'waiting' : 'completed';
     node.events.push(event);
   }
 
@@ -421,7 +684,9 @@ export class WorkflowEventReplayer {
    *
    * **Strategy:**
    * 1. Find node via nodeMap.get(event.node.id)
-   * 2. Append event to node.events array for tracking
+   * 2. If not found but its parent is, attach it as a running step node
+   *    (ctx.step nodes are added to the tree without a childAttached event)
+   * 3. Append event to node.events array for tracking
    *
    * **Invariants:**
    * - Step nodes are created via @Step decorator
@@ -446,7 +711,7 @@ export class WorkflowEventReplayer {
    */
   private handleStepStart(event: Extract<WorkflowEvent, { type: 'stepStart' }>): void {
     // Find node in map
-    const node = this.nodeMap.get(event.node.id);
+    const node = this.nodeMap.get(event.node.id) ?? this.attachStepNode(event.node);
     if (!node) {
       // Step node may not exist yet - childAttached will add it later
       // Don't log warning (expected for step nodes)
@@ -462,8 +727,9 @@ export class WorkflowEventReplayer {
    *
    * **Strategy:**
    * 1. Find node via nodeMap.get(event.node.id)
-   * 2. Append event to node.events array for tracking
-   * 3. Duration info is in event.duration field
+   * 2. Mark step nodes created by handleStepStart() as completed
+   * 3. Add the duration to the node's stepDurationMs metric
+   * 4. Append event to node.events array for tracking
    *
    * **Invariants:**
    * - Step nodes are created via @Step decorator
@@ -499,6 +765,12 @@ export class WorkflowEventReplayer {
       return;
     }
 
+    // GOTCHA: @Step reports on the workflow node, which keeps running
+    if (this.stepNodeIds.has(node.id)) {
+      node.status = 'completed';
+    }
+    this.historyFor(node.id).metrics.stepDurationMs += event.duration;
+
     // Track step end with duration in events array
     node.events.push(event);
   }
@@ -599,6 +871,219 @@ export class WorkflowEventReplayer {
     node.events.push(event);
   }
 
+  /**
+   * Handle stepRetry/stepRestarted events - record a retry.
+   *
+   * **Strategy:**
+   * 1. Find node via nodeMap.get(event.node.id)
+   * 2. Record the retry in the node's history and metrics
+   * 3. For stepRestarted, restore node.stateSnapshot from event.restoredState
+   * 4. Append event to node.events array
+   *
+   * ctx.step runs each retry in a new step node, so the node of a stepRetry
+   * event is the failed attempt.
+   *
+   * **Error Handling:**
+   * - Returns silently if the node is not in the tree (like step events)
+   *
+   * @param event - StepRetryEvent or StepRestartedEvent
+   * @param index - Index of the event
+   */
+  private handleStepRetry(
+    event: Extract<WorkflowEvent, { type: 'stepRetry' | 'stepRestarted' }>,
+    index: number
+  ): void {
+    const node = this.nodeMap.get(event.node.id);
+    if (!node) {
+      return;
+    }
+
+    const history = this.historyFor(node.id);
+    if (event.type === 'stepRetry') {
+      history.retries.push({
+        kind: 'retry',
+        step: event.stepName,
+        retryCount: event.retryCount,
+        eventIndex: index,
+        errorMessage: event.error?.message,
+        delayMs: event.delayMs,
+        delayReason: event.delayReason,
+      });
+      history.metrics.retries++;
+    } else {
+      history.retries.push({ kind: 'restart', step: event.stepName, retryCount: event.retryCount, eventIndex: index });
+      history.metrics.restarts++;
+      node.stateSnapshot = event.restoredState;
+    }
+
+    node.events.push(event);
+  }
+
+  /**
+   * Handle agentPromptStart/agentPromptEnd events - record agent calls.
+   *
+   * **Strategy:**
+   * - agentPromptStart adds a call to the node's history
+   * - agentPromptEnd completes the running call with the same promptId, or
+   *   adds a completed call if its start was not recorded
+   * - Finished calls add their tokens and cost to the node's metrics
+   *
+   * **Error Handling:**
+   * - Returns silently if the node is not in the tree (like step events)
+   *
+   * @param event - AgentPromptStartEvent or AgentPromptEndEvent
+   * @param index - Index of the event
+   */
+  private handleAgentPrompt(
+    event: Extract<WorkflowEvent, { type: 'agentPromptStart' | 'agentPromptEnd' }>,
+    index: number
+  ): void {
+    const node = this.nodeMap.get(event.node.id);
+    if (!node) {
+      return;
+    }
+
+    const history = this.historyFor(node.id);
+    const { promptId, agentId, agentName } = event;
+    if (event.type === 'agentPromptStart') {
+      history.agentCalls.push({ promptId, agentId, agentName, startIndex: index });
+      history.metrics.agentCalls++;
+    } else {
+      let call = history.agentCalls.find((c) => c.promptId === promptId && c.endIndex === undefined);
+      if (!call) {
+        call = { promptId, agentId, agentName };
+        history.agentCalls.push(call);
+        history.metrics.agentCalls++;
+      }
+      Object.assign(call, {
+        endIndex: index,
+        duration: event.duration,
+        tokenUsage: event.tokenUsage,
+        model: event.model,
+        costUsd: event.costUsd,
+      });
+      history.metrics.tokenUsage.input += event.tokenUsage?.input_tokens ?? 0;
+      history.metrics.tokenUsage.output += event.tokenUsage?.output_tokens ?? 0;
+      history.metrics.costUsd += event.costUsd ?? 0;
+    }
+
+    node.events.push(event);
+  }
+
+  /**
+   * Handle toolInvocation event - record a tool call.
+   *
+   * @param event - ToolInvocationEvent
+   * @param index - Index of the event
+   */
+  private handleToolInvocation(event: Extract<WorkflowEvent, { type: 'toolInvocation' }>, index: number): void {
+    const node = this.nodeMap.get(event.node.id);
+    if (!node) {
+      return;
+    }
+
+    const history = this.historyFor(node.id);
+    history.toolCalls.push({
+      toolName: event.toolName,
+      input: event.input,
+      output: event.output,
+      duration: event.duration,
+      eventIndex: index,
+    });
+    history.metrics.toolCalls++;
+    node.events.push(event);
+  }
+
+  /**
+   * Handle events that only count towards the node's metrics.
+   *
+   * @param event - invalidResponse, cacheHit/Miss or reflectionStart/End event
+   */
+  private handleCountedEvent(
+    event: Extract<
+      WorkflowEvent,
+      { type: 'invalidResponse' | 'cacheHit' | 'cacheMiss' | 'reflectionStart' | 'reflectionEnd' }
+    >
+  ): void {
+    const node = this.nodeMap.get(event.node.id);
+    if (!node) {
+      return;
+    }
+
+    const { metrics } = this.historyFor(node.id);
+    if (event.type === 'invalidResponse') {
+      metrics.invalidResponses++;
+    } else if (event.type === 'cacheHit') {
+      metrics.cacheHits++;
+    } else if (event.type === 'cacheMiss') {
+      metrics.cacheMisses++;
+    } else if (event.type === 'reflectionStart') {
+      metrics.reflections++;
+    }
+    node.events.push(event);
+  }
+
+  /**
+   * Attach a step node that was added to the tree without childAttached.
+   *
+   * ctx.step pushes its step node onto the parent directly, so the first
+   * stepStart event is where the replayer learns about it.
+   *
+   * @param stepNode - Node of a stepStart event
+   * @returns The attached node, or undefined if its parent is not in the tree
+   */
+  private attachStepNode(stepNode: WorkflowNode): WorkflowNode | undefined {
+    const parent = stepNode.parent ? this.nodeMap.get(stepNode.parent.id) : undefined;
+    if (!parent) {
+      return undefined;
+    }
+
+    const node: WorkflowNode = {
+      id: stepNode.id,
+      name: stepNode.name,
+      parent,
+      children: [],
+      status: 'running',
+      logs: [],
+      events: [],
+      stateSnapshot: null,
+    };
+    parent.children.push(node);
+    this.nodeMap.set(node.id, node);
+    this.stepNodeIds.add(node.id);
+    return node;
+  }
+
+  /**
+   * Get or create the history of a node.
+   */
+  private historyFor(nodeId: string): ReplayNodeHistory {
+    let history = this.histories.get(nodeId);
+    if (!history) {
+      history = {
+        nodeId,
+        agentCalls: [],
+        toolCalls: [],
+        retries: [],
+        metrics: {
+          agentCalls: 0,
+          toolCalls: 0,
+          retries: 0,
+          restarts: 0,
+          invalidResponses: 0,
+          cacheHits: 0,
+          cacheMisses: 0,
+          reflections: 0,
+          tokenUsage: { input: 0, output: 0 },
+          costUsd: 0,
+          stepDurationMs: 0,
+        },
+      };
+      this.histories.set(nodeId, history);
+    }
+    return history;
+  }
+
   /**
    * Build node lookup map recursively (pattern from WorkflowTreeDebugger).
    *
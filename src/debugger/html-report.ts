@@ -0,0 +1,379 @@
+/**
+ * Static HTML run reports
+ *
+ * @module
+ * @remarks
+ * Used by `WorkflowTreeDebugger.exportHtml()`. The report is a single HTML
+ * file with inline styles and no scripts: the tree is made of `<details>`
+ * elements, so it can be opened from disk or attached to a ticket.
+ */
+
+import type { WorkflowNode, WorkflowEvent, LogEntry } from '../types/index.js';
+import type { WorkflowTreeDebugger } from './tree-debugger.js';
+
+/**
+ * An event shown in the report, with the time it happened when known
+ */
+export interface HtmlReportEvent {
+  event: WorkflowEvent;
+  timestamp?: number;
+}
+
+/**
+ * Data a report is rendered from
+ */
+export interface HtmlReportData {
+  /** Root of the workflow tree */
+  root: WorkflowNode;
+  /** Plain text tree (toTreeString()) */
+  treeText: string;
+  /** Logs of every node in the tree */
+  logs: LogEntry[];
+  /** Tree statistics (getStats()) */
+  stats: ReturnType<WorkflowTreeDebugger['getStats']>;
+  /** Events in the order they happened, each event once */
+  events: HtmlReportEvent[];
+  /** When the report was generated (ms since epoch) */
+  generatedAt: number;
+}
+
+/**
+ * What the events say about one node
+ */
+interface NodeFacts {
+  start?: number;
+  end?: number;
+  /** Duration reported by the node's own stepEnd event (ctx.step nodes) */
+  stepDuration?: number;
+  inputTokens: number;
+  outputTokens: number;
+  errors: Array<{ message: string; stack?: string; state: unknown; timestamp?: number }>;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  idle: '#9aa0a6',
+  running: '#1a73e8',
+  completed: '#188038',
+  failed: '#d93025',
+  cancelled: '#e37400',
+  waiting: '#9334e6',
+};
+
+const STYLES = `
+body { font: 14px/1.45 system-ui, sans-serif; margin: 24px; color: #202124; }
+h1 { font-size: 20px; margin: 0 0 4px; }
+h2 { font-size: 16px; margin: 28px 0 8px; border-bottom: 1px solid #dadce0; padding-bottom: 4px; }
+.meta { color: #5f6368; }
+.stats { display: flex; flex-wrap: wrap; gap: 12px; margin-top: 12px; }
+.stat { border: 1px solid #dadce0; border-radius: 6px; padding: 6px 12px; }
+.stat b { display: block; font-size: 18px; }
+details { margin-left: 18px; }
+summary { cursor: pointer; padding: 2px 0; }
+.status { display: inline-block; border-radius: 4px; color: #fff; font-size: 12px; padding: 0 6px; margin-right: 6px; }
+.muted { color: #5f6368; font-size: 12px; margin-left: 6px; }
+.error { border-left: 3px solid #d93025; background: #fce8e6; padding: 6px 10px; margin: 6px 0 6px 18px; }
+pre { background: #f1f3f4; padding: 8px; overflow-x: auto; font-size: 12px; margin: 4px 0; }
+table { border-collapse: collapse; width: 100%; font-size: 12px; }
+td, th { text-align: left; padding: 2px 8px; border-bottom: 1px solid #f1f3f4; vertical-align: top; }
+.lane { position: relative; height: 14px; background: #f1f3f4; }
+.bar { position: absolute; top: 0; height: 14px; min-width: 2px; }
+`;
+
+/**
+ * Render a self-contained HTML report of a workflow run
+ *
+ * @param data - Tree, logs, stats and events of the run
+ * @returns HTML document
+ */
+export function renderHtmlReport(data: HtmlReportData): string {
+  const facts = collectNodeFacts(data.root, data.events);
+  const { root, stats } = data;
+  const tokens = sumSubtree(root, (node) => {
+    const fact = facts.get(node.id);
+    return (fact?.inputTokens ?? 0) + (fact?.outputTokens ?? 0);
+  });
+
+  const byStatus = Object.entries(stats.byStatus)
+    .map(([status, count]) => `${count} ${status}`)
+    .join(', ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(root.name)} - run report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${statusBadge(root.status)}${escapeHtml(root.name)}</h1>
+<div class="meta">Generated ${escapeHtml(new Date(data.generatedAt).toISOString())}</div>
+<div class="stats">
+${stat('Nodes', `${stats.totalNodes}`, byStatus)}
+${stat('Duration', formatDuration(durationOf(root, facts)))}
+${stat('Tokens', `${tokens.get(root.id) ?? 0}`)}
+${stat('Cost', formatCost(stats.totalCostUsd))}
+${stat('Logs', `${stats.totalLogs}`)}
+${stat('Events', `${stats.totalEvents}`)}
+</div>
+<h2>Tree</h2>
+${renderNode(root, facts, tokens, stats.costByNode)}
+<details><summary>Plain text</summary><pre>${escapeHtml(data.treeText)}</pre></details>
+<h2>Timeline</h2>
+${renderTimeline(root, data.events, facts)}
+<h2>Logs</h2>
+${renderLogs(data.logs, root)}
+</body>
+</html>
+`;
+}
+
+/**
+ * Gather times, token usage and errors of each node from the events
+ */
+function collectNodeFacts(root: WorkflowNode, events: HtmlReportEvent[]): Map<string, NodeFacts> {
+  const facts = new Map<string, NodeFacts>();
+  const factsFor = (id: string): NodeFacts => {
+    let fact = facts.get(id);
+    if (!fact) {
+      fact = { inputTokens: 0, outputTokens: 0, errors: [] };
+      facts.set(id, fact);
+    }
+    return fact;
+  };
+
+  for (const { event, timestamp } of events) {
+    const node = eventNode(event);
+    if (!node) continue;
+    const fact = factsFor(node.id);
+
+    if (timestamp !== undefined) {
+      fact.start = Math.min(fact.start ?? timestamp, timestamp);
+      fact.end = Math.max(fact.end ?? timestamp, timestamp);
+    }
+    if (event.type === 'stepEnd' && event.step === event.node.name) {
+      fact.stepDuration = event.duration;
+    }
+    if (event.type === 'agentPromptEnd' && event.tokenUsage) {
+      fact.inputTokens += event.tokenUsage.input_tokens;
+      fact.outputTokens += event.tokenUsage.output_tokens;
+    }
+    if (event.type === 'error') {
+      fact.errors.push({
+        message: event.error.message,
+        stack: event.error.stack,
+        state: event.error.state,
+        timestamp,
+      });
+    }
+  }
+
+  // A workflow spans the time of its own events and those of its children
+  const span = (node: WorkflowNode): void => {
+    node.children.forEach(span);
+    const fact = factsFor(node.id);
+    for (const child of node.children) {
+      const childFact = factsFor(child.id);
+      if (childFact.start !== undefined) fact.start = Math.min(fact.start ?? childFact.start, childFact.start);
+      if (childFact.end !== undefined) fact.end = Math.max(fact.end ?? childFact.end, childFact.end);
+    }
+  };
+  span(root);
+
+  return facts;
+}
+
+function renderNode(
+  node: WorkflowNode,
+  facts: Map<string, NodeFacts>,
+  tokens: Map<string, number>,
+  costByNode: Record<string, number>
+): string {
+  const fact = facts.get(node.id);
+  const details: string[] = [];
+
+  const duration = durationOf(node, facts);
+  if (duration !== undefined) details.push(formatDuration(duration));
+  if (tokens.get(node.id)) {
+    details.push(`${tokens.get(node.id)} tokens`);
+  }
+  if (costByNode[node.id]) details.push(formatCost(costByNode[node.id]));
+  if (node.logs.length > 0) details.push(`${node.logs.length} logs`);
+
+  let body = '';
+  if (fact && (fact.inputTokens > 0 || fact.outputTokens > 0)) {
+    body += `<div class="muted">Own token usage: ${fact.inputTokens} in, ${fact.outputTokens} out</div>`;
+  }
+  for (const error of fact?.errors ?? []) {
+    body += `<div class="error"><b>${escapeHtml(error.message)}</b>`;
+    if (error.stack) body += `<pre>${escapeHtml(error.stack)}</pre>`;
+    body += `<div>State at failure</div><pre>${escapeHtml(toJson(error.state))}</pre></div>`;
+  }
+  if (node.stateSnapshot) {
+    body += `<details><summary>State snapshot</summary><pre>${escapeHtml(toJson(node.stateSnapshot))}</pre></details>`;
+  }
+  if (node.logs.length > 0) {
+    body += `<details><summary>Logs (${node.logs.length})</summary>${renderLogTable(node.logs, () => undefined)}</details>`;
+  }
+  body += node.children.map((child) => renderNode(child, facts, tokens, costByNode)).join('\n');
+
+  // GOTCHA: Failed nodes and their ancestors start expanded so the error is visible
+  const open = node.parent === null || hasFailure(node) ? ' open' : '';
+  return `<details${open}><summary>${statusBadge(node.status)}${escapeHtml(node.name)}<span class="muted">${escapeHtml(details.join(' · '))}</span></summary>${body}</details>`;
+}
+
+function renderTimeline(root: WorkflowNode, events: HtmlReportEvent[], facts: Map<string, NodeFacts>): string {
+  const rootFact = facts.get(root.id);
+  const start = rootFact?.start;
+  const total = start !== undefined && rootFact?.end !== undefined ? Math.max(rootFact.end - start, 1) : undefined;
+
+  let lanes = '';
+  if (start !== undefined && total !== undefined) {
+    const rows: string[] = [];
+    const visit = (node: WorkflowNode, depth: number): void => {
+      const fact = facts.get(node.id);
+      const duration = durationOf(node, facts);
+      if (fact?.end !== undefined && duration !== undefined) {
+        const left = ((fact.end - duration - start) / total) * 100;
+        const width = (duration / total) * 100;
+        const color = STATUS_COLORS[node.status] ?? STATUS_COLORS.idle;
+        rows.push(
+          `<tr><td style="padding-left:${depth * 14 + 8}px">${escapeHtml(node.name)}</td>` +
+            `<td style="width:70%"><div class="lane"><div class="bar" style="left:${Math.max(left, 0).toFixed(2)}%;width:${width.toFixed(2)}%;background:${color}"></div></div></td>` +
+            `<td>${formatDuration(duration)}</td></tr>`
+        );
+      }
+      node.children.forEach((child) => visit(child, depth + 1));
+    };
+    visit(root, 0);
+    lanes = `<table>${rows.join('\n')}</table>`;
+  } else {
+    lanes = '<p class="meta">No event times were recorded (enable persistEvents on the debugger).</p>';
+  }
+
+  const rows = events.map(({ event, timestamp }) => {
+    const offset = timestamp !== undefined && start !== undefined ? `+${timestamp - start}ms` : '';
+    const node = eventNode(event);
+    return `<tr><td>${offset}</td><td>${escapeHtml(event.type)}</td><td>${escapeHtml(node?.name ?? '')}</td><td>${escapeHtml(describeEvent(event))}</td></tr>`;
+  });
+
+  return `${lanes}
+<details><summary>Events (${events.length})</summary><table><tr><th>Time</th><th>Event</th><th>Node</th><th>Details</th></tr>
+${rows.join('\n')}
+</table></details>`;
+}
+
+function renderLogs(logs: LogEntry[], root: WorkflowNode): string {
+  if (logs.length === 0) {
+    return '<p class="meta">No logs.</p>';
+  }
+  const names = new Map<string, string>();
+  const visit = (node: WorkflowNode): void => {
+    names.set(node.id, node.name);
+    node.children.forEach(visit);
+  };
+  visit(root);
+  const sorted = [...logs].sort((a, b) => a.timestamp - b.timestamp);
+  return renderLogTable(sorted, (log) => names.get(log.workflowId) ?? log.workflowId);
+}
+
+function renderLogTable(logs: LogEntry[], nodeName: (log: LogEntry) => string | undefined): string {
+  const rows = logs.map((log) => {
+    const name = nodeName(log);
+    return `<tr><td>${escapeHtml(new Date(log.timestamp).toISOString())}</td><td>${escapeHtml(log.level.toUpperCase())}</td>${name === undefined ? '' : `<td>${escapeHtml(name)}</td>`}<td>${escapeHtml(log.message)}</td></tr>`;
+  });
+  return `<table>${rows.join('\n')}</table>`;
+}
+
+/**
+ * One-line summary of an event for the timeline
+ */
+function describeEvent(event: WorkflowEvent): string {
+  switch (event.type) {
+    case 'stepStart':
+      return event.step;
+    case 'stepEnd':
+      return `${event.step} (${formatDuration(event.duration)})`;
+    case 'error':
+      return event.error.message;
+    case 'stepRetry':
+      return `${event.stepName} retry ${event.retryCount}: ${event.error.message}`;
+    case 'agentPromptStart':
+      return event.agentName;
+    case 'agentPromptEnd': {
+      const parts = [event.agentName, formatDuration(event.duration)];
+      if (event.tokenUsage) parts.push(`${event.tokenUsage.input_tokens}/${event.tokenUsage.output_tokens} tokens`);
+      if (event.costUsd !== undefined) parts.push(formatCost(event.costUsd));
+      return parts.join(', ');
+    }
+    case 'toolInvocation':
+      return `${event.toolName} (${formatDuration(event.duration)})`;
+    case 'childAttached':
+      return event.child.name;
+    case 'paused':
+      return event.step;
+    default:
+      return '';
+  }
+}
+
+function eventNode(event: WorkflowEvent): WorkflowNode | undefined {
+  if (event.type === 'childAttached') return event.child;
+  if (event.type === 'treeUpdated') return event.root;
+  return 'node' in event ? event.node : undefined;
+}
+
+function durationOf(node: WorkflowNode, facts: Map<string, NodeFacts>): number | undefined {
+  const fact = facts.get(node.id);
+  if (fact?.stepDuration !== undefined) return fact.stepDuration;
+  return fact?.start !== undefined && fact.end !== undefined ? fact.end - fact.start : undefined;
+}
+
+function sumSubtree(root: WorkflowNode, own: (node: WorkflowNode) => number): Map<string, number> {
+  const totals = new Map<string, number>();
+  const sum = (node: WorkflowNode): number => {
+    const total = node.children.reduce((acc, child) => acc + sum(child), own(node));
+    totals.set(node.id, total);
+    return total;
+  };
+  sum(root);
+  return totals;
+}
+
+function hasFailure(node: WorkflowNode): boolean {
+  return node.status === 'failed' || node.children.some(hasFailure);
+}
+
+function statusBadge(status: string): string {
+  const color = STATUS_COLORS[status] ?? STATUS_COLORS.idle;
+  return `<span class="status" style="background:${color}">${escapeHtml(status)}</span>`;
+}
+
+function stat(label: string, value: string, detail?: string): string {
+  return `<div class="stat">${escapeHtml(label)}<b>${escapeHtml(value)}</b>${detail ? `<span class="muted">${escapeHtml(detail)}</span>` : ''}</div>`;
+}
+
+function formatDuration(ms: number | undefined): string {
+  if (ms === undefined) return '-';
+  return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(2)}s`;
+}
+
+function formatCost(usd: number): string {
+  return `$${usd.toFixed(4)}`;
+}
+
+function toJson(value: unknown): string {
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
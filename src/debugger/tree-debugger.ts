@@ -3,11 +3,27 @@ import type {
   WorkflowEvent,
   WorkflowObserver,
   LogEntry,
+  SavedEventHistory,
+  SavedWorkflowEvent,
+  SavedWorkflowNode,
+  Breakpoint,
+  PausedStep,
+  SerializedWorkflowState,
+  ChromeTrace,
 } from '../types/index.js';
 import { Observable } from '../utils/observable.js';
+import { collectSubtreeCosts } from '../utils/model-catalog.js';
 import type { Workflow } from '../core/workflow.js';
 import { writeFile, readFile } from 'fs/promises';
-import { WorkflowEventReplayer } from './event-replayer.js';
+import {
+  EVENT_HISTORY_VERSION,
+  parseEventHistory,
+  restoreEventHistory,
+  serializeWorkflowEvent,
+} from './event-history.js';
+import { BreakpointController, type BreakpointTarget } from './breakpoints.js';
+import { renderHtmlReport, type HtmlReportEvent } from './html-report.js';
+import { buildChromeTrace } from './chrome-trace.js';
 
 /**
  * Status symbols for tree visualization
@@ -18,6 +34,7 @@ const STATUS_SYMBOLS: Record<string, string> = {
   completed: '✓',
   failed: '✗',
   cancelled: '⊘',
+  waiting: '⏸',
 };
 
 /**
@@ -43,9 +60,16 @@ export class WorkflowTreeDebugger implements WorkflowObserver {
   /** Maximum event history size (optional, for memory management) */
   private maxEventHistorySize?: number;
 
+  /** When each persisted event was received, for events without their own timestamp */
+  private eventTimes = new WeakMap<WorkflowEvent, number>();
+
+  /** Breakpoints and paused steps of the debugged workflow */
+  private breakpoints: BreakpointController;
+
   /**
    * Create a tree debugger attached to a workflow
-   * @param workflow The root workflow to debug
+   * @param workflow The root workflow to debug, or any source of a root node
+   *   (the debugger only registers as observer when it has `addObserver()`)
    * @param options Configuration options
    * @param options.persistEvents Whether to accumulate event history (default: false)
    * @param options.maxEventHistorySize Maximum number of events to keep (optional, FIFO eviction)
@@ -66,11 +90,12 @@ export class WorkflowTreeDebugger implements WorkflowObserver {
    * ```
    */
   constructor(
-    workflow: Workflow,
+    workflow: BreakpointTarget & Partial<Pick<Workflow, 'addObserver'>>,
     options?: { persistEvents?: boolean; maxEventHistorySize?: number }
   ) {
     this.root = workflow.getNode();
     this.events = new Observable<WorkflowEvent>();
+    this.breakpoints = new BreakpointController(workflow);
 
     // Extract options with defaults
     this.persistEvents = options?.persistEvents ?? false;
@@ -85,7 +110,7 @@ export class WorkflowTreeDebugger implements WorkflowObserver {
     this.buildNodeMap(this.root);
 
     // Register as observer on the workflow
-    workflow.addObserver(this);
+    workflow.addObserver?.(this);
   }
 
   /**
@@ -147,6 +172,7 @@ export class WorkflowTreeDebugger implements WorkflowObserver {
         this.eventHistory.shift(); // Remove oldest event
       }
       this.eventHistory.push(event);
+      this.eventTimes.set(event, Date.now());
     }
 
     // Handle structural events with incremental updates
@@ -280,18 +306,26 @@ export class WorkflowTreeDebugger implements WorkflowObserver {
 
   /**
    * Get summary statistics for the tree
+   *
+   * `totalCostUsd` is the model catalog cost of every agent call in the tree,
+   * and `costByNode` maps each node id to the cost of its subtree.
    */
   getStats(): {
     totalNodes: number;
     byStatus: Record<string, number>;
     totalLogs: number;
     totalEvents: number;
+    totalCostUsd: number;
+    costByNode: Record<string, number>;
   } {
+    const costs = collectSubtreeCosts(this.root);
     const stats = {
       totalNodes: 0,
       byStatus: {} as Record<string, number>,
       totalLogs: 0,
       totalEvents: 0,
+      totalCostUsd: costs.get(this.root.id) ?? 0,
+      costByNode: Object.fromEntries(costs),
     };
 
     this.collectStats(this.root, stats);
@@ -313,234 +347,277 @@ export class WorkflowTreeDebugger implements WorkflowObserver {
   }
 
   // ============================================================
-  // Event Persistence API
+  // HTML Report API
   // ============================================================
 
   /**
-   * Get the accumulated event history
-   * Returns a copy to prevent external modification
+   * Render the run as a self-contained HTML report
    *
-   * @returns Copy of event history array, or empty array if persistence disabled
+   * The report shows the collapsible tree with status, duration, token usage
+   * and cost per node, errors with the state at failure, state snapshots,
+   * a timeline of the events and all logs. It has inline styles and no
+   * scripts, so it opens from disk without a server.
+   *
+   * GOTCHA: Durations and the timeline need event times, which the debugger
+   * only records with `persistEvents: true` (or from a saved history).
+   *
+   * @returns HTML document
+   */
+  toHtml(): string {
+    return renderHtmlReport({
+      root: this.root,
+      treeText: this.toTreeString(),
+      logs: this.collectLogs(this.root),
+      stats: this.getStats(),
+      events: this.collectTimedEvents(),
+      generatedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Write the HTML report (see toHtml()) to a file
+   *
+   * @param path - File path to write
+   * @throws {Error} If the file cannot be written
    *
    * @example
    * ```typescript
    * const debugger = new WorkflowTreeDebugger(workflow, { persistEvents: true });
    * await workflow.run();
-   * const events = debugger.getEventHistory();
-   * console.log(`Captured ${events.length} events`);
+   * await debugger.exportHtml('./nightly-report.html');
    * ```
    */
-  getEventHistory(): WorkflowEvent[] {
+  async exportHtml(path: string): Promise<void> {
+    try {
+      await writeFile(path, this.toHtml(), 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to export HTML report to ${path}: ${(error as Error).message}`);
+    }
+  }
+
+  // ============================================================
+  // Trace Export API
+  // ============================================================
+
+  /**
+   * Build a Chrome Trace Event Format trace of the run
+   *
+   * Steps, tasks, agent prompts and tool invocations become nested spans on
+   * one track per workflow (`ctx.step()` spans go on their workflow's
+   * track); cache hits, retries and errors are instant events.
+   *
+   * GOTCHA: Spans need event times, which the debugger only records with
+   * `persistEvents: true` (or from a saved history).
+   *
+   * @returns Trace in the JSON Object Format
+   */
+  toChromeTrace(): ChromeTrace {
+    return buildChromeTrace(this.root, this.collectTimedEvents());
+  }
+
+  /**
+   * Write the trace (see toChromeTrace()) to a JSON file that opens in
+   * Perfetto (ui.perfetto.dev) or chrome://tracing
+   *
+   * @param path - File path to write
+   * @throws {Error} If the file cannot be written
+   *
+   * @example
+   * ```typescript
+   * const debugger = new WorkflowTreeDebugger(workflow, { persistEvents: true });
+   * await workflow.run();
+   * await debugger.exportChromeTrace('./run.trace.json');
+   * ```
+   */
+  async exportChromeTrace(path: string): Promise<void> {
+    try {
+      await writeFile(path, JSON.stringify(this.toChromeTrace()), 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to export Chrome trace to ${path}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Events with the time they happened: the persisted history, or else the
+   * events recorded on the nodes (each once, without times they do not carry)
+   */
+  private collectTimedEvents(): HtmlReportEvent[] {
+    let events = this.eventHistory;
     if (!this.persistEvents) {
-      return [];
+      const seen = new Set<WorkflowEvent>();
+      const visit = (node: WorkflowNode): void => {
+        node.events.forEach((event) => seen.add(event));
+        node.children.forEach(visit);
+      };
+      visit(this.root);
+      events = [...seen];
     }
-    // Return copy to prevent external modification
-    return [...this.eventHistory];
+    return events.map((event) => ({
+      event,
+      timestamp: this.eventTimes.get(event) ?? (event as { timestamp?: number }).timestamp,
+    }));
   }
 
+  // ============================================================
+  // Breakpoint API
+  // ============================================================
+
   /**
-   * Serialize a WorkflowEvent to JSON-safe format
-   * Extracts only primitive fields to avoid circular references in WorkflowNode objects
+   * Pause the workflow before a step runs
    *
-   * **Strategy:**
-   * - Extract nodeId and nodeName from WorkflowNode references
-   * - Skip WorkflowNode.parent, WorkflowNode.children (circular refs)
-   * - Skip WorkflowError.original (could be circular)
-   * - Add timestamp for chronological ordering
+   * Matching `@Step` methods and `ctx.step()` calls wait before their body
+   * runs (after retries, checkpoints and middleware registered earlier have
+   * been applied), and a `paused` event is emitted. While paused, read and
+   * change the step's `@ObservedState` fields with getPausedState() and
+   * setPausedState(), then continue with resume() or stepOver().
    *
-   * **Circular Reference Handling:**
-   * - WorkflowNode has bidirectional links (parent ↔ children)
-   * - WorkflowNode.events[] contains WorkflowEvents that reference WorkflowNodes
-   * - JSON.stringify would throw TypeError without selective extraction
+   * GOTCHA: Time spent paused counts against step timeouts and workflow
+   * deadlines; a step that is cancelled or times out while paused fails
+   * without running.
    *
-   * @param event - The workflow event to serialize
-   * @returns JSON-safe object with primitive fields only
+   * @param breakpoint - Step name (or pattern) and optional predicate
+   * @returns Breakpoint ID (for removeBreakpoint())
+   * @throws {Error} If the debugger has no live workflow (e.g. fromEventHistory())
    *
    * @example
    * ```typescript
-   * const event: WorkflowEvent = {
-   *   type: 'stateSnapshot',
-   *   node: { id: 'wf-123', name: 'MyWorkflow', ... }
-   * };
-   * const serialized = serializeEvent(event);
-   * // { type: 'stateSnapshot', timestamp: 1234567890, nodeId: 'wf-123', nodeName: 'MyWorkflow', stateSnapshot: {...} }
+   * const debugger = new WorkflowTreeDebugger(workflow);
+   * debugger.setBreakpoint({ step: 'plan', when: ({ state }) => state.attempts > 0 });
+   * debugger.events.subscribe({
+   *   next: (event) => {
+   *     if (event.type !== 'paused') return;
+   *     console.log(debugger.getPausedState());
+   *     debugger.setPausedState({ temperature: 0 });
+   *     debugger.resume();
+   *   },
+   * });
+   * await workflow.run();
    * ```
    */
-  private serializeEvent(event: WorkflowEvent): unknown {
-    const timestamp = Date.now();
+  setBreakpoint(breakpoint: Breakpoint): string {
+    return this.breakpoints.add(breakpoint);
+  }
 
-    switch (event.type) {
-      // Core events
-      case 'childAttached':
-        return {
-          type: event.type,
-          timestamp,
-          parentId: event.parentId,
-          childId: event.child.id,
-          childName: event.child.name,
-          childStatus: event.child.status,
-        };
+  /**
+   * Remove a breakpoint (a step it already paused stays paused)
+   * @returns Whether the breakpoint existed
+   */
+  removeBreakpoint(id: string): boolean {
+    return this.breakpoints.remove(id);
+  }
 
-      case 'childDetached':
-        return {
-          type: event.type,
-          timestamp,
-          parentId: event.parentId,
-          childId: event.childId,
-        };
-
-      case 'stateSnapshot':
-        return {
-          type: event.type,
-          timestamp,
-          nodeId: event.node.id,
-          nodeName: event.node.name,
-          stateSnapshot: event.node.stateSnapshot,
-        };
-
-      case 'stepStart':
-        return {
-          type: event.type,
-          timestamp,
-          nodeId: event.node.id,
-          nodeName: event.node.name,
-          step: event.step,
-        };
-
-      case 'stepEnd':
-        return {
-          type: event.type,
-          timestamp,
-          nodeId: event.node.id,
-          nodeName: event.node.name,
-          step: event.step,
-          duration: event.duration,
-        };
-
-      case 'error':
-        return {
-          type: event.type,
-          timestamp,
-          nodeId: event.node.id,
-          nodeName: event.node.name,
-          error: {
-            message: event.error.message,
-            workflowId: event.error.workflowId,
-            state: event.error.state,
-            logs: event.error.logs,
-            stack: event.error.stack,
-            // Skip 'original' field - could be circular
-          },
-        };
-
-      case 'taskStart':
-      case 'taskEnd':
-        return {
-          type: event.type,
-          timestamp,
-          nodeId: event.node.id,
-          nodeName: event.node.name,
-          task: event.task,
-        };
+  /**
+   * Remove all breakpoints
+   */
+  clearBreakpoints(): void {
+    this.breakpoints.clear();
+  }
 
-      case 'treeUpdated':
-        return {
-          type: event.type,
-          timestamp,
-          rootId: event.root.id,
-          rootName: event.root.name,
-        };
-
-      // Agent/Prompt events
-      case 'agentPromptStart':
-        return {
-          type: event.type,
-          timestamp,
-          agentId: event.agentId,
-          agentName: event.agentName,
-          promptId: event.promptId,
-          nodeId: event.node.id,
-          nodeName: event.node.name,
-        };
-
-      case 'agentPromptEnd':
-        return {
-          type: event.type,
-          timestamp,
-          agentId: event.agentId,
-          agentName: event.agentName,
-          promptId: event.promptId,
-          nodeId: event.node.id,
-          nodeName: event.node.name,
-          duration: event.duration,
-          tokenUsage: event.tokenUsage,
-        };
-
-      // Tool events
-      case 'toolInvocation':
-        return {
-          type: event.type,
-          timestamp,
-          toolName: event.toolName,
-          input: event.input,
-          output: event.output,
-          duration: event.duration,
-          nodeId: event.node.id,
-          nodeName: event.node.name,
-        };
-
-      // MCP events
-      case 'mcpEvent':
-        return {
-          type: event.type,
-          timestamp,
-          serverName: event.serverName,
-          event: event.event,
-          payload: event.payload,
-          nodeId: event.node.id,
-          nodeName: event.node.name,
-        };
-
-      // Reflection events
-      case 'reflectionStart':
-        return {
-          type: event.type,
-          timestamp,
-          level: event.level,
-          nodeId: event.node.id,
-          nodeName: event.node.name,
-        };
-
-      case 'reflectionEnd':
-        return {
-          type: event.type,
-          timestamp,
-          level: event.level,
-          success: event.success,
-          nodeId: event.node.id,
-          nodeName: event.node.name,
-        };
-
-      // Cache events
-      case 'cacheHit':
-      case 'cacheMiss':
-        return {
-          type: event.type,
-          timestamp,
-          key: event.key,
-          nodeId: event.node.id,
-          nodeName: event.node.name,
-        };
+  /**
+   * Whether a step is paused
+   */
+  isPaused(): boolean {
+    return this.breakpoints.current() !== undefined;
+  }
 
-      default:
-        // Should not happen with TypeScript discriminated union
-        // But handle gracefully for unknown event types
-        return {
-          type: (event as { type: string }).type,
-          timestamp,
-          rawData: JSON.stringify(event),
-        };
+  /**
+   * Get the paused step, if any
+   */
+  getPausedStep(): PausedStep | undefined {
+    return this.breakpoints.current();
+  }
+
+  /**
+   * Let the paused step run
+   * @throws {Error} If no step is paused
+   */
+  resume(): void {
+    this.breakpoints.resume();
+  }
+
+  /**
+   * Let the paused step run and pause again at the next step that starts
+   * @throws {Error} If no step is paused
+   */
+  stepOver(): void {
+    this.breakpoints.resume(true);
+  }
+
+  /**
+   * Get the `@ObservedState` fields of the paused step's workflow
+   * (hidden fields are left out and redacted fields masked, as in snapshots)
+   * @throws {Error} If no step is paused
+   */
+  getPausedState(): SerializedWorkflowState {
+    return this.breakpoints.getState();
+  }
+
+  /**
+   * Change `@ObservedState` fields of the paused step's workflow
+   * The change is visible to the step when it runs, and a state snapshot is taken.
+   * @param fields - New field values by field name
+   * @throws {Error} If no step is paused or a field is not an `@ObservedState` field
+   */
+  setPausedState(fields: Record<string, unknown>): void {
+    this.breakpoints.setState(fields);
+  }
+
+  // ============================================================
+  // Event Persistence API
+  // ============================================================
+
+  /**
+   * Get the accumulated event history
+   * Returns a copy to prevent external modification
+   *
+   * @returns Copy of event history array, or empty array if persistence disabled
+   *
+   * @example
+   * ```typescript
+   * const debugger = new WorkflowTreeDebugger(workflow, { persistEvents: true });
+   * await workflow.run();
+   * const events = debugger.getEventHistory();
+   * console.log(`Captured ${events.length} events`);
+   * ```
+   */
+  getEventHistory(): WorkflowEvent[] {
+    if (!this.persistEvents) {
+      return [];
     }
+    // Return copy to prevent external modification
+    return [...this.eventHistory];
+  }
+
+  /**
+   * Serialize a WorkflowEvent to JSON-safe format (see serializeWorkflowEvent())
+   *
+   * Events without their own timestamp get the time the debugger received them.
+   */
+  private serializeEvent(event: WorkflowEvent): SavedWorkflowEvent {
+    // GOTCHA: Restored events keep the timestamp they were saved with
+    const timestamp = this.eventTimes.get(event) ?? (event as { timestamp?: number }).timestamp ?? Date.now();
+    return serializeWorkflowEvent(event, timestamp);
+  }
+
+  /**
+   * Serialize a node and its descendants without `parent` links
+   *
+   * @param node - Node to serialize
+   * @param indices - Position of each history event in the saved event list
+   */
+  private serializeNode(node: WorkflowNode, indices: Map<WorkflowEvent, number>): SavedWorkflowNode {
+    return {
+      id: node.id,
+      name: node.name,
+      status: node.status,
+      logs: [...node.logs],
+      stateSnapshot: node.stateSnapshot,
+      events: node.events.flatMap((event) => {
+        const index = indices.get(event);
+        return index === undefined ? [] : [index];
+      }),
+      children: node.children.map((child) => this.serializeNode(child, indices)),
+    };
   }
 
   /**
@@ -551,6 +628,10 @@ export class WorkflowTreeDebugger implements WorkflowObserver {
    * - Uses serializeEvent() to extract primitive fields only
    * - Avoids circular references in WorkflowNode objects
    * - Adds timestamp for chronological ordering
+   * - Stores the current tree (without `parent` links) next to the events,
+   *   so fromEventHistory() can restore nodes, logs and statuses
+   *
+   * The file contains a versioned SavedEventHistory object.
    *
    * **Error Handling:**
    * - Throws descriptive errors for file system issues
@@ -577,9 +658,17 @@ export class WorkflowTreeDebugger implements WorkflowObserver {
       const serialized = this.eventHistory.map((event) =>
         this.serializeEvent(event)
       );
+      const indices = new Map(this.eventHistory.map((event, index) => [event, index]));
+
+      const history: SavedEventHistory = {
+        version: EVENT_HISTORY_VERSION,
+        savedAt: Date.now(),
+        tree: this.serializeNode(this.root, indices),
+        events: serialized,
+      };
 
       // Convert to JSON string
-      const json = JSON.stringify(serialized, null, 2);
+      const json = JSON.stringify(history, null, 2);
 
       // Write to file
       await writeFile(path, json, 'utf-8');
@@ -616,41 +705,42 @@ export class WorkflowTreeDebugger implements WorkflowObserver {
    * Load event history from a JSON file
    * Static method that can be called without instantiating WorkflowTreeDebugger
    *
+   * Accepts versioned files written by saveEventHistory() and the plain
+   * event arrays written before the format was versioned.
+   *
    * **Error Handling:**
    * - Throws descriptive errors for file system issues
    * - Throws descriptive errors for invalid JSON
    *
    * @param path - File path to read event history from
-   * @returns Parsed event array (unknown[] - caller should validate structure)
+   * @returns Saved event array (unknown[] - caller should validate structure)
    * @throws {Error} If file does not exist
    * @throws {Error} If file cannot be read (permission denied, etc.)
-   * @throws {Error} If file contains invalid JSON
+   * @throws {Error} If file contains invalid JSON or an unsupported version
    *
    * @example
    * ```typescript
    * const events = await WorkflowTreeDebugger.loadEventHistory('./workflow-execution.json');
+   * console.log(`Loaded ${events.length} events`);
    *
-   * // Use with WorkflowEventReplayer
-   * const replayer = new WorkflowEventReplayer();
-   * const tree = replayer.replay(events as WorkflowEvent[]);
+   * // To restore the tree as well, use fromEventHistoryFile()
+   * const debugger = await WorkflowTreeDebugger.fromEventHistoryFile('./workflow-execution.json');
    * ```
    */
   static async loadEventHistory(path: string): Promise<unknown[]> {
+    return (await WorkflowTreeDebugger.readEventHistory(path)).events;
+  }
+
+  /**
+   * Read and validate an event history file
+   */
+  private static async readEventHistory(path: string): Promise<SavedEventHistory> {
     try {
       // Read file
       const content = await readFile(path, 'utf-8');
 
-      // Parse JSON
-      const parsed = JSON.parse(content);
-
-      // Validate it's an array
-      if (!Array.isArray(parsed)) {
-        throw new Error(
-          `Invalid event history file: Expected array, got ${typeof parsed}`
-        );
-      }
-
-      return parsed;
+      // Parse JSON and validate the format
+      return parseEventHistory(JSON.parse(content));
     } catch (error) {
       const err = error as NodeJS.ErrnoException;
 
@@ -678,22 +768,93 @@ export class WorkflowTreeDebugger implements WorkflowObserver {
     }
   }
 
+  /**
+   * Create a debugger from a saved event history
+   *
+   * Restores the node tree with its logs, statuses, state snapshots and
+   * per-node events (so getStats() reports the same counts and costs), and
+   * the event history itself. `parent` links, which the file omits to avoid
+   * circular references, are rebuilt. Histories saved before the format was
+   * versioned carry no tree; their tree is rebuilt with WorkflowEventReplayer.
+   *
+   * The returned debugger is not attached to a workflow.
+   *
+   * @param history - Saved event history, or a legacy event array
+   * @returns A debugger over the restored tree, with persistEvents enabled
+   * @throws {Error} If the history is invalid or has an unsupported version
+   *
+   * @example
+   * ```typescript
+   * const history = JSON.parse(await readFile('./workflow-execution.json', 'utf-8'));
+   * const debugger = WorkflowTreeDebugger.fromEventHistory(history);
+   * console.log(debugger.toTreeString());
+   * console.log(debugger.toLogString());
+   * ```
+   */
+  static fromEventHistory(history: SavedEventHistory | unknown[]): WorkflowTreeDebugger {
+    const { root, events } = restoreEventHistory(parseEventHistory(history));
+
+    const restored = new WorkflowTreeDebugger({ getNode: () => root }, { persistEvents: true });
+    restored.eventHistory = events;
+    return restored;
+  }
+
+  /**
+   * Create a debugger from an event history file
+   *
+   * @param path - File written by saveEventHistory()
+   * @returns A debugger over the restored tree (see fromEventHistory())
+   * @throws {Error} If the file cannot be read or contains no valid history
+   *
+   * @example
+   * ```typescript
+   * const debugger = await WorkflowTreeDebugger.fromEventHistoryFile('./workflow-execution.json');
+   * console.log(debugger.getStats());
+   * ```
+   */
+  static async fromEventHistoryFile(path: string): Promise<WorkflowTreeDebugger> {
+    const history = await WorkflowTreeDebugger.readEventHistory(path);
+    try {
+      return WorkflowTreeDebugger.fromEventHistory(history);
+    } catch (error) {
+      throw new Error(
+        `Failed to restore event history from ${path}: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Write the HTML report of a saved event history
+   *
+   * Same report as exportHtml() on the live debugger, built from the file
+   * written by saveEventHistory().
+   *
+   * @param historyPath - File written by saveEventHistory()
+   * @param reportPath - File path to write the report to
+   * @throws {Error} If the history cannot be restored or the report cannot be written
+   *
+   * @example
+   * ```typescript
+   * await WorkflowTreeDebugger.exportEventHistoryHtml('./run.json', './run.html');
+   * ```
+   */
+  static async exportEventHistoryHtml(historyPath: string, reportPath: string): Promise<void> {
+    const restored = await WorkflowTreeDebugger.fromEventHistoryFile(historyPath);
+    await restored.exportHtml(reportPath);
+  }
+
   /**
    * Replay workflow execution from saved event history file.
    *
-   * This is a convenience method that combines loadEventHistory and
-   * WorkflowEventReplayer.replay() for one-call restoration of workflow trees.
+   * This is a convenience method that restores the tree saved with the
+   * events, or replays the events with WorkflowEventReplayer for histories
+   * saved before the tree was stored.
    *
    * **Use Case**: Time-travel debugging - reconstruct workflow tree from saved events
    * to inspect execution after completion without requiring the live workflow instance.
    *
-   * **Workflow**:
-   * 1. Load events from file using loadEventHistory()
-   * 2. Create WorkflowEventReplayer instance
-   * 3. Replay events and return reconstructed tree
-   *
    * **Error Handling**:
-   * - Throws descriptive errors for file operations (delegated to loadEventHistory)
+   * - Throws descriptive errors for file operations (see loadEventHistory)
    * - Wraps replay errors with file path context
    *
    * **Returns**: Read-only WorkflowNode tree (no live workflow attached)
@@ -721,16 +882,11 @@ export class WorkflowTreeDebugger implements WorkflowObserver {
    * ```
    */
   static async replay(path: string): Promise<WorkflowNode> {
-    // Load events from file using existing static method
-    const events = await WorkflowTreeDebugger.loadEventHistory(path);
-
-    // Create replayer instance
-    const replayer = new WorkflowEventReplayer();
+    const history = await WorkflowTreeDebugger.readEventHistory(path);
 
-    // Replay events with type assertion (loadEventHistory returns unknown[])
     // GOTCHA: Wrap in try-catch to enhance error messages with file path context
     try {
-      return replayer.replay(events as WorkflowEvent[]);
+      return restoreEventHistory(history).root;
     } catch (error) {
       const err = error as Error;
       throw new Error(
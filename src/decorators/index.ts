@@ -1,3 +1,3 @@
-export { ObservedState, getObservedState, isFieldObserved, getFieldMetadata } from './observed-state.js';
+export { ObservedState, getObservedState, restoreObservedState, isFieldObserved, getFieldMetadata } from './observed-state.js';
 export { Step } from './step.js';
-export { Task } from './task.js';
+export { Task, getTaskResults } from './task.js';
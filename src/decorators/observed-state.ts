@@ -46,6 +46,10 @@ export function ObservedState(meta: StateFieldMetadata = {}) {
 /**
  * Get all observed state from an object instance
  * Applies hidden and redact transformations
+ *
+ * GOTCHA: The configured redaction rules (see configureRedaction()) are not
+ * applied here, because checkpoints restore this state. They are applied
+ * where state is emitted: snapshots, events and logs.
  */
 export function getObservedState(obj: object): SerializedWorkflowState {
   const proto = Object.getPrototypeOf(obj);
@@ -76,6 +80,35 @@ export function getObservedState(obj: object): SerializedWorkflowState {
   return result;
 }
 
+/**
+ * Restore observed state captured with getObservedState()
+ * Hidden fields are never present in a snapshot, and redacted fields are
+ * skipped because the snapshot only holds the '***' placeholder.
+ *
+ * @returns Names of the fields that were restored
+ */
+export function restoreObservedState(obj: object, state: SerializedWorkflowState): string[] {
+  const proto = Object.getPrototypeOf(obj);
+  const map = OBSERVED_STATE_FIELDS.get(proto);
+
+  if (!map) {
+    return [];
+  }
+
+  const restored: string[] = [];
+
+  for (const [key, meta] of map) {
+    if (meta.hidden || meta.redact || !(key in state)) {
+      continue;
+    }
+
+    (obj as Record<string, unknown>)[key] = state[key];
+    restored.push(key);
+  }
+
+  return restored;
+}
+
 /**
  * Check if a field is observed on an object
  */
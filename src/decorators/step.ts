@@ -1,7 +1,19 @@
 import type { StepOptions, WorkflowError, WorkflowNode, LogEntry, WorkflowEvent, ErrorCriterion, RestartAnalysis } from '../types/index.js';
 import { getObservedState } from './observed-state.js';
 import { runInContext, type AgentExecutionContext } from '../core/context.js';
-import { generateId, delay } from '../utils/index.js';
+import { generateId, delay, computeRetryDelay } from '../utils/index.js';
+import type { WorkflowCheckpointer } from '../checkpoint/checkpointer.js';
+import type { BudgetTracker } from '../utils/budget.js';
+import type { WorkflowMiddleware } from '../types/middleware.js';
+import { runWithMiddleware } from '../utils/middleware.js';
+import {
+  WorkflowCancelledError,
+  isCancellationError,
+  raceWithSignal,
+  throwIfAborted,
+} from '../utils/cancellation.js';
+import { WorkflowTimeoutError, startTimeLimit } from '../utils/timeout.js';
+import { getErrorCode } from '../utils/workflow-error-utils.js';
 
 // Type for workflow-like objects that @Step can decorate methods on
 interface WorkflowLike {
@@ -10,8 +22,14 @@ interface WorkflowLike {
   logger: {
     info(message: string, data?: unknown): void;
   };
-  emitEvent(event: WorkflowEvent): void;
+  emitEvent(event: WorkflowEvent): WorkflowEvent;
   snapshotState(): void;
+  getCheckpointer?(): WorkflowCheckpointer | undefined;
+  signal?: AbortSignal;
+  getDeadline?(): number | undefined;
+  getBudgets?(): BudgetTracker[];
+  getMiddleware?(): WorkflowMiddleware[];
+  registerCompensation?(stepName: string, undo: () => unknown, node?: WorkflowNode): void;
 }
 
 /**
@@ -45,10 +63,13 @@ export function Step(opts: StepOptions = {}) {
 
       // Object type checks (type narrowing works after typeof check)
       if ('code' in criterion) {
-        const errorCode = error.message;
-        return typeof criterion.code === 'string'
-          ? errorCode === criterion.code
-          : criterion.code.test(errorCode);
+        // Match error.code (timeouts, cancellations, ...) and fall back to the message
+        const errorCodes = error.code !== undefined ? [error.code, error.message] : [error.message];
+        return errorCodes.some((errorCode) =>
+          typeof criterion.code === 'string'
+            ? errorCode === criterion.code
+            : criterion.code.test(errorCode)
+        );
       }
 
       if ('recoverable' in criterion) {
@@ -71,10 +92,37 @@ export function Step(opts: StepOptions = {}) {
       const stepName = opts.name ?? methodName;
       const startTime = Date.now();
 
+      // Cancelled workflows never start new steps
+      const signal = wf.signal;
+      throwIfAborted(signal);
+
       // NEW: Initialize retry state
       let retryCount = 0;
       const maxRetries = opts.maxRetries ?? 3;
 
+      // Steps completed in a checkpointed run return their recorded result
+      const checkpointer = wf.getCheckpointer?.();
+      const checkpointKey = checkpointer?.nextStepKey(wf, stepName);
+      const completed = checkpointKey !== undefined
+        ? checkpointer!.getCompletedStep(checkpointKey)
+        : undefined;
+
+      if (completed) {
+        // The restored step's side effects still need undoing if the resumed run fails
+        // (a restored @Step gets no node of its own; its events are on the workflow node)
+        if (opts.compensate) {
+          wf.registerCompensation?.(stepName, () => opts.compensate!(completed.result), wf.node);
+        }
+        wf.emitEvent({ type: 'stepStart', node: wf.node, step: stepName });
+        if (opts.trackTiming !== false) {
+          wf.emitEvent({ type: 'stepEnd', node: wf.node, step: stepName, duration: 0 });
+        }
+        if (opts.logFinish) {
+          wf.logger.info(`STEP RESTORED: ${stepName} (from checkpoint)`);
+        }
+        return completed.result as Return;
+      }
+
       // Log start if requested
       if (opts.logStart) {
         wf.logger.info(`STEP START: ${stepName}`);
@@ -99,35 +147,72 @@ export function Step(opts: StepOptions = {}) {
         stateSnapshot: null,
       };
 
+      if (checkpointKey !== undefined) {
+        checkpointer!.bindStepNode(stepNode, checkpointKey, wf);
+      }
+
       // Create execution context for agent/prompt operations within this step
       const executionContext: AgentExecutionContext = {
         workflowNode: stepNode,
         emitEvent: (event: WorkflowEvent) => {
-          stepNode.events.push(event);
-          wf.emitEvent(event);
+          // Keep the redacted copy that emitEvent() stored on the workflow node
+          stepNode.events.push(wf.emitEvent(event));
         },
         workflowId: wf.id,
+        signal,
+        budgets: wf.getBudgets?.(),
+        middleware: wf.getMiddleware?.(),
       };
 
       // ============================================================
       // CRITICAL: Retry loop wraps existing try-catch
       // ============================================================
       while (retryCount <= maxRetries) {
+        // Each attempt gets its own time limit (opts.timeoutMs or the workflow deadline)
+        const limit = startTimeLimit(`Step '${stepName}'`, {
+          signal,
+          timeoutMs: opts.timeoutMs,
+          deadline: wf.getDeadline?.(),
+        });
+        executionContext.signal = limit.signal;
+        executionContext.deadline = limit.deadline;
+
         try {
+          // A cancellation (or exhausted deadline) during the retry delay surfaces here
+          throwIfAborted(limit.signal);
+
           // Execute the original method within the execution context
           // This allows Agent.prompt() calls to automatically capture events
-          const result = await runInContext(executionContext, async () => {
-            return originalMethod.call(this, ...args);
-          });
+          // GOTCHA: Race with the signal so cancellation and timeouts do not wait for the method
+          const result = await raceWithSignal(
+            runInContext(executionContext, async () => {
+              return runWithMiddleware(
+                executionContext.middleware ?? [],
+                { kind: 'step', name: stepName, args, workflowId: wf.id, node: stepNode },
+                (...callArgs) => originalMethod.call(this, ...(callArgs as Args))
+              );
+            }),
+            limit.signal
+          );
 
           // Update step node status
           stepNode.status = 'completed';
 
+          // Register the undo function now that the side effects happened
+          if (opts.compensate) {
+            wf.registerCompensation?.(stepName, () => opts.compensate!(result), stepNode);
+          }
+
           // Snapshot state if requested
           if (opts.snapshotState) {
             wf.snapshotState();
           }
 
+          // Record the result before announcing completion
+          if (checkpointKey !== undefined) {
+            await checkpointer!.completeStep(checkpointKey, stepName, result);
+          }
+
           // Calculate duration and emit end event
           const duration = Date.now() - startTime;
           if (opts.trackTiming !== false) {
@@ -148,6 +233,19 @@ export function Step(opts: StepOptions = {}) {
           return result;
 
         } catch (err: unknown) {
+          // CRITICAL: Cancellation is never retried and is re-thrown unwrapped
+          if (isCancellationError(err)) {
+            stepNode.status = 'cancelled';
+            wf.emitEvent({
+              type: 'cancelled',
+              node: wf.node,
+              step: stepName,
+              reason: err instanceof WorkflowCancelledError ? err.reason : undefined,
+              timestamp: Date.now(),
+            });
+            throw err;
+          }
+
           // Update step node status
           stepNode.status = 'failed';
 
@@ -157,6 +255,7 @@ export function Step(opts: StepOptions = {}) {
 
           const workflowError: WorkflowError = {
             message: error?.message ?? 'Unknown error',
+            code: getErrorCode(err),
             original: err,
             workflowId: wf.id,
             stack: error?.stack,
@@ -167,7 +266,17 @@ export function Step(opts: StepOptions = {}) {
           // ============================================================
           // CRITICAL: Check if should retry or throw immediately
           // ============================================================
-          const shouldAttemptRetry = opts.restartable && retryCount < maxRetries;
+          // GOTCHA: Retrying cannot succeed once the workflow deadline has passed,
+          // nor when the back-off itself would run past it
+          const deadlineExceeded = err instanceof WorkflowTimeoutError && err.deadlineExceeded;
+          const nextRetryCount = retryCount + 1;
+
+          // Backoff policy or retry-after hint decides how long to wait
+          const retryDelay = computeRetryDelay(opts, nextRetryCount, workflowError);
+          const deadline = wf.getDeadline?.();
+          const outlastsDeadline = deadline !== undefined && Date.now() + retryDelay.delayMs >= deadline;
+          const shouldAttemptRetry =
+            opts.restartable && retryCount < maxRetries && !deadlineExceeded && !outlastsDeadline;
 
           // Check retry criteria if specified
           const matchesRetryCriteria = opts.retryOn
@@ -189,8 +298,6 @@ export function Step(opts: StepOptions = {}) {
           // ============================================================
           // CRITICAL: Emit retry event and delay before retry
           // ============================================================
-          const nextRetryCount = retryCount + 1;
-
           // Create restart analysis for the retry event
           const analysis: RestartAnalysis = {
             shouldRestart: true,
@@ -208,16 +315,29 @@ export function Step(opts: StepOptions = {}) {
             analysis,
             error: workflowError,
             timestamp: Date.now(),
+            delayMs: retryDelay.delayMs,
+            delayReason: retryDelay.reason,
           });
 
           // Log retry if logging enabled
           if (opts.logStart || opts.logFinish) {
-            wf.logger.info(`STEP RETRY: ${stepName} (attempt ${nextRetryCount}/${maxRetries})`);
+            wf.logger.info(
+              `STEP RETRY: ${stepName} (attempt ${nextRetryCount}/${maxRetries}, waiting ${retryDelay.delayMs}ms)`
+            );
           }
 
-          // Wait before retry
-          const delayMs = opts.retryDelayMs ?? 1000;
-          await delay(delayMs);
+          // Wait before retry; a cancellation during the back-off ends the step without another attempt
+          await raceWithSignal(delay(retryDelay.delayMs), signal).catch((cancelled: unknown) => {
+            stepNode.status = 'cancelled';
+            wf.emitEvent({
+              type: 'cancelled',
+              node: wf.node,
+              step: stepName,
+              reason: cancelled instanceof WorkflowCancelledError ? cancelled.reason : undefined,
+              timestamp: Date.now(),
+            });
+            throw cancelled;
+          });
 
           // Increment retry count and continue loop
           retryCount = nextRetryCount;
@@ -225,6 +345,8 @@ export function Step(opts: StepOptions = {}) {
           // Update step node name for retry
           stepNode.name = `${stepName} (retry ${retryCount})`;
           stepNode.status = 'running';
+        } finally {
+          limit.dispose();
         }
       }
 
@@ -1,5 +1,9 @@
-import type { TaskOptions, WorkflowNode, WorkflowEvent, WorkflowError, SerializedWorkflowState } from '../types/index.js';
+import type { TaskOptions, TaskChildResult, WorkflowNode, WorkflowEvent, WorkflowError, SerializedWorkflowState } from '../types/index.js';
 import { mergeWorkflowErrors } from '../utils/workflow-error-utils.js';
+import { WorkflowCancelledError, isCancellationError, throwIfAborted } from '../utils/cancellation.js';
+import { runWithConcurrency } from '../utils/concurrency.js';
+import { runWithMiddleware } from '../utils/middleware.js';
+import type { WorkflowMiddleware } from '../types/middleware.js';
 
 // Type for workflow-like objects
 interface WorkflowLike {
@@ -7,13 +11,50 @@ interface WorkflowLike {
   node: WorkflowNode;
   emitEvent(event: WorkflowEvent): void;
   attachChild(child: WorkflowLike): void;
+  signal?: AbortSignal;
+  getMiddleware?(): WorkflowMiddleware[];
 }
 
 // Minimal Workflow type for checking if something is a workflow
 interface WorkflowClass {
   id: string;
   parent: WorkflowLike | null;
+  node?: WorkflowNode;
   run(...args: unknown[]): Promise<unknown>;
+  cancel?(reason?: string): void;
+}
+
+/**
+ * Per-child outcomes of settle-all tasks, keyed by the array the task returned
+ * @internal
+ */
+const settledResults = new WeakMap<object, TaskChildResult[]>();
+
+/**
+ * Per-child outcomes of a concurrent @Task in 'settle-all' mode
+ *
+ * @param children - The array the task method returned
+ * @returns Outcomes in child order, or undefined for other tasks and values
+ *
+ * @example
+ * ```ts
+ * const children = await this.processAll();
+ * const failed = getTaskResults(children)?.filter((r) => r.status === 'rejected') ?? [];
+ * ```
+ */
+export function getTaskResults(children: unknown): TaskChildResult[] | undefined {
+  return typeof children === 'object' && children !== null ? settledResults.get(children) : undefined;
+}
+
+/**
+ * Cancellation reason for a child the concurrency pool skipped
+ * @internal
+ */
+function getCancelReason(skipReason: unknown): string | undefined {
+  if (skipReason instanceof WorkflowCancelledError) {
+    return skipReason.reason;
+  }
+  return skipReason instanceof Error ? skipReason.message : undefined;
 }
 
 /**
@@ -31,6 +72,26 @@ interface WorkflowClass {
  *   }
  * }
  *
+ * @example Bounded fan-out that cancels siblings on the first failure
+ * class ParentWorkflow extends Workflow {
+ *   @Task({ concurrent: true, maxConcurrency: 10, concurrencyMode: 'fail-fast' })
+ *   async processAll(): Promise<ChildWorkflow[]> {
+ *     return this.items.map((item) => new ChildWorkflow(item, this));
+ *   }
+ * }
+ *
+ * @example Settle-all fan-out that reads per-child outcomes
+ * class ParentWorkflow extends Workflow {
+ *   @Task({ concurrent: true, concurrencyMode: 'settle-all' })
+ *   async processAll(): Promise<ChildWorkflow[]> {
+ *     return this.items.map((item) => new ChildWorkflow(item, this));
+ *   }
+ *
+ *   async run() {
+ *     const outcomes = getTaskResults(await this.processAll()) ?? [];
+ *   }
+ * }
+ *
  * @example Non-workflow return (silently skipped)
  * class MyWorkflow extends Workflow {
  *   @Task()
@@ -76,6 +137,9 @@ export function Task(opts: TaskOptions = {}) {
       const wf = this as unknown as WorkflowLike;
       const taskName = opts.name ?? methodName;
 
+      // Cancelled workflows never start new tasks
+      throwIfAborted(wf.signal);
+
       // Emit task start event
       wf.emitEvent({
         type: 'taskStart',
@@ -84,7 +148,11 @@ export function Task(opts: TaskOptions = {}) {
       });
 
       // Execute the original method
-      const result = await originalMethod.call(this, ...args);
+      const result = await runWithMiddleware(
+        wf.getMiddleware?.() ?? [],
+        { kind: 'task', name: taskName, args, workflowId: wf.id, node: wf.node },
+        (...callArgs) => originalMethod.call(this, ...(callArgs as Args))
+      );
 
       // Process returned workflows
       const workflows = Array.isArray(result) ? result : [result];
@@ -110,13 +178,83 @@ export function Task(opts: TaskOptions = {}) {
         );
 
         if (runnable.length > 0) {
-          const results = await Promise.allSettled(runnable.map((w) => w.run()));
+          throwIfAborted(wf.signal);
+
+          const mode = opts.concurrencyMode ?? 'wait-all';
+
+          // Queued children stay attached as 'idle' nodes until the pool starts them
+          const started = new Set<number>();
+          let firstFailure: { reason: unknown } | undefined;
+          const results = await runWithConcurrency(
+            runnable.map((w) => () => w.run()),
+            {
+              maxConcurrency: opts.maxConcurrency,
+              failFast: mode === 'fail-fast',
+              signal: wf.signal,
+              onStart: (index) => started.add(index),
+              onReject: (reason, index) => {
+                if (mode !== 'fail-fast' || isCancellationError(reason) || firstFailure) {
+                  return;
+                }
+                firstFailure = { reason };
+
+                // Cancel running siblings; queued ones are skipped by the pool
+                const failed = runnable[index].node?.name ?? runnable[index].id;
+                runnable.forEach((w, i) => {
+                  if (i !== index && started.has(i)) {
+                    w.cancel?.(`sibling workflow '${failed}' failed`);
+                  }
+                });
+              },
+            }
+          );
+
+          // Children skipped by the pool never ran; mark them cancelled with the pool's reason
+          // (a failed sibling, or this workflow's own cancellation)
+          runnable.forEach((w, i) => {
+            const skipped = results[i];
+            if (!started.has(i) && skipped.status === 'rejected') {
+              w.cancel?.(getCancelReason(skipped.reason));
+            }
+          });
+
+          if (mode === 'settle-all') {
+            const childResults: TaskChildResult[] = results.map((r, i) =>
+              r.status === 'fulfilled'
+                ? { workflowId: runnable[i].id, status: 'fulfilled', value: r.value }
+                : { workflowId: runnable[i].id, status: 'rejected', reason: r.reason }
+            );
+
+            throwIfAborted(wf.signal);
+
+            wf.emitEvent({
+              type: 'taskEnd',
+              node: wf.node,
+              task: taskName,
+              results: childResults,
+            });
+
+            // GOTCHA: The method's own return type is kept; outcomes are read with getTaskResults(result)
+            settledResults.set(result as object, childResults);
+            return result;
+          }
 
           const rejected = results.filter(
             (r): r is PromiseRejectedResult => r.status === 'rejected'
           );
 
           if (rejected.length > 0) {
+            // Children cancelled with this workflow: report the cancellation, not a merged failure
+            const cancelled = rejected.find((r) => isCancellationError(r.reason));
+            if (cancelled && wf.signal?.aborted) {
+              throw cancelled.reason;
+            }
+
+            // Fail-fast: report the failure that stopped the pool, not the siblings it cancelled
+            if (firstFailure) {
+              throw firstFailure.reason;
+            }
+
             // Check if error merge strategy is enabled
             if (opts.errorMergeStrategy?.enabled) {
               // Extract WorkflowError objects from rejected promises
@@ -0,0 +1,17 @@
+/**
+ * Workflow definition module exports
+ */
+
+export {
+  compileWorkflowDefinition,
+  loadWorkflowDefinition,
+  loadWorkflowDefinitionFile,
+} from './loader.js';
+export {
+  validateWorkflowDefinition,
+  checkWorkflowDefinition,
+  formatDefinitionIssue,
+  WorkflowDefinitionError,
+} from './validator.js';
+export { jsonSchemaToZod, checkJsonSchema } from './json-schema.js';
+export { renderTemplate } from './template.js';
@@ -0,0 +1,185 @@
+/**
+ * JSON Schema support for workflow definitions
+ *
+ * @module
+ * @remarks
+ * Definitions describe step responses and run input with JSON Schema, while
+ * prompts and workflows validate with Zod. `checkJsonSchema()` reports the
+ * keywords this module cannot convert, and `jsonSchemaToZod()` converts a
+ * schema that passed the check.
+ */
+
+import { z } from 'zod';
+import type { DefinitionIssue, JsonSchema } from '../types/definition.js';
+
+const TYPES = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'] as const;
+
+/** Keywords understood for every type, plus the keywords of each type */
+const COMMON_KEYWORDS = ['type', 'description', 'enum', 'title', '$schema'];
+const TYPE_KEYWORDS: Record<string, string[]> = {
+  object: ['properties', 'required', 'additionalProperties'],
+  array: ['items', 'minItems', 'maxItems'],
+  string: ['minLength', 'maxLength', 'pattern'],
+  number: ['minimum', 'maximum'],
+  integer: ['minimum', 'maximum'],
+  boolean: [],
+  null: [],
+};
+
+/**
+ * Check that a JSON Schema only uses supported keywords
+ *
+ * @param schema - Schema to check
+ * @param path - Location of the schema in the definition (prefixed to issue paths)
+ * @returns Issues found, empty when the schema can be converted
+ */
+export function checkJsonSchema(schema: unknown, path: Array<string | number>): DefinitionIssue[] {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    return [{ message: 'JSON Schema must be an object', path }];
+  }
+
+  const issues: DefinitionIssue[] = [];
+  const record = schema as Record<string, unknown>;
+  const type = record.type;
+
+  if (type === undefined && record.enum === undefined) {
+    issues.push({ message: "JSON Schema needs a 'type' or an 'enum'", path });
+  } else if (type !== undefined && !TYPES.includes(type as (typeof TYPES)[number])) {
+    issues.push({
+      message: `Unsupported JSON Schema type ${JSON.stringify(type)} (expected one of ${TYPES.join(', ')})`,
+      path: [...path, 'type'],
+    });
+    return issues;
+  }
+
+  const allowed = [...COMMON_KEYWORDS, ...(typeof type === 'string' ? TYPE_KEYWORDS[type] : [])];
+  for (const key of Object.keys(record)) {
+    if (!allowed.includes(key)) {
+      issues.push({
+        message: `Unsupported JSON Schema keyword '${key}'${typeof type === 'string' ? ` for type '${type}'` : ''}`,
+        path: [...path, key],
+      });
+    }
+  }
+
+  if (record.enum !== undefined && (!Array.isArray(record.enum) || record.enum.length === 0)) {
+    issues.push({ message: "'enum' must be a non-empty array", path: [...path, 'enum'] });
+  }
+
+  for (const key of ['minimum', 'maximum', 'minLength', 'maxLength', 'minItems', 'maxItems']) {
+    if (key in record && typeof record[key] !== 'number') {
+      issues.push({ message: `'${key}' must be a number`, path: [...path, key] });
+    }
+  }
+
+  if (type === 'string' && record.pattern !== undefined) {
+    try {
+      new RegExp(String(record.pattern));
+    } catch {
+      issues.push({ message: `'pattern' is not a valid regular expression`, path: [...path, 'pattern'] });
+    }
+  }
+
+  if (type === 'object') {
+    const properties = record.properties ?? {};
+    if (typeof properties !== 'object' || properties === null || Array.isArray(properties)) {
+      issues.push({ message: "'properties' must be an object", path: [...path, 'properties'] });
+    } else {
+      for (const [name, property] of Object.entries(properties)) {
+        issues.push(...checkJsonSchema(property, [...path, 'properties', name]));
+      }
+      const required = record.required ?? [];
+      if (!Array.isArray(required) || required.some((name) => typeof name !== 'string')) {
+        issues.push({ message: "'required' must be an array of property names", path: [...path, 'required'] });
+      } else {
+        required.forEach((name: string, index) => {
+          if (!(name in properties)) {
+            issues.push({
+              message: `Required property '${name}' is not listed in 'properties'`,
+              path: [...path, 'required', index],
+            });
+          }
+        });
+      }
+    }
+    if (record.additionalProperties !== undefined && typeof record.additionalProperties !== 'boolean') {
+      issues.push({
+        message: "'additionalProperties' must be true or false",
+        path: [...path, 'additionalProperties'],
+      });
+    }
+  }
+
+  if (type === 'array') {
+    if (record.items === undefined) {
+      issues.push({ message: "Array schema needs 'items'", path });
+    } else {
+      issues.push(...checkJsonSchema(record.items, [...path, 'items']));
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Convert a JSON Schema to a Zod schema
+ *
+ * @param schema - A schema that passed checkJsonSchema()
+ * @returns Equivalent Zod schema
+ *
+ * @example
+ * jsonSchemaToZod({ type: 'object', properties: { n: { type: 'integer' } }, required: ['n'] })
+ * // z.object({ n: z.number().int() })
+ */
+export function jsonSchemaToZod(schema: JsonSchema): z.ZodTypeAny {
+  const result = convert(schema);
+  return schema.description ? result.describe(schema.description) : result;
+}
+
+function convert(schema: JsonSchema): z.ZodTypeAny {
+  if (schema.enum) {
+    const literals = schema.enum.map((value) => z.literal(value));
+    return literals.length === 1
+      ? literals[0]
+      : z.union(literals as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      const required = new Set(schema.required ?? []);
+      const shape: Record<string, z.ZodTypeAny> = {};
+      for (const [name, property] of Object.entries(schema.properties ?? {})) {
+        const value = jsonSchemaToZod(property);
+        shape[name] = required.has(name) ? value : value.optional();
+      }
+      const object = z.object(shape);
+      return schema.additionalProperties === false ? object.strict() : object.passthrough();
+    }
+    case 'array': {
+      let array = z.array(jsonSchemaToZod(schema.items ?? {}));
+      if (schema.minItems !== undefined) array = array.min(schema.minItems);
+      if (schema.maxItems !== undefined) array = array.max(schema.maxItems);
+      return array;
+    }
+    case 'string': {
+      let string = z.string();
+      if (schema.minLength !== undefined) string = string.min(schema.minLength);
+      if (schema.maxLength !== undefined) string = string.max(schema.maxLength);
+      if (schema.pattern !== undefined) string = string.regex(new RegExp(schema.pattern));
+      return string;
+    }
+    case 'number':
+    case 'integer': {
+      let number = schema.type === 'integer' ? z.number().int() : z.number();
+      if (schema.minimum !== undefined) number = number.min(schema.minimum);
+      if (schema.maximum !== undefined) number = number.max(schema.maximum);
+      return number;
+    }
+    case 'boolean':
+      return z.boolean();
+    case 'null':
+      return z.null();
+    default:
+      return z.unknown();
+  }
+}
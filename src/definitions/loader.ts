@@ -0,0 +1,165 @@
+/**
+ * Workflow definition loader
+ *
+ * @module
+ * @remarks
+ * Compiles a validated definition to a functional workflow. Every step runs
+ * as a `ctx.step()` node of a WorkflowGraph, so steps appear in the workflow
+ * tree, event stream and checkpoints exactly like hand-written steps, and
+ * independent steps run in parallel.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { z } from 'zod';
+import type {
+  DefinitionSourceOptions,
+  StepDefinition,
+  StepRetryDefinition,
+  WorkflowDefinition,
+} from '../types/definition.js';
+import type { GraphNodeDefinition } from '../types/graph.js';
+import type { StepOptions } from '../types/decorators.js';
+import type { Agent } from '../core/agent.js';
+import type { TypedWorkflow } from '../core/workflow.js';
+import { createAgent, createPrompt, createWorkflow } from '../core/factory.js';
+import { WorkflowGraph } from '../core/graph.js';
+import { jsonSchemaToZod } from './json-schema.js';
+import { renderTemplate } from './template.js';
+import {
+  checkWorkflowDefinition,
+  flattenSteps,
+  resolveDependencies,
+  validateWorkflowDefinition,
+  WorkflowDefinitionError,
+} from './validator.js';
+
+/**
+ * Compile a definition to a runnable workflow
+ *
+ * The workflow's run input is validated against the definition's `input`
+ * schema. Its result data is the output of the `output` step, or every
+ * step's output keyed by step id when `output` is not set.
+ *
+ * @param definition - Definition object (e.g. parsed JSON)
+ * @returns Workflow to run with `run(input)`
+ * @throws {WorkflowDefinitionError} If the definition is invalid
+ *
+ * @example
+ * ```ts
+ * const workflow = compileWorkflowDefinition(definition);
+ * const result = await workflow.run({ topic: 'tidal energy' });
+ * ```
+ */
+export function compileWorkflowDefinition(definition: WorkflowDefinition): TypedWorkflow<unknown, unknown> {
+  const issues = checkWorkflowDefinition(definition);
+  if (issues.length > 0) {
+    throw new WorkflowDefinitionError(issues);
+  }
+
+  const dependencies = resolveDependencies(definition);
+  const steps = flattenSteps(definition).map(({ step }) => step);
+
+  return createWorkflow(
+    { name: definition.name, input: definition.input ? jsonSchemaToZod(definition.input) : z.unknown() },
+    async (ctx, input) => {
+      // Agents are created per run so each run sees the current harness configuration
+      const agents = new Map<string, Agent>(
+        Object.entries(definition.agents).map(([key, agent]) => [
+          key,
+          createAgent({ name: agent.name ?? key, system: agent.system, model: agent.model, harness: agent.harness }),
+        ])
+      );
+      const outputs: Record<string, unknown> = {};
+
+      const nodes = Object.fromEntries(
+        steps.map((step): [string, GraphNodeDefinition] => [
+          step.id,
+          {
+            dependsOn: dependencies.get(step.id),
+            run: async () => {
+              outputs[step.id] = await runStep(step, agents.get(step.agent)!, { input, steps: outputs });
+              return outputs[step.id];
+            },
+            options: toStepOptions(step),
+          },
+        ])
+      );
+
+      const results = await new WorkflowGraph<Record<string, unknown>>(nodes).execute(ctx);
+      return definition.output ? results[definition.output] : results;
+    }
+  );
+}
+
+/**
+ * Validate and compile a JSON or YAML definition
+ *
+ * @param source - Definition text
+ * @param options - Source format and file name (used in error messages)
+ * @returns Workflow to run with `run(input)`
+ * @throws {WorkflowDefinitionError} With line-accurate issues if the definition is invalid
+ */
+export function loadWorkflowDefinition(
+  source: string,
+  options: DefinitionSourceOptions = {}
+): TypedWorkflow<unknown, unknown> {
+  const result = validateWorkflowDefinition(source, options);
+  if (!result.valid || !result.definition) {
+    throw new WorkflowDefinitionError(result.issues, options.filename);
+  }
+  return compileWorkflowDefinition(result.definition);
+}
+
+/**
+ * Load a definition file
+ *
+ * Files ending in `.json` are parsed as strict JSON, anything else as YAML.
+ *
+ * @param path - Path to the definition file
+ * @returns Workflow to run with `run(input)`
+ * @throws {WorkflowDefinitionError} If the definition is invalid
+ */
+export async function loadWorkflowDefinitionFile(path: string): Promise<TypedWorkflow<unknown, unknown>> {
+  const source = await readFile(path, 'utf-8');
+  return loadWorkflowDefinition(source, {
+    format: extname(path).toLowerCase() === '.json' ? 'json' : 'yaml',
+    filename: path,
+  });
+}
+
+/**
+ * Send a step's prompt and return the response data
+ */
+async function runStep(step: StepDefinition, agent: Agent, scope: Record<string, unknown>): Promise<unknown> {
+  const prompt = createPrompt<unknown>({
+    user: renderTemplate(step.prompt, scope),
+    system: step.system !== undefined ? renderTemplate(step.system, scope) : undefined,
+    responseFormat: step.schema ? jsonSchemaToZod(step.schema) : z.string(),
+  });
+
+  const response = await agent.prompt(prompt);
+  if (response.status === 'error') {
+    const { code, message } = response.error!;
+    const error = Object.assign(new Error(`[${code}] ${message}`), { code });
+    error.name = 'AgentPromptError';
+    throw error;
+  }
+  return response.data;
+}
+
+function toStepOptions(step: StepDefinition): Omit<StepOptions, 'name'> {
+  return {
+    timeoutMs: step.timeoutMs,
+    ...(step.retry && retryOptions(step.retry)),
+  };
+}
+
+function retryOptions(retry: StepRetryDefinition): Omit<StepOptions, 'name'> {
+  return {
+    restartable: true,
+    maxRetries: retry.maxRetries,
+    retryDelayMs: retry.delayMs,
+    retryPolicy: { backoff: retry.backoff ?? 'fixed', maxDelayMs: retry.maxDelayMs },
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Prompt templates of workflow definitions
+ *
+ * @module
+ * @remarks
+ * Prompts reference the run input as `{{input.<path>}}` and the output of an
+ * upstream step as `{{steps.<id>.<path>}}`. Path segments are object keys or
+ * array indexes, separated by dots.
+ */
+
+/** Matches `{{ reference }}` placeholders */
+const TEMPLATE_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+/**
+ * References (placeholder contents) used in a template, in order
+ *
+ * @param template - Prompt text
+ * @returns References such as `input.topic` or `steps.outline.points`
+ */
+export function templateReferences(template: string): string[] {
+  return [...template.matchAll(TEMPLATE_PATTERN)].map((match) => match[1]);
+}
+
+/**
+ * Split a reference into its path segments
+ *
+ * @param reference - Reference such as `steps.outline.points.0`
+ */
+export function parseTemplateReference(reference: string): string[] {
+  return reference.split('.').map((segment) => segment.trim());
+}
+
+/**
+ * Replace every placeholder with the value it references
+ *
+ * Strings are inserted as-is, other values as JSON and missing values as an
+ * empty string.
+ *
+ * @param template - Prompt text
+ * @param scope - Values placeholders resolve against, e.g. `{ input, steps }`
+ * @returns Rendered text
+ *
+ * @example
+ * renderTemplate('Summarize {{steps.fetch.title}}', { steps: { fetch: { title: 'Groundswell' } } });
+ * // 'Summarize Groundswell'
+ */
+export function renderTemplate(template: string, scope: Record<string, unknown>): string {
+  return template.replace(TEMPLATE_PATTERN, (_match, reference: string) => {
+    let value: unknown = scope;
+    for (const segment of parseTemplateReference(reference)) {
+      value = typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[segment] : undefined;
+    }
+    if (value === undefined || value === null) {
+      return '';
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+}
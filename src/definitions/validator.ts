@@ -0,0 +1,476 @@
+/**
+ * Workflow definition validation
+ *
+ * @module
+ * @remarks
+ * Validation runs in two passes. The structural pass checks fields and types
+ * with Zod; the semantic pass checks references between them (agents,
+ * dependencies, template references, the output step) and dependency
+ * cycles. When a definition is validated from source text, every issue is
+ * mapped back to the line and column of the offending field.
+ */
+
+import { isMap, isNode, isScalar, LineCounter, parseDocument, type Document } from 'yaml';
+import { z } from 'zod';
+import type {
+  DefinitionIssue,
+  DefinitionSourceOptions,
+  DefinitionValidationResult,
+  StepDefinition,
+  WorkflowDefinition,
+} from '../types/definition.js';
+import { parseModelSpec } from '../utils/model-spec.js';
+import { checkJsonSchema } from './json-schema.js';
+import { parseTemplateReference, templateReferences } from './template.js';
+
+/** Step ids are used in templates (`{{steps.<id>}}`), so keep them path-safe */
+const STEP_ID_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+const RetrySchema = z
+  .object({
+    maxRetries: z.number().int().min(0),
+    delayMs: z.number().int().min(0).optional(),
+    backoff: z.enum(['fixed', 'linear', 'exponential']).optional(),
+    maxDelayMs: z.number().int().min(0).optional(),
+  })
+  .strict();
+
+const StepSchema = z
+  .object({
+    id: z
+      .string()
+      .regex(STEP_ID_PATTERN, 'Step ids start with a letter or _ and contain only letters, digits, _ and -'),
+    agent: z.string().min(1),
+    prompt: z.string().min(1),
+    system: z.string().optional(),
+    schema: z.unknown().optional(),
+    dependsOn: z.array(z.string()).optional(),
+    retry: RetrySchema.optional(),
+    timeoutMs: z.number().int().positive().optional(),
+  })
+  .strict();
+
+const ParallelSchema = z.object({ parallel: z.array(z.unknown()).min(1) }).strict();
+
+const AgentSchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    system: z.string().optional(),
+    model: z.string().min(1).optional(),
+    harness: z.enum(['pi', 'claude-code']).optional(),
+  })
+  .strict();
+
+const DefinitionSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1)
+      .max(100)
+      .regex(/^[\p{L}\p{N} _-]+$/u, 'Workflow names contain only letters, digits, spaces, _ and -'),
+    description: z.string().optional(),
+    input: z.unknown().optional(),
+    agents: z.record(z.unknown()),
+    steps: z.array(z.unknown()).min(1),
+    output: z.string().optional(),
+  })
+  .strict();
+
+/**
+ * Error thrown when a workflow definition is invalid
+ *
+ * @remarks
+ * `issues` lists every problem found; the message has one line per issue,
+ * prefixed with `file:line:column` when the definition was loaded from
+ * source text.
+ *
+ * @public
+ */
+export class WorkflowDefinitionError extends Error {
+  /** Stable error code */
+  public readonly code = 'INVALID_DEFINITION' as const;
+
+  /** An invalid definition never becomes valid by retrying */
+  public readonly recoverable = false;
+
+  /**
+   * @param issues - Problems found in the definition
+   * @param filename - Source file name used in the message
+   */
+  constructor(public readonly issues: DefinitionIssue[], filename?: string) {
+    super(
+      `Invalid workflow definition:\n${issues.map((issue) => `  ${formatDefinitionIssue(issue, filename)}`).join('\n')}`
+    );
+    this.name = 'WorkflowDefinitionError';
+  }
+}
+
+/**
+ * Format an issue as `file:line:column: message (at path)`
+ *
+ * @param issue - Issue to format
+ * @param filename - Source file name (default: '<definition>')
+ */
+export function formatDefinitionIssue(issue: DefinitionIssue, filename = '<definition>'): string {
+  const location = issue.line !== undefined ? `${filename}:${issue.line}:${issue.column ?? 1}` : filename;
+  const path = issue.path.length > 0 ? ` (at ${formatPath(issue.path)})` : '';
+  return `${location}: ${issue.message}${path}`;
+}
+
+/**
+ * Validate a definition parsed from JSON or YAML source text
+ *
+ * @param source - JSON or YAML text
+ * @param options - Source format and file name
+ * @returns Validation result; every issue carries the line and column it refers to
+ *
+ * @example
+ * ```ts
+ * const result = validateWorkflowDefinition(readFileSync('research.yaml', 'utf8'));
+ * for (const issue of result.issues) {
+ *   console.error(formatDefinitionIssue(issue, 'research.yaml'));
+ * }
+ * ```
+ */
+export function validateWorkflowDefinition(
+  source: string,
+  options: DefinitionSourceOptions = {}
+): DefinitionValidationResult {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(source, { lineCounter, uniqueKeys: true, prettyErrors: false });
+
+  if (options.format === 'json') {
+    // GOTCHA: YAML accepts a superset of JSON, so check strict JSON syntax separately
+    try {
+      JSON.parse(source);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const position = /position (\d+)/.exec(message);
+      const pos = position ? lineCounter.linePos(Number(position[1])) : undefined;
+      return invalid([
+        {
+          message: `Invalid JSON: ${message.replace(/ in JSON at position.*$/, '')}`,
+          path: [],
+          line: pos?.line,
+          column: pos?.col,
+        },
+      ]);
+    }
+  }
+
+  if (doc.errors.length > 0) {
+    return invalid(
+      doc.errors.map((error) => {
+        const { line, col } = lineCounter.linePos(error.pos[0]);
+        return { message: error.message, path: [], line, column: col };
+      })
+    );
+  }
+
+  const value: unknown = doc.toJS();
+  const issues = checkWorkflowDefinition(value)
+    .map((issue) => ({ ...issue, ...locate(doc, lineCounter, issue.path) }))
+    .sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity) || (a.column ?? 0) - (b.column ?? 0));
+
+  return issues.length > 0 ? invalid(issues) : { valid: true, definition: value as WorkflowDefinition, issues };
+}
+
+/**
+ * Validate a definition object
+ *
+ * @param value - Definition to check (e.g. parsed JSON)
+ * @returns Issues found, each with its path in the definition; empty when valid
+ */
+export function checkWorkflowDefinition(value: unknown): DefinitionIssue[] {
+  const issues = checkStructure(value);
+  return issues.length > 0 ? issues : checkReferences(value as WorkflowDefinition);
+}
+
+/**
+ * Steps of a definition in list order, with the path to each step
+ *
+ * @internal
+ */
+export function flattenSteps(
+  definition: WorkflowDefinition
+): Array<{ step: StepDefinition; path: Array<string | number> }> {
+  return definition.steps.flatMap((entry, index) =>
+    'parallel' in entry
+      ? entry.parallel.map((step, position) => ({ step, path: ['steps', index, 'parallel', position] }))
+      : [{ step: entry, path: ['steps', index] }]
+  );
+}
+
+/**
+ * Dependencies of every step, keyed by step id
+ *
+ * A step without `dependsOn` depends on the previous entry of `steps`: the
+ * previous step, or every step of the previous parallel block.
+ *
+ * @internal
+ */
+export function resolveDependencies(definition: WorkflowDefinition): Map<string, string[]> {
+  const dependencies = new Map<string, string[]>();
+  let previous: string[] = [];
+  for (const entry of definition.steps) {
+    const steps = 'parallel' in entry ? entry.parallel : [entry];
+    for (const step of steps) {
+      dependencies.set(step.id, step.dependsOn ?? previous);
+    }
+    previous = steps.map((step) => step.id);
+  }
+  return dependencies;
+}
+
+function invalid(issues: DefinitionIssue[]): DefinitionValidationResult {
+  return { valid: false, issues };
+}
+
+/**
+ * Structural pass: fields, types and JSON Schemas
+ */
+function checkStructure(value: unknown): DefinitionIssue[] {
+  const issues = zodIssues(DefinitionSchema.safeParse(value), []);
+  if (typeof value !== 'object' || value === null) {
+    return issues;
+  }
+  const record = value as Record<string, unknown>;
+
+  if (record.input !== undefined) {
+    issues.push(...checkJsonSchema(record.input, ['input']));
+  }
+
+  if (isRecord(record.agents)) {
+    for (const [key, agent] of Object.entries(record.agents)) {
+      issues.push(...zodIssues(AgentSchema.safeParse(agent), ['agents', key]));
+    }
+  }
+
+  if (Array.isArray(record.steps)) {
+    record.steps.forEach((entry, index) => {
+      if (isRecord(entry) && 'parallel' in entry) {
+        issues.push(...zodIssues(ParallelSchema.safeParse(entry), ['steps', index]));
+        if (Array.isArray(entry.parallel)) {
+          entry.parallel.forEach((step, position) => {
+            issues.push(...checkStep(step, ['steps', index, 'parallel', position]));
+          });
+        }
+      } else {
+        issues.push(...checkStep(entry, ['steps', index]));
+      }
+    });
+  }
+
+  return issues;
+}
+
+function checkStep(step: unknown, path: Array<string | number>): DefinitionIssue[] {
+  const issues = zodIssues(StepSchema.safeParse(step), path);
+  if (isRecord(step) && step.schema !== undefined) {
+    issues.push(...checkJsonSchema(step.schema, [...path, 'schema']));
+  }
+  return issues;
+}
+
+/**
+ * Semantic pass: references between fields and dependency cycles
+ */
+function checkReferences(definition: WorkflowDefinition): DefinitionIssue[] {
+  const issues: DefinitionIssue[] = [];
+  const agentNames = Object.keys(definition.agents);
+
+  for (const [key, agent] of Object.entries(definition.agents)) {
+    if (agent.model !== undefined) {
+      try {
+        parseModelSpec(agent.model);
+      } catch (error) {
+        issues.push({ message: (error as Error).message, path: ['agents', key, 'model'] });
+      }
+    }
+  }
+
+  const steps = flattenSteps(definition);
+  const stepIds = new Set(steps.map(({ step }) => step.id));
+  const paths = new Map<string, Array<string | number>>();
+  for (const { step, path } of steps) {
+    if (paths.has(step.id)) {
+      issues.push({ message: `Duplicate step id '${step.id}'`, path: [...path, 'id'] });
+    } else {
+      paths.set(step.id, path);
+    }
+    if (!agentNames.includes(step.agent)) {
+      issues.push({
+        message: `Unknown agent '${step.agent}' (defined agents: ${agentNames.join(', ') || 'none'})`,
+        path: [...path, 'agent'],
+      });
+    }
+    step.dependsOn?.forEach((dependency, index) => {
+      if (!stepIds.has(dependency)) {
+        issues.push({ message: `Unknown step '${dependency}' in dependsOn`, path: [...path, 'dependsOn', index] });
+      }
+    });
+  }
+
+  if (definition.output !== undefined && !stepIds.has(definition.output)) {
+    issues.push({ message: `Output step '${definition.output}' does not exist`, path: ['output'] });
+  }
+
+  // GOTCHA: Cycle and template checks need a well-formed graph
+  if (issues.length > 0) {
+    return issues;
+  }
+
+  const dependencies = resolveDependencies(definition);
+  const cycle = findCycle(dependencies);
+  if (cycle) {
+    const path = paths.get(cycle[0])!;
+    return [{ message: `Dependency cycle: ${cycle.join(' -> ')}`, path: [...path, 'dependsOn'] }];
+  }
+
+  for (const { step, path } of steps) {
+    const upstream = ancestors(step.id, dependencies);
+    for (const field of ['prompt', 'system'] as const) {
+      for (const reference of templateReferences(step[field] ?? '')) {
+        const message = checkTemplateReference(reference, step.id, upstream);
+        if (message) {
+          issues.push({ message, path: [...path, field] });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+function checkTemplateReference(reference: string, stepId: string, upstream: Set<string>): string | undefined {
+  const [root, target, ...rest] = parseTemplateReference(reference);
+  if (root === 'input') {
+    return target === '' || rest.includes('') ? `Invalid template reference {{${reference}}}` : undefined;
+  }
+  if (root !== 'steps' || !target || rest.includes('')) {
+    return `Invalid template reference {{${reference}}} (expected {{input.<path>}} or {{steps.<id>.<path>}})`;
+  }
+  if (!upstream.has(target)) {
+    return `Template {{${reference}}} refers to step '${target}', which step '${stepId}' does not depend on`;
+  }
+  return undefined;
+}
+
+function ancestors(stepId: string, dependencies: Map<string, string[]>): Set<string> {
+  const seen = new Set<string>();
+  const visit = (id: string): void => {
+    for (const dependency of dependencies.get(id) ?? []) {
+      if (!seen.has(dependency)) {
+        seen.add(dependency);
+        visit(dependency);
+      }
+    }
+  };
+  visit(stepId);
+  return seen;
+}
+
+/**
+ * Find a dependency cycle (first step repeated at the end), if any
+ */
+function findCycle(dependencies: Map<string, string[]>): string[] | undefined {
+  const done = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | undefined => {
+    const index = stack.indexOf(id);
+    if (index !== -1) {
+      return [...stack.slice(index), id];
+    }
+    if (done.has(id)) {
+      return undefined;
+    }
+    stack.push(id);
+    for (const dependency of dependencies.get(id) ?? []) {
+      const cycle = visit(dependency);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    stack.pop();
+    done.add(id);
+    return undefined;
+  };
+
+  for (const id of dependencies.keys()) {
+    const cycle = visit(id);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Convert Zod issues to definition issues
+ *
+ * Unknown fields are reported at the field itself and missing fields at the
+ * object that lacks them.
+ */
+function zodIssues(
+  result: z.SafeParseReturnType<unknown, unknown>,
+  prefix: Array<string | number>
+): DefinitionIssue[] {
+  if (result.success) {
+    return [];
+  }
+  return result.error.issues.flatMap((issue): DefinitionIssue[] => {
+    const path = [...prefix, ...issue.path];
+    const field = issue.path[issue.path.length - 1];
+    if (issue.code === 'unrecognized_keys') {
+      return issue.keys.map((key) => ({ message: `Unknown field '${key}'`, path: [...path, key] }));
+    }
+    if (issue.code === 'invalid_type' && issue.received === 'undefined' && field !== undefined) {
+      return [{ message: `Missing required field '${field}'`, path: path.slice(0, -1) }];
+    }
+    return [{ message: field === undefined ? issue.message : `Invalid '${field}': ${issue.message}`, path }];
+  });
+}
+
+/**
+ * Line and column of the node at a path, or of its nearest existing ancestor
+ *
+ * Map entries resolve to their key, so errors point at `field:` rather than
+ * at the value after it.
+ */
+function locate(
+  doc: Document,
+  lineCounter: LineCounter,
+  path: Array<string | number>
+): { line?: number; column?: number } {
+  for (let length = path.length; length >= 0; length--) {
+    let node: unknown;
+    if (length === 0) {
+      node = doc.contents;
+    } else {
+      const parent = doc.getIn(path.slice(0, length - 1), true);
+      const segment = path[length - 1];
+      node = isMap(parent)
+        ? parent.items.find((pair) => isScalar(pair.key) && pair.key.value === segment)?.key
+        : doc.getIn(path.slice(0, length), true);
+    }
+    const offset = isNode(node) ? node.range?.[0] : undefined;
+    if (offset !== undefined) {
+      const { line, col } = lineCounter.linePos(offset);
+      return { line, column: col };
+    }
+  }
+  return {};
+}
+
+function formatPath(path: Array<string | number>): string {
+  return path
+    .map((segment, index) =>
+      typeof segment === 'number' ? `[${segment}]` : index === 0 ? segment : `.${segment}`
+    )
+    .join('');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
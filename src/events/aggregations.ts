@@ -0,0 +1,97 @@
+/**
+ * Aggregations over stored events
+ *
+ * Pair them with EventStore.query() to narrow the events first, e.g. to one
+ * run, one step or a time range.
+ *
+ * @module
+ */
+
+import type { StoredEvent } from '../types/event-store.js';
+
+/**
+ * Token usage of one model
+ */
+export interface ModelTokenTotals {
+  /** Number of agent calls */
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Input plus output tokens */
+  totalTokens: number;
+  /** Cost in USD (of the calls whose model is in the model catalog) */
+  costUsd: number;
+}
+
+/**
+ * Total tokens and cost per model, from `agentPromptEnd` events
+ *
+ * Calls without a model are counted under `unknown`.
+ *
+ * @example
+ * ```ts
+ * const usage = totalTokensByModel(await store.query({ runId: 'ingest-42' }));
+ * // { 'anthropic/claude-sonnet-4': { calls: 3, inputTokens: 5400, outputTokens: 900, totalTokens: 6300, costUsd: 0.03 } }
+ * ```
+ */
+export function totalTokensByModel(events: readonly StoredEvent[]): Record<string, ModelTokenTotals> {
+  const totals: Record<string, ModelTokenTotals> = {};
+  for (const { event } of events) {
+    if (event.type !== 'agentPromptEnd') {
+      continue;
+    }
+    const model = typeof event.model === 'string' ? event.model : 'unknown';
+    const usage = event.tokenUsage as { input_tokens?: number; output_tokens?: number } | undefined;
+    const entry = (totals[model] ??= { calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0 });
+    entry.calls++;
+    entry.inputTokens += usage?.input_tokens ?? 0;
+    entry.outputTokens += usage?.output_tokens ?? 0;
+    entry.totalTokens = entry.inputTokens + entry.outputTokens;
+    entry.costUsd += typeof event.costUsd === 'number' ? event.costUsd : 0;
+  }
+  return totals;
+}
+
+/**
+ * Percentile of step durations, from `stepEnd` events (nearest-rank method)
+ *
+ * @param events - Stored events (other event types are ignored)
+ * @param percentile - Percentile between 0 (exclusive) and 100 (default: 95)
+ * @returns Duration in milliseconds, or undefined without completed steps
+ * @throws {Error} If the percentile is out of range
+ *
+ * @example
+ * ```ts
+ * const p95 = stepDurationPercentile(await store.query({ step: 'extract' }));
+ * ```
+ */
+export function stepDurationPercentile(events: readonly StoredEvent[], percentile: number = 95): number | undefined {
+  if (!(percentile > 0 && percentile <= 100)) {
+    throw new Error(`Percentile must be greater than 0 and at most 100, got ${percentile}`);
+  }
+  const durations = events
+    .filter(({ event }) => event.type === 'stepEnd' && typeof event.duration === 'number')
+    .map(({ event }) => event.duration as number)
+    .sort((a, b) => a - b);
+  if (durations.length === 0) {
+    return undefined;
+  }
+  return durations[Math.ceil((percentile / 100) * durations.length) - 1];
+}
+
+/**
+ * Number of `error` events per WorkflowError code
+ *
+ * Errors without a code are counted under `unknown`, as in MetricsObserver.
+ */
+export function failureCountsByCode(events: readonly StoredEvent[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const { event } of events) {
+    if (event.type !== 'error') {
+      continue;
+    }
+    const code = (event.error as { code?: string } | undefined)?.code ?? 'unknown';
+    counts[code] = (counts[code] ?? 0) + 1;
+  }
+  return counts;
+}
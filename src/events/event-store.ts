@@ -0,0 +1,181 @@
+/**
+ * Event store implementations
+ *
+ * Provides an in-memory store and an append-only JSON-lines file store for
+ * workflow events. Custom backends implement the EventStore interface and
+ * can filter with matchesEventQuery().
+ *
+ * @module
+ */
+
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { EventQuery, EventStore, StoredEvent } from '../types/event-store.js';
+import { toJson } from '../utils/json.js';
+
+/**
+ * Check whether a stored event matches a query
+ *
+ * @param event - Stored event
+ * @param query - Filter (every given field must match)
+ */
+export function matchesEventQuery(event: StoredEvent, query: EventQuery): boolean {
+  if (query.runId !== undefined && event.runId !== query.runId) {
+    return false;
+  }
+  if (query.type !== undefined) {
+    const types = typeof query.type === 'string' ? [query.type] : query.type;
+    if (!types.includes(event.event.type)) {
+      return false;
+    }
+  }
+  if (query.nodeId !== undefined && event.nodeId !== query.nodeId) {
+    return false;
+  }
+  if (query.subtreeOf !== undefined && !event.path.includes(query.subtreeOf)) {
+    return false;
+  }
+  if (query.step !== undefined && event.step !== query.step) {
+    return false;
+  }
+  if (query.agentId !== undefined && event.agentId !== query.agentId) {
+    return false;
+  }
+  if (query.since !== undefined && event.timestamp < query.since) {
+    return false;
+  }
+  if (query.until !== undefined && event.timestamp > query.until) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Filter events and apply the query limit
+ */
+function applyQuery(events: StoredEvent[], query: EventQuery): StoredEvent[] {
+  const matches = events.filter((event) => matchesEventQuery(event, query));
+  return query.limit === undefined ? matches : matches.slice(0, query.limit);
+}
+
+/**
+ * In-memory event store
+ *
+ * @remarks
+ * Events are copied on append and on query, like MemoryCheckpointStore, so
+ * later mutations of event payloads never leak into stored events. No
+ * persistence; intended for tests, dashboards and short-lived processes.
+ *
+ * @public
+ */
+export class MemoryEventStore implements EventStore {
+  private events: string[] = [];
+
+  append(event: StoredEvent): void {
+    this.events.push(toJson(event));
+  }
+
+  async query(query: EventQuery = {}): Promise<StoredEvent[]> {
+    return applyQuery(
+      this.events.map((json) => JSON.parse(json) as StoredEvent),
+      query
+    );
+  }
+
+  /**
+   * Discard all stored events
+   */
+  clear(): void {
+    this.events = [];
+  }
+}
+
+/**
+ * Append-only event store writing one JSON line per event
+ *
+ * @remarks
+ * Writes are queued in order; call flush() (or `workflow.flushEvents()`) to
+ * wait for them. A failed write is rethrown by the next flush() and later
+ * events are still written. query() waits for queued writes and reads the
+ * whole file, so it suits post-run analysis rather than hot paths.
+ *
+ * @example
+ * ```ts
+ * const store = new JsonLinesEventStore('./events/ingest.jsonl');
+ * const workflow = new Workflow({ name: 'Ingest', eventHistory: { store } }, executor);
+ * await workflow.run();
+ * await workflow.flushEvents();
+ *
+ * const failures = await store.query({ type: 'error', since: Date.now() - 86_400_000 });
+ * ```
+ *
+ * @public
+ */
+export class JsonLinesEventStore implements EventStore {
+  private writing: Promise<void> = Promise.resolve();
+  private writeError: unknown;
+  private directoryCreated = false;
+
+  /**
+   * @param path - File to append to (created with its directory if missing)
+   */
+  constructor(private readonly path: string) {}
+
+  append(event: StoredEvent): void {
+    const line = toJson(event) + '\n';
+    this.writing = this.writing
+      .then(() => this.write(line))
+      .catch((err: unknown) => {
+        this.writeError ??= err;
+      });
+  }
+
+  async query(query: EventQuery = {}): Promise<StoredEvent[]> {
+    await this.writing;
+
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf-8');
+    } catch (error: unknown) {
+      const err = error as NodeJS.ErrnoException;
+      if (err.code === 'ENOENT') {
+        return [];
+      }
+      throw new Error(`Failed to read event store: ${err.message}`);
+    }
+
+    const lines = content.split('\n');
+    const events: StoredEvent[] = [];
+    lines.forEach((line, index) => {
+      if (line.trim() === '') {
+        return;
+      }
+      try {
+        events.push(JSON.parse(line) as StoredEvent);
+      } catch {
+        // GOTCHA: A crash mid-write can leave a partial last line; skip it rather than lose the file
+        if (lines.slice(index + 1).some((rest) => rest.trim() !== '')) {
+          throw new Error(`Invalid event store line ${index + 1} in ${this.path}`);
+        }
+      }
+    });
+    return applyQuery(events, query);
+  }
+
+  async flush(): Promise<void> {
+    await this.writing;
+    if (this.writeError !== undefined) {
+      const err = this.writeError;
+      this.writeError = undefined;
+      throw err;
+    }
+  }
+
+  private async write(line: string): Promise<void> {
+    if (!this.directoryCreated) {
+      await mkdir(dirname(this.path), { recursive: true });
+      this.directoryCreated = true;
+    }
+    await appendFile(this.path, line, 'utf-8');
+  }
+}
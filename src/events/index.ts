@@ -0,0 +1,7 @@
+/**
+ * Event store module exports
+ */
+
+export { MemoryEventStore, JsonLinesEventStore, matchesEventQuery } from './event-store.js';
+export { totalTokensByModel, stepDurationPercentile, failureCountsByCode } from './aggregations.js';
+export type { ModelTokenTotals } from './aggregations.js';
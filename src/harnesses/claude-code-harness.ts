@@ -60,6 +60,31 @@ import { parseModelSpec } from "../utils/model-spec.js";
 import { readFile } from "fs/promises";
 import { join } from "path";
 import type { StreamEvent } from "../types/streaming.js";
+import { getAbortCode, isRecoverableAbort, toAbortError } from "../utils/cancellation.js";
+
+/**
+ * Create an AbortController for the Agent SDK that aborts when `signal` does.
+ * The SDK takes a controller (not a signal) via `options.abortController`.
+ *
+ * GOTCHA: `signal` is usually the long-lived workflow or step signal, so call
+ * `unlink()` once the query settles or every prompt leaves a listener behind.
+ */
+function createLinkedAbortController(signal: AbortSignal): {
+  controller: AbortController;
+  unlink: () => void;
+} {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal.reason);
+  if (signal.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal.addEventListener("abort", onAbort, { once: true });
+  }
+  return {
+    controller,
+    unlink: () => signal.removeEventListener("abort", onAbort),
+  };
+}
 
 /**
  * Claude Code harness options (PRD §7.5).
@@ -435,9 +460,16 @@ export class ClaudeCodeHarness implements Harness {
         request.options.model ?? "claude-sonnet-4-20250514",
       );
 
+      // Cancelled before start — never start an SDK query
+      const signal = request.options.signal;
+      if (signal?.aborted) {
+        return this.createCancelledResponse<T>(signal);
+      }
+
       // PATTERN: Convert Provider hooks to SDK hooks
       // Adapts ProviderHookEvents to SDK-compatible format for use in query()
       const sdkHooks = this.buildAgentSDKHooks(hooks);
+      const linked = signal ? createLinkedAbortController(signal) : undefined;
 
       // PATTERN: AgentSDKOptions construction (EXACT pattern from src/core/agent.ts:397-426)
       // CRITICAL: Map ProviderRequest fields to SDK Options format
@@ -475,148 +507,160 @@ export class ClaudeCodeHarness implements Harness {
         ...(Object.keys(sdkHooks).length > 0 && {
           hooks: sdkHooks,
         }),
-      };
-
-      // PATTERN: Start time tracking for duration calculation
-      // FROM: src/core/agent.ts line 406
-      const startTime = Date.now();
-
-      // PATTERN: SDK query() call (EXACT pattern from src/core/agent.ts:431)
-      // CRITICAL: query() returns AsyncGenerator<SDKMessage> (not Promise!)
-      // Do NOT await the query() call - it returns the generator synchronously
-      // P2.M2.T1.S2: For continuation, use empty prompt (history comes via streamInput)
-      const queryResult = this.sdk!.query({
-        prompt: isContinuation ? "" : request.prompt,
-        options: sdkOptions,
-      });
 
-      // P2.M2.T1.S2: Stream session history for continuation
-      // CRITICAL: continue: true alone is insufficient - must also call streamInput() with history
-      if (isContinuation && session) {
-        await queryResult.streamInput(
-          (async function* historyStream() {
-            for (const msg of session!.history) {
-              yield msg;
-            }
-          })(),
-        );
+        // Cancellation: the SDK aborts the in-flight request and tool runs
+        ...(linked && { abortController: linked.controller }),
+      };
+      try {
 
-        // Stream new user message for continuation
-        // CRITICAL: New message also goes via streamInput(), not prompt parameter
-        await queryResult.streamInput(
-          (async function* newMessageStream() {
-            yield {
-              type: "user",
-              message: { content: request.prompt },
-              parent_tool_use_id: null,
-              session_id: session!.history[0]?.session_id ?? "",
-            } as import("@anthropic-ai/claude-agent-sdk").SDKUserMessage;
-          })(),
-        );
-      }
+        // PATTERN: Start time tracking for duration calculation
+        // FROM: src/core/agent.ts line 406
+        const startTime = Date.now();
+
+        // PATTERN: SDK query() call (EXACT pattern from src/core/agent.ts:431)
+        // CRITICAL: query() returns AsyncGenerator<SDKMessage> (not Promise!)
+        // Do NOT await the query() call - it returns the generator synchronously
+        // P2.M2.T1.S2: For continuation, use empty prompt (history comes via streamInput)
+        const queryResult = this.sdk!.query({
+          prompt: isContinuation ? "" : request.prompt,
+          options: sdkOptions,
+        });
+
+        // P2.M2.T1.S2: Stream session history for continuation
+        // CRITICAL: continue: true alone is insufficient - must also call streamInput() with history
+        if (isContinuation && session) {
+          await queryResult.streamInput(
+            (async function* historyStream() {
+              for (const msg of session!.history) {
+                yield msg;
+              }
+            })(),
+          );
 
-      // PATTERN: Message iteration and AgentResponse construction
-      // FROM: src/core/agent.ts lines 437-492
-      let resultMessage:
-        | import("@anthropic-ai/claude-agent-sdk").SDKResultMessage
-        | null = null;
-      let toolCallCount = 0;
+          // Stream new user message for continuation
+          // CRITICAL: New message also goes via streamInput(), not prompt parameter
+          await queryResult.streamInput(
+            (async function* newMessageStream() {
+              yield {
+                type: "user",
+                message: { content: request.prompt },
+                parent_tool_use_id: null,
+                session_id: session!.history[0]?.session_id ?? "",
+              } as import("@anthropic-ai/claude-agent-sdk").SDKUserMessage;
+            })(),
+          );
+        }
 
-      // Iterate over the AsyncGenerator of SDK messages
-      for await (const message of queryResult) {
-        // Count tool uses from assistant messages
-        if (message.type === "assistant") {
-          const content = message.message?.content;
-          if (Array.isArray(content)) {
-            for (const block of content) {
-              if (block.type === "tool_use") {
-                toolCallCount++;
-                // Note: Hooks adapter will be implemented in P2.M1.T2.S1
+        // PATTERN: Message iteration and AgentResponse construction
+        // FROM: src/core/agent.ts lines 437-492
+        let resultMessage:
+          | import("@anthropic-ai/claude-agent-sdk").SDKResultMessage
+          | null = null;
+        let toolCallCount = 0;
+
+        // Iterate over the AsyncGenerator of SDK messages
+        for await (const message of queryResult) {
+          // Count tool uses from assistant messages
+          if (message.type === "assistant") {
+            const content = message.message?.content;
+            if (Array.isArray(content)) {
+              for (const block of content) {
+                if (block.type === "tool_use") {
+                  toolCallCount++;
+                  // Note: Hooks adapter will be implemented in P2.M1.T2.S1
+                }
               }
             }
           }
-        }
 
-        // P2.M2.T1.S2: Capture user messages and append to session history
-        // CRITICAL: User messages must be accumulated for next turn's streamInput()
-        if (message.type === "user" && session && sessionId) {
-          session.history.push(
-            message as import("@anthropic-ai/claude-agent-sdk").SDKUserMessage,
-          );
+          // P2.M2.T1.S2: Capture user messages and append to session history
+          // CRITICAL: User messages must be accumulated for next turn's streamInput()
+          if (message.type === "user" && session && sessionId) {
+            session.history.push(
+              message as import("@anthropic-ai/claude-agent-sdk").SDKUserMessage,
+            );
 
-          // CRITICAL: Save back to store for persistent stores
-          // FileSessionStore returns copies - must save after mutation
-          if (!(this.sessionStore instanceof MemorySessionStore)) {
-            await this.sessionStore.save(sessionId, session);
+            // CRITICAL: Save back to store for persistent stores
+            // FileSessionStore returns copies - must save after mutation
+            if (!(this.sessionStore instanceof MemorySessionStore)) {
+              await this.sessionStore.save(sessionId, session);
+            }
           }
-        }
 
-        // Capture the final result message
-        if (message.type === "result") {
-          resultMessage =
-            message as import("@anthropic-ai/claude-agent-sdk").SDKResultMessage;
+          // Capture the final result message
+          if (message.type === "result") {
+            resultMessage =
+              message as import("@anthropic-ai/claude-agent-sdk").SDKResultMessage;
 
-          // P2.M2.T1.S2: Update session lastResult with latest execution result
-          if (session && sessionId) {
-            session.lastResult = resultMessage;
+            // P2.M2.T1.S2: Update session lastResult with latest execution result
+            if (session && sessionId) {
+              session.lastResult = resultMessage;
 
-            // CRITICAL: Save back to store for persistent stores
-            if (!(this.sessionStore instanceof MemorySessionStore)) {
-              await this.sessionStore.save(sessionId, session);
+              // CRITICAL: Save back to store for persistent stores
+              if (!(this.sessionStore instanceof MemorySessionStore)) {
+                await this.sessionStore.save(sessionId, session);
+              }
             }
           }
         }
-      }
 
-      // Calculate duration from start time
-      const duration = Date.now() - startTime;
+        // Calculate duration from start time
+        const duration = Date.now() - startTime;
 
-      // Handle missing result message
-      if (!resultMessage) {
-        return createErrorResponse(
-          "INVALID_RESPONSE_FORMAT",
-          "No result message received from Agent SDK",
-          { duration },
-          false,
-        ) as AgentResponse<T>;
-      }
+        // An aborted query may end without (or with a partial) result
+        if (signal?.aborted) {
+          return this.createCancelledResponse<T>(signal);
+        }
 
-      // Handle error subtypes (error_during_execution, error_max_turns)
-      if (resultMessage.subtype !== "success") {
-        const errorResult =
-          resultMessage as import("@anthropic-ai/claude-agent-sdk").SDKResultMessage & {
-            subtype: string;
-            errors?: string[];
-          };
-        return createErrorResponse(
-          "EXECUTION_FAILED",
-          `Agent SDK execution failed: ${errorResult.subtype}`,
-          {
-            errors: errorResult.errors ?? [],
-            subtype: errorResult.subtype,
-          },
-          errorResult.subtype === "error_max_turns", // Recoverable if just hit turn limit
-        ) as AgentResponse<T>;
-      }
+        // Handle missing result message
+        if (!resultMessage) {
+          return createErrorResponse(
+            "INVALID_RESPONSE_FORMAT",
+            "No result message received from Agent SDK",
+            { duration },
+            false,
+          ) as AgentResponse<T>;
+        }
 
-      // Extract usage from result
-      const usage = {
-        input_tokens: resultMessage.usage?.input_tokens ?? 0,
-        output_tokens: resultMessage.usage?.output_tokens ?? 0,
-      };
+        // Handle error subtypes (error_during_execution, error_max_turns)
+        if (resultMessage.subtype !== "success") {
+          const errorResult =
+            resultMessage as import("@anthropic-ai/claude-agent-sdk").SDKResultMessage & {
+              subtype: string;
+              errors?: string[];
+            };
+          return createErrorResponse(
+            "EXECUTION_FAILED",
+            `Agent SDK execution failed: ${errorResult.subtype}`,
+            {
+              errors: errorResult.errors ?? [],
+              subtype: errorResult.subtype,
+            },
+            errorResult.subtype === "error_max_turns", // Recoverable if just hit turn limit
+          ) as AgentResponse<T>;
+        }
 
-      // Extract data from result (prefer structured_output, fallback to result)
-      const data = (resultMessage.structured_output ??
-        resultMessage.result) as T;
+        // Extract usage from result
+        const usage = {
+          input_tokens: resultMessage.usage?.input_tokens ?? 0,
+          output_tokens: resultMessage.usage?.output_tokens ?? 0,
+        };
 
-      // Return success response with metadata
-      return createSuccessResponse(data, {
-        agentId: this.id,
-        timestamp: Date.now(),
-        duration,
-        usage,
-        toolCalls: toolCallCount,
-      });
+        // Extract data from result (prefer structured_output, fallback to result)
+        const data = (resultMessage.structured_output ??
+          resultMessage.result) as T;
+
+        // Return success response with metadata
+        return createSuccessResponse(data, {
+          agentId: this.id,
+          timestamp: Date.now(),
+          duration,
+          usage,
+          toolCalls: toolCallCount,
+        });
+      } finally {
+        linked?.unlink();
+      }
     })();
   }
 
@@ -667,8 +711,16 @@ export class ClaudeCodeHarness implements Harness {
       request.options.model ?? "claude-sonnet-4-20250514",
     );
 
+    // Cancelled before start — never start an SDK query
+    const signal = request.options.signal;
+    if (signal?.aborted) {
+      yield this.createCancelledEvent(signal);
+      return this.createCancelledResponse<T>(signal);
+    }
+
     // Build SDK hooks
     const sdkHooks = this.buildAgentSDKHooks(hooks);
+    const linked = signal ? createLinkedAbortController(signal) : undefined;
 
     // Build SDK options
     const sdkOptions = {
@@ -689,181 +741,217 @@ export class ClaudeCodeHarness implements Harness {
       ...(Object.keys(sdkHooks).length > 0 && {
         hooks: sdkHooks,
       }),
+      ...(linked && { abortController: linked.controller }),
     };
+    try {
 
-    const startTime = Date.now();
+      const startTime = Date.now();
 
-    // Yield metadata event first
-    yield {
-      type: "metadata",
-      metadata: {
-        requestId: `${this.id}-${Date.now()}`,
-        model: modelSpec.model,
-        provider: modelSpec.provider,
-      },
-    };
+      // Yield metadata event first
+      yield {
+        type: "metadata",
+        metadata: {
+          requestId: `${this.id}-${Date.now()}`,
+          model: modelSpec.model,
+          provider: modelSpec.provider,
+        },
+      };
 
-    // Create SDK query
-    const queryResult = this.sdk.query({
-      prompt: isContinuation ? "" : request.prompt,
-      options: sdkOptions,
-    });
-
-    // Stream session history for continuation
-    if (isContinuation && session) {
-      await queryResult.streamInput(
-        (async function* historyStream() {
-          for (const msg of session!.history) {
-            yield msg;
-          }
-        })(),
-      );
+      // Create SDK query
+      const queryResult = this.sdk.query({
+        prompt: isContinuation ? "" : request.prompt,
+        options: sdkOptions,
+      });
 
-      await queryResult.streamInput(
-        (async function* newMessageStream() {
-          yield {
-            type: "user",
-            message: { content: request.prompt },
-            parent_tool_use_id: null,
-            session_id: session!.history[0]?.session_id ?? "",
-          } as import("@anthropic-ai/claude-agent-sdk").SDKUserMessage;
-        })(),
-      );
-    }
+      // Stream session history for continuation
+      if (isContinuation && session) {
+        await queryResult.streamInput(
+          (async function* historyStream() {
+            for (const msg of session!.history) {
+              yield msg;
+            }
+          })(),
+        );
+
+        await queryResult.streamInput(
+          (async function* newMessageStream() {
+            yield {
+              type: "user",
+              message: { content: request.prompt },
+              parent_tool_use_id: null,
+              session_id: session!.history[0]?.session_id ?? "",
+            } as import("@anthropic-ai/claude-agent-sdk").SDKUserMessage;
+          })(),
+        );
+      }
 
-    let resultMessage:
-      | import("@anthropic-ai/claude-agent-sdk").SDKResultMessage
-      | null = null;
-    let toolCallCount = 0;
-    let fullText = "";
-    let textIndex = 0;
-
-    // Iterate over the AsyncGenerator of SDK messages
-    for await (const message of queryResult) {
-      // Process assistant messages for text content
-      if (message.type === "assistant") {
-        const content = message.message?.content;
-        if (Array.isArray(content)) {
-          for (const block of content) {
-            if (block.type === "text") {
-              // Yield text delta event
-              const text = block.text;
-              if (text && text !== fullText) {
-                const delta = text.slice(fullText.length);
-                fullText = text;
+      let resultMessage:
+        | import("@anthropic-ai/claude-agent-sdk").SDKResultMessage
+        | null = null;
+      let toolCallCount = 0;
+      let fullText = "";
+      let textIndex = 0;
+
+      // Iterate over the AsyncGenerator of SDK messages
+      for await (const message of queryResult) {
+        // Process assistant messages for text content
+        if (message.type === "assistant") {
+          const content = message.message?.content;
+          if (Array.isArray(content)) {
+            for (const block of content) {
+              if (block.type === "text") {
+                // Yield text delta event
+                const text = block.text;
+                if (text && text !== fullText) {
+                  const delta = text.slice(fullText.length);
+                  fullText = text;
+                  yield {
+                    type: "text_delta",
+                    delta,
+                    index: textIndex++,
+                  };
+                }
+              } else if (block.type === "tool_use") {
+                toolCallCount++;
+                // Yield tool call start event
                 yield {
-                  type: "text_delta",
-                  delta,
-                  index: textIndex++,
+                  type: "tool_call_start",
+                  id: block.id,
+                  name: block.name,
+                  index: 0,
+                };
+                // Tool execution happens via SDK, toolExecutor is called through hooks
+                // Yield tool call done event
+                yield {
+                  type: "tool_call_done",
+                  id: block.id,
+                  result: null, // Results come back in subsequent messages
                 };
               }
-            } else if (block.type === "tool_use") {
-              toolCallCount++;
-              // Yield tool call start event
-              yield {
-                type: "tool_call_start",
-                id: block.id,
-                name: block.name,
-                index: 0,
-              };
-              // Tool execution happens via SDK, toolExecutor is called through hooks
-              // Yield tool call done event
-              yield {
-                type: "tool_call_done",
-                id: block.id,
-                result: null, // Results come back in subsequent messages
-              };
             }
           }
         }
-      }
 
-      // Capture user messages for session history
-      if (message.type === "user" && session && sessionId) {
-        session.history.push(
-          message as import("@anthropic-ai/claude-agent-sdk").SDKUserMessage,
-        );
-
-        // CRITICAL: Save back to store for persistent stores
-        if (!(this.sessionStore instanceof MemorySessionStore)) {
-          await this.sessionStore.save(sessionId, session);
-        }
-      }
-
-      // Capture the final result message
-      if (message.type === "result") {
-        resultMessage =
-          message as import("@anthropic-ai/claude-agent-sdk").SDKResultMessage;
-        if (session && sessionId) {
-          session.lastResult = resultMessage;
+        // Capture user messages for session history
+        if (message.type === "user" && session && sessionId) {
+          session.history.push(
+            message as import("@anthropic-ai/claude-agent-sdk").SDKUserMessage,
+          );
 
           // CRITICAL: Save back to store for persistent stores
           if (!(this.sessionStore instanceof MemorySessionStore)) {
             await this.sessionStore.save(sessionId, session);
           }
         }
+
+        // Capture the final result message
+        if (message.type === "result") {
+          resultMessage =
+            message as import("@anthropic-ai/claude-agent-sdk").SDKResultMessage;
+          if (session && sessionId) {
+            session.lastResult = resultMessage;
+
+            // CRITICAL: Save back to store for persistent stores
+            if (!(this.sessionStore instanceof MemorySessionStore)) {
+              await this.sessionStore.save(sessionId, session);
+            }
+          }
+        }
       }
-    }
 
-    const duration = Date.now() - startTime;
+      const duration = Date.now() - startTime;
 
-    // Handle missing result message
-    if (!resultMessage) {
-      yield {
-        type: "error",
-        error: new Error("No result message received from Agent SDK"),
-        code: "INVALID_RESPONSE_FORMAT",
-        retryable: false,
-      };
-      throw new Error("No result message received from Agent SDK");
-    }
+      // An aborted query may end without (or with a partial) result
+      if (signal?.aborted) {
+        yield this.createCancelledEvent(signal);
+        return this.createCancelledResponse<T>(signal);
+      }
 
-    // Handle error subtypes
-    if (resultMessage.subtype !== "success") {
-      const errorResult =
-        resultMessage as import("@anthropic-ai/claude-agent-sdk").SDKResultMessage & {
-          subtype: string;
-          errors?: string[];
+      // Handle missing result message
+      if (!resultMessage) {
+        yield {
+          type: "error",
+          error: new Error("No result message received from Agent SDK"),
+          code: "INVALID_RESPONSE_FORMAT",
+          retryable: false,
         };
-      yield {
-        type: "error",
-        error: new Error(`Agent SDK execution failed: ${errorResult.subtype}`),
-        code: "EXECUTION_FAILED",
-        retryable: errorResult.subtype === "error_max_turns",
-      };
-      throw new Error(`Agent SDK execution failed: ${errorResult.subtype}`);
-    }
+        throw new Error("No result message received from Agent SDK");
+      }
+
+      // Handle error subtypes
+      if (resultMessage.subtype !== "success") {
+        const errorResult =
+          resultMessage as import("@anthropic-ai/claude-agent-sdk").SDKResultMessage & {
+            subtype: string;
+            errors?: string[];
+          };
+        yield {
+          type: "error",
+          error: new Error(`Agent SDK execution failed: ${errorResult.subtype}`),
+          code: "EXECUTION_FAILED",
+          retryable: errorResult.subtype === "error_max_turns",
+        };
+        throw new Error(`Agent SDK execution failed: ${errorResult.subtype}`);
+      }
+
+      // Yield usage event
+      if (resultMessage.usage) {
+        yield {
+          type: "usage",
+          inputTokens: resultMessage.usage.input_tokens ?? 0,
+          outputTokens: resultMessage.usage.output_tokens ?? 0,
+          cacheTokens:
+            resultMessage.usage.cache_read_tokens ??
+            resultMessage.usage.cache_write_tokens,
+        };
+      }
 
-    // Yield usage event
-    if (resultMessage.usage) {
+      // Yield done event
       yield {
-        type: "usage",
-        inputTokens: resultMessage.usage.input_tokens ?? 0,
-        outputTokens: resultMessage.usage.output_tokens ?? 0,
-        cacheTokens:
-          resultMessage.usage.cache_read_tokens ??
-          resultMessage.usage.cache_write_tokens,
+        type: "done",
+        finishReason: "stop",
       };
+
+      // Extract data and return final AgentResponse
+      const data = (resultMessage.structured_output ?? resultMessage.result) as T;
+      return createSuccessResponse(data, {
+        agentId: this.id,
+        timestamp: Date.now(),
+        duration,
+        usage: {
+          input_tokens: resultMessage.usage?.input_tokens ?? 0,
+          output_tokens: resultMessage.usage?.output_tokens ?? 0,
+        },
+        toolCalls: toolCallCount,
+      });
+    } finally {
+      linked?.unlink();
     }
+  }
 
-    // Yield done event
-    yield {
-      type: "done",
-      finishReason: "stop",
-    };
+  /**
+   * CANCELLED (or TIMEOUT) error response for a query aborted via `request.options.signal`.
+   * Non-recoverable unless the step timed out: a cancelled call must not be retried by the caller.
+   */
+  private createCancelledResponse<T>(signal: AbortSignal): AgentResponse<T> {
+    return createErrorResponse(
+      getAbortCode(signal),
+      toAbortError(signal).message,
+      {},
+      isRecoverableAbort(signal),
+    ) as AgentResponse<T>;
+  }
 
-    // Extract data and return final AgentResponse
-    const data = (resultMessage.structured_output ?? resultMessage.result) as T;
-    return createSuccessResponse(data, {
-      agentId: this.id,
-      timestamp: Date.now(),
-      duration,
-      usage: {
-        input_tokens: resultMessage.usage?.input_tokens ?? 0,
-        output_tokens: resultMessage.usage?.output_tokens ?? 0,
-      },
-      toolCalls: toolCallCount,
-    });
+  /**
+   * Terminal `error` StreamEvent for a cancelled or timed-out streaming query.
+   */
+  private createCancelledEvent(signal: AbortSignal): Extract<StreamEvent, { type: "error" }> {
+    return {
+      type: "error",
+      error: toAbortError(signal),
+      code: getAbortCode(signal),
+      retryable: isRecoverableAbort(signal),
+    };
   }
 
   /**
@@ -21,6 +21,7 @@ import { getGlobalHarnessConfig } from "../utils/harness-config.js";
 import { AGENT_ERROR_CODES } from "../types/agent.js";
 import { createSuccessResponse, createErrorResponse } from "../types/agent.js";
 import { ConfigError } from "./claude-code-harness.js";
+import { getAbortCode, isRecoverableAbort, toAbortError } from "../utils/cancellation.js";
 import type {
   AgentSession,
   AgentSessionEvent,
@@ -246,6 +247,12 @@ export class PiHarness implements Harness {
       );
       const model = this.resolveModel(modelSpec); // throws ConfigError if absent — let it propagate
 
+      // Cancelled before start — never create a session.
+      const signal = request.options.signal;
+      if (signal?.aborted) {
+        return this.createCancelledResponse<T>(signal, modelSpec);
+      }
+
       // PiHarness creates a fresh AgentSession per execute() call, so loadSkills() state
       // takes effect on the next execute() — no session rebuild is required.
       const resourceLoader = await this.buildSkillsResourceLoader(
@@ -312,9 +319,18 @@ export class PiHarness implements Harness {
 
       const unsubscribe = session.subscribe(listener);
 
+      // Abort the in-flight turn (LLM call + tool executions) when the caller cancels.
+      const onAbort = () => {
+        void session.abort().catch(() => {});
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
       try {
         await session.prompt(request.prompt); // resolves when the turn/loop is processed; events already fired
       } catch (error) {
+        if (signal?.aborted) {
+          return this.createCancelledResponse<T>(signal, modelSpec);
+        }
         // EXECUTION_FAILED path (parity with ClaudeCodeHarness's createErrorResponse usage).
         return createErrorResponse(
           AGENT_ERROR_CODES.EXECUTION_FAILED,
@@ -328,6 +344,12 @@ export class PiHarness implements Harness {
         ) as AgentResponse<T>;
       } finally {
         unsubscribe(); // detach even on success to avoid leaks if the session is reused
+        signal?.removeEventListener("abort", onAbort);
+      }
+
+      // An aborted turn resolves normally with partial output — report it as cancelled.
+      if (signal?.aborted) {
+        return this.createCancelledResponse<T>(signal, modelSpec);
       }
 
       const duration = Date.now() - startTime;
@@ -368,6 +390,13 @@ export class PiHarness implements Harness {
     const modelSpec = this.normalizeModel(request.options.model ?? "claude-sonnet-4-20250514");
     const model = this.resolveModel(modelSpec); // throws ConfigError if absent — let it propagate
 
+    // Cancelled before start — never create a session.
+    const signal = request.options.signal;
+    if (signal?.aborted) {
+      yield this.createCancelledEvent(signal);
+      return this.createCancelledResponse<T>(signal, modelSpec);
+    }
+
     // PiHarness creates a fresh AgentSession per execute() call, so loadSkills() state
     // takes effect on the next execute() — no session rebuild is required.
     const resourceLoader = await this.buildSkillsResourceLoader(
@@ -435,6 +464,12 @@ export class PiHarness implements Harness {
 
     const unsubscribe = session.subscribe(listener);
 
+    // Abort the in-flight turn when the caller cancels; prompt() then settles and ends the drain loop.
+    const onAbort = () => {
+      void session.abort().catch(() => {});
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
     // Kick off prompt() WITHOUT awaiting in the generator body (Decision 3). Capture rejection.
     let promptError: unknown = null;
     void session
@@ -519,6 +554,11 @@ export class PiHarness implements Harness {
       }
 
       // ── Terminal ─────────────────────────────────────────────────────────────────
+      if (signal?.aborted) {
+        yield this.createCancelledEvent(signal);
+        return this.createCancelledResponse<T>(signal, modelSpec);
+      }
+
       if (promptError) {
         const message = promptError instanceof Error ? promptError.message : String(promptError);
         yield {
@@ -560,9 +600,35 @@ export class PiHarness implements Harness {
       });
     } finally {
       unsubscribe(); // detach even on early break / abort (GOTCHA #16)
+      signal?.removeEventListener("abort", onAbort);
     }
   }
 
+  /**
+   * CANCELLED (or TIMEOUT) error response for a turn aborted via `request.options.signal`.
+   * Non-recoverable unless the step timed out: a cancelled call must not be retried by the caller.
+   */
+  private createCancelledResponse<T>(signal: AbortSignal, modelSpec: ModelSpec): AgentResponse<T> {
+    return createErrorResponse(
+      getAbortCode(signal),
+      toAbortError(signal).message,
+      { model: modelSpec.raw },
+      isRecoverableAbort(signal),
+    ) as AgentResponse<T>;
+  }
+
+  /**
+   * Terminal `error` StreamEvent for a cancelled or timed-out streaming turn.
+   */
+  private createCancelledEvent(signal: AbortSignal): Extract<StreamEvent, { type: "error" }> {
+    return {
+      type: "error",
+      error: toAbortError(signal),
+      code: getAbortCode(signal),
+      retryable: isRecoverableAbort(signal),
+    };
+  }
+
   /**
    * Dispatch the three harness hooks owned by P2.M3.T2.S2 (PRD §7.11):
    *   tool_execution_start → onToolStart({name, input})
@@ -2,17 +2,81 @@
 export type {
   WorkflowStatus,
   WorkflowNode,
+  SerializedWorkflowNode,
   LogLevel,
   LogEntry,
+  LogRecord,
+  LogSink,
+  LoggingConfig,
+  RedactionConfig,
+  RedactionFunction,
   SerializedWorkflowState,
   StateFieldMetadata,
   WorkflowError,
   WorkflowEvent,
   WorkflowObserver,
   StepOptions,
+  RetryPolicy,
+  RetryBackoff,
+  RetryJitter,
+  RetryDelayReason,
   TaskOptions,
+  TaskConcurrencyMode,
+  TaskChildResult,
+  GraphNodeDefinition,
+  AnyGraphNode,
+  GraphDefinition,
+  BudgetConfig,
+  BudgetPricing,
+  BudgetMetric,
+  BudgetUsage,
+  BudgetLimitStatus,
+  ModelCatalogEntry,
+  MiddlewareKind,
+  MiddlewareContext,
+  MiddlewareNext,
+  WorkflowMiddleware,
+  JsonSchema,
+  AgentDefinition,
+  StepRetryDefinition,
+  StepDefinition,
+  ParallelDefinition,
+  StepDefinitionEntry,
+  WorkflowDefinition,
+  DefinitionIssue,
+  DefinitionValidationResult,
+  DefinitionSourceOptions,
+  SavedWorkflowEvent,
+  SavedWorkflowNode,
+  SavedEventHistory,
+  StoredEvent,
+  EventQuery,
+  EventStore,
+  ReplayAgentCall,
+  ReplayToolCall,
+  ReplayRetry,
+  ReplayMetrics,
+  ReplayNodeHistory,
+  Breakpoint,
+  BreakpointContext,
+  PausedStep,
+  ChromeTrace,
+  ChromeTraceEvent,
+  SpanAttributes,
+  TraceSpanEvent,
+  TraceSpan,
+  SpanExporter,
+  TracingObserverOptions,
+  OtlpKeyValue,
+  OtlpSpan,
+  OtlpExportTraceRequest,
   ErrorCriterion,
   ErrorMergeStrategy,
+  // Checkpoint types
+  CheckpointStore,
+  CheckpointConfig,
+  CheckpointStepRecord,
+  WorkflowCheckpoint,
   // SDK primitive types
   Tool,
   ToolResult,
@@ -67,6 +131,13 @@ export type {
   WorkflowContext,
   WorkflowConfig,
   WorkflowResult,
+  WorkflowRunOptions,
+  ControlFlowOptions,
+  MapOptions,
+  LoopOptions,
+  WaitForSignalOptions,
+  ApprovalOptions,
+  ApprovalDecision,
   EventTreeHandle,
   EventNode,
   EventMetrics,
@@ -116,11 +187,26 @@ export {
 } from './types/index.js';
 
 // Core classes
-export { Workflow, type WorkflowExecutor } from './core/workflow.js';
-export { WorkflowLogger } from './core/logger.js';
+export { Workflow, type WorkflowExecutor, type TypedWorkflow } from './core/workflow.js';
+export { WorkflowLogger, type WorkflowLoggerBindings } from './core/logger.js';
 export { Agent, type PromptResult } from './core/agent.js';
 export { Prompt } from './core/prompt.js';
 export { MCPHandler } from './core/mcp-handler.js';
+export { defineGraph, WorkflowGraph, GraphDefinitionError } from './core/graph.js';
+
+// Declarative definitions
+export {
+  compileWorkflowDefinition,
+  loadWorkflowDefinition,
+  loadWorkflowDefinitionFile,
+  validateWorkflowDefinition,
+  checkWorkflowDefinition,
+  formatDefinitionIssue,
+  WorkflowDefinitionError,
+  jsonSchemaToZod,
+  checkJsonSchema,
+  renderTemplate,
+} from './definitions/index.js';
 
 // Providers
 export { ClaudeCodeHarness, AnthropicProvider } from './harnesses/claude-code-harness.js';
@@ -135,6 +221,19 @@ export { configureHarnesses } from './utils/harness-config.js';
 export { registerDefaultHarnesses } from './harnesses/index.js';
 export { parseModelSpec, formatModelForProvider } from './utils/model-spec.js';
 
+// Redaction of secrets and PII in logs, events, snapshots and sessions
+export {
+  Redactor,
+  configureRedaction,
+  resetRedaction,
+  registerSecret,
+  redact,
+  redactString,
+  DEFAULT_REDACTED_KEYS,
+  DEFAULT_REDACTION_PATTERNS,
+  EMAIL_PATTERN,
+} from './utils/redaction.js';
+
 // Context and event tree
 export { EventTreeHandleImpl, createEventTreeHandle } from './core/event-tree.js';
 export { WorkflowContextImpl, createWorkflowContext } from './core/workflow-context.js';
@@ -151,8 +250,8 @@ export {
 
 // Decorators
 export { Step } from './decorators/step.js';
-export { Task } from './decorators/task.js';
-export { ObservedState, getObservedState } from './decorators/observed-state.js';
+export { Task, getTaskResults } from './decorators/task.js';
+export { ObservedState, getObservedState, restoreObservedState } from './decorators/observed-state.js';
 
 // Debugger
 export { WorkflowTreeDebugger } from './debugger/tree-debugger.js';
@@ -162,7 +261,7 @@ export { WorkflowEventReplayer } from './debugger/event-replayer.js';
 export { Observable } from './utils/observable.js';
 export type { Subscription, Observer } from './utils/observable.js';
 export { generateId } from './utils/id.js';
-export { mergeWorkflowErrors } from './utils/workflow-error-utils.js';
+export { mergeWorkflowErrors, getErrorCode } from './utils/workflow-error-utils.js';
 
 // Factory functions
 export {
@@ -179,6 +278,79 @@ export { generateCacheKey, deterministicStringify, getSchemaHash } from './cache
 export type { CacheConfig, CacheMetrics } from './cache/cache.js';
 export type { CacheKeyInputs } from './cache/cache-key.js';
 
+// Checkpoints
+export { MemoryCheckpointStore, FileCheckpointStore, WorkflowCheckpointer } from './checkpoint/index.js';
+export { serializeWorkflowNode, deserializeWorkflowNode } from './utils/tree-serialization.js';
+
+// Tracing
+export { TracingObserver, InMemorySpanExporter, OtlpJsonFileExporter, toOtlpJson } from './tracing/index.js';
+
+// Logging
+export { JsonLinesFileSink, ConsoleLogSink, LoggerAdapterSink } from './logging/index.js';
+export type {
+  JsonLinesFileSinkOptions,
+  ConsoleLogSinkOptions,
+  LoggerAdapterSinkOptions,
+  StructuredLogger,
+} from './logging/index.js';
+
+// Metrics
+export {
+  MetricsObserver,
+  MetricsRegistry,
+  Counter,
+  Gauge,
+  Histogram,
+  DEFAULT_DURATION_BUCKETS,
+  renderPrometheus,
+} from './metrics/index.js';
+export type { MetricsObserverOptions, MetricLabels, MetricType, MetricFamily } from './metrics/index.js';
+
+// Event store
+export {
+  MemoryEventStore,
+  JsonLinesEventStore,
+  matchesEventQuery,
+  totalTokensByModel,
+  stepDurationPercentile,
+  failureCountsByCode,
+} from './events/index.js';
+export type { ModelTokenTotals } from './events/index.js';
+
+// Cancellation, timeouts, concurrency, retries, signals, budgets, costs and middleware
+export {
+  WorkflowCancelledError,
+  isCancellationError,
+  toCancellationError,
+  throwIfAborted,
+  raceWithSignal,
+  toAbortError,
+  getAbortCode,
+  isRecoverableAbort,
+} from './utils/cancellation.js';
+export {
+  WorkflowTimeoutError,
+  isTimeoutError,
+  resolveDeadline,
+  startTimeLimit,
+} from './utils/timeout.js';
+export type { TimeLimit } from './utils/timeout.js';
+export { runWithConcurrency } from './utils/concurrency.js';
+export type { ConcurrencyOptions } from './utils/concurrency.js';
+export { computeRetryDelay, getRetryAfterMs } from './utils/retry-policy.js';
+export type { RetryDelay } from './utils/retry-policy.js';
+export { SignalValidationError, ApprovalDecisionSchema } from './utils/signals.js';
+export { BudgetTracker, describeBudgetLimit } from './utils/budget.js';
+export type { BudgetThresholdCrossing } from './utils/budget.js';
+export {
+  ModelCatalog,
+  defaultModelCatalog,
+  DEFAULT_MODEL_CATALOG,
+  computeTokenCost,
+  collectSubtreeCosts,
+} from './utils/model-catalog.js';
+export { runWithMiddleware } from './utils/middleware.js';
+
 // Reflection
 export { ReflectionManager, executeWithReflection } from './reflection/reflection.js';
 
@@ -0,0 +1,11 @@
+/**
+ * Logging module exports
+ */
+
+export { JsonLinesFileSink, ConsoleLogSink, LoggerAdapterSink } from './log-sinks.js';
+export type {
+  JsonLinesFileSinkOptions,
+  ConsoleLogSinkOptions,
+  LoggerAdapterSinkOptions,
+  StructuredLogger,
+} from './log-sinks.js';
@@ -0,0 +1,219 @@
+/**
+ * Log sinks
+ *
+ * Ships a JSON-lines file sink with size-based rotation, a console
+ * pretty-printer and an adapter for pino/winston-style application loggers.
+ * Other destinations implement the LogSink interface.
+ *
+ * @module
+ */
+
+import { appendFile, mkdir, rename, stat } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { LogLevel, LogRecord, LogSink } from '../types/index.js';
+import { toJson } from '../utils/json.js';
+
+/**
+ * Options for JsonLinesFileSink
+ */
+export interface JsonLinesFileSinkOptions {
+  /**
+   * Rotate the file before it grows past this many bytes (default: no rotation)
+   *
+   * The current file is renamed to `<path>.1`, `<path>.1` to `<path>.2` and so on.
+   */
+  maxBytes?: number;
+  /** Number of rotated files to keep (default: 5, at least 1) */
+  maxFiles?: number;
+}
+
+/**
+ * Appends log records to a file as JSON lines
+ *
+ * @remarks
+ * Writes are queued in order; call flush() (or `workflow.flushLogs()`) to
+ * wait for them. A failed write is rethrown by the next flush() and later
+ * records are still written.
+ *
+ * @example
+ * ```ts
+ * const workflow = new Workflow({
+ *   name: 'Ingest',
+ *   logging: { sinks: [new JsonLinesFileSink('./logs/ingest.jsonl', { maxBytes: 10_000_000, maxFiles: 3 })] },
+ * }, executor);
+ * ```
+ */
+export class JsonLinesFileSink implements LogSink {
+  private readonly maxBytes?: number;
+  private readonly maxFiles: number;
+  /** Size of the current file (read from disk before the first write) */
+  private size?: number;
+  private writing: Promise<void> = Promise.resolve();
+  private writeError: unknown;
+
+  /**
+   * @param path - File to append to (created with its directory if missing)
+   */
+  constructor(
+    private readonly path: string,
+    options: JsonLinesFileSinkOptions = {}
+  ) {
+    this.maxBytes = options.maxBytes;
+    this.maxFiles = Math.max(options.maxFiles ?? 5, 1);
+  }
+
+  write(record: LogRecord): void {
+    const line = toJson(record) + '\n';
+    this.writing = this.writing
+      .then(() => this.append(line))
+      .catch((err: unknown) => {
+        this.writeError ??= err;
+      });
+  }
+
+  async flush(): Promise<void> {
+    await this.writing;
+    if (this.writeError !== undefined) {
+      const err = this.writeError;
+      this.writeError = undefined;
+      throw err;
+    }
+  }
+
+  private async append(line: string): Promise<void> {
+    if (this.size === undefined) {
+      await mkdir(dirname(this.path), { recursive: true });
+      this.size = await stat(this.path).then(
+        (stats) => stats.size,
+        () => 0
+      );
+    }
+    const bytes = Buffer.byteLength(line);
+    if (this.maxBytes !== undefined && this.size > 0 && this.size + bytes > this.maxBytes) {
+      await this.rotate();
+    }
+    await appendFile(this.path, line, 'utf-8');
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    // GOTCHA: rename() replaces the target, so the oldest file drops out
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      await rename(`${this.path}.${index}`, `${this.path}.${index + 1}`).catch(ignoreMissing);
+    }
+    await rename(this.path, `${this.path}.1`).catch(ignoreMissing);
+    this.size = 0;
+  }
+}
+
+function ignoreMissing(err: NodeJS.ErrnoException): void {
+  if (err.code !== 'ENOENT') {
+    throw err;
+  }
+}
+
+/**
+ * Options for ConsoleLogSink
+ */
+export interface ConsoleLogSinkOptions {
+  /** Receives each formatted line (default: console.log) */
+  output?: (line: string) => void;
+  /** Color the level with ANSI codes (default: when stdout is a terminal) */
+  colors?: boolean;
+  /** Append the entry's data as JSON (default: true) */
+  showData?: boolean;
+}
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: '\x1b[90m',
+  info: '\x1b[36m',
+  warn: '\x1b[33m',
+  error: '\x1b[31m',
+};
+
+/**
+ * Prints log records for people, indented by workflow depth
+ *
+ * @example
+ * ```
+ * 14:02:11.120 INFO  Ingest: starting
+ * 14:02:11.348 WARN    Parse › extract: 2 rows skipped {"rows":[4,9]}
+ * ```
+ */
+export class ConsoleLogSink implements LogSink {
+  private readonly output: (line: string) => void;
+  private readonly colors: boolean;
+  private readonly showData: boolean;
+
+  constructor(options: ConsoleLogSinkOptions = {}) {
+    this.output = options.output ?? ((line) => console.log(line));
+    this.colors = options.colors ?? process.stdout.isTTY === true;
+    this.showData = options.showData ?? true;
+  }
+
+  write(record: LogRecord): void {
+    // UTC time of day keeps lines comparable across machines
+    const time = new Date(record.timestamp).toISOString().slice(11, 23);
+    const level = record.level.toUpperCase().padEnd(5);
+    const source = record.step ? `${record.workflowName} › ${record.step}` : record.workflowName;
+    const data = this.showData && record.data !== undefined ? ` ${toJson(record.data)}` : '';
+
+    this.output(
+      `${time} ${this.colors ? `${LEVEL_COLORS[record.level]}${level}\x1b[0m` : level} ` +
+        `${'  '.repeat(record.depth)}${source}: ${record.message}${data}`
+    );
+  }
+}
+
+/**
+ * Logger with one method per level, as in pino, winston or bunyan
+ */
+export interface StructuredLogger {
+  debug(...args: unknown[]): unknown;
+  info(...args: unknown[]): unknown;
+  warn(...args: unknown[]): unknown;
+  error(...args: unknown[]): unknown;
+}
+
+/**
+ * Options for LoggerAdapterSink
+ */
+export interface LoggerAdapterSinkOptions {
+  /**
+   * Argument order of the logger's methods (default: 'pino')
+   * - 'pino': `logger.info(fields, message)` (pino, bunyan)
+   * - 'winston': `logger.info(message, fields)` (winston, console-like loggers)
+   */
+  style?: 'pino' | 'winston';
+}
+
+/**
+ * Forwards log records to an application logger
+ *
+ * The record's fields (`workflowId`, `runId`, `step`, `parentLogId`, `data`,
+ * ...) are passed as the structured part of the call; `depth` is left out.
+ *
+ * @example
+ * ```ts
+ * import pino from 'pino';
+ * workflow.addLogSink(new LoggerAdapterSink(pino()));
+ *
+ * import winston from 'winston';
+ * workflow.addLogSink(new LoggerAdapterSink(winston.createLogger({ transports: [...] }), { style: 'winston' }));
+ * ```
+ */
+export class LoggerAdapterSink implements LogSink {
+  constructor(
+    private readonly logger: StructuredLogger,
+    private readonly options: LoggerAdapterSinkOptions = {}
+  ) {}
+
+  write(record: LogRecord): void {
+    const { level, message, depth: _depth, ...fields } = record;
+    if (this.options.style === 'winston') {
+      this.logger[level](message, fields);
+    } else {
+      this.logger[level](fields, message);
+    }
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Metrics module exports
+ */
+
+export { MetricsObserver } from './metrics-observer.js';
+export type { MetricsObserverOptions } from './metrics-observer.js';
+export { MetricsRegistry, Counter, Gauge, Histogram, DEFAULT_DURATION_BUCKETS } from './registry.js';
+export type { MetricLabels, MetricType, MetricFamily } from './registry.js';
+export { renderPrometheus } from './prometheus.js';
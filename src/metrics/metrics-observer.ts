@@ -0,0 +1,204 @@
+/**
+ * Metrics from workflow events
+ *
+ * @module
+ * @remarks
+ * MetricsObserver aggregates workflow events into counters and histograms
+ * for long-running worker processes, where per-run trees are too much
+ * detail. Render its registry with renderPrometheus().
+ */
+
+import type {
+  WorkflowNode,
+  WorkflowEvent,
+  WorkflowObserver,
+  WorkflowStatus,
+  LogEntry,
+} from '../types/index.js';
+import { defaultCache, type CacheMetrics } from '../cache/cache.js';
+import { MetricsRegistry, DEFAULT_DURATION_BUCKETS, type Counter, type Histogram } from './registry.js';
+
+const TERMINAL_STATUSES: ReadonlySet<WorkflowStatus> = new Set(['completed', 'failed', 'cancelled']);
+
+/**
+ * Options for MetricsObserver
+ */
+export interface MetricsObserverOptions {
+  /** Registry to add the metrics to (default: a new registry) */
+  registry?: MetricsRegistry;
+  /**
+   * Cache to report hit rate and size of (default: defaultCache), or false
+   * to leave out cache metrics
+   */
+  cache?: { metrics(): CacheMetrics } | false;
+  /** Histogram buckets in seconds (default: DEFAULT_DURATION_BUCKETS) */
+  buckets?: readonly number[];
+}
+
+/**
+ * Counts workflow events as Prometheus metrics
+ *
+ * Register it on any number of root workflows; all of them feed the same
+ * metrics. Metrics (all prefixed `groundswell_`):
+ * - `step_duration_seconds{step}` - histogram of @Step and ctx.step() durations
+ * - `step_retries_total{step}` - retries from `stepRetry` events
+ * - `agent_prompt_duration_seconds{harness,model}` - histogram of agent call latency
+ * - `tokens_total{model,type}` - input and output tokens
+ * - `cost_usd_total{model}` - cost of agent calls (for models in the model catalog)
+ * - `tool_duration_seconds{tool}` - histogram of tool invocation durations
+ * - `errors_total{code}` - `error` events by WorkflowError code (`unknown` without one)
+ * - `workflow_runs_total{workflow,status}` - finished runs of root workflows
+ * - `llm_cache_hits_total`, `llm_cache_misses_total`, `llm_cache_hit_ratio`,
+ *   `llm_cache_entries`, `llm_cache_size_bytes` - read from the cache when rendering
+ *
+ * GOTCHA: Labels come from step, tool and workflow names. Keep those names
+ * fixed (no ids or user input in them), or the number of series grows
+ * without bound.
+ *
+ * @example
+ * ```ts
+ * const metrics = new MetricsObserver();
+ * worker.on('job', async (job) => {
+ *   const workflow = new ReportWorkflow({ name: 'report' }, job);
+ *   workflow.addObserver(metrics);
+ *   await workflow.run();
+ * });
+ * app.get('/metrics', (_req, res) => res.type('text/plain').send(renderPrometheus(metrics.registry)));
+ * ```
+ */
+export class MetricsObserver implements WorkflowObserver {
+  /** Registry holding the metrics */
+  readonly registry: MetricsRegistry;
+
+  private readonly stepDuration: Histogram;
+  private readonly stepRetries: Counter;
+  private readonly promptDuration: Histogram;
+  private readonly tokens: Counter;
+  private readonly cost: Counter;
+  private readonly toolDuration: Histogram;
+  private readonly errors: Counter;
+  private readonly workflowRuns: Counter;
+
+  /** Last status seen per root workflow, to count each run once */
+  private statuses = new Map<string, WorkflowStatus>();
+
+  constructor(options: MetricsObserverOptions = {}) {
+    this.registry = options.registry ?? new MetricsRegistry();
+    const buckets = options.buckets ?? DEFAULT_DURATION_BUCKETS;
+    const registry = this.registry;
+
+    this.stepDuration = registry.histogram(
+      'groundswell_step_duration_seconds',
+      'Duration of workflow steps',
+      ['step'],
+      buckets
+    );
+    this.stepRetries = registry.counter('groundswell_step_retries_total', 'Retries of workflow steps', ['step']);
+    this.promptDuration = registry.histogram(
+      'groundswell_agent_prompt_duration_seconds',
+      'Latency of agent prompts',
+      ['harness', 'model'],
+      buckets
+    );
+    this.tokens = registry.counter('groundswell_tokens_total', 'Tokens used by agent prompts', ['model', 'type']);
+    this.cost = registry.counter('groundswell_cost_usd_total', 'Cost of agent prompts in USD', ['model']);
+    this.toolDuration = registry.histogram(
+      'groundswell_tool_duration_seconds',
+      'Duration of tool invocations',
+      ['tool'],
+      buckets
+    );
+    this.errors = registry.counter('groundswell_errors_total', 'Workflow errors by error code', ['code']);
+    this.workflowRuns = registry.counter(
+      'groundswell_workflow_runs_total',
+      'Finished runs of root workflows',
+      ['workflow', 'status']
+    );
+
+    const cache = options.cache ?? defaultCache;
+    if (cache) {
+      this.addCacheCollector(cache);
+    }
+  }
+
+  onLog(_entry: LogEntry): void {}
+
+  onStateUpdated(_node: WorkflowNode): void {}
+
+  onTreeChanged(_root: WorkflowNode): void {}
+
+  onEvent(event: WorkflowEvent): void {
+    switch (event.type) {
+      case 'stepEnd':
+        this.stepDuration.observe({ step: event.step }, event.duration / 1000);
+        break;
+
+      case 'stepRetry':
+        this.stepRetries.inc({ step: event.stepName });
+        break;
+
+      case 'agentPromptEnd': {
+        const model = event.model ?? 'unknown';
+        this.promptDuration.observe({ harness: event.harness ?? 'unknown', model }, event.duration / 1000);
+        if (event.tokenUsage) {
+          this.tokens.inc({ model, type: 'input' }, event.tokenUsage.input_tokens);
+          this.tokens.inc({ model, type: 'output' }, event.tokenUsage.output_tokens);
+        }
+        if (event.costUsd !== undefined) {
+          this.cost.inc({ model }, event.costUsd);
+        }
+        break;
+      }
+
+      case 'toolInvocation':
+        this.toolDuration.observe({ tool: event.toolName }, event.duration / 1000);
+        break;
+
+      case 'error':
+        this.errors.inc({ code: event.error.code ?? 'unknown' });
+        break;
+
+      case 'treeUpdated':
+        this.countRun(event.root);
+        break;
+    }
+  }
+
+  /**
+   * Count a run when the root workflow's status turns terminal
+   *
+   * GOTCHA: treeUpdated fires on every status change in the tree, so only
+   * changes of the root's status are counted.
+   */
+  private countRun(root: WorkflowNode): void {
+    const previous = this.statuses.get(root.id);
+    if (root.status === previous) {
+      return;
+    }
+    if (TERMINAL_STATUSES.has(root.status)) {
+      this.workflowRuns.inc({ workflow: root.name, status: root.status });
+      // Forget finished roots so a worker's memory does not grow with each run
+      this.statuses.delete(root.id);
+    } else {
+      this.statuses.set(root.id, root.status);
+    }
+  }
+
+  private addCacheCollector(cache: { metrics(): CacheMetrics }): void {
+    const hits = this.registry.counter('groundswell_llm_cache_hits_total', 'LLM response cache hits');
+    const misses = this.registry.counter('groundswell_llm_cache_misses_total', 'LLM response cache misses');
+    const hitRatio = this.registry.gauge('groundswell_llm_cache_hit_ratio', 'LLM response cache hit ratio (0-1)');
+    const entries = this.registry.gauge('groundswell_llm_cache_entries', 'Entries in the LLM response cache');
+    const sizeBytes = this.registry.gauge('groundswell_llm_cache_size_bytes', 'Size of the LLM response cache in bytes');
+
+    this.registry.addCollector(() => {
+      const metrics = cache.metrics();
+      // The cache keeps its own totals, so they are copied rather than incremented
+      hits.set({}, metrics.hits);
+      misses.set({}, metrics.misses);
+      hitRatio.set({}, metrics.hitRate / 100);
+      entries.set({}, metrics.size);
+      sizeBytes.set({}, metrics.sizeBytes);
+    });
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Prometheus text exposition format
+ *
+ * @module
+ */
+
+import type { MetricsRegistry, MetricLabels } from './registry.js';
+
+/**
+ * Render the metrics of a registry in the Prometheus text format (0.0.4)
+ *
+ * Serve the result with the content type
+ * `text/plain; version=0.0.4; charset=utf-8`.
+ *
+ * @param registry - Registry to render (collectors run first)
+ * @returns Exposition text, ending with a newline
+ *
+ * @example
+ * ```ts
+ * http.createServer((req, res) => {
+ *   res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+ *   res.end(renderPrometheus(metrics.registry));
+ * }).listen(9464);
+ * ```
+ */
+export function renderPrometheus(registry: MetricsRegistry): string {
+  const lines: string[] = [];
+
+  for (const family of registry.collect()) {
+    lines.push(`# HELP ${family.name} ${escapeHelp(family.help)}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+
+    for (const series of family.series) {
+      if (family.type === 'histogram') {
+        for (const bucket of series.buckets ?? []) {
+          lines.push(
+            `${family.name}_bucket${formatLabels({ ...series.labels, le: formatValue(bucket.le) })} ${bucket.count}`
+          );
+        }
+        lines.push(`${family.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum ?? 0)}`);
+        lines.push(`${family.name}_count${formatLabels(series.labels)} ${series.count ?? 0}`);
+      } else {
+        lines.push(`${family.name}${formatLabels(series.labels)} ${formatValue(series.value ?? 0)}`);
+      }
+    }
+  }
+
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  if (Number.isNaN(value)) return 'NaN';
+  return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,278 @@
+/**
+ * Metrics registry
+ *
+ * Counters, gauges and histograms with labels, in the Prometheus data
+ * model. Render a registry with renderPrometheus().
+ *
+ * @module
+ */
+
+/**
+ * Label values by label name
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Metric type (as in `# TYPE`)
+ */
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * A metric and its current values, as read by collect()
+ */
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  /** One entry per label combination */
+  series: Array<{
+    labels: MetricLabels;
+    /** Counter or gauge value */
+    value?: number;
+    /** Histogram: cumulative count per upper bound (`le`), including +Inf */
+    buckets?: Array<{ le: number; count: number }>;
+    sum?: number;
+    count?: number;
+  }>;
+}
+
+/**
+ * Default histogram buckets in seconds, up to the latency of long agent calls
+ */
+export const DEFAULT_DURATION_BUCKETS: readonly number[] = [
+  0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300,
+];
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Shared label handling of all metric types
+ */
+abstract class Metric<S> {
+  protected series = new Map<string, { labels: MetricLabels; state: S }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[]
+  ) {
+    if (!METRIC_NAME.test(name)) {
+      throw new Error(`Invalid metric name '${name}'`);
+    }
+    for (const label of labelNames) {
+      if (!LABEL_NAME.test(label) || label.startsWith('__') || label === 'le') {
+        throw new Error(`Invalid label name '${label}' for metric '${name}'`);
+      }
+    }
+  }
+
+  abstract readonly type: MetricType;
+
+  /** Forget all values */
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected stateFor(labels: MetricLabels, create: () => S): S {
+    for (const label of Object.keys(labels)) {
+      if (!this.labelNames.includes(label)) {
+        throw new Error(`Unknown label '${label}' for metric '${this.name}'`);
+      }
+    }
+    // Missing labels are empty, as in Prometheus
+    const complete = Object.fromEntries(this.labelNames.map((label) => [label, labels[label] ?? '']));
+    const key = JSON.stringify(this.labelNames.map((label) => complete[label]));
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: complete, state: create() };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+
+  abstract collect(): MetricFamily;
+}
+
+/**
+ * Monotonically increasing count
+ */
+export class Counter extends Metric<{ value: number }> {
+  readonly type = 'counter';
+
+  /**
+   * @throws {Error} If `value` is negative
+   */
+  inc(labels: MetricLabels = {}, value = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter '${this.name}' cannot be decreased`);
+    }
+    this.stateFor(labels, () => ({ value: 0 })).value += value;
+  }
+
+  /**
+   * Set the count, for counters copied from another source (e.g. LLMCache.metrics())
+   */
+  set(labels: MetricLabels, value: number): void {
+    this.stateFor(labels, () => ({ value: 0 })).value = value;
+  }
+
+  collect(): MetricFamily {
+    return {
+      name: this.name,
+      help: this.help,
+      type: this.type,
+      series: [...this.series.values()].map(({ labels, state }) => ({ labels, value: state.value })),
+    };
+  }
+}
+
+/**
+ * Value that can go up and down
+ */
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = 'gauge';
+
+  set(labels: MetricLabels, value: number): void {
+    this.stateFor(labels, () => ({ value: 0 })).value = value;
+  }
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    this.stateFor(labels, () => ({ value: 0 })).value += value;
+  }
+
+  dec(labels: MetricLabels = {}, value = 1): void {
+    this.inc(labels, -value);
+  }
+
+  collect(): MetricFamily {
+    return {
+      name: this.name,
+      help: this.help,
+      type: this.type,
+      series: [...this.series.values()].map(({ labels, state }) => ({ labels, value: state.value })),
+    };
+  }
+}
+
+/**
+ * Distribution of observed values in buckets
+ */
+export class Histogram extends Metric<{ counts: number[]; sum: number; count: number }> {
+  readonly type = 'histogram';
+  readonly buckets: readonly number[];
+
+  constructor(name: string, help: string, labelNames: readonly string[], buckets: readonly number[]) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const state = this.stateFor(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 }));
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) state.counts[index]++;
+    });
+    state.sum += value;
+    state.count++;
+  }
+
+  collect(): MetricFamily {
+    return {
+      name: this.name,
+      help: this.help,
+      type: this.type,
+      series: [...this.series.values()].map(({ labels, state }) => ({
+        labels,
+        buckets: [
+          ...this.buckets.map((le, index) => ({ le, count: state.counts[index] })),
+          { le: Infinity, count: state.count },
+        ],
+        sum: state.sum,
+        count: state.count,
+      })),
+    };
+  }
+}
+
+/**
+ * Holds the metrics of a process
+ *
+ * @example
+ * ```ts
+ * const registry = new MetricsRegistry();
+ * const jobs = registry.counter('jobs_total', 'Jobs processed', ['queue']);
+ * jobs.inc({ queue: 'nightly' });
+ * console.log(renderPrometheus(registry));
+ * ```
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Counter | Gauge | Histogram>();
+  private collectors: Array<() => void> = [];
+
+  /**
+   * Get or create a counter
+   * @throws {Error} If a metric of another type has the name
+   */
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(name, 'counter', () => new Counter(name, help, labelNames));
+  }
+
+  /**
+   * Get or create a gauge
+   * @throws {Error} If a metric of another type has the name
+   */
+  gauge(name: string, help: string, labelNames: readonly string[] = []): Gauge {
+    return this.register(name, 'gauge', () => new Gauge(name, help, labelNames));
+  }
+
+  /**
+   * Get or create a histogram
+   * @param buckets - Upper bounds (default: DEFAULT_DURATION_BUCKETS)
+   * @throws {Error} If a metric of another type has the name
+   */
+  histogram(
+    name: string,
+    help: string,
+    labelNames: readonly string[] = [],
+    buckets: readonly number[] = DEFAULT_DURATION_BUCKETS
+  ): Histogram {
+    return this.register(name, 'histogram', () => new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * Run a function before each collect(), to update metrics read from elsewhere
+   */
+  addCollector(collector: () => void): void {
+    this.collectors.push(collector);
+  }
+
+  /**
+   * Current values of all metrics, in registration order
+   */
+  collect(): MetricFamily[] {
+    for (const collector of this.collectors) {
+      collector();
+    }
+    return [...this.metrics.values()].map((metric) => metric.collect());
+  }
+
+  /** Forget the values of all metrics (metrics stay registered) */
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset();
+    }
+  }
+
+  private register<M extends Counter | Gauge | Histogram>(name: string, type: MetricType, create: () => M): M {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric '${name}' is already registered as a ${existing.type}`);
+      }
+      return existing as M;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Tracing module exports
+ */
+
+export { TracingObserver } from './tracing-observer.js';
+export { InMemorySpanExporter, OtlpJsonFileExporter, toOtlpJson } from './span-exporters.js';
@@ -0,0 +1,158 @@
+/**
+ * Span exporters
+ *
+ * Ships an in-memory exporter for tests and an exporter that appends OTLP
+ * JSON to a file (one `ExportTraceServiceRequest` per line, the format of
+ * the OpenTelemetry Collector file exporter). Other backends implement the
+ * SpanExporter interface.
+ *
+ * @module
+ */
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type {
+  SpanAttributes,
+  SpanExporter,
+  TraceSpan,
+  OtlpKeyValue,
+  OtlpExportTraceRequest,
+} from '../types/tracing.js';
+
+/** Instrumentation scope of exported spans */
+const SCOPE_NAME = 'groundswell';
+
+const SPAN_KINDS: Record<TraceSpan['kind'], number> = { internal: 1, client: 3 };
+const STATUS_CODES: Record<TraceSpan['status']['code'], number> = { unset: 0, ok: 1, error: 2 };
+
+/**
+ * Convert spans to an OTLP `ExportTraceServiceRequest` (JSON encoding)
+ *
+ * @param spans - Finished spans
+ * @param options.serviceName - `service.name` resource attribute (default: 'groundswell')
+ * @returns Request body for an OTLP/HTTP JSON endpoint (`/v1/traces`)
+ *
+ * @example
+ * ```ts
+ * await fetch('http://localhost:4318/v1/traces', {
+ *   method: 'POST',
+ *   headers: { 'content-type': 'application/json' },
+ *   body: JSON.stringify(toOtlpJson(spans, { serviceName: 'nightly' })),
+ * });
+ * ```
+ */
+export function toOtlpJson(spans: TraceSpan[], options: { serviceName?: string } = {}): OtlpExportTraceRequest {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: toKeyValues({ 'service.name': options.serviceName ?? SCOPE_NAME }) },
+        scopeSpans: [
+          {
+            scope: { name: SCOPE_NAME },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId !== undefined && { parentSpanId: span.parentSpanId }),
+              name: span.name,
+              kind: SPAN_KINDS[span.kind],
+              startTimeUnixNano: toUnixNano(span.startTime),
+              endTimeUnixNano: toUnixNano(span.endTime),
+              attributes: toKeyValues(span.attributes),
+              events: span.events.map((event) => ({
+                timeUnixNano: toUnixNano(event.time),
+                name: event.name,
+                attributes: toKeyValues(event.attributes),
+              })),
+              status: {
+                code: STATUS_CODES[span.status.code],
+                ...(span.status.message !== undefined && { message: span.status.message }),
+              },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function toKeyValues(attributes: SpanAttributes): OtlpKeyValue[] {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === 'string'
+        ? { stringValue: value }
+        : typeof value === 'boolean'
+          ? { boolValue: value }
+          : Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value },
+  }));
+}
+
+/**
+ * Milliseconds since epoch to nanoseconds (as a string, beyond Number precision)
+ */
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms * 1000)) * 1000n).toString();
+}
+
+/**
+ * Keeps exported spans in memory
+ *
+ * @remarks
+ * For tests and for inspecting spans in-process.
+ *
+ * @example
+ * ```ts
+ * const exporter = new InMemorySpanExporter();
+ * const tracer = new TracingObserver({ exporter });
+ * workflow.addObserver(tracer);
+ * await workflow.run();
+ * await tracer.flush();
+ * console.log(exporter.getFinishedSpans().map((span) => span.name));
+ * ```
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: TraceSpan[] = [];
+
+  export(spans: TraceSpan[]): void {
+    this.spans.push(...spans);
+  }
+
+  /** Spans exported so far, in export order */
+  getFinishedSpans(): TraceSpan[] {
+    return [...this.spans];
+  }
+
+  /** Forget exported spans */
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+/**
+ * Appends spans to a file as OTLP JSON lines
+ *
+ * @remarks
+ * Each export adds one line holding an `ExportTraceServiceRequest` (see
+ * toOtlpJson()). The file can be replayed to a collector later, e.g. with
+ * the Collector's `otlpjsonfile` receiver.
+ */
+export class OtlpJsonFileExporter implements SpanExporter {
+  /**
+   * @param path - File to append to (created with its directory if missing)
+   * @param options.serviceName - `service.name` resource attribute (default: 'groundswell')
+   */
+  constructor(
+    private readonly path: string,
+    private readonly options: { serviceName?: string } = {}
+  ) {}
+
+  async export(spans: TraceSpan[]): Promise<void> {
+    if (spans.length === 0) {
+      return;
+    }
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, JSON.stringify(toOtlpJson(spans, this.options)) + '\n', 'utf-8');
+  }
+}
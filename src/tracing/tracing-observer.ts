@@ -0,0 +1,411 @@
+/**
+ * OpenTelemetry-style tracing for workflow runs
+ *
+ * @module
+ * @remarks
+ * TracingObserver turns workflow events into spans: one per workflow, step,
+ * task, agent prompt and tool invocation. Parent links follow the
+ * WorkflowNode tree, so an agent prompt made in a step of a child workflow
+ * is a child of that step, which is a child of the child workflow's span.
+ */
+
+import { randomBytes } from 'node:crypto';
+import type {
+  WorkflowNode,
+  WorkflowEvent,
+  WorkflowObserver,
+  WorkflowStatus,
+  LogEntry,
+} from '../types/index.js';
+import type { SpanAttributes, SpanExporter, TraceSpan, TracingObserverOptions } from '../types/tracing.js';
+import { isStepNodeStart } from '../utils/step-node.js';
+
+const TERMINAL_STATUSES: ReadonlySet<WorkflowStatus> = new Set(['completed', 'failed', 'cancelled']);
+
+/**
+ * Exports workflow runs as spans
+ *
+ * Register it on the root workflow. Spans are exported in one batch when the
+ * root workflow's span ends; call flush() to wait for the export (or to
+ * export spans of a run that has not finished).
+ *
+ * Attributes:
+ * - Workflows: `groundswell.workflow.id`, `groundswell.workflow.name`, `groundswell.workflow.status`
+ * - Steps and tasks: `groundswell.step.name` / `groundswell.task.name`, `groundswell.node.id`
+ * - Agent prompts: `groundswell.agent.id`, `groundswell.agent.name`, `groundswell.prompt.id`,
+ *   `gen_ai.request.model`, `groundswell.harness`, `gen_ai.usage.input_tokens`, `gen_ai.usage.output_tokens`,
+ *   `groundswell.cost_usd`, and `groundswell.cache.hit` (false after a cache miss)
+ * - Tools (children of the agent prompt running on the node): `groundswell.tool.name`
+ * - Cache hits and misses are also counted on the enclosing span
+ *   (`groundswell.cache.hits`, `groundswell.cache.misses`)
+ *
+ * Errors end the failing step or task with status `error` and add an
+ * `exception` span event; retries add a `retry` span event.
+ *
+ * @example
+ * ```ts
+ * const tracer = new TracingObserver({ exporter: new OtlpJsonFileExporter('./traces.jsonl') });
+ * workflow.addObserver(tracer);
+ * await workflow.run();
+ * await tracer.shutdown();
+ * ```
+ */
+export class TracingObserver implements WorkflowObserver {
+  private readonly exporter: SpanExporter;
+  private readonly attributes: SpanAttributes;
+
+  /** Open spans of workflow nodes and ctx.step() nodes, by node id */
+  private nodeSpans = new Map<string, TraceSpan>();
+
+  /** Open @Step and @Task spans on workflow nodes (innermost last), by node id */
+  private scopedSpans = new Map<string, TraceSpan[]>();
+
+  /** Open agent prompt spans and the node they run on, by prompt id */
+  private promptSpans = new Map<string, { span: TraceSpan; nodeId: string }>();
+
+  /** Nodes created by ctx.step() */
+  private stepNodeIds = new Set<string>();
+
+  /** Last status seen per node, to notice status changes in treeUpdated */
+  private statuses = new Map<string, WorkflowStatus>();
+
+  /** Message of the last error in each node's subtree, for the status of failed workflows */
+  private lastErrors = new Map<string, string>();
+
+  /** Nodes whose next agent prompt follows a cache miss */
+  private cacheMisses = new Set<string>();
+
+  /** Ended spans not exported yet */
+  private finished: TraceSpan[] = [];
+
+  private exporting: Promise<void> = Promise.resolve();
+  private exportError: unknown;
+
+  constructor(options: TracingObserverOptions) {
+    this.exporter = options.exporter;
+    this.attributes = options.attributes ?? {};
+  }
+
+  onLog(_entry: LogEntry): void {}
+
+  onStateUpdated(_node: WorkflowNode): void {}
+
+  onTreeChanged(_root: WorkflowNode): void {}
+
+  onEvent(event: WorkflowEvent): void {
+    switch (event.type) {
+      case 'treeUpdated':
+        this.syncStatuses(event.root);
+        break;
+
+      case 'stepStart':
+        if (isStepNodeStart(event)) {
+          this.stepNodeIds.add(event.node.id);
+          this.nodeSpans.set(
+            event.node.id,
+            this.startSpan(`step ${event.step}`, event.node.parent ? this.contextSpan(event.node.parent) : undefined, {
+              'groundswell.step.name': event.step,
+              'groundswell.node.id': event.node.id,
+            })
+          );
+        } else {
+          this.pushScoped(event.node, `step ${event.step}`, { 'groundswell.step.name': event.step });
+        }
+        break;
+
+      case 'taskStart':
+        this.pushScoped(event.node, `task ${event.task}`, { 'groundswell.task.name': event.task });
+        break;
+
+      case 'stepEnd':
+        if (this.stepNodeIds.has(event.node.id)) {
+          const span = this.nodeSpans.get(event.node.id);
+          if (span) {
+            this.nodeSpans.delete(event.node.id);
+            this.endSpan(span, 'ok');
+          }
+        } else {
+          this.popScoped(event.node.id, `step ${event.step}`, 'ok');
+        }
+        break;
+
+      case 'taskEnd':
+        this.popScoped(event.node.id, `task ${event.task}`, 'ok');
+        break;
+
+      case 'error': {
+        const message = event.error.message;
+        for (let node: WorkflowNode | null = event.node; node; node = node.parent) {
+          this.lastErrors.set(node.id, message);
+        }
+        this.contextSpan(event.node)?.events.push({
+          name: 'exception',
+          time: Date.now(),
+          attributes: { 'exception.message': message },
+        });
+        // A failed step or task emits no end event
+        const own = this.stepNodeIds.has(event.node.id) ? this.nodeSpans.get(event.node.id) : undefined;
+        if (own) {
+          this.nodeSpans.delete(event.node.id);
+          this.endSpan(own, 'error', message);
+        } else {
+          const scoped = this.scopedSpans.get(event.node.id)?.pop();
+          if (scoped) this.endSpan(scoped, 'error', message);
+        }
+        break;
+      }
+
+      case 'stepRetry':
+        this.contextSpan(event.node)?.events.push({
+          name: 'retry',
+          time: event.timestamp,
+          attributes: {
+            'groundswell.step.name': event.stepName,
+            'groundswell.retry.count': event.retryCount,
+            'exception.message': event.error.message,
+            ...(event.delayMs !== undefined && { 'groundswell.retry.delay_ms': event.delayMs }),
+          },
+        });
+        break;
+
+      case 'cancelled':
+        this.contextSpan(event.node)?.events.push({
+          name: 'cancelled',
+          time: event.timestamp,
+          attributes: event.reason !== undefined ? { 'groundswell.cancel.reason': event.reason } : {},
+        });
+        break;
+
+      case 'agentPromptStart': {
+        const span = this.startSpan(
+          `prompt ${event.agentName}`,
+          this.contextSpan(event.node),
+          {
+            'groundswell.agent.id': event.agentId,
+            'groundswell.agent.name': event.agentName,
+            'groundswell.prompt.id': event.promptId,
+          },
+          'client'
+        );
+        if (this.cacheMisses.delete(event.node.id)) {
+          span.attributes['groundswell.cache.hit'] = false;
+        }
+        this.promptSpans.set(event.promptId, { span, nodeId: event.node.id });
+        break;
+      }
+
+      case 'agentPromptEnd': {
+        let span = this.promptSpans.get(event.promptId)?.span;
+        this.promptSpans.delete(event.promptId);
+        if (!span) {
+          // Started before the observer was registered
+          span = this.startSpan(
+            `prompt ${event.agentName}`,
+            this.contextSpan(event.node),
+            {
+              'groundswell.agent.id': event.agentId,
+              'groundswell.agent.name': event.agentName,
+              'groundswell.prompt.id': event.promptId,
+            },
+            'client',
+            Date.now() - event.duration
+          );
+        }
+        if (event.model !== undefined) span.attributes['gen_ai.request.model'] = event.model;
+        if (event.harness !== undefined) span.attributes['groundswell.harness'] = event.harness;
+        if (event.tokenUsage) {
+          span.attributes['gen_ai.usage.input_tokens'] = event.tokenUsage.input_tokens;
+          span.attributes['gen_ai.usage.output_tokens'] = event.tokenUsage.output_tokens;
+        }
+        if (event.costUsd !== undefined) span.attributes['groundswell.cost_usd'] = event.costUsd;
+        this.endSpan(span, 'ok');
+        break;
+      }
+
+      case 'toolInvocation': {
+        // Tools are called by the agent prompt running on the node
+        const prompt = [...this.promptSpans.values()].reverse().find((open) => open.nodeId === event.node.id);
+        const end = Date.now();
+        const span = this.startSpan(
+          `tool ${event.toolName}`,
+          prompt?.span ?? this.contextSpan(event.node),
+          { 'groundswell.tool.name': event.toolName },
+          'internal',
+          end - event.duration
+        );
+        this.endSpan(span, 'ok', undefined, end);
+        break;
+      }
+
+      case 'cacheHit':
+      case 'cacheMiss': {
+        const span = this.contextSpan(event.node);
+        if (span) {
+          const key = event.type === 'cacheHit' ? 'groundswell.cache.hits' : 'groundswell.cache.misses';
+          span.attributes[key] = ((span.attributes[key] as number | undefined) ?? 0) + 1;
+        }
+        if (event.type === 'cacheMiss') {
+          this.cacheMisses.add(event.node.id);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Export all ended spans and wait for pending exports
+   *
+   * Spans that have not ended yet are exported once they end.
+   *
+   * @throws The first error an export failed with since the last flush()
+   */
+  async flush(): Promise<void> {
+    this.exportFinished();
+    await this.exporting;
+    if (this.exportError !== undefined) {
+      const error = this.exportError;
+      this.exportError = undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Flush, then shut down the exporter
+   */
+  async shutdown(): Promise<void> {
+    await this.flush();
+    await this.exporter.shutdown?.();
+  }
+
+  /**
+   * Start and end workflow spans when workflow statuses change
+   */
+  private syncStatuses(root: WorkflowNode): void {
+    const visit = (node: WorkflowNode): void => {
+      if (!this.stepNodeIds.has(node.id)) {
+        const previous = this.statuses.get(node.id);
+        this.statuses.set(node.id, node.status);
+        if (previous !== node.status) {
+          if ((node.status === 'running' || node.status === 'waiting') && !this.nodeSpans.has(node.id)) {
+            this.startWorkflowSpan(node);
+          } else if (TERMINAL_STATUSES.has(node.status) && (previous !== undefined || this.nodeSpans.has(node.id))) {
+            this.endWorkflowSpan(node);
+          }
+        }
+      }
+      node.children.forEach(visit);
+    };
+    visit(root);
+  }
+
+  private startWorkflowSpan(node: WorkflowNode): TraceSpan {
+    const span = this.startSpan(`workflow ${node.name}`, node.parent ? this.contextSpan(node.parent) : undefined, {
+      'groundswell.workflow.id': node.id,
+      'groundswell.workflow.name': node.name,
+    });
+    this.nodeSpans.set(node.id, span);
+    return span;
+  }
+
+  private endWorkflowSpan(node: WorkflowNode): void {
+    const span = this.nodeSpans.get(node.id) ?? this.startWorkflowSpan(node);
+    this.nodeSpans.delete(node.id);
+
+    // @Step/@Task spans left open by the run end with it
+    for (const scoped of (this.scopedSpans.get(node.id) ?? []).reverse()) {
+      this.endSpan(scoped, 'unset');
+    }
+    this.scopedSpans.delete(node.id);
+
+    span.attributes['groundswell.workflow.status'] = node.status;
+    if (node.status === 'completed') {
+      this.endSpan(span, 'ok');
+    } else {
+      this.endSpan(span, 'error', node.status === 'failed' ? this.lastErrors.get(node.id) ?? 'failed' : 'cancelled');
+    }
+  }
+
+  /**
+   * The span work on a node runs in: its innermost @Step/@Task span, its own
+   * span, or (for ended step nodes) the parent's; starts a workflow span for
+   * workflow nodes that have none yet
+   */
+  private contextSpan(node: WorkflowNode): TraceSpan | undefined {
+    const scoped = this.scopedSpans.get(node.id);
+    if (scoped && scoped.length > 0) {
+      return scoped[scoped.length - 1];
+    }
+    const own = this.nodeSpans.get(node.id);
+    if (own) {
+      return own;
+    }
+    if (!this.stepNodeIds.has(node.id) && !TERMINAL_STATUSES.has(node.status)) {
+      return this.startWorkflowSpan(node);
+    }
+    return node.parent ? this.contextSpan(node.parent) : undefined;
+  }
+
+  private pushScoped(node: WorkflowNode, name: string, attributes: SpanAttributes): void {
+    const span = this.startSpan(name, this.contextSpan(node), { ...attributes, 'groundswell.node.id': node.id });
+    const stack = this.scopedSpans.get(node.id) ?? [];
+    stack.push(span);
+    this.scopedSpans.set(node.id, stack);
+  }
+
+  private popScoped(nodeId: string, name: string, code: TraceSpan['status']['code']): void {
+    const stack = this.scopedSpans.get(nodeId) ?? [];
+    const index = stack.map((span) => span.name).lastIndexOf(name);
+    if (index !== -1) {
+      const [span] = stack.splice(index, 1);
+      this.endSpan(span, code);
+    }
+  }
+
+  private startSpan(
+    name: string,
+    parent: TraceSpan | undefined,
+    attributes: SpanAttributes,
+    kind: TraceSpan['kind'] = 'internal',
+    startTime = Date.now()
+  ): TraceSpan {
+    return {
+      traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+      spanId: randomBytes(8).toString('hex'),
+      parentSpanId: parent?.spanId,
+      name,
+      kind,
+      startTime,
+      endTime: startTime,
+      attributes: { ...this.attributes, ...attributes },
+      status: { code: 'unset' },
+      events: [],
+    };
+  }
+
+  private endSpan(
+    span: TraceSpan,
+    code: TraceSpan['status']['code'],
+    message?: string,
+    endTime = Date.now()
+  ): void {
+    span.endTime = endTime;
+    span.status = message !== undefined ? { code, message } : { code };
+    this.finished.push(span);
+    if (span.parentSpanId === undefined) {
+      this.exportFinished();
+    }
+  }
+
+  private exportFinished(): void {
+    if (this.finished.length === 0) {
+      return;
+    }
+    const batch = this.finished;
+    this.finished = [];
+    this.exporting = this.exporting
+      .then(() => this.exporter.export(batch))
+      .catch((error: unknown) => {
+        this.exportError ??= error;
+      });
+  }
+}
@@ -198,6 +198,16 @@ export interface PromptOverrides {
   /** Override harness options for this prompt (PRD §7.7). Merged via last-write-wins. */
   harnessOptions?: HarnessOptions;
 
+  /**
+   * Abort signal for this prompt
+   *
+   * Defaults to the signal of the enclosing workflow step. When it fires, the
+   * in-flight harness call is aborted and the prompt resolves with a
+   * `CANCELLED` error response (`TIMEOUT` when the step timed out or the
+   * workflow deadline passed).
+   */
+  signal?: AbortSignal;
+
   /**
    * Override provider for this prompt
    *
@@ -659,6 +669,31 @@ export const AGENT_ERROR_CODES = {
    * Non-recoverable: the caller must select a different harness or model, not retry.
    */
   CONFIG_ERROR: 'CONFIG_ERROR',
+
+  /**
+   * Execution was cancelled
+   *
+   * Use when the caller's AbortSignal fired before or during execution
+   * (e.g. `workflow.cancel()`). Non-recoverable: a cancelled call must not be retried.
+   */
+  CANCELLED: 'CANCELLED',
+
+  /**
+   * Execution exceeded its step timeout or workflow deadline
+   *
+   * Use when the caller's time budget ran out before the harness finished.
+   * Recoverable: a fresh attempt with a new time budget may succeed.
+   */
+  TIMEOUT: 'TIMEOUT',
+
+  /**
+   * A workflow budget was exhausted
+   *
+   * Use when an agent call is refused because the token or cost budget of the
+   * enclosing workflow tree (WorkflowConfig.budget) has been spent.
+   * Non-recoverable: retrying cannot succeed until the budget is raised.
+   */
+  BUDGET_EXCEEDED: 'BUDGET_EXCEEDED',
 } as const;
 
 // ========================
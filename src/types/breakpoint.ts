@@ -0,0 +1,49 @@
+/**
+ * Breakpoint types for WorkflowTreeDebugger
+ *
+ * @remarks
+ * Breakpoints pause a workflow before a `@Step` method or `ctx.step()` body
+ * runs (see `WorkflowTreeDebugger.setBreakpoint()`).
+ */
+
+import type { WorkflowNode } from './workflow.js';
+import type { SerializedWorkflowState } from './snapshot.js';
+
+/**
+ * A step about to run, as seen by breakpoint predicates and while paused
+ */
+export interface PausedStep {
+  /** Step name */
+  step: string;
+  /** Step arguments (the method arguments for `@Step`, none for `ctx.step()`) */
+  args: readonly unknown[];
+  /** Node the step's events are recorded on (the workflow node for `@Step`) */
+  node: WorkflowNode;
+  /** ID of the workflow the step belongs to */
+  workflowId: string;
+  /** ID of the breakpoint that paused the step (undefined after stepOver()) */
+  breakpointId?: string;
+}
+
+/**
+ * Context passed to a breakpoint's `when` predicate
+ */
+export interface BreakpointContext extends Omit<PausedStep, 'breakpointId'> {
+  /** `@ObservedState` fields of the step's workflow */
+  state: SerializedWorkflowState;
+}
+
+/**
+ * Where to pause a workflow
+ *
+ * @example
+ * ```ts
+ * debugger_.setBreakpoint({ step: 'plan', when: ({ state }) => state.retries === 0 });
+ * ```
+ */
+export interface Breakpoint {
+  /** Step name, or a pattern matched against step names */
+  step: string | RegExp;
+  /** Only pause when this returns true */
+  when?: (context: BreakpointContext) => boolean | Promise<boolean>;
+}
@@ -0,0 +1,81 @@
+/**
+ * Token and cost budget for a workflow tree
+ *
+ * @remarks
+ * Usage reported by every agent call (`agentPromptEnd.tokenUsage`) in the
+ * workflow and its attached or spawned children counts against the budget,
+ * including reflection retries. Once a limit is reached, further agent calls
+ * in the tree return an error response with code 'BUDGET_EXCEEDED' instead
+ * of calling the model. A call that is already running is not interrupted,
+ * so the final usage can exceed a limit by up to one call.
+ *
+ * @example
+ * ```ts
+ * const config: WorkflowConfig = {
+ *   name: 'Research',
+ *   budget: {
+ *     maxOutputTokens: 50_000,
+ *     maxCostUsd: 2,
+ *     pricing: { inputPerMillionTokens: 3, outputPerMillionTokens: 15 },
+ *     warnAt: [0.5, 0.9],
+ *   },
+ * };
+ * ```
+ */
+export interface BudgetConfig {
+  /** Maximum input (prompt) tokens */
+  maxInputTokens?: number;
+  /** Maximum output (completion) tokens */
+  maxOutputTokens?: number;
+  /** Maximum input plus output tokens */
+  maxTotalTokens?: number;
+  /** Maximum cost in USD (computed with `pricing` or the model catalog) */
+  maxCostUsd?: number;
+  /**
+   * Token prices used to compute cost, overriding the model catalog;
+   * without it each call costs what the catalog reports for its model
+   * (0 for models that are not in the catalog)
+   */
+  pricing?: BudgetPricing;
+  /**
+   * Fractions of each limit at which a `budgetWarning` event is emitted
+   * (each threshold fires once per limit per run)
+   * @default [0.8, 1]
+   */
+  warnAt?: number[];
+}
+
+/**
+ * Token prices in USD per million tokens
+ */
+export interface BudgetPricing {
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+}
+
+/**
+ * A budget dimension that can be limited
+ */
+export type BudgetMetric = 'inputTokens' | 'outputTokens' | 'totalTokens' | 'costUsd';
+
+/**
+ * Usage counted against a budget
+ */
+export interface BudgetUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * A limit reached (or approached) by a budget's usage
+ */
+export interface BudgetLimitStatus {
+  /** Limited dimension */
+  metric: BudgetMetric;
+  /** Usage of that dimension so far */
+  used: number;
+  /** Configured limit */
+  limit: number;
+}
@@ -0,0 +1,111 @@
+/**
+ * Checkpoint types for durable workflow runs
+ *
+ * A checkpoint captures everything needed to resume a run after the process
+ * dies: the node tree, the observed state of every workflow in the run and
+ * the results of all completed steps.
+ */
+
+import type { WorkflowStatus, SerializedWorkflowNode } from './workflow.js';
+import type { SerializedWorkflowState } from './snapshot.js';
+
+/**
+ * Result of a completed step, stored so that resumed runs can skip it
+ */
+export interface CheckpointStepRecord {
+  /** Deterministic step key (workflow scope + step name + occurrence) */
+  key: string;
+  /** Step name as passed to ctx.step() or @Step */
+  stepName: string;
+  /** Value returned by the step (must be JSON-serializable for file stores) */
+  result: unknown;
+  /** Completion time in milliseconds since epoch */
+  completedAt: number;
+}
+
+/**
+ * Persisted state of a workflow run
+ */
+export interface WorkflowCheckpoint {
+  /** Checkpoint format version */
+  version: 1;
+  /** Run identifier used as the storage key */
+  runId: string;
+  /** Name of the checkpointed (root) workflow */
+  workflowName: string;
+  /** Status of the checkpointed workflow when the checkpoint was written */
+  status: WorkflowStatus;
+  /** Creation time in milliseconds since epoch */
+  createdAt: number;
+  /** Last write time in milliseconds since epoch */
+  updatedAt: number;
+  /** Node tree at the time of the last write */
+  tree: SerializedWorkflowNode;
+  /**
+   * Observed state per workflow scope, captured with getObservedState()
+   * so hidden fields are omitted and redacted fields are stored as '***'
+   */
+  state: Record<string, SerializedWorkflowState>;
+  /** Completed step results keyed by step key */
+  steps: Record<string, CheckpointStepRecord>;
+}
+
+/**
+ * Pluggable checkpoint storage backend
+ *
+ * @remarks
+ * Mirrors the SessionStore contract. All methods are async so that
+ * implementations can write to disk, databases or remote services.
+ */
+export interface CheckpointStore {
+  /**
+   * Save (overwrite) the checkpoint for a run
+   *
+   * @param checkpoint - Checkpoint to persist
+   */
+  save(checkpoint: WorkflowCheckpoint): Promise<void>;
+
+  /**
+   * Load the checkpoint for a run
+   *
+   * @param runId - Run identifier
+   * @returns The checkpoint or null if none exists
+   */
+  load(runId: string): Promise<WorkflowCheckpoint | null>;
+
+  /**
+   * Delete the checkpoint for a run
+   *
+   * @param runId - Run identifier
+   * @returns true if deleted, false if not found
+   */
+  delete(runId: string): Promise<boolean>;
+
+  /**
+   * List all run IDs with a stored checkpoint
+   */
+  list(): Promise<string[]>;
+}
+
+/**
+ * Checkpoint configuration for a workflow
+ *
+ * @example
+ * ```ts
+ * const workflow = new Workflow(
+ *   { name: 'Ingest', checkpoint: { store: new FileCheckpointStore('./checkpoints'), runId: 'ingest-42' } },
+ *   async (ctx) => { ... }
+ * );
+ * ```
+ */
+export interface CheckpointConfig {
+  /** Storage backend */
+  store: CheckpointStore;
+
+  /**
+   * Run identifier (defaults to the workflow ID)
+   *
+   * Use a stable, caller-chosen ID so the run can be resumed from a new process.
+   */
+  runId?: string;
+}
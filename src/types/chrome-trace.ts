@@ -0,0 +1,38 @@
+/**
+ * Chrome Trace Event Format types
+ *
+ * @remarks
+ * Written by `WorkflowTreeDebugger.exportChromeTrace()`; the file opens in
+ * Perfetto (ui.perfetto.dev) and chrome://tracing.
+ */
+
+/**
+ * One trace event
+ *
+ * `ph` is the event phase: `X` complete span, `i` instant, `M` metadata
+ * (process and track names).
+ */
+export interface ChromeTraceEvent {
+  name: string;
+  /** Category: step, task, agent, tool, cache, error, retry or __metadata */
+  cat: string;
+  ph: 'X' | 'i' | 'M';
+  /** Start time in microseconds since the first event of the run */
+  ts: number;
+  /** Duration in microseconds (`X` events only) */
+  dur?: number;
+  pid: number;
+  /** Track: one per workflow, plus overflow tracks for overlapping spans */
+  tid: number;
+  /** Scope of instant events (`t` = track) */
+  s?: 't';
+  args?: Record<string, unknown>;
+}
+
+/**
+ * A trace file in the JSON Object Format
+ */
+export interface ChromeTrace {
+  traceEvents: ChromeTraceEvent[];
+  displayTimeUnit: 'ms';
+}
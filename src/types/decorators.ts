@@ -4,8 +4,10 @@ import type { ErrorCriterion } from './restart.js';
 
 /**
  * Configuration options for @Step decorator
+ *
+ * @template T - The step's result type (passed to `compensate`)
  */
-export interface StepOptions {
+export interface StepOptions<T = unknown> {
   /** Custom step name (defaults to method name) */
   name?: string;
   /** If true, capture state snapshot after step completion */
@@ -22,10 +24,84 @@ export interface StepOptions {
   maxRetries?: number;
   /** Delay between retry attempts in milliseconds (default: 1000) */
   retryDelayMs?: number;
+  /**
+   * Backoff, jitter and Retry-After handling between attempts
+   * When set, `retryDelayMs` is the policy's default `initialDelayMs`.
+   */
+  retryPolicy?: RetryPolicy;
   /** Error criteria that trigger retry attempts (default: all errors if restartable) */
   retryOn?: ErrorCriterion[];
+  /**
+   * Maximum duration of each attempt in milliseconds (default: no timeout)
+   * A timed-out attempt fails with a WorkflowError whose code is 'TIMEOUT'.
+   */
+  timeoutMs?: number;
+  /**
+   * Undo function registered when the step succeeds, called with the step's result
+   * If the workflow later fails, registered compensations run in reverse
+   * order (saga pattern). See Workflow.compensate().
+   */
+  compensate?(result: T): void | Promise<void>;
 }
 
+/**
+ * How the delay grows between retry attempts
+ * - 'fixed': always `initialDelayMs`
+ * - 'linear': `initialDelayMs * attempt`
+ * - 'exponential': `initialDelayMs * multiplier ^ (attempt - 1)`
+ */
+export type RetryBackoff = 'fixed' | 'linear' | 'exponential';
+
+/**
+ * Randomization applied to the computed delay
+ * - 'none': use the computed delay as-is
+ * - 'full': random delay between 0 and the computed delay
+ * - 'equal': half the computed delay plus a random amount up to the other half
+ */
+export type RetryJitter = 'none' | 'full' | 'equal';
+
+/**
+ * Retry delay policy for restartable steps
+ *
+ * @example
+ * ```ts
+ * @Step({
+ *   restartable: true,
+ *   maxRetries: 5,
+ *   retryPolicy: { backoff: 'exponential', initialDelayMs: 500, maxDelayMs: 30_000, jitter: 'full' },
+ * })
+ * async callModel() { ... }
+ * ```
+ */
+export interface RetryPolicy {
+  /** Delay growth between attempts (default: 'exponential') */
+  backoff?: RetryBackoff;
+  /** Delay before the first retry in milliseconds (default: `retryDelayMs` or 1000) */
+  initialDelayMs?: number;
+  /** Growth factor for exponential backoff (default: 2) */
+  multiplier?: number;
+  /** Upper bound for backoff delays in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+  /** Randomization applied after capping (default: 'none') */
+  jitter?: RetryJitter;
+  /**
+   * Wait for a retry-after hint found on the error instead of the backoff delay
+   * (default: true). Hints are read from `WorkflowError.original` and from
+   * `AgentErrorDetails.details` and capped at `maxRetryAfterMs`.
+   */
+  respectRetryAfter?: boolean;
+  /** Upper bound for retry-after hints in milliseconds (default: 30000) */
+  maxRetryAfterMs?: number;
+}
+
+/**
+ * Why a retry waited as long as it did, reported on `stepRetry` events
+ * - 'fixed': the step's plain `retryDelayMs`
+ * - 'backoff': computed by the step's `retryPolicy`
+ * - 'retry-after': a retry-after hint carried by the error
+ */
+export type RetryDelayReason = 'fixed' | 'backoff' | 'retry-after';
+
 /**
  * Configuration options for @Task decorator
  *
@@ -39,4 +115,29 @@ export interface TaskOptions {
   concurrent?: boolean;
   /** Strategy for merging errors from concurrent task execution */
   errorMergeStrategy?: ErrorMergeStrategy;
+  /**
+   * Maximum number of children running at once when `concurrent` is set, an
+   * integer >= 1 (default: unlimited). Queued children stay 'idle' until they start.
+   */
+  maxConcurrency?: number;
+  /**
+   * How concurrent children are handled when one fails (default: 'wait-all')
+   * - 'wait-all': run every child, then throw the first (or merged) error
+   * - 'fail-fast': cancel running siblings and skip queued ones on the first failure, then throw
+   * - 'settle-all': never throw for child failures; per-child results are reported on `taskEnd`
+   *   and returned by getTaskResults() for the array the method returned
+   */
+  concurrencyMode?: TaskConcurrencyMode;
 }
+
+/**
+ * Failure handling for concurrent @Task children
+ */
+export type TaskConcurrencyMode = 'wait-all' | 'fail-fast' | 'settle-all';
+
+/**
+ * Outcome of one concurrent @Task child, reported on the `taskEnd` event and by getTaskResults()
+ */
+export type TaskChildResult =
+  | { workflowId: string; status: 'fulfilled'; value: unknown }
+  | { workflowId: string; status: 'rejected'; reason: unknown };
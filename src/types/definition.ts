@@ -0,0 +1,195 @@
+/**
+ * Declarative workflow definition types
+ *
+ * @remarks
+ * A definition describes an agent pipeline as data (JSON or YAML) so it can
+ * be written without TypeScript. `loadWorkflowDefinition()` validates it and
+ * compiles it to a runnable workflow.
+ *
+ * @example
+ * ```yaml
+ * name: Research
+ * input:
+ *   type: object
+ *   properties:
+ *     topic: { type: string }
+ *   required: [topic]
+ * agents:
+ *   writer:
+ *     system: You are a concise technical writer.
+ *     model: anthropic/claude-sonnet-4-20250514
+ * steps:
+ *   - id: outline
+ *     agent: writer
+ *     prompt: Write a three point outline about {{input.topic}}.
+ *     schema:
+ *       type: object
+ *       properties:
+ *         points: { type: array, items: { type: string } }
+ *       required: [points]
+ *   - parallel:
+ *       - id: intro
+ *         agent: writer
+ *         prompt: Write an introduction for {{steps.outline.points}}.
+ *       - id: summary
+ *         agent: writer
+ *         prompt: Summarize {{steps.outline.points}} in one sentence.
+ *         retry: { maxRetries: 2, delayMs: 500 }
+ * output: summary
+ * ```
+ */
+
+import type { HarnessId } from './harnesses.js';
+import type { RetryBackoff } from './decorators.js';
+
+/**
+ * A JSON Schema (draft 7 subset) describing a value
+ *
+ * @remarks
+ * Supported keywords: `type` (`object`, `array`, `string`, `number`,
+ * `integer`, `boolean`, `null`), `properties`, `required`,
+ * `additionalProperties: false`, `items`, `enum`, `description`,
+ * `minimum`, `maximum`, `minLength`, `maxLength`, `pattern`, `minItems`
+ * and `maxItems`.
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean | null>;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * An agent used by the steps of a definition
+ */
+export interface AgentDefinition {
+  /** Agent name (default: the agent's key in `agents`) */
+  name?: string;
+  /** System prompt */
+  system?: string;
+  /** Model as `provider/model` or a plain model id */
+  model?: string;
+  /** Harness that runs the agent (default: the globally configured harness) */
+  harness?: HarnessId;
+}
+
+/**
+ * Retry settings of a step
+ */
+export interface StepRetryDefinition {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** Delay before the first retry in milliseconds (default: 1000) */
+  delayMs?: number;
+  /** Delay growth between retries (default: 'fixed') */
+  backoff?: RetryBackoff;
+  /** Upper bound for backoff delays in milliseconds */
+  maxDelayMs?: number;
+}
+
+/**
+ * A step that sends one prompt to an agent
+ *
+ * @remarks
+ * `prompt` and `system` may reference `{{input.<path>}}` (the run input) and
+ * `{{steps.<id>.<path>}}` (the output of a step this step depends on,
+ * directly or indirectly). Strings are inserted as-is, other values as JSON,
+ * and missing values as an empty string.
+ */
+export interface StepDefinition {
+  /** Unique step id (letters, digits, `_` and `-`; the step name in the tree) */
+  id: string;
+  /** Key of the agent in `agents` */
+  agent: string;
+  /** User message */
+  prompt: string;
+  /** System prompt for this step (overrides the agent's) */
+  system?: string;
+  /** JSON Schema of the response (default: plain text) */
+  schema?: JsonSchema;
+  /**
+   * Steps that must complete first (default: the previous entry in the list,
+   * i.e. the previous step or every step of the previous parallel block)
+   */
+  dependsOn?: string[];
+  /** Retry a failed step */
+  retry?: StepRetryDefinition;
+  /** Maximum duration of each attempt in milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Steps that run at the same time
+ */
+export interface ParallelDefinition {
+  parallel: StepDefinition[];
+}
+
+/**
+ * An entry of `steps`: a step or a parallel block
+ */
+export type StepDefinitionEntry = StepDefinition | ParallelDefinition;
+
+/**
+ * A declarative workflow
+ */
+export interface WorkflowDefinition {
+  /** Workflow name */
+  name: string;
+  /** Human-readable description */
+  description?: string;
+  /** JSON Schema of the run input (default: any value) */
+  input?: JsonSchema;
+  /** Agents keyed by the name steps refer to them with */
+  agents: Record<string, AgentDefinition>;
+  /** Steps, run in order unless `dependsOn` says otherwise */
+  steps: StepDefinitionEntry[];
+  /** Id of the step whose output is the workflow result (default: every step's output, keyed by id) */
+  output?: string;
+}
+
+/**
+ * A problem found in a definition
+ */
+export interface DefinitionIssue {
+  /** Description of the problem */
+  message: string;
+  /** Location in the definition, e.g. `['steps', 1, 'agent']` */
+  path: Array<string | number>;
+  /** 1-based line in the source (when validated from source text) */
+  line?: number;
+  /** 1-based column in the source (when validated from source text) */
+  column?: number;
+}
+
+/**
+ * Result of validating a definition
+ */
+export interface DefinitionValidationResult {
+  /** True when there are no issues */
+  valid: boolean;
+  /** The definition, when valid */
+  definition?: WorkflowDefinition;
+  /** Problems found, in source order */
+  issues: DefinitionIssue[];
+}
+
+/**
+ * Options for parsing a definition from source text
+ */
+export interface DefinitionSourceOptions {
+  /** Source format (default: 'yaml', which also accepts JSON) */
+  format?: 'json' | 'yaml';
+  /** File name used in error messages */
+  filename?: string;
+}
@@ -7,6 +7,11 @@ import type { SerializedWorkflowState } from './snapshot.js';
 export interface WorkflowError {
   /** Error message */
   message: string;
+  /**
+   * Machine-readable error code (e.g. 'TIMEOUT', 'CANCELLED'), copied from the
+   * original error when it carries one. Retry criteria match it as well as `message`.
+   */
+  code?: string;
   /** Original thrown error */
   original: unknown;
   /** ID of workflow where error occurred */
@@ -17,4 +22,6 @@ export interface WorkflowError {
   state: SerializedWorkflowState;
   /** Logs from the failing workflow node */
   logs: LogEntry[];
+  /** Failures of compensations that ran because of this error (see Workflow.compensate()) */
+  compensationErrors?: WorkflowError[];
 }
@@ -0,0 +1,73 @@
+/**
+ * Saved event history types
+ *
+ * @remarks
+ * `WorkflowTreeDebugger.saveEventHistory()` writes a SavedEventHistory as
+ * JSON. Node references in events are flattened to ids (`nodeId`,
+ * `childId`, `rootId`) and the tree is stored without `parent` links, so the
+ * file has no circular references. `WorkflowTreeDebugger.fromEventHistory()`
+ * restores both.
+ *
+ * Node events that are not part of the saved history (recorded before the
+ * debugger was attached, or evicted by `maxEventHistorySize`) are not kept.
+ */
+
+import type { LogEntry } from './logging.js';
+import type { SerializedWorkflowState } from './snapshot.js';
+import type { WorkflowStatus } from './workflow.js';
+
+/**
+ * A workflow event with node references replaced by ids and names
+ */
+export interface SavedWorkflowEvent {
+  /** Event type (see WorkflowEvent) */
+  type: string;
+  /** Time the event was emitted, in milliseconds since epoch */
+  timestamp: number;
+  /** Remaining event fields */
+  [field: string]: unknown;
+}
+
+/**
+ * A node of the saved tree
+ */
+export interface SavedWorkflowNode {
+  /** Node ID */
+  id: string;
+  /** Human-readable name */
+  name: string;
+  /** Status when the history was saved */
+  status: WorkflowStatus;
+  /** Log entries of this node */
+  logs: LogEntry[];
+  /** Last state snapshot */
+  stateSnapshot: SerializedWorkflowState | null;
+  /**
+   * Events recorded on this node (`node.events`), as indices into
+   * SavedEventHistory.events
+   *
+   * GOTCHA: Step nodes share event objects with their workflow, so events
+   * are stored once and referenced by index.
+   */
+  events: number[];
+  /** Child nodes */
+  children: SavedWorkflowNode[];
+}
+
+/**
+ * Contents of a saved event history file
+ *
+ * @remarks
+ * Files written before the format was versioned contain only the event
+ * array; they are still accepted but carry no tree.
+ */
+export interface SavedEventHistory {
+  /** Event history format version */
+  version: 1;
+  /** Save time in milliseconds since epoch */
+  savedAt: number;
+  /** Node tree when the history was saved */
+  tree: SavedWorkflowNode | null;
+  /** Events the debugger received, in order */
+  events: SavedWorkflowEvent[];
+}
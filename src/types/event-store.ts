@@ -0,0 +1,75 @@
+/**
+ * Event store types
+ *
+ * @remarks
+ * An EventStore keeps workflow events beyond the in-memory event history
+ * (see `EventHistoryConfig.store`). Events are stored serialized like saved
+ * event histories: node references are replaced by ids and names.
+ */
+
+import type { SavedWorkflowEvent } from './event-history.js';
+
+/**
+ * A workflow event as kept by an event store
+ */
+export interface StoredEvent {
+  /** Run id of the root workflow (its checkpoint run id, else its workflow id) */
+  runId: string;
+  /** ID of the workflow that emitted the event */
+  workflowId: string;
+  /** Node the event is about (the workflow's node for events without one) */
+  nodeId: string;
+  /** IDs of the node's ancestors and the node itself, from the root down */
+  path: string[];
+  /** Step the event belongs to (the event's own step, else the step that was running) */
+  step?: string;
+  /** Agent that emitted the event (agent and invalidResponse events) */
+  agentId?: string;
+  /** Time of the event, in milliseconds since epoch */
+  timestamp: number;
+  /** The serialized event */
+  event: SavedWorkflowEvent;
+}
+
+/**
+ * Filter for EventStore.query()
+ *
+ * All given fields must match.
+ */
+export interface EventQuery {
+  /** Run id of the root workflow */
+  runId?: string;
+  /** Event type, or any of several types */
+  type?: string | readonly string[];
+  /** Events about this node only */
+  nodeId?: string;
+  /** Events about this node or any node below it */
+  subtreeOf?: string;
+  /** Step name */
+  step?: string;
+  /** Agent id */
+  agentId?: string;
+  /** Earliest timestamp, inclusive */
+  since?: number;
+  /** Latest timestamp, inclusive */
+  until?: number;
+  /** Maximum number of events to return (the first ones, in stored order) */
+  limit?: number;
+}
+
+/**
+ * Storage backend for workflow events
+ *
+ * @remarks
+ * `append()` is called synchronously for each event; stores that do I/O
+ * queue it and finish it in `flush()`. `query()` returns events in the
+ * order they were appended.
+ */
+export interface EventStore {
+  /** Store one event */
+  append(event: StoredEvent): void;
+  /** Find stored events (all of them without a query) */
+  query(query?: EventQuery): Promise<StoredEvent[]>;
+  /** Wait for queued writes (rejects with the first write error since the last flush) */
+  flush?(): Promise<void>;
+}
@@ -1,9 +1,11 @@
 import type { WorkflowNode } from './workflow.js';
 import type { WorkflowError } from './error.js';
 import type { TokenUsage } from './sdk-primitives.js';
+import type { BudgetMetric, BudgetUsage } from './budget.js';
 import type { RestartAnalysis } from './restart.js';
 import type { SerializedWorkflowState } from './snapshot.js';
 import type { AgentResponse } from './agent.js';
+import type { RetryDelayReason, TaskChildResult } from './decorators.js';
 import type { z } from 'zod';
 
 /**
@@ -15,14 +17,61 @@ export type WorkflowEvent =
   | { type: 'childDetached'; parentId: string; childId: string }
   | { type: 'stateSnapshot'; node: WorkflowNode }
   | { type: 'stepStart'; node: WorkflowNode; step: string }
-  | { type: 'stepRetry'; node: WorkflowNode; stepName: string; retryCount: number; analysis: RestartAnalysis; error: WorkflowError; timestamp: number }
+  | {
+      type: 'stepRetry';
+      node: WorkflowNode;
+      stepName: string;
+      retryCount: number;
+      analysis: RestartAnalysis;
+      error: WorkflowError;
+      timestamp: number;
+      /** Milliseconds waited before the next attempt */
+      delayMs: number;
+      /** Why the wait was that long (fixed delay, backoff or a retry-after hint) */
+      delayReason: RetryDelayReason;
+    }
   | { type: 'stepRestarted'; node: WorkflowNode; stepName: string; retryCount: number; restoredState: SerializedWorkflowState; timestamp: number }
   | { type: 'stepEnd'; node: WorkflowNode; step: string; duration: number }
   | { type: 'error'; node: WorkflowNode; error: WorkflowError }
   | { type: 'invalidResponse'; node: WorkflowNode; response: AgentResponse<unknown>; agentId: string; errors: z.ZodError; timestamp: number }
   | { type: 'taskStart'; node: WorkflowNode; task: string }
-  | { type: 'taskEnd'; node: WorkflowNode; task: string }
+  | {
+      type: 'taskEnd';
+      node: WorkflowNode;
+      task: string;
+      /** Per-child outcomes (concurrent tasks with concurrencyMode 'settle-all' only) */
+      results?: TaskChildResult[];
+    }
   | { type: 'treeUpdated'; root: WorkflowNode }
+  | { type: 'cancelled'; node: WorkflowNode; reason?: string; step?: string; timestamp: number }
+  | { type: 'compensationStart'; node: WorkflowNode; step: string; timestamp: number }
+  | {
+      type: 'signalWaiting';
+      node: WorkflowNode;
+      signal: string;
+      /** What is awaited (e.g. the approval prompt) */
+      prompt?: string;
+      timestamp: number;
+    }
+  | { type: 'signalReceived'; node: WorkflowNode; signal: string; payload: unknown; timestamp: number }
+  | {
+      type: 'paused';
+      /** Node of the step that is about to run (the workflow node for `@Step`) */
+      node: WorkflowNode;
+      step: string;
+      /** ID of the breakpoint that matched (undefined when pausing after stepOver()) */
+      breakpointId?: string;
+      timestamp: number;
+    }
+  | {
+      type: 'compensationEnd';
+      node: WorkflowNode;
+      step: string;
+      duration: number;
+      /** Set when the compensation threw */
+      error?: WorkflowError;
+      timestamp: number;
+    }
   // Agent/Prompt events
   | {
       type: 'agentPromptStart';
@@ -39,6 +88,26 @@ export type WorkflowEvent =
       node: WorkflowNode;
       duration: number;
       tokenUsage?: TokenUsage;
+      /** Model the call ran on, as `provider/model` */
+      model?: string;
+      /** Harness that ran the call (e.g. 'pi', 'claude-code') */
+      harness?: string;
+      /** Cost of the call in USD (set when the model is in the model catalog) */
+      costUsd?: number;
+    }
+  // Budget events
+  | {
+      type: 'budgetWarning';
+      /** Node of the workflow that owns the budget */
+      node: WorkflowNode;
+      metric: BudgetMetric;
+      /** Fraction of the limit that was crossed (from BudgetConfig.warnAt) */
+      threshold: number;
+      used: number;
+      limit: number;
+      /** All usage counted against the budget so far */
+      usage: BudgetUsage;
+      timestamp: number;
     }
   // Tool events
   | {
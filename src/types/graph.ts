@@ -0,0 +1,53 @@
+import type { StepOptions } from './decorators.js';
+import type { WorkflowContext } from './workflow-context.js';
+
+/**
+ * One node of a declarative workflow graph
+ *
+ * @template I - Outputs of the nodes listed in `dependsOn`, keyed by node name
+ * @template R - The node's own output
+ */
+export interface GraphNodeDefinition<I = Record<string, unknown>, R = unknown> {
+  /** Nodes that must complete before this one starts (default: none) */
+  dependsOn?: readonly string[];
+  /**
+   * Run the node
+   * @param inputs - Outputs of the `dependsOn` nodes, keyed by node name
+   * @param ctx - The workflow context; the node itself already runs as `ctx.step(<node name>)`
+   */
+  run(inputs: I, ctx: WorkflowContext): Promise<R>;
+  /** Options for the node's step (retries, timeout, compensation, ...) */
+  options?: Omit<StepOptions<R>, 'name'>;
+}
+
+/**
+ * A graph node with any inputs and output
+ *
+ * @remarks
+ * What WorkflowGraph stores once defineGraph() has checked the node types.
+ * `never` inputs accept every node's `run`; the graph passes each node the
+ * outputs of its dependencies.
+ */
+export type AnyGraphNode = GraphNodeDefinition<never, unknown>;
+
+/**
+ * Node definitions accepted by defineGraph()
+ *
+ * @template R - Output of each node, keyed by node name
+ * @template D - Dependency names of each node, keyed by node name
+ *
+ * @remarks
+ * `R` is inferred from each node's `run` return type, and each node's
+ * `inputs` are typed from the outputs of its `dependsOn` nodes. TypeScript
+ * cannot infer the output of a node whose `run` uses inputs it has not typed
+ * yet; annotate the `inputs` parameter of such a node (for example
+ * `run: async ({ fetch }: { fetch: Rows }) => ...`) to keep its output typed
+ * for downstream nodes.
+ */
+export type GraphDefinition<R, D extends { [K in keyof R]: keyof R }> = {
+  [K in keyof R]: {
+    dependsOn?: readonly D[K][];
+    run(inputs: { [P in D[K]]: R[P] }, ctx: WorkflowContext): Promise<R[K]>;
+    options?: Omit<StepOptions<R[K]>, 'name'>;
+  };
+};
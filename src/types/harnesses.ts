@@ -199,6 +199,8 @@ export interface HarnessExecutionOptions {
   sessionId?: string;
   /** Enable streaming mode (returns AsyncGenerator instead of a complete response) */
   streaming?: boolean;
+  /** Abort signal; harnesses stop the in-flight LLM call and tool executions when it fires */
+  signal?: AbortSignal;
 }
 
 /**
@@ -1,6 +1,6 @@
 // Core types
-export type { WorkflowStatus, WorkflowNode } from './workflow.js';
-export type { LogLevel, LogEntry } from './logging.js';
+export type { WorkflowStatus, WorkflowNode, SerializedWorkflowNode } from './workflow.js';
+export type { LogLevel, LogEntry, LogRecord, LogSink, LoggingConfig } from './logging.js';
 export type { SerializedWorkflowState, StateFieldMetadata } from './snapshot.js';
 export type { WorkflowError } from './error.js';
 export type { WorkflowEvent } from './events.js';
@@ -9,8 +9,74 @@ export type { WorkflowObserver } from './observer.js';
 // Restart types
 export type { RestartAnalysis, ErrorCriterion } from './restart.js';
 
-export type { StepOptions, TaskOptions } from './decorators.js';
+export type {
+  StepOptions,
+  RetryPolicy,
+  RetryBackoff,
+  RetryJitter,
+  RetryDelayReason,
+  TaskOptions,
+  TaskConcurrencyMode,
+  TaskChildResult,
+} from './decorators.js';
 export type { ErrorMergeStrategy } from './error-strategy.js';
+export type { GraphNodeDefinition, GraphDefinition, AnyGraphNode } from './graph.js';
+export type {
+  BudgetConfig,
+  BudgetPricing,
+  BudgetMetric,
+  BudgetUsage,
+  BudgetLimitStatus,
+} from './budget.js';
+export type { ModelCatalogEntry } from './model-catalog.js';
+export type {
+  MiddlewareKind,
+  MiddlewareContext,
+  MiddlewareNext,
+  WorkflowMiddleware,
+} from './middleware.js';
+export type {
+  JsonSchema,
+  AgentDefinition,
+  StepRetryDefinition,
+  StepDefinition,
+  ParallelDefinition,
+  StepDefinitionEntry,
+  WorkflowDefinition,
+  DefinitionIssue,
+  DefinitionValidationResult,
+  DefinitionSourceOptions,
+} from './definition.js';
+export type { SavedWorkflowEvent, SavedWorkflowNode, SavedEventHistory } from './event-history.js';
+export type { StoredEvent, EventQuery, EventStore } from './event-store.js';
+export type {
+  ReplayAgentCall,
+  ReplayToolCall,
+  ReplayRetry,
+  ReplayMetrics,
+  ReplayNodeHistory,
+} from './replay.js';
+export type { Breakpoint, BreakpointContext, PausedStep } from './breakpoint.js';
+export type { ChromeTrace, ChromeTraceEvent } from './chrome-trace.js';
+export type {
+  SpanAttributes,
+  TraceSpanEvent,
+  TraceSpan,
+  SpanExporter,
+  TracingObserverOptions,
+  OtlpKeyValue,
+  OtlpSpan,
+  OtlpExportTraceRequest,
+} from './tracing.js';
+export type { RedactionConfig, RedactionFunction } from './redaction.js';
+
+// Checkpoint types
+export type {
+  CheckpointStore,
+  CheckpointConfig,
+  CheckpointStepRecord,
+  WorkflowCheckpoint,
+} from './checkpoint.js';
 
 // SDK primitive types
 export type {
@@ -101,6 +167,13 @@ export type {
   WorkflowContext,
   WorkflowConfig,
   WorkflowResult,
+  WorkflowRunOptions,
+  ControlFlowOptions,
+  MapOptions,
+  LoopOptions,
+  WaitForSignalOptions,
+  ApprovalOptions,
+  ApprovalDecision,
   EventTreeHandle,
   EventNode,
   EventMetrics,
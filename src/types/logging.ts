@@ -22,3 +22,50 @@ export interface LogEntry {
   /** ID of parent log entry (for hierarchical logging) */
   parentLogId?: string;
 }
+
+/**
+ * A log entry as written to log sinks
+ *
+ * @remarks
+ * Adds the context a log line needs once it leaves the workflow tree.
+ */
+export interface LogRecord extends LogEntry {
+  /** Run id of the root workflow (its checkpoint run id, else its workflow id) */
+  runId: string;
+  /** Name of the workflow that created this log */
+  workflowName: string;
+  /** Step that was running when the entry was logged */
+  step?: string;
+  /** Depth of the workflow in the tree (0 for the root) */
+  depth: number;
+}
+
+/**
+ * Destination for log records (a file, the console, an application logger)
+ *
+ * @remarks
+ * Sinks are registered on the root workflow and receive the records of the
+ * whole tree. `write()` is called synchronously for each record; sinks that
+ * do I/O queue it and finish it in `flush()`.
+ */
+export interface LogSink {
+  /** Write one record */
+  write(record: LogRecord): void;
+  /** Wait for queued writes (rejects with the first write error since the last flush) */
+  flush?(): Promise<void>;
+}
+
+/**
+ * Logging configuration of a workflow
+ */
+export interface LoggingConfig {
+  /**
+   * Minimum level to record (default: the parent workflow's level, else 'debug')
+   *
+   * Entries below it are dropped: they are not added to the node's logs and
+   * reach neither observers nor sinks.
+   */
+  level?: LogLevel;
+  /** Sinks receiving the logs of this workflow's tree (only used on root workflows) */
+  sinks?: LogSink[];
+}
@@ -0,0 +1,68 @@
+/**
+ * Workflow middleware types
+ *
+ * @remarks
+ * Middleware wraps every `@Step`, `@Task`, `ctx.step()` and agent prompt that
+ * runs inside a workflow. Each middleware receives a description of the call
+ * and a `next` function that runs the rest of the chain, so it can change the
+ * arguments, the result or the error of the call.
+ */
+
+import type { WorkflowNode } from './workflow.js';
+
+/**
+ * Kind of call a middleware wraps
+ */
+export type MiddlewareKind = 'step' | 'task' | 'prompt';
+
+/**
+ * Description of a wrapped call
+ */
+export interface MiddlewareContext {
+  /** What is being called */
+  kind: MiddlewareKind;
+  /** Step or task name, or the agent name for prompts */
+  name: string;
+  /**
+   * Arguments of the call: the method arguments for `@Step` and `@Task`,
+   * none for `ctx.step()`, `[prompt, overrides]` for prompts
+   */
+  args: readonly unknown[];
+  /** ID of the workflow the call runs in */
+  workflowId: string;
+  /** Node the call runs under (the step node for steps and their prompts) */
+  node: WorkflowNode;
+}
+
+/**
+ * Run the rest of the middleware chain and the wrapped call
+ *
+ * @param args - Replacement arguments (default: the current arguments)
+ */
+export type MiddlewareNext = (args?: readonly unknown[]) => Promise<unknown>;
+
+/**
+ * Middleware around steps, tasks and agent prompts
+ *
+ * @remarks
+ * Middleware runs in registration order: the first one registered is the
+ * outermost. Whatever it returns becomes the result of the call, and an
+ * error it throws becomes the error of the call. A step middleware runs once
+ * per attempt, inside the step's execution context and time limit.
+ *
+ * @example
+ * ```ts
+ * const timing: WorkflowMiddleware = async (call, next) => {
+ *   const start = Date.now();
+ *   try {
+ *     return await next();
+ *   } finally {
+ *     metrics.record(`${call.kind}.${call.name}`, Date.now() - start);
+ *   }
+ * };
+ * ```
+ */
+export type WorkflowMiddleware = (
+  context: MiddlewareContext,
+  next: MiddlewareNext
+) => Promise<unknown>;
@@ -0,0 +1,38 @@
+/**
+ * Model catalog types
+ *
+ * @remarks
+ * The catalog maps a model (by `ModelSpec` provider and model name) to its
+ * token prices and context window. Agents use it to put a `costUsd` on every
+ * `agentPromptEnd` event, and the tree debugger and EventTreeHandle add those
+ * costs up per subtree.
+ */
+
+import type { BudgetPricing } from './budget.js';
+
+/**
+ * Prices and limits of one model
+ *
+ * @remarks
+ * Prices are in USD per million tokens. Cache prices are optional; cached
+ * tokens are billed at the input price when they are not set.
+ *
+ * @example
+ * ```ts
+ * const entry: ModelCatalogEntry = {
+ *   inputPerMillionTokens: 3,
+ *   outputPerMillionTokens: 15,
+ *   cacheReadPerMillionTokens: 0.3,
+ *   cacheWritePerMillionTokens: 3.75,
+ *   contextWindow: 200_000,
+ * };
+ * ```
+ */
+export interface ModelCatalogEntry extends BudgetPricing {
+  /** Price of input tokens read from the prompt cache */
+  cacheReadPerMillionTokens?: number;
+  /** Price of input tokens written to the prompt cache */
+  cacheWritePerMillionTokens?: number;
+  /** Maximum context window in tokens */
+  contextWindow: number;
+}
@@ -0,0 +1,45 @@
+/**
+ * Custom redaction rule
+ *
+ * Called for every value the redactor visits (objects before their fields).
+ *
+ * @param value - Value to check
+ * @param path - Keys leading to the value (array indices as strings)
+ * @returns The replacement, or undefined to keep the value (and keep walking it)
+ *
+ * @example
+ * ```ts
+ * // Mask card numbers but keep the last four digits
+ * const cards: RedactionFunction = (value) =>
+ *   typeof value === 'string' && /^\d{16}$/.test(value) ? `************${value.slice(-4)}` : undefined;
+ * ```
+ */
+export type RedactionFunction = (value: unknown, path: readonly string[]) => unknown;
+
+/**
+ * Redaction configuration
+ *
+ * @remarks
+ * Each field that is given replaces its default. Extend the defaults by
+ * spreading them, e.g. `keys: [...DEFAULT_REDACTED_KEYS, 'ssn']`.
+ */
+export interface RedactionConfig {
+  /** Set to false to turn redaction off (default: true) */
+  enabled?: boolean;
+  /**
+   * Keys whose values are replaced wherever they appear (default: DEFAULT_REDACTED_KEYS)
+   *
+   * Strings match a key exactly, ignoring case; regexes are tested against the key.
+   */
+  keys?: ReadonlyArray<string | RegExp>;
+  /**
+   * Patterns replaced inside strings, e.g. tokens and emails (default: DEFAULT_REDACTION_PATTERNS)
+   *
+   * Patterns are applied to every match, with or without the `g` flag.
+   */
+  patterns?: readonly RegExp[];
+  /** Custom rules, tried in order before keys and patterns (default: none) */
+  functions?: readonly RedactionFunction[];
+  /** Text that replaces redacted values (default: '[REDACTED]') */
+  replacement?: string;
+}
@@ -0,0 +1,114 @@
+/**
+ * Per-node history rebuilt by WorkflowEventReplayer
+ *
+ * @remarks
+ * Event indices refer to the event list passed to `replay()`, so they can be
+ * passed to `seek()` to travel to the moment something happened.
+ */
+
+import type { TokenUsage } from './sdk-primitives.js';
+import type { RetryDelayReason } from './decorators.js';
+
+/**
+ * An agent call, from agentPromptStart/agentPromptEnd
+ */
+export interface ReplayAgentCall {
+  /** Prompt ID */
+  promptId: string;
+  /** Agent ID */
+  agentId: string;
+  /** Agent name */
+  agentName: string;
+  /** Index of the agentPromptStart event (undefined when it was not recorded) */
+  startIndex?: number;
+  /** Index of the agentPromptEnd event (undefined while the call is running) */
+  endIndex?: number;
+  /** Call duration in milliseconds */
+  duration?: number;
+  /** Tokens used by the call */
+  tokenUsage?: TokenUsage;
+  /** Model the call ran on, as `provider/model` */
+  model?: string;
+  /** Cost of the call in USD */
+  costUsd?: number;
+}
+
+/**
+ * A tool call, from toolInvocation
+ */
+export interface ReplayToolCall {
+  /** Tool name */
+  toolName: string;
+  /** Tool input */
+  input: unknown;
+  /** Tool output */
+  output: unknown;
+  /** Call duration in milliseconds */
+  duration: number;
+  /** Index of the toolInvocation event */
+  eventIndex: number;
+}
+
+/**
+ * A step retry (stepRetry) or restart from a snapshot (stepRestarted)
+ */
+export interface ReplayRetry {
+  /** Whether the step was retried or restarted from its state snapshot */
+  kind: 'retry' | 'restart';
+  /** Step name */
+  step: string;
+  /** Retry number (1 for the first retry) */
+  retryCount: number;
+  /** Index of the event */
+  eventIndex: number;
+  /** Message of the error that caused the retry */
+  errorMessage?: string;
+  /** Milliseconds waited before the next attempt */
+  delayMs?: number;
+  /** Why the wait was that long */
+  delayReason?: RetryDelayReason;
+}
+
+/**
+ * Counters for one node, up to the replay position
+ */
+export interface ReplayMetrics {
+  /** Agent calls started or finished */
+  agentCalls: number;
+  /** Tool invocations */
+  toolCalls: number;
+  /** Step retries */
+  retries: number;
+  /** Step restarts from a state snapshot */
+  restarts: number;
+  /** Agent responses that failed schema validation */
+  invalidResponses: number;
+  /** Cache hits */
+  cacheHits: number;
+  /** Cache misses */
+  cacheMisses: number;
+  /** Reflections started */
+  reflections: number;
+  /** Tokens used by finished agent calls */
+  tokenUsage: { input: number; output: number };
+  /** Cost of finished agent calls in USD */
+  costUsd: number;
+  /** Total duration of finished steps in milliseconds */
+  stepDurationMs: number;
+}
+
+/**
+ * Agent calls, tool calls, retries and metrics of one node
+ */
+export interface ReplayNodeHistory {
+  /** Node ID */
+  nodeId: string;
+  /** Agent calls, in start order */
+  agentCalls: ReplayAgentCall[];
+  /** Tool calls, in order */
+  toolCalls: ReplayToolCall[];
+  /** Retries and restarts, in order */
+  retries: ReplayRetry[];
+  /** Counters */
+  metrics: ReplayMetrics;
+}
@@ -125,4 +125,8 @@ export interface AgentHooks {
 export interface TokenUsage {
   input_tokens: number;
   output_tokens: number;
+  /** Input tokens read from the prompt cache (when the harness reports them) */
+  cache_read_input_tokens?: number;
+  /** Input tokens written to the prompt cache (when the harness reports them) */
+  cache_creation_input_tokens?: number;
 }
@@ -0,0 +1,105 @@
+/**
+ * Tracing types for exporting workflow runs as spans
+ *
+ * Spans follow the OpenTelemetry data model (trace and span ids, parent
+ * links, attributes, status and span events), so exporters can hand them to
+ * any OTLP backend.
+ */
+
+/**
+ * Span attribute values (OpenTelemetry primitive attribute types)
+ */
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Something that happened during a span (a retry, an error)
+ */
+export interface TraceSpanEvent {
+  name: string;
+  /** Time in milliseconds since epoch */
+  time: number;
+  attributes: SpanAttributes;
+}
+
+/**
+ * A finished span
+ */
+export interface TraceSpan {
+  /** 32 hex characters, shared by all spans of a root workflow run */
+  traceId: string;
+  /** 16 hex characters */
+  spanId: string;
+  /** Span this span runs in; undefined for the root workflow */
+  parentSpanId?: string;
+  /** e.g. `workflow Pipeline`, `step fetch`, `prompt Researcher`, `tool web_search` */
+  name: string;
+  /** `client` for agent prompts (calls to a model provider), `internal` otherwise */
+  kind: 'internal' | 'client';
+  /** Start time in milliseconds since epoch */
+  startTime: number;
+  /** End time in milliseconds since epoch */
+  endTime: number;
+  attributes: SpanAttributes;
+  status: { code: 'unset' | 'ok' | 'error'; message?: string };
+  events: TraceSpanEvent[];
+}
+
+/**
+ * Destination for finished spans
+ *
+ * @remarks
+ * Implement this to send spans to a tracing backend (e.g. wrap an
+ * OpenTelemetry SDK exporter, or POST `toOtlpJson(spans)` to a collector).
+ */
+export interface SpanExporter {
+  /** Export a batch of finished spans */
+  export(spans: TraceSpan[]): void | Promise<void>;
+  /** Release resources (called by TracingObserver.shutdown()) */
+  shutdown?(): void | Promise<void>;
+}
+
+/**
+ * TracingObserver options
+ */
+export interface TracingObserverOptions {
+  /** Where finished spans go */
+  exporter: SpanExporter;
+  /** Attributes added to every span */
+  attributes?: SpanAttributes;
+}
+
+/**
+ * OTLP attribute (`KeyValue` in the OTLP JSON encoding)
+ */
+export interface OtlpKeyValue {
+  key: string;
+  value: { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+}
+
+/**
+ * OTLP span (JSON encoding: hex ids, nanosecond times as strings, enum numbers)
+ */
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /** 1 = internal, 3 = client */
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  events: Array<{ timeUnixNano: string; name: string; attributes: OtlpKeyValue[] }>;
+  /** code: 0 = unset, 1 = ok, 2 = error */
+  status: { code: number; message?: string };
+}
+
+/**
+ * OTLP `ExportTraceServiceRequest` in the JSON encoding
+ */
+export interface OtlpExportTraceRequest {
+  resourceSpans: Array<{
+    resource: { attributes: OtlpKeyValue[] };
+    scopeSpans: Array<{ scope: { name: string }; spans: OtlpSpan[] }>;
+  }>;
+}
@@ -9,6 +9,13 @@ import type { WorkflowNode } from './workflow.js';
 import type { ReflectionAPI } from './reflection.js';
 import type { AgentResponse } from './agent.js';
 import type { ErrorMergeStrategy } from './error-strategy.js';
+import type { CheckpointConfig } from './checkpoint.js';
+import type { StepOptions } from './decorators.js';
+import type { BudgetConfig } from './budget.js';
+import type { WorkflowMiddleware } from './middleware.js';
+import type { LoggingConfig } from './logging.js';
+import type { EventStore } from './event-store.js';
+import type { z } from 'zod';
 
 // Re-export ReflectionAPI for backward compatibility
 export type { ReflectionAPI } from './reflection.js';
@@ -68,6 +75,11 @@ export interface EventMetrics {
     output: number;
   };
   toolCalls?: number;
+  /**
+   * Cost in USD from the model catalog: of the call for agent prompt nodes,
+   * of all agent calls in the subtree for workflow nodes
+   */
+  costUsd?: number;
 }
 
 /**
@@ -86,6 +98,64 @@ export interface PromptLike<T> {
   validateResponse(data: unknown): T;
 }
 
+/**
+ * Options shared by ctx.parallel(), ctx.race(), ctx.map() and ctx.loop()
+ */
+export interface ControlFlowOptions {
+  /** Name of the group node (defaults to the method name, e.g. 'map') */
+  name?: string;
+  /** Options applied to every branch/item/iteration step */
+  stepOptions?: Omit<StepOptions, 'name'>;
+}
+
+/**
+ * Options for ctx.map()
+ */
+export interface MapOptions extends ControlFlowOptions {
+  /** Maximum number of items processed at once, an integer >= 1 (default: unlimited) */
+  concurrency?: number;
+}
+
+/**
+ * Options for ctx.loop()
+ */
+export interface LoopOptions extends ControlFlowOptions {
+  /** Stop after this many iterations even if the condition still holds (default: unlimited) */
+  maxIterations?: number;
+}
+
+/**
+ * Options for waitForSignal()
+ */
+export interface WaitForSignalOptions {
+  /** Stop waiting after this many milliseconds (default: wait indefinitely, up to the workflow deadline) */
+  timeoutMs?: number;
+  /** Human-readable description of what is awaited, reported on the `signalWaiting` event */
+  prompt?: string;
+}
+
+/**
+ * Options for requestApproval()
+ */
+export interface ApprovalOptions {
+  /** Signal name the decision is sent on (default: 'approval') */
+  name?: string;
+  /** Stop waiting after this many milliseconds (default: wait indefinitely, up to the workflow deadline) */
+  timeoutMs?: number;
+}
+
+/**
+ * Decision sent to an approval gate, e.g. `workflow.sendSignal('approval', { approved: true })`
+ */
+export interface ApprovalDecision {
+  /** Whether the request was approved */
+  approved: boolean;
+  /** Optional reviewer comment */
+  comment?: string;
+  /** Optional identifier of the reviewer */
+  approver?: string;
+}
+
 /**
  * WorkflowContext - Available within functional workflow executor
  */
@@ -96,24 +166,104 @@ export interface WorkflowContext {
   /** Parent workflow ID if nested */
   readonly parentWorkflowId?: string;
 
+  /**
+   * Abort signal of this workflow
+   * Fires when the workflow is cancelled; pass it to fetch() or other
+   * abortable APIs used inside steps.
+   */
+  readonly signal?: AbortSignal;
+
   /**
    * Execute a named step
    * Can be called anywhere in JavaScript control flow (loops, conditionals, etc.)
    *
    * @param name Step name for logging and debugging
    * @param fn Step function to execute
+   * @param options Optional step options, with the same meaning as for @Step (`name` is taken from the first argument)
    * @returns Result of the step function
+   * @throws {WorkflowError} With code 'TIMEOUT' if the step exceeds its timeout or the workflow deadline
+   *
+   * @example
+   * ```ts
+   * const data = await ctx.step('fetch', () => fetchData(), {
+   *   restartable: true,
+   *   maxRetries: 3,
+   *   retryOn: [{ code: 'TIMEOUT' }],
+   *   timeoutMs: 30_000,
+   * });
+   * ```
+   */
+  step<T>(name: string, fn: () => Promise<T>, options?: Omit<StepOptions<T>, 'name'>): Promise<T>;
+
+  /**
+   * Run branches concurrently and wait for all of them
+   * Creates a group node with one step node per branch (`parallel[0]`, `parallel[1]`, ...).
+   * When a branch fails, the remaining branches are cancelled and the failure is thrown.
+   *
+   * @param branches Branch functions
+   * @param options Group name and per-branch step options
+   * @returns Branch results in order
    */
-  step<T>(name: string, fn: () => Promise<T>): Promise<T>;
+  parallel<T extends unknown[]>(
+    branches: [...{ [K in keyof T]: () => Promise<T[K]> }],
+    options?: ControlFlowOptions
+  ): Promise<T>;
+
+  /**
+   * Run branches concurrently and settle with the first one to settle
+   * Creates a group node with one step node per branch; losing branches are cancelled.
+   *
+   * @param branches Branch functions (at least one)
+   * @param options Group name and per-branch step options
+   * @returns Result of the first branch to settle
+   */
+  race<T>(branches: ReadonlyArray<() => Promise<T>>, options?: ControlFlowOptions): Promise<T>;
+
+  /**
+   * Run a step for each item, with optional bounded concurrency
+   * Creates a group node with one step node per item (`map[0]`, `map[1]`, ...).
+   * When an item fails, queued items are skipped, running ones are cancelled and the failure is thrown.
+   *
+   * @param items Items to process
+   * @param fn Step function for one item
+   * @param options Group name, `concurrency` and per-item step options
+   * @returns Results in item order
+   */
+  map<I, R>(
+    items: readonly I[],
+    fn: (item: I, index: number) => Promise<R>,
+    options?: MapOptions
+  ): Promise<R[]>;
+
+  /**
+   * Run a step repeatedly while a condition holds
+   * Creates a group node with one step node per iteration (`loop[0]`, `loop[1]`, ...).
+   * The condition is evaluated before each iteration.
+   *
+   * @param condition Called with the iteration index; the loop ends when it returns false
+   * @param fn Step function for one iteration
+   * @param options Group name, `maxIterations` and per-iteration step options
+   * @returns Iteration results in order
+   */
+  loop<T>(
+    condition: (iteration: number) => boolean | Promise<boolean>,
+    fn: (iteration: number) => Promise<T>,
+    options?: LoopOptions
+  ): Promise<T[]>;
 
   /**
    * Spawn a child workflow
    * The child workflow is automatically attached to this workflow's tree
    *
    * @param workflow Workflow instance to spawn
+   * @param args Arguments for the child's run(), e.g. the input of a workflow
+   *   created with an `input` schema (typed from the child's schema)
    * @returns Result of the child workflow
    */
-  spawnWorkflow<T>(workflow: { run(): Promise<T> }): Promise<T>;
+  spawnWorkflow<T, A extends unknown[] = []>(
+    workflow: { run(...args: A): Promise<T> },
+    ...args: A
+  ): Promise<T>;
 
   /**
    * Replace the last prompt result with a new one (context revision)
@@ -128,6 +278,50 @@ export interface WorkflowContext {
     agent: AgentLike
   ): Promise<T>;
 
+  /**
+   * Suspend until an external signal arrives
+   *
+   * Creates a `signal:<name>` node with status 'waiting' (the workflow's
+   * status becomes 'waiting' too) and resolves with the payload passed to
+   * `workflow.sendSignal(name, payload)`, validated against `schema`.
+   *
+   * @param name Signal name
+   * @param schema Zod schema the payload must satisfy
+   * @param options Optional timeout and prompt
+   * @returns The validated payload
+   * @throws {WorkflowCancelledError} If the workflow is cancelled while waiting
+   * @throws {WorkflowTimeoutError} If `timeoutMs` or the workflow deadline passes first
+   *
+   * @example
+   * ```ts
+   * const { branch } = await ctx.waitForSignal('deploy-target', z.object({ branch: z.string() }));
+   * ```
+   */
+  waitForSignal<S extends z.ZodTypeAny>(
+    name: string,
+    schema: S,
+    options?: WaitForSignalOptions
+  ): Promise<z.infer<S>>;
+
+  /**
+   * Suspend until a person approves or rejects
+   *
+   * Waits for an {@link ApprovalDecision} on the 'approval' signal (or
+   * `options.name`). The prompt is reported on the `signalWaiting` event.
+   * A rejection is returned, not thrown.
+   *
+   * @param prompt What the reviewer is asked to approve
+   * @param options Optional signal name and timeout
+   * @returns The reviewer's decision
+   *
+   * @example
+   * ```ts
+   * const decision = await ctx.requestApproval(`Run this plan?\n${plan}`);
+   * if (!decision.approved) return { skipped: decision.comment };
+   * ```
+   */
+  requestApproval(prompt: string, options?: ApprovalOptions): Promise<ApprovalDecision>;
+
   /**
    * Access to the event tree for this workflow
    */
@@ -175,13 +369,22 @@ export interface WorkflowContext {
  *   }
  * };
  * ```
+ *
+ * @example Keep events in a queryable file
+ * ```ts
+ * const config: WorkflowConfig = {
+ *   name: 'MyWorkflow',
+ *   eventHistory: { store: new JsonLinesEventStore('./events/my-workflow.jsonl') }
+ * };
+ * ```
  */
 export interface EventHistoryConfig {
   /**
    * Enable event history collection
    *
    * When false (default), no events are stored in history.
-   * Events are still emitted to observers in real-time.
+   * Events are still emitted to observers in real-time, and `store`
+   * ignores this flag.
    *
    * @default false
    */
@@ -208,6 +411,15 @@ export interface EventHistoryConfig {
    * @minimum 1000 (1 second)
    */
   maxAgeMs?: number;
+
+  /**
+   * Store that keeps events beyond this process (e.g. a JsonLinesEventStore)
+   *
+   * Receives the events of this workflow and of descendants without a store
+   * of their own, whether or not `enabled` is set. `maxEvents` and
+   * `maxAgeMs` only bound the in-memory history, not the store.
+   */
+  store?: EventStore;
 }
 
 /**
@@ -229,7 +441,8 @@ export interface WorkflowConfig {
    * @remarks
    * Controls whether events are stored in memory for replay functionality.
    * When disabled (default), events are still emitted to observers but not
-   * stored in the internal event history array.
+   * stored in the internal event history array. `eventHistory.store` receives
+   * events either way.
    *
    * @example Enable with defaults
    * ```ts
@@ -288,6 +501,133 @@ export interface WorkflowConfig {
    * ```
    */
   errorMergeStrategy?: ErrorMergeStrategy;
+
+  /**
+   * Durable checkpointing for this workflow run
+   *
+   * @remarks
+   * When provided, the node tree, observed state of every workflow in the
+   * run and the result of every completed `ctx.step()`/`@Step` are written
+   * to the store. `workflow.resume(runId)` then skips completed steps.
+   * Child workflows attached to this workflow share its checkpoint.
+   *
+   * @example
+   * ```ts
+   * const config: WorkflowConfig = {
+   *   name: 'MyWorkflow',
+   *   checkpoint: { store: new FileCheckpointStore('./checkpoints'), runId: 'run-1' }
+   * };
+   * ```
+   */
+  checkpoint?: CheckpointConfig;
+
+  /**
+   * Absolute deadline for the run (epoch milliseconds)
+   *
+   * @remarks
+   * Every step is limited to the time remaining until the deadline, and the
+   * remaining time is passed down to child workflows and agent calls (a child
+   * never outlives its parent's deadline). When it passes, the running step
+   * fails with a non-recoverable WorkflowError whose code is 'TIMEOUT'.
+   *
+   * @example
+   * ```ts
+   * const config: WorkflowConfig = {
+   *   name: 'MyWorkflow',
+   *   deadline: Date.now() + 5 * 60_000 // five minutes from now
+   * };
+   * ```
+   */
+  deadline?: number;
+
+  /**
+   * Zod schema for the workflow's input
+   *
+   * @remarks
+   * When set, `run(input, options?)` takes the input as its first argument
+   * (run options move to the second), validates it and passes the parsed
+   * value to the executor. Invalid input fails the run with a WorkflowError
+   * whose code is 'INVALID_INPUT'; the executor is not called.
+   *
+   * @example
+   * ```ts
+   * const workflow = createWorkflow(
+   *   { name: 'Summarize', input: z.object({ url: z.string().url() }) },
+   *   async (ctx, { url }) => ctx.step('fetch', () => fetchPage(url))
+   * );
+   * await workflow.run({ url: 'https://example.com' });
+   * ```
+   */
+  input?: z.ZodTypeAny;
+
+  /**
+   * Zod schema for the workflow's result
+   *
+   * @remarks
+   * The executor's return value is validated and the parsed value becomes
+   * `WorkflowResult.data`. An invalid result fails the run with a
+   * WorkflowError whose code is 'INVALID_OUTPUT'.
+   */
+  output?: z.ZodTypeAny;
+
+  /**
+   * Token and cost limits for this workflow and everything it runs
+   *
+   * @remarks
+   * Usage of agent calls in this workflow and in its attached and spawned
+   * children counts against the budget. Once a limit is reached, agent calls
+   * return an error response with code 'BUDGET_EXCEEDED', and `budgetWarning`
+   * events are emitted as usage crosses `warnAt` thresholds. Usage is reset
+   * at the start of every run.
+   *
+   * @example
+   * ```ts
+   * const config: WorkflowConfig = {
+   *   name: 'MyWorkflow',
+   *   budget: { maxTotalTokens: 100_000, warnAt: [0.5, 0.9] }
+   * };
+   * ```
+   */
+  budget?: BudgetConfig;
+
+  /**
+   * Middleware wrapping every step, task and agent prompt in the workflow
+   *
+   * Runs in order (the first is outermost), before middleware added later
+   * with `workflow.use()`. Attached and spawned child workflows run their
+   * calls through this workflow's middleware first, then their own.
+   *
+   * @example
+   * ```ts
+   * const config: WorkflowConfig = {
+   *   name: 'MyWorkflow',
+   *   middleware: [
+   *     async (call, next) => {
+   *       console.log(`${call.kind} ${call.name} started`);
+   *       return next();
+   *     },
+   *   ],
+   * };
+   * ```
+   */
+  middleware?: WorkflowMiddleware[];
+
+  /**
+   * Log level and log sinks
+   *
+   * @remarks
+   * Child workflows without a level use their parent's. Sinks are taken from
+   * the root workflow, like observers; add more with `workflow.addLogSink()`.
+   *
+   * @example
+   * ```ts
+   * const config: WorkflowConfig = {
+   *   name: 'MyWorkflow',
+   *   logging: { level: 'info', sinks: [new JsonLinesFileSink('./logs/run.jsonl')] }
+   * };
+   * ```
+   */
+  logging?: LoggingConfig;
 }
 
 /**
@@ -303,3 +643,20 @@ export interface WorkflowResult<T = unknown> {
   /** Total duration in milliseconds */
   duration: number;
 }
+
+/**
+ * Options for running a functional workflow
+ *
+ * @example
+ * ```ts
+ * const controller = new AbortController();
+ * const pending = workflow.run({ signal: controller.signal });
+ * controller.abort('user requested stop');
+ * ```
+ */
+export interface WorkflowRunOptions {
+  /** Cancels the workflow when aborted (equivalent to calling workflow.cancel()) */
+  signal?: AbortSignal;
+  /** Deadline for this run (epoch ms); the earlier of this and `config.deadline` applies */
+  deadline?: number;
+}
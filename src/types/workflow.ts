@@ -6,7 +6,8 @@ export type WorkflowStatus =
   | 'running'
   | 'completed'
   | 'failed'
-  | 'cancelled';
+  | 'cancelled'
+  | 'waiting';
 
 // Forward declarations - import from their respective files
 import type { LogEntry } from './logging.js';
@@ -35,3 +36,26 @@ export interface WorkflowNode {
   /** Optional serialized state snapshot */
   stateSnapshot: SerializedWorkflowState | null;
 }
+
+/**
+ * JSON-safe representation of a WorkflowNode subtree
+ *
+ * @remarks
+ * Parent references are dropped (they are implied by nesting) and events are
+ * omitted because they hold live node references. Used wherever a node tree
+ * has to leave the process, e.g. checkpoints.
+ */
+export interface SerializedWorkflowNode {
+  /** Node ID */
+  id: string;
+  /** Human-readable name */
+  name: string;
+  /** Execution status at serialization time */
+  status: WorkflowStatus;
+  /** Log entries for this node */
+  logs: LogEntry[];
+  /** Optional serialized state snapshot */
+  stateSnapshot: SerializedWorkflowState | null;
+  /** Serialized child nodes */
+  children: SerializedWorkflowNode[];
+}
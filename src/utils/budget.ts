@@ -0,0 +1,145 @@
+/**
+ * Budget accounting for workflow trees
+ *
+ * @module
+ * @remarks
+ * A workflow with `WorkflowConfig.budget` owns a BudgetTracker. Agent usage
+ * recorded anywhere in its subtree is added to it (and to the trackers of
+ * budgeted ancestors), and agents check the trackers before every call.
+ */
+
+import type { TokenUsage } from '../types/sdk-primitives.js';
+import type { WorkflowNode } from '../types/workflow.js';
+import type {
+  BudgetConfig,
+  BudgetLimitStatus,
+  BudgetMetric,
+  BudgetUsage,
+} from '../types/budget.js';
+import { computeTokenCost } from './model-catalog.js';
+
+/** Thresholds used when BudgetConfig.warnAt is not set */
+const DEFAULT_WARN_AT = [0.8, 1];
+
+/** Limit option for each metric, in checking order */
+const LIMITS: ReadonlyArray<[BudgetMetric, keyof BudgetConfig]> = [
+  ['inputTokens', 'maxInputTokens'],
+  ['outputTokens', 'maxOutputTokens'],
+  ['totalTokens', 'maxTotalTokens'],
+  ['costUsd', 'maxCostUsd'],
+];
+
+/**
+ * A threshold of a limit crossed by recorded usage
+ */
+export interface BudgetThresholdCrossing extends BudgetLimitStatus {
+  /** Fraction of the limit that was crossed (from BudgetConfig.warnAt) */
+  threshold: number;
+}
+
+/**
+ * Running usage of one workflow's budget
+ *
+ * @public
+ */
+export class BudgetTracker {
+  private inputTokens = 0;
+  private outputTokens = 0;
+  private costUsd = 0;
+
+  /** Thresholds already reported, as `${metric}:${threshold}` */
+  private crossed = new Set<string>();
+
+  /**
+   * @param config - Limits, pricing and warning thresholds
+   * @param node - Node of the workflow that owns the budget (reported on events)
+   */
+  constructor(
+    public readonly config: BudgetConfig,
+    public readonly node: WorkflowNode
+  ) {}
+
+  /**
+   * Usage recorded so far
+   */
+  public get usage(): BudgetUsage {
+    return {
+      inputTokens: this.inputTokens,
+      outputTokens: this.outputTokens,
+      totalTokens: this.inputTokens + this.outputTokens,
+      costUsd: this.costUsd,
+    };
+  }
+
+  /**
+   * Add the usage of one agent call
+   *
+   * @param usage - Token usage reported by the call
+   * @param costUsd - Model catalog cost of the call, used when the budget
+   * has no `pricing` of its own
+   * @returns Warning thresholds crossed by this call, in limit order
+   */
+  public record(usage: TokenUsage, costUsd?: number): BudgetThresholdCrossing[] {
+    this.inputTokens += usage.input_tokens;
+    this.outputTokens += usage.output_tokens;
+    this.costUsd += this.config.pricing
+      ? computeTokenCost(this.config.pricing, usage)
+      : (costUsd ?? 0);
+
+    const crossings: BudgetThresholdCrossing[] = [];
+    for (const status of this.limits()) {
+      for (const threshold of this.config.warnAt ?? DEFAULT_WARN_AT) {
+        const key = `${status.metric}:${threshold}`;
+        if (status.used >= status.limit * threshold && !this.crossed.has(key)) {
+          this.crossed.add(key);
+          crossings.push({ ...status, threshold });
+        }
+      }
+    }
+    return crossings;
+  }
+
+  /**
+   * First limit that has been reached, if any
+   */
+  public exceeded(): BudgetLimitStatus | undefined {
+    return this.limits().find((status) => status.used >= status.limit);
+  }
+
+  /**
+   * Clear recorded usage (called when the owning workflow starts a run)
+   */
+  public reset(): void {
+    this.inputTokens = 0;
+    this.outputTokens = 0;
+    this.costUsd = 0;
+    this.crossed.clear();
+  }
+
+  private limits(): BudgetLimitStatus[] {
+    const usage = this.usage;
+    const statuses: BudgetLimitStatus[] = [];
+    for (const [metric, option] of LIMITS) {
+      const limit = this.config[option];
+      if (typeof limit === 'number') {
+        statuses.push({ metric, used: usage[metric], limit });
+      }
+    }
+    return statuses;
+  }
+}
+
+/**
+ * Describe a reached limit for error messages
+ *
+ * @example
+ * describeBudgetLimit({ metric: 'outputTokens', used: 1200, limit: 1000 })
+ * // "outputTokens budget exhausted (1200 of 1000 used)"
+ */
+export function describeBudgetLimit(status: BudgetLimitStatus): string {
+  return `${status.metric} budget exhausted (${formatAmount(status.metric, status.used)} of ${formatAmount(status.metric, status.limit)} used)`;
+}
+
+function formatAmount(metric: BudgetMetric, value: number): string {
+  return metric === 'costUsd' ? `$${value.toFixed(4)}` : String(value);
+}
@@ -0,0 +1,155 @@
+/**
+ * Cooperative cancellation utilities
+ *
+ * @module
+ * @remarks
+ * Workflows expose an AbortSignal that is propagated to steps, child
+ * workflows, agents and harnesses. These helpers turn an aborted signal
+ * into a WorkflowCancelledError and let async work stop waiting as soon as
+ * the signal fires.
+ */
+
+/**
+ * Error thrown when a workflow, step or agent call is cancelled
+ *
+ * @remarks
+ * `code` is always `'CANCELLED'` so the error can be matched by `retryOn`
+ * criteria and error handlers without instanceof checks. Cancellation is
+ * never recoverable.
+ *
+ * @public
+ */
+export class WorkflowCancelledError extends Error {
+  /** Stable error code */
+  public readonly code = 'CANCELLED' as const;
+
+  /** Cancellation is never retried */
+  public readonly recoverable = false;
+
+  /**
+   * @param reason - Optional human-readable cancellation reason
+   */
+  constructor(public readonly reason?: string) {
+    super(reason ? `Workflow cancelled: ${reason}` : 'Workflow cancelled');
+    this.name = 'WorkflowCancelledError';
+  }
+}
+
+/**
+ * Check whether a value is a cancellation error
+ *
+ * Matches WorkflowCancelledError instances and any error-like object
+ * carrying `code: 'CANCELLED'` (including WorkflowErrors wrapping one).
+ */
+export function isCancellationError(error: unknown): boolean {
+  if (error instanceof WorkflowCancelledError) {
+    return true;
+  }
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+  if ((error as { code?: unknown }).code === 'CANCELLED') {
+    return true;
+  }
+  const original = (error as { original?: unknown }).original;
+  return original !== undefined && original !== error && isCancellationError(original);
+}
+
+/**
+ * Convert an aborted signal's reason into a WorkflowCancelledError
+ */
+export function toCancellationError(signal: AbortSignal): WorkflowCancelledError {
+  const reason: unknown = signal.reason;
+  if (reason instanceof WorkflowCancelledError) {
+    return reason;
+  }
+  if (reason instanceof Error) {
+    return new WorkflowCancelledError(reason.message);
+  }
+  return new WorkflowCancelledError(reason === undefined ? undefined : String(reason));
+}
+
+/**
+ * Get the error to surface for an aborted signal
+ *
+ * Typed abort reasons (errors carrying a string `code`, such as a
+ * WorkflowTimeoutError) are surfaced unchanged; any other reason becomes a
+ * WorkflowCancelledError.
+ */
+export function toAbortError(signal: AbortSignal): Error {
+  const reason: unknown = signal.reason;
+  if (reason instanceof Error && typeof (reason as { code?: unknown }).code === 'string') {
+    return reason;
+  }
+  return toCancellationError(signal);
+}
+
+/**
+ * Get the agent error code for an aborted signal
+ *
+ * @returns `'TIMEOUT'` when the signal was aborted by a timeout, otherwise `'CANCELLED'`
+ */
+export function getAbortCode(signal: AbortSignal): 'CANCELLED' | 'TIMEOUT' {
+  return (toAbortError(signal) as { code?: unknown }).code === 'TIMEOUT' ? 'TIMEOUT' : 'CANCELLED';
+}
+
+/**
+ * Check whether work aborted by this signal may be retried
+ *
+ * True only for typed abort reasons that declare themselves recoverable
+ * (a step timeout); cancellations and exceeded deadlines are final.
+ */
+export function isRecoverableAbort(signal: AbortSignal): boolean {
+  return (toAbortError(signal) as { recoverable?: unknown }).recoverable === true;
+}
+
+/**
+ * Throw if the signal has been aborted
+ *
+ * @param signal - Signal to check (no-op when undefined)
+ * @throws {WorkflowCancelledError} If the signal is aborted (or the typed abort reason, see toAbortError)
+ */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw toAbortError(signal);
+  }
+}
+
+/**
+ * Race a promise against a signal
+ *
+ * Rejects with a WorkflowCancelledError (or the typed abort reason, see
+ * toAbortError) as soon as the signal aborts. The underlying work is not
+ * interrupted by this helper; it is expected to observe the same signal itself.
+ *
+ * @param promise - Work to wait for
+ * @param signal - Signal to race against (returns the promise as-is when undefined)
+ */
+export function raceWithSignal<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    // Avoid unhandled rejections from the abandoned work
+    promise.catch(() => {});
+    return Promise.reject(toAbortError(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      promise.catch(() => {});
+      reject(toAbortError(signal));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * Bounded concurrency pool
+ *
+ * @module
+ * @remarks
+ * Runs a list of async tasks with at most `maxConcurrency` in flight at a
+ * time. Tasks start in order; a task that has not started yet never runs
+ * once the pool is stopped (fail-fast) or the signal aborts.
+ */
+
+import { WorkflowCancelledError, toAbortError } from './cancellation.js';
+
+/**
+ * Options for runWithConcurrency()
+ */
+export interface ConcurrencyOptions {
+  /** Maximum number of tasks in flight, an integer >= 1 (default: unlimited) */
+  maxConcurrency?: number;
+  /** Stop starting queued tasks after the first rejection (default: false) */
+  failFast?: boolean;
+  /** Queued tasks are not started once this signal aborts */
+  signal?: AbortSignal;
+  /** Called when a task is about to start */
+  onStart?(index: number): void;
+  /** Called once per rejection, in completion order */
+  onReject?(reason: unknown, index: number): void;
+}
+
+/**
+ * Run tasks with a concurrency limit and collect every outcome
+ *
+ * Task failures never reject it: each task's outcome is reported in its
+ * slot of the returned array, in input order. Tasks skipped because of
+ * fail-fast or an aborted signal are reported as rejected with a
+ * WorkflowCancelledError (or the signal's typed abort reason).
+ *
+ * @param tasks - Task factories; a task starts when its factory is called
+ * @param options - Concurrency options
+ * @returns Settled results in input order
+ * @throws {RangeError} If `maxConcurrency` is not an integer >= 1
+ *
+ * @example
+ * ```ts
+ * const results = await runWithConcurrency(
+ *   urls.map((url) => () => fetch(url)),
+ *   { maxConcurrency: 5 }
+ * );
+ * ```
+ */
+export async function runWithConcurrency<T>(
+  tasks: ReadonlyArray<() => Promise<T>>,
+  options: ConcurrencyOptions = {}
+): Promise<PromiseSettledResult<T>[]> {
+  const { failFast = false, signal } = options;
+  const { maxConcurrency } = options;
+  if (maxConcurrency !== undefined && !(Number.isInteger(maxConcurrency) && maxConcurrency >= 1)) {
+    throw new RangeError(`maxConcurrency must be an integer >= 1, got ${maxConcurrency}`);
+  }
+  const limit = maxConcurrency ?? tasks.length;
+
+  const results: PromiseSettledResult<T>[] = new Array(tasks.length);
+  let next = 0;
+  let stopped = false;
+
+  const skip = (index: number): void => {
+    const reason = signal?.aborted
+      ? toAbortError(signal)
+      : new WorkflowCancelledError('a sibling task failed');
+    results[index] = { status: 'rejected', reason };
+  };
+
+  // Each lane pulls the next queued task until the queue is drained
+  const lane = async (): Promise<void> => {
+    while (next < tasks.length) {
+      const index = next++;
+      if (stopped || signal?.aborted) {
+        skip(index);
+        continue;
+      }
+
+      options.onStart?.(index);
+      try {
+        results[index] = { status: 'fulfilled', value: await tasks[index]() };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+        if (failFast) {
+          stopped = true;
+        }
+        options.onReject?.(reason, index);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, lane));
+  return results;
+}
@@ -37,6 +37,8 @@ import type {
   HarnessOptions,
 } from '../types/harnesses.js';
 
+import { registerSecret } from './redaction.js';
+
 // ── Legacy provider types (isolatedModules → import type) ──────────────────────────────────
 import type {
   GlobalProviderConfig,
@@ -137,6 +139,11 @@ export function configureHarnesses(config: GlobalHarnessConfig): void {
     }
   }
 
+  // Keep configured API keys out of logs, events and snapshots
+  for (const options of Object.values(config.harnessDefaults ?? {})) {
+    registerSecret(options?.apiKey);
+  }
+
   // Store configuration (defaultModelProvider is open set — no validation)
   globalHarnessConfig = config;
 }
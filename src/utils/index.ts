@@ -4,9 +4,55 @@ export { configureProviders } from './provider-config.js';
 export { configureHarnesses, getGlobalHarnessConfig, resolveHarnessConfig, resetGlobalHarnessConfig } from './harness-config.js';
 export { delay } from './delay.js';
 export { generateId } from './id.js';
-export { mergeWorkflowErrors } from './workflow-error-utils.js';
+export { mergeWorkflowErrors, getErrorCode } from './workflow-error-utils.js';
 export { parseModelSpec, formatModelForProvider } from './model-spec.js';
 export { Observable } from './observable.js';
 export type { Subscription, Observer } from './observable.js';
 export type { ValidationResult } from './agent-validation.js';
 export { serializeSession, deserializeSession, SessionSerializationError } from './session-serialization.js';
+export type { SerializeSessionOptions } from './session-serialization.js';
+export { serializeWorkflowNode, deserializeWorkflowNode } from './tree-serialization.js';
+export {
+  WorkflowCancelledError,
+  isCancellationError,
+  toCancellationError,
+  throwIfAborted,
+  raceWithSignal,
+  toAbortError,
+  getAbortCode,
+  isRecoverableAbort,
+} from './cancellation.js';
+export {
+  WorkflowTimeoutError,
+  isTimeoutError,
+  resolveDeadline,
+  startTimeLimit,
+} from './timeout.js';
+export type { TimeLimit } from './timeout.js';
+export { runWithConcurrency } from './concurrency.js';
+export type { ConcurrencyOptions } from './concurrency.js';
+export { computeRetryDelay, getRetryAfterMs } from './retry-policy.js';
+export type { RetryDelay } from './retry-policy.js';
+export { SignalValidationError, ApprovalDecisionSchema } from './signals.js';
+export { BudgetTracker, describeBudgetLimit } from './budget.js';
+export type { BudgetThresholdCrossing } from './budget.js';
+export {
+  ModelCatalog,
+  defaultModelCatalog,
+  DEFAULT_MODEL_CATALOG,
+  computeTokenCost,
+  collectSubtreeCosts,
+} from './model-catalog.js';
+export { runWithMiddleware } from './middleware.js';
+export {
+  Redactor,
+  configureRedaction,
+  resetRedaction,
+  registerSecret,
+  redact,
+  redactString,
+  isRedactedKey,
+  DEFAULT_REDACTED_KEYS,
+  DEFAULT_REDACTION_PATTERNS,
+  EMAIL_PATTERN,
+} from './redaction.js';
@@ -0,0 +1,31 @@
+/**
+ * Serialize a value to JSON for a log or event line
+ *
+ * Errors keep their name, message, stack and code; circular references become
+ * `[Circular:key]` and bigints become strings, so writing a line never throws.
+ *
+ * @internal
+ */
+export function toJson(value: unknown): string {
+  const seen = new WeakSet<object>();
+  return JSON.stringify(value, (key: string, current: unknown): unknown => {
+    if (typeof current === 'bigint') {
+      return current.toString();
+    }
+    if (typeof current === 'object' && current !== null) {
+      if (seen.has(current)) {
+        return `[Circular:${key}]`;
+      }
+      seen.add(current);
+      if (current instanceof Error) {
+        return {
+          name: current.name,
+          message: current.message,
+          ...((current as { code?: unknown }).code !== undefined && { code: (current as { code?: unknown }).code }),
+          stack: current.stack,
+        };
+      }
+    }
+    return current;
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * Middleware composition
+ *
+ * @module
+ * @remarks
+ * Used by @Step, @Task, ctx.step() and Agent to run their calls through the
+ * middleware of the workflow they run in (see `Workflow.use()`).
+ */
+
+import type { MiddlewareContext, WorkflowMiddleware } from '../types/middleware.js';
+
+/**
+ * Run a call through a middleware chain
+ *
+ * @param middleware - Middleware in registration order (first is outermost)
+ * @param context - Description of the call; `args` are the initial arguments
+ * @param call - The wrapped call, invoked with the (possibly replaced) arguments
+ * @returns Result of the chain
+ *
+ * @example
+ * const result = await runWithMiddleware(
+ *   workflow.getMiddleware(),
+ *   { kind: 'step', name: 'fetch', args: [url], workflowId, node },
+ *   (url) => fetchPage(url as string)
+ * );
+ */
+export function runWithMiddleware<T>(
+  middleware: readonly WorkflowMiddleware[],
+  context: MiddlewareContext,
+  call: (...args: unknown[]) => Promise<T>
+): Promise<T> {
+  const dispatch = (index: number, args: readonly unknown[]): Promise<unknown> => {
+    const current = middleware[index];
+    if (!current) {
+      return call(...args);
+    }
+    return current({ ...context, args }, (next = args) => dispatch(index + 1, next));
+  };
+  return dispatch(0, context.args) as Promise<T>;
+}
@@ -0,0 +1,227 @@
+/**
+ * Model pricing catalog and cost accounting
+ *
+ * @module
+ * @remarks
+ * `defaultModelCatalog` ships with prices for the Anthropic models and is
+ * looked up by every agent call to put a `costUsd` on `agentPromptEnd`.
+ * Register entries to add custom providers or to override the built-in prices:
+ *
+ * ```ts
+ * defaultModelCatalog.set('openai/gpt-4o', {
+ *   inputPerMillionTokens: 2.5,
+ *   outputPerMillionTokens: 10,
+ *   contextWindow: 128_000,
+ * });
+ * ```
+ */
+
+import type { ModelSpec } from '../types/harnesses.js';
+import type { ModelCatalogEntry } from '../types/model-catalog.js';
+import type { BudgetPricing } from '../types/budget.js';
+import type { TokenUsage } from '../types/sdk-primitives.js';
+import type { WorkflowNode } from '../types/workflow.js';
+import type { WorkflowEvent } from '../types/events.js';
+import { parseModelSpec } from './model-spec.js';
+import { getGlobalHarnessConfig } from './harness-config.js';
+
+const SONNET: ModelCatalogEntry = {
+  inputPerMillionTokens: 3,
+  outputPerMillionTokens: 15,
+  cacheReadPerMillionTokens: 0.3,
+  cacheWritePerMillionTokens: 3.75,
+  contextWindow: 200_000,
+};
+
+const OPUS: ModelCatalogEntry = {
+  inputPerMillionTokens: 15,
+  outputPerMillionTokens: 75,
+  cacheReadPerMillionTokens: 1.5,
+  cacheWritePerMillionTokens: 18.75,
+  contextWindow: 200_000,
+};
+
+const OPUS_4_5: ModelCatalogEntry = {
+  inputPerMillionTokens: 5,
+  outputPerMillionTokens: 25,
+  cacheReadPerMillionTokens: 0.5,
+  cacheWritePerMillionTokens: 6.25,
+  contextWindow: 200_000,
+};
+
+const HAIKU_4_5: ModelCatalogEntry = {
+  inputPerMillionTokens: 1,
+  outputPerMillionTokens: 5,
+  cacheReadPerMillionTokens: 0.1,
+  cacheWritePerMillionTokens: 1.25,
+  contextWindow: 200_000,
+};
+
+const HAIKU_3_5: ModelCatalogEntry = {
+  inputPerMillionTokens: 0.8,
+  outputPerMillionTokens: 4,
+  cacheReadPerMillionTokens: 0.08,
+  cacheWritePerMillionTokens: 1,
+  contextWindow: 200_000,
+};
+
+/**
+ * Built-in catalog entries, keyed by `provider/model`
+ */
+export const DEFAULT_MODEL_CATALOG: Readonly<Record<string, ModelCatalogEntry>> = {
+  'anthropic/claude-opus-4-5': OPUS_4_5,
+  'anthropic/claude-opus-4-5-20251101': OPUS_4_5,
+  'anthropic/claude-opus-4-1': OPUS,
+  'anthropic/claude-opus-4-1-20250805': OPUS,
+  'anthropic/claude-opus-4-0': OPUS,
+  'anthropic/claude-opus-4-20250514': OPUS,
+  'anthropic/claude-sonnet-4-5': SONNET,
+  'anthropic/claude-sonnet-4-5-20250929': SONNET,
+  'anthropic/claude-sonnet-4-0': SONNET,
+  'anthropic/claude-sonnet-4-20250514': SONNET,
+  'anthropic/claude-3-7-sonnet-latest': SONNET,
+  'anthropic/claude-3-7-sonnet-20250219': SONNET,
+  'anthropic/claude-haiku-4-5': HAIKU_4_5,
+  'anthropic/claude-haiku-4-5-20251001': HAIKU_4_5,
+  'anthropic/claude-3-5-haiku-latest': HAIKU_3_5,
+  'anthropic/claude-3-5-haiku-20241022': HAIKU_3_5,
+};
+
+/**
+ * Prices and context windows of models, keyed by ModelSpec
+ *
+ * @remarks
+ * Models are given either as a `ModelSpec` or as a model string, which is
+ * parsed with `parseModelSpec()` against the configured default provider
+ * (so `'claude-sonnet-4-20250514'` and `'anthropic/claude-sonnet-4-20250514'`
+ * are the same entry).
+ *
+ * @public
+ */
+export class ModelCatalog {
+  private entries: Map<string, ModelCatalogEntry>;
+
+  /**
+   * @param initial - Initial entries keyed by `provider/model`
+   * (default: the built-in Anthropic prices)
+   */
+  constructor(private readonly initial: Readonly<Record<string, ModelCatalogEntry>> = DEFAULT_MODEL_CATALOG) {
+    this.entries = new Map(Object.entries(initial));
+  }
+
+  /**
+   * Add or replace the entry of a model
+   */
+  public set(model: string | ModelSpec, entry: ModelCatalogEntry): this {
+    this.entries.set(this.key(model), entry);
+    return this;
+  }
+
+  /**
+   * Entry of a model, or undefined when the model is not in the catalog
+   */
+  public get(model: string | ModelSpec): ModelCatalogEntry | undefined {
+    return this.entries.get(this.key(model));
+  }
+
+  /**
+   * Remove the entry of a model
+   * @returns true if an entry was removed
+   */
+  public delete(model: string | ModelSpec): boolean {
+    return this.entries.delete(this.key(model));
+  }
+
+  /**
+   * Cost of one call in USD, or undefined when the model is not in the catalog
+   */
+  public computeCost(model: string | ModelSpec, usage: TokenUsage): number | undefined {
+    const entry = this.get(model);
+    return entry ? computeTokenCost(entry, usage) : undefined;
+  }
+
+  /**
+   * Restore the entries the catalog was created with
+   */
+  public reset(): void {
+    this.entries = new Map(Object.entries(this.initial));
+  }
+
+  private key(model: string | ModelSpec): string {
+    const spec =
+      typeof model === 'string'
+        ? parseModelSpec(model, getGlobalHarnessConfig().defaultModelProvider)
+        : model;
+    return `${spec.provider}/${spec.model}`;
+  }
+}
+
+/**
+ * Default catalog used by agents
+ */
+export const defaultModelCatalog = new ModelCatalog();
+
+/**
+ * Cost of token usage in USD
+ *
+ * @remarks
+ * Cache reads and writes fall back to the input price when the pricing has
+ * no cache prices.
+ */
+export function computeTokenCost(
+  pricing: BudgetPricing & Partial<Pick<ModelCatalogEntry, 'cacheReadPerMillionTokens' | 'cacheWritePerMillionTokens'>>,
+  usage: TokenUsage
+): number {
+  const cacheRead = usage.cache_read_input_tokens ?? 0;
+  const cacheWrite = usage.cache_creation_input_tokens ?? 0;
+  return (
+    (usage.input_tokens * pricing.inputPerMillionTokens +
+      usage.output_tokens * pricing.outputPerMillionTokens +
+      cacheRead * (pricing.cacheReadPerMillionTokens ?? pricing.inputPerMillionTokens) +
+      cacheWrite * (pricing.cacheWritePerMillionTokens ?? pricing.inputPerMillionTokens)) /
+    1_000_000
+  );
+}
+
+/**
+ * Total cost of the agent calls in every subtree of a workflow tree
+ *
+ * @remarks
+ * Costs come from the `costUsd` of `agentPromptEnd` events. Each call is
+ * counted once, at the node it ran under (its step node), or at the node
+ * that recorded the event when that node is not part of the tree.
+ *
+ * @returns Map of node id to the cost of the node and all its descendants
+ */
+export function collectSubtreeCosts(root: WorkflowNode): Map<string, number> {
+  const own = new Map<string, number>();
+  const ids = new Set<string>();
+  // GOTCHA: step nodes keep a copy of the events their workflow records
+  const seen = new Set<WorkflowEvent>();
+  const visit = (node: WorkflowNode): void => {
+    ids.add(node.id);
+    node.children.forEach(visit);
+  };
+  visit(root);
+
+  const collect = (node: WorkflowNode): void => {
+    for (const event of node.events) {
+      if (event.type === 'agentPromptEnd' && event.costUsd !== undefined && !seen.has(event)) {
+        seen.add(event);
+        const id = ids.has(event.node.id) ? event.node.id : node.id;
+        own.set(id, (own.get(id) ?? 0) + event.costUsd);
+      }
+    }
+    node.children.forEach(collect);
+  };
+  collect(root);
+
+  const totals = new Map<string, number>();
+  const sum = (node: WorkflowNode): number => {
+    const total = node.children.reduce((acc, child) => acc + sum(child), own.get(node.id) ?? 0);
+    totals.set(node.id, total);
+    return total;
+  };
+  sum(root);
+  return totals;
+}
@@ -0,0 +1,329 @@
+/**
+ * Secret and PII redaction
+ *
+ * One redaction engine runs on everything that can leave the process: log
+ * entry data, event payloads, state snapshots (and with them
+ * `WorkflowError.state` and checkpoints) and serialized sessions. Configure
+ * it once at startup with configureRedaction().
+ *
+ * @module
+ */
+
+import type { RedactionConfig, RedactionFunction } from '../types/redaction.js';
+
+/**
+ * Keys redacted by default: API keys, tokens, secrets, passwords, credentials
+ * and auth headers, in camelCase, snake_case and SCREAMING_CASE
+ */
+export const DEFAULT_REDACTED_KEYS: ReadonlyArray<string | RegExp> = [
+  /api[_-]?key$/i,
+  /token$/i,
+  /secret/i,
+  /passw(or)?d/i,
+  /private[_-]?key/i,
+  /credentials?$/i,
+  'authorization',
+  'cookie',
+  'set-cookie',
+];
+
+/**
+ * Emails, e.g. `ada@example.com`
+ */
+export const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+/**
+ * Patterns redacted inside strings by default: provider API keys (`sk-...`),
+ * GitHub, Slack and AWS access keys, bearer tokens, JWTs and emails
+ */
+export const DEFAULT_REDACTION_PATTERNS: readonly RegExp[] = [
+  /\bsk-[A-Za-z0-9_-]{16,}/g,
+  /\bgh[pousr]_[A-Za-z0-9]{20,}/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bBearer\s+[A-Za-z0-9._~+/-]{8,}=*/g,
+  /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  EMAIL_PATTERN,
+];
+
+/** Secrets shorter than this are not registered (they would match ordinary text) */
+const MIN_SECRET_LENGTH = 8;
+
+/**
+ * Replaces secrets and PII in values
+ *
+ * @remarks
+ * Copy-on-write: objects and arrays are copied only when something in them
+ * is redacted, so values without secrets keep their identity. Plain objects,
+ * arrays and errors are walked; other class instances (dates, maps, buffers)
+ * and workflow nodes are left as they are. Redacting twice gives the same
+ * result as redacting once.
+ *
+ * @example
+ * ```ts
+ * const redactor = new Redactor({ keys: ['ssn'], patterns: [EMAIL_PATTERN] });
+ * redactor.redact({ ssn: '123-45-6789', note: 'mail ada@example.com' });
+ * // { ssn: '[REDACTED]', note: 'mail [REDACTED]' }
+ * ```
+ */
+export class Redactor {
+  private readonly enabled: boolean;
+  private readonly keyNames: Set<string>;
+  private readonly keyPatterns: RegExp[];
+  private readonly patterns: RegExp[];
+  private readonly functions: readonly RedactionFunction[];
+  private readonly replacement: string;
+  /** Literal secret values (see addSecret()) */
+  private readonly secrets = new Set<string>();
+
+  constructor(config: RedactionConfig = {}) {
+    const keys = config.keys ?? DEFAULT_REDACTED_KEYS;
+    this.enabled = config.enabled ?? true;
+    this.keyNames = new Set(keys.filter((key): key is string => typeof key === 'string').map((key) => key.toLowerCase()));
+    this.keyPatterns = keys.filter((key): key is RegExp => key instanceof RegExp);
+    // GOTCHA: replace() only replaces every match with the g flag
+    this.patterns = (config.patterns ?? DEFAULT_REDACTION_PATTERNS).map((pattern) =>
+      pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g')
+    );
+    this.functions = config.functions ?? [];
+    this.replacement = config.replacement ?? '[REDACTED]';
+  }
+
+  /**
+   * Redact a known secret value wherever it appears in strings
+   *
+   * Values shorter than 8 characters are ignored.
+   */
+  addSecret(secret: string | undefined): void {
+    if (secret !== undefined && secret.length >= MIN_SECRET_LENGTH) {
+      this.secrets.add(secret);
+    }
+  }
+
+  /**
+   * Whether values under this key are redacted
+   */
+  isRedactedKey(key: string): boolean {
+    return this.keyNames.has(key.toLowerCase()) || this.keyPatterns.some((pattern) => pattern.test(key));
+  }
+
+  /**
+   * Redact secrets and patterns in a string
+   */
+  redactString(value: string): string {
+    if (!this.enabled) {
+      return value;
+    }
+    let result = value;
+    for (const secret of this.secrets) {
+      result = result.split(secret).join(this.replacement);
+    }
+    for (const pattern of this.patterns) {
+      result = result.replace(pattern, this.replacement);
+    }
+    return result;
+  }
+
+  /**
+   * Redact a value
+   *
+   * @returns The value with secrets replaced (the same value when nothing was redacted)
+   */
+  redact<T>(value: T): T {
+    if (!this.enabled) {
+      return value;
+    }
+    return this.walk(value, [], new Map()) as T;
+  }
+
+  private walk(value: unknown, path: string[], seen: Map<object, unknown>): unknown {
+    if (isWorkflowNode(value)) {
+      return value;
+    }
+    for (const fn of this.functions) {
+      const replaced = fn(value, path);
+      if (replaced !== undefined) {
+        return replaced;
+      }
+    }
+
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    // Shared objects are redacted once; a circular reference keeps pointing at the original
+    if (seen.has(value)) {
+      return seen.get(value);
+    }
+    seen.set(value, value);
+    const redacted = this.walkObject(value, path, seen);
+    seen.set(value, redacted);
+    return redacted;
+  }
+
+  private walkObject(value: object, path: string[], seen: Map<object, unknown>): unknown {
+    if (Array.isArray(value)) {
+      let copy: unknown[] | undefined;
+      value.forEach((item, index) => {
+        const redacted = this.walk(item, [...path, String(index)], seen);
+        if (redacted !== item) {
+          copy ??= [...value];
+          copy[index] = redacted;
+        }
+      });
+      return copy ?? value;
+    }
+
+    if (value instanceof Error) {
+      return this.walkError(value, path, seen);
+    }
+
+    const proto = Object.getPrototypeOf(value);
+    if (proto !== Object.prototype && proto !== null) {
+      return value;
+    }
+
+    let copy: Record<string, unknown> | undefined;
+    for (const [key, item] of Object.entries(value)) {
+      const redacted = this.walkField(key, item, path, seen);
+      if (redacted !== item) {
+        copy ??= { ...(value as Record<string, unknown>) };
+        copy[key] = redacted;
+      }
+    }
+    return copy ?? value;
+  }
+
+  private walkField(key: string, item: unknown, path: string[], seen: Map<object, unknown>): unknown {
+    // GOTCHA: '***' is the @ObservedState({ redact: true }) placeholder, already masked
+    if (this.isRedactedKey(key) && item !== undefined && item !== null && item !== '' && item !== '***') {
+      return this.replacement;
+    }
+    return this.walk(item, [...path, key], seen);
+  }
+
+  /**
+   * Redact an error's message, stack and own fields (e.g. `cause`, `code`, `state`)
+   *
+   * GOTCHA: The copy keeps the prototype, so `instanceof` checks still hold.
+   */
+  private walkError(error: Error, path: string[], seen: Map<object, unknown>): Error {
+    const changes: Record<string, unknown> = {};
+    for (const key of ['message', 'stack', ...Object.keys(error)]) {
+      const item = (error as unknown as Record<string, unknown>)[key];
+      const redacted = this.walkField(key, item, path, seen);
+      if (redacted !== item) {
+        changes[key] = redacted;
+      }
+    }
+    if (Object.keys(changes).length === 0) {
+      return error;
+    }
+
+    const copy = Object.create(Object.getPrototypeOf(error)) as Error;
+    Object.defineProperties(copy, Object.getOwnPropertyDescriptors(error));
+    for (const [key, redacted] of Object.entries(changes)) {
+      // V8 keeps `stack` as an accessor bound to the original, so fields are redefined as data
+      const enumerable = Object.getOwnPropertyDescriptor(error, key)?.enumerable ?? false;
+      Object.defineProperty(copy, key, { value: redacted, writable: true, configurable: true, enumerable });
+    }
+    return copy;
+  }
+}
+
+/**
+ * Workflow nodes are walked by their own serializers (they hold the whole tree)
+ */
+function isWorkflowNode(value: unknown): boolean {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'children' in value &&
+    'logs' in value &&
+    'events' in value &&
+    'stateSnapshot' in value
+  );
+}
+
+/**
+ * Module-private redactor used by workflows, loggers and serializers.
+ * @internal
+ */
+let activeRedactor = new Redactor();
+
+/**
+ * Secrets registered with registerSecret(), kept across configureRedaction() calls.
+ * @internal
+ */
+const registeredSecrets = new Set<string>();
+
+/**
+ * Configure the redaction applied to logs, events, snapshots and sessions
+ *
+ * Should be called once at application startup. Replaces the previous
+ * configuration; secrets registered with registerSecret() are kept.
+ *
+ * @example
+ * ```ts
+ * import { configureRedaction, DEFAULT_REDACTED_KEYS, DEFAULT_REDACTION_PATTERNS } from 'groundswell';
+ *
+ * configureRedaction({
+ *   keys: [...DEFAULT_REDACTED_KEYS, 'ssn'],
+ *   patterns: [...DEFAULT_REDACTION_PATTERNS, /\b\d{3}-\d{2}-\d{4}\b/g],
+ *   functions: [(value, path) => (path.at(-1) === 'phone' ? '[PHONE]' : undefined)],
+ * });
+ * ```
+ */
+export function configureRedaction(config: RedactionConfig): void {
+  activeRedactor = new Redactor(config);
+  for (const secret of registeredSecrets) {
+    activeRedactor.addSecret(secret);
+  }
+}
+
+/**
+ * Restore the default redaction configuration and forget registered secrets
+ */
+export function resetRedaction(): void {
+  activeRedactor = new Redactor();
+  registeredSecrets.clear();
+}
+
+/**
+ * Redact a known secret value (e.g. an API key) wherever it appears in strings
+ *
+ * Agents register their `harnessOptions.apiKey` and the values of `env`
+ * variables whose names look secret, so those values are redacted even in
+ * error messages and free text.
+ */
+export function registerSecret(secret: string | undefined): void {
+  if (secret !== undefined && secret.length >= MIN_SECRET_LENGTH) {
+    registeredSecrets.add(secret);
+  }
+  activeRedactor.addSecret(secret);
+}
+
+/**
+ * Redact a value with the configured rules
+ *
+ * @returns The value with secrets replaced (the same value when nothing was redacted)
+ */
+export function redact<T>(value: T): T {
+  return activeRedactor.redact(value);
+}
+
+/**
+ * Redact a string with the configured patterns and registered secrets
+ */
+export function redactString(value: string): string {
+  return activeRedactor.redactString(value);
+}
+
+/**
+ * Whether values under this key are redacted by the configured rules
+ */
+export function isRedactedKey(key: string): boolean {
+  return activeRedactor.isRedactedKey(key);
+}
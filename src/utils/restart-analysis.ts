@@ -44,7 +44,7 @@ const TRANSIENT_ERROR_CODES = [
  * array includes() which is O(n). This is important for hot paths
  * in retry logic.
  */
-const TRANSIENT_ERROR_SET = new Set(TRANSIENT_ERROR_CODES);
+const TRANSIENT_ERROR_SET: ReadonlySet<string> = new Set(TRANSIENT_ERROR_CODES);
 
 /**
  * Check if an error is a transient (temporary) error
@@ -54,8 +54,8 @@ const TRANSIENT_ERROR_SET = new Set(TRANSIENT_ERROR_CODES);
  * probability of success.
  *
  * **Detection Strategy:**
- * 1. Check error.message against transient error codes (most reliable)
- * 2. WorkflowError doesn't have a 'code' property, so message is used as fallback
+ * 1. Check error.code against transient error codes (most reliable)
+ * 2. Fall back to error.message for errors created without a code
  *
  * @param error - The WorkflowError to analyze
  * @returns `true` if the error is transient and should be retried
@@ -76,15 +76,22 @@ const TRANSIENT_ERROR_SET = new Set(TRANSIENT_ERROR_CODES);
  * ```
  *
  * @remarks
- * **Gotcha:** WorkflowError interface doesn't have a 'code' property,
- * so this function uses error.message as fallback. This is consistent
- * with the pattern used in src/decorators/step.ts:48.
+ * **Gotcha:** `code` is optional on WorkflowError, so error.message is
+ * still checked. This is consistent with the pattern used in
+ * src/decorators/step.ts.
  */
 function isTransientError(error: WorkflowError): boolean {
-  // GOTCHA: WorkflowError doesn't have 'code' property
-  // Use error.message as fallback (consistent with step decorator pattern)
-  const errorCode = error.message;
-  return TRANSIENT_ERROR_CODES.includes(errorCode as any);
+  // GOTCHA: code is optional - message remains a valid code carrier
+  return getErrorCodes(error).some((code) => TRANSIENT_ERROR_SET.has(code));
+}
+
+/**
+ * Get the values a WorkflowError can be matched against as an error code
+ *
+ * @returns error.code (when set) followed by error.message
+ */
+function getErrorCodes(error: WorkflowError): string[] {
+  return error.code !== undefined ? [error.code, error.message] : [error.message];
 }
 
 /**
@@ -156,7 +163,7 @@ function isTransientError(error: WorkflowError): boolean {
  * 'code' in func // true! (TypeScript would incorrectly narrow type)
  * ```
  */
-function matchesCriterion(error: WorkflowError, criterion: ErrorCriterion): boolean {
+export function matchesCriterion(error: WorkflowError, criterion: ErrorCriterion): boolean {
   // CRITICAL: Check typeof first for function type narrowing
   // Functions can have properties, breaking discriminant checks
   if (typeof criterion === 'function') {
@@ -165,12 +172,12 @@ function matchesCriterion(error: WorkflowError, criterion: ErrorCriterion): bool
 
   // Object type checks (type narrowing works after typeof check)
   if ('code' in criterion) {
-    // GOTCHA: Use error.message as fallback for error.code
-    // WorkflowError doesn't have a code property (step.ts:48 pattern)
-    const errorCode = error.message;
-    return typeof criterion.code === 'string'
-      ? errorCode === criterion.code
-      : criterion.code.test(errorCode);
+    // GOTCHA: Match error.code and fall back to error.message (step.ts pattern)
+    return getErrorCodes(error).some((errorCode) =>
+      typeof criterion.code === 'string'
+        ? errorCode === criterion.code
+        : criterion.code.test(errorCode)
+    );
   }
 
   if ('recoverable' in criterion) {
@@ -367,7 +374,7 @@ function estimateSuccessProbability(error: WorkflowError): number {
  * for matching criteria against errors.
  *
  * **Gotchas:**
- * - WorkflowError doesn't have a 'code' property - uses message as fallback
+ * - WorkflowError.code is optional - message is matched as well
  * - Always check `typeof criterion === 'function'` FIRST for type safety
  * - Check error.original?.recoverable for recoverable flag
  *
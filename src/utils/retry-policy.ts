@@ -0,0 +1,182 @@
+/**
+ * Retry delay computation for restartable steps
+ *
+ * @module
+ * @remarks
+ * Turns a step's `retryDelayMs` / `retryPolicy` into the delay before the
+ * next attempt. A retry-after hint carried by the error (for example a
+ * rate-limited provider call) takes precedence over the computed backoff.
+ */
+
+import type { RetryDelayReason, StepOptions } from '../types/decorators.js';
+
+/** Default delay before the first retry */
+const DEFAULT_INITIAL_DELAY_MS = 1000;
+
+/** Default upper bound for backoff delays */
+const DEFAULT_MAX_DELAY_MS = 30_000;
+
+/** How far down the `original` / `cause` chain retry-after hints are searched */
+const MAX_HINT_DEPTH = 5;
+
+/**
+ * Delay chosen before a retry attempt
+ */
+export interface RetryDelay {
+  /** Milliseconds to wait before the next attempt */
+  delayMs: number;
+  /** Where the delay came from */
+  reason: RetryDelayReason;
+}
+
+type HintSource = Record<string, unknown>;
+
+function isObject(value: unknown): value is HintSource {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Parse a Retry-After value: seconds (number or numeric string) or an HTTP date
+ */
+function parseRetryAfter(value: unknown, now: number): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value * 1000 : undefined;
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return parseRetryAfter(seconds, now);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Read a retry-after header from a Headers instance or a plain header record
+ */
+function readHeader(headers: unknown): unknown {
+  if (!isObject(headers)) {
+    return undefined;
+  }
+  if (typeof headers.get === 'function') {
+    return (headers.get as (name: string) => unknown).call(headers, 'retry-after') ?? undefined;
+  }
+  const key = Object.keys(headers).find((name) => name.toLowerCase() === 'retry-after');
+  return key ? headers[key] : undefined;
+}
+
+function readHint(source: HintSource, now: number): number | undefined {
+  const retryAfterMs = source.retryAfterMs;
+  if (typeof retryAfterMs === 'number' && Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+  return parseRetryAfter(source.retryAfter, now) ?? parseRetryAfter(readHeader(source.headers), now);
+}
+
+/**
+ * Find a retry-after hint on an error
+ *
+ * Looks at the error itself and down its `original` / `cause` chain, and at
+ * each level also at `details` (AgentErrorDetails), `error.details` (an
+ * error AgentResponse) and `response` (HTTP client errors). Recognized hints:
+ * - `retryAfterMs`: milliseconds
+ * - `retryAfter`: seconds, or an HTTP date string
+ * - `headers['retry-after']` (plain record or `Headers`): seconds or HTTP date
+ *
+ * @param error - WorkflowError, thrown error or agent error details
+ * @param now - Current time, used to resolve HTTP dates
+ * @returns Hinted delay in milliseconds, or undefined when there is none
+ *
+ * @example
+ * ```ts
+ * getRetryAfterMs({ code: 'RATE_LIMIT', details: { retryAfter: 2 } }); // 2000
+ * ```
+ */
+export function getRetryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+  let current: unknown = error;
+  for (let depth = 0; depth < MAX_HINT_DEPTH && isObject(current); depth++) {
+    const nested = current.error;
+    const sources = [
+      current,
+      current.details,
+      isObject(nested) ? nested.details : undefined,
+      current.response,
+    ];
+    for (const source of sources) {
+      const hint = isObject(source) ? readHint(source, now) : undefined;
+      if (hint !== undefined) {
+        return hint;
+      }
+    }
+    current = current.original ?? current.cause;
+  }
+  return undefined;
+}
+
+/**
+ * Compute the delay before a retry attempt
+ *
+ * Without a `retryPolicy` the delay is the step's fixed `retryDelayMs`
+ * (default 1000ms). With a policy, the backoff delay is capped at
+ * `maxDelayMs` and then jittered. In both cases a retry-after hint on the
+ * error wins unless the policy sets `respectRetryAfter: false`; hints are
+ * capped at `maxRetryAfterMs` (default 30000ms) so a
+ * server cannot stall a step indefinitely.
+ *
+ * @param options - The step's retry options
+ * @param attempt - 1-based number of the retry about to happen
+ * @param error - The failure being retried
+ * @param random - Random source in [0, 1), injectable for tests
+ * @returns Delay and the reason it was chosen
+ */
+export function computeRetryDelay(
+  options: Pick<StepOptions, 'retryDelayMs' | 'retryPolicy'>,
+  attempt: number,
+  error: unknown,
+  random: () => number = Math.random
+): RetryDelay {
+  const policy = options.retryPolicy;
+
+  if (policy?.respectRetryAfter !== false) {
+    const retryAfterMs = getRetryAfterMs(error);
+    if (retryAfterMs !== undefined) {
+      const maxRetryAfterMs = policy?.maxRetryAfterMs ?? DEFAULT_MAX_DELAY_MS;
+      return { delayMs: Math.min(Math.ceil(retryAfterMs), maxRetryAfterMs), reason: 'retry-after' };
+    }
+  }
+
+  if (!policy) {
+    return { delayMs: options.retryDelayMs ?? DEFAULT_INITIAL_DELAY_MS, reason: 'fixed' };
+  }
+
+  const initial = policy.initialDelayMs ?? options.retryDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+  const step = Math.max(1, attempt);
+  let delayMs: number;
+  switch (policy.backoff ?? 'exponential') {
+    case 'fixed':
+      delayMs = initial;
+      break;
+    case 'linear':
+      delayMs = initial * step;
+      break;
+    case 'exponential':
+      delayMs = initial * Math.pow(policy.multiplier ?? 2, step - 1);
+      break;
+  }
+  delayMs = Math.min(delayMs, policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS);
+
+  switch (policy.jitter ?? 'none') {
+    case 'full':
+      delayMs = random() * delayMs;
+      break;
+    case 'equal':
+      delayMs = delayMs / 2 + random() * (delayMs / 2);
+      break;
+    case 'none':
+      break;
+  }
+
+  return { delayMs: Math.round(delayMs), reason: 'backoff' };
+}
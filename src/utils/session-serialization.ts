@@ -24,6 +24,7 @@
  */
 
 import type { SessionState } from "../types/providers.js";
+import { redact } from "./redaction.js";
 
 /**
  * Error thrown when session serialization fails
@@ -52,6 +53,21 @@ export class SessionSerializationError extends Error {
   }
 }
 
+/**
+ * Options for serializeSession()
+ *
+ * @public
+ */
+export interface SerializeSessionOptions {
+  /**
+   * Apply the configured redaction rules before serializing (default: false)
+   *
+   * GOTCHA: A redacted session is lossy: resuming it replays the placeholder
+   * text to the model. Only redact sessions that are exported, not persisted.
+   */
+  redact?: boolean;
+}
+
 /**
  * Creates a custom replacer function for JSON.stringify
  *
@@ -144,7 +160,8 @@ function isValidSessionState(value: unknown): value is SessionState {
  * @remarks
  * Converts a SessionState object to a JSON string with special handling
  * for non-serializable values and circular references. The resulting JSON
- * is pretty-printed with 2-space indentation for readability.
+ * is pretty-printed with 2-space indentation for readability. The output is
+ * lossless unless `options.redact` is set (see configureRedaction()).
  *
  * Handles edge cases from SDK message types:
  * - `SDKUserMessage.tool_use_result` (unknown type)
@@ -155,6 +172,7 @@ function isValidSessionState(value: unknown): value is SessionState {
  * with contextual information about the failure.
  *
  * @param state - The session state to serialize
+ * @param options - Serialization options
  * @returns JSON string representation of the session
  * @throws {SessionSerializationError} If serialization fails
  *
@@ -175,11 +193,11 @@ function isValidSessionState(value: unknown): value is SessionState {
  * expect(restored).toEqual(state);
  * ```
  */
-export function serializeSession(state: SessionState): string {
+export function serializeSession(state: SessionState, options?: SerializeSessionOptions): string {
   try {
     const replacer = createReplacer();
     // Pretty-print with 2-space indentation (matches session-store.ts pattern)
-    return JSON.stringify(state, replacer, 2);
+    return JSON.stringify(options?.redact ? redact(state) : state, replacer, 2);
   } catch (error) {
     throw new SessionSerializationError(
       `Failed to serialize session: ${error instanceof Error ? error.message : "Unknown error"}`,
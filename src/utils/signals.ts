@@ -0,0 +1,51 @@
+/**
+ * External signal utilities
+ *
+ * @module
+ * @remarks
+ * A workflow suspends in waitForSignal()/requestApproval() until
+ * `workflow.sendSignal(name, payload)` delivers a payload from outside.
+ * Payloads are validated with the Zod schema the waiting step provided.
+ */
+
+import { z } from 'zod';
+import type { ApprovalDecision } from '../types/workflow-context.js';
+
+/**
+ * Error raised when a signal payload does not match the waiting step's schema
+ *
+ * @remarks
+ * Thrown to the sender by `sendSignal()` when a step is already waiting
+ * (the step keeps waiting), or by `waitForSignal()` when the invalid payload
+ * was sent before the step started waiting.
+ *
+ * @public
+ */
+export class SignalValidationError extends Error {
+  /** Stable error code */
+  public readonly code = 'INVALID_SIGNAL' as const;
+
+  /** The sender can retry with a valid payload */
+  public readonly recoverable = true;
+
+  /**
+   * @param signal - Name of the signal
+   * @param issues - Zod validation error for the payload
+   */
+  constructor(
+    public readonly signal: string,
+    public readonly issues: z.ZodError
+  ) {
+    super(`Invalid payload for signal '${signal}': ${issues.message}`);
+    this.name = 'SignalValidationError';
+  }
+}
+
+/**
+ * Schema for decisions sent to requestApproval()
+ */
+export const ApprovalDecisionSchema: z.ZodType<ApprovalDecision> = z.object({
+  approved: z.boolean(),
+  comment: z.string().optional(),
+  approver: z.string().optional(),
+});
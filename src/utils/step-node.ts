@@ -0,0 +1,21 @@
+/**
+ * Step node detection
+ *
+ * @module
+ * @remarks
+ * `ctx.step()` creates a node for each step attempt (named after the step,
+ * retries as `name (retry N)`), while `@Step` reports its events on the
+ * workflow's own node. Exporters use this to tell the two apart.
+ */
+
+import type { WorkflowEvent } from '../types/index.js';
+
+/**
+ * Whether a stepStart event reports on a node created for the step
+ */
+export function isStepNodeStart(event: Extract<WorkflowEvent, { type: 'stepStart' }>): boolean {
+  return (
+    event.node.parent !== null &&
+    (event.node.name === event.step || event.node.name.startsWith(`${event.step} (retry `))
+  );
+}
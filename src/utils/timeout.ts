@@ -0,0 +1,153 @@
+/**
+ * Step timeout and workflow deadline utilities
+ *
+ * @module
+ * @remarks
+ * A step runs under its own AbortSignal that fires when the workflow is
+ * cancelled, when the step's `timeoutMs` elapses or when the workflow
+ * deadline passes, whichever comes first. The signal's reason is a
+ * WorkflowTimeoutError for the latter two, so agents and harnesses running
+ * inside the step can tell a timeout apart from a cancellation.
+ */
+
+/**
+ * Error raised when a step exceeds its timeout or the workflow deadline
+ *
+ * @remarks
+ * `code` is always `'TIMEOUT'`, which `analyzeErrorForRestart` classifies
+ * as transient and `retryOn: [{ code: 'TIMEOUT' }]` matches. A step timeout
+ * is recoverable; an exceeded deadline is not, because retrying cannot
+ * succeed once the deadline has passed.
+ *
+ * @public
+ */
+export class WorkflowTimeoutError extends Error {
+  /** Stable error code */
+  public readonly code = 'TIMEOUT' as const;
+
+  /** Whether retrying can help (false once the deadline has passed) */
+  public readonly recoverable: boolean;
+
+  /**
+   * @param message - Human-readable description
+   * @param timeoutMs - Time budget that was exceeded, in milliseconds
+   * @param deadlineExceeded - True when the workflow deadline (not a step timeout) fired
+   */
+  constructor(
+    message: string,
+    public readonly timeoutMs: number,
+    public readonly deadlineExceeded: boolean = false
+  ) {
+    super(message);
+    this.name = 'WorkflowTimeoutError';
+    this.recoverable = !deadlineExceeded;
+  }
+}
+
+/**
+ * Check whether a value is a timeout error
+ *
+ * Matches WorkflowTimeoutError instances and any error-like object carrying
+ * `code: 'TIMEOUT'` (including WorkflowErrors wrapping one).
+ */
+export function isTimeoutError(error: unknown): boolean {
+  if (error instanceof WorkflowTimeoutError) {
+    return true;
+  }
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+  if ((error as { code?: unknown }).code === 'TIMEOUT') {
+    return true;
+  }
+  const original = (error as { original?: unknown }).original;
+  return original !== undefined && original !== error && isTimeoutError(original);
+}
+
+/**
+ * Resolve the earliest of several absolute deadlines
+ *
+ * @param deadlines - Epoch milliseconds (undefined entries are ignored)
+ * @returns The earliest deadline, or undefined when none is set
+ */
+export function resolveDeadline(...deadlines: (number | undefined)[]): number | undefined {
+  let earliest: number | undefined;
+  for (const deadline of deadlines) {
+    if (deadline !== undefined && (earliest === undefined || deadline < earliest)) {
+      earliest = deadline;
+    }
+  }
+  return earliest;
+}
+
+/**
+ * Handle returned by startTimeLimit()
+ */
+export interface TimeLimit {
+  /** Signal for the limited work (the parent signal when no time limit applies) */
+  signal: AbortSignal | undefined;
+  /** Effective deadline (epoch ms), passed down to nested work */
+  deadline: number | undefined;
+  /** Clear the timer and detach from the parent signal */
+  dispose(): void;
+}
+
+/**
+ * Start the time limit for a step attempt or workflow run
+ *
+ * @param label - Subject of the timeout message (e.g. "Step 'fetch'")
+ * @param options.signal - Workflow signal; its abort is forwarded to the returned signal
+ * @param options.timeoutMs - Relative timeout
+ * @param options.deadline - Absolute workflow deadline (epoch ms)
+ * @returns Time limit whose signal aborts with a WorkflowTimeoutError when time runs out
+ */
+export function startTimeLimit(
+  label: string,
+  options: { signal?: AbortSignal; timeoutMs?: number; deadline?: number }
+): TimeLimit {
+  const { signal: parent, timeoutMs, deadline } = options;
+  const now = Date.now();
+  const stepDeadline = timeoutMs !== undefined ? now + timeoutMs : undefined;
+  const effective = resolveDeadline(stepDeadline, deadline);
+
+  if (effective === undefined) {
+    return { signal: parent, deadline: undefined, dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent!.reason);
+  if (parent?.aborted) {
+    onParentAbort();
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  // GOTCHA: The deadline wins ties so an exhausted workflow is never retried
+  const deadlineFires = deadline !== undefined && deadline <= (stepDeadline ?? Infinity);
+  const error = deadlineFires
+    ? new WorkflowTimeoutError(
+        `${label} exceeded the workflow deadline`,
+        Math.max(0, deadline! - now),
+        true
+      )
+    : new WorkflowTimeoutError(`${label} timed out after ${timeoutMs}ms`, timeoutMs!);
+
+  const remaining = effective - now;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  if (remaining <= 0) {
+    controller.abort(error);
+  } else {
+    timer = setTimeout(() => controller.abort(error), remaining);
+  }
+
+  return {
+    signal: controller.signal,
+    deadline: effective,
+    dispose: () => {
+      if (timer !== undefined) {
+        clearTimeout(timer);
+      }
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Workflow node tree serialization
+ *
+ * @module
+ * @remarks
+ * WorkflowNode trees contain parent back-references and live event objects,
+ * so they cannot be passed to JSON.stringify directly. These helpers convert
+ * a tree to a plain nested structure and back.
+ */
+
+import type { WorkflowNode, SerializedWorkflowNode } from '../types/workflow.js';
+
+/**
+ * Convert a node subtree into a JSON-safe structure
+ *
+ * @param node - Root of the subtree to serialize
+ * @returns Nested structure without parent references or events
+ */
+export function serializeWorkflowNode(node: WorkflowNode): SerializedWorkflowNode {
+  return {
+    id: node.id,
+    name: node.name,
+    status: node.status,
+    logs: [...node.logs],
+    stateSnapshot: node.stateSnapshot,
+    children: node.children.map(serializeWorkflowNode),
+  };
+}
+
+/**
+ * Rebuild a WorkflowNode subtree from its serialized form
+ *
+ * Parent references are restored from nesting; events start empty.
+ *
+ * @param data - Serialized subtree
+ * @param parent - Parent to attach the rebuilt root to (default: null)
+ * @returns The rebuilt node
+ */
+export function deserializeWorkflowNode(
+  data: SerializedWorkflowNode,
+  parent: WorkflowNode | null = null
+): WorkflowNode {
+  const node: WorkflowNode = {
+    id: data.id,
+    name: data.name,
+    parent,
+    children: [],
+    status: data.status,
+    logs: [...(data.logs ?? [])],
+    events: [],
+    stateSnapshot: data.stateSnapshot ?? null,
+  };
+  node.children = (data.children ?? []).map((child) => deserializeWorkflowNode(child, node));
+  return node;
+}
@@ -54,3 +54,22 @@ export function mergeWorkflowErrors(
 
   return mergedError;
 }
+
+/**
+ * Extract a machine-readable code from a thrown value
+ *
+ * Used to populate WorkflowError.code so retry criteria and restart analysis
+ * can match on it (e.g. 'TIMEOUT' from a WorkflowTimeoutError).
+ *
+ * @param error - Thrown value
+ * @returns The value's string `code` property, or undefined
+ */
+export function getErrorCode(error: unknown): string | undefined {
+  if (typeof error === 'object' && error !== null) {
+    const code = (error as { code?: unknown }).code;
+    if (typeof code === 'string') {
+      return code;
+    }
+  }
+  return undefined;
+}